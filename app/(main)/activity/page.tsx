@@ -1,6 +1,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import LikedPostGrid from "@/components/activity/LikedPostGrid";
+import CollaborationInvitations from "@/components/activity/CollaborationInvitations";
 
 export default async function ActivityPage() {
   const { userId } = await auth();
@@ -12,6 +13,7 @@ export default async function ActivityPage() {
   return (
     <div className="min-h-screen bg-[var(--instagram-background)] dark:bg-[var(--background)]">
       <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <CollaborationInvitations />
         <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
           좋아요한 게시물
         </h1>
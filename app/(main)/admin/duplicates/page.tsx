@@ -0,0 +1,44 @@
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import { isAdminClerkId } from "@/lib/utils/admin";
+import DuplicateMatchList from "@/components/admin/DuplicateMatchList";
+
+/**
+ * @file page.tsx
+ * @description 중복/재업로드 이미지 감지 기록 페이지 (관리자 전용)
+ *
+ * 주요 기능:
+ * - 다른 사용자의 게시물과 비슷한 이미지를 올린 기록 (차단 / 게시 허용)
+ * - 관리자가 아니면 404
+ *
+ * @dependencies
+ * - components/admin/DuplicateMatchList: 감지 기록 목록
+ */
+
+export default async function DuplicateMatchesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in?redirect_url=/admin/duplicates");
+  }
+
+  if (!isAdminClerkId(userId)) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--instagram-background)] dark:bg-[var(--background)]">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+            중복 이미지 감지 기록
+          </h1>
+          <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+            거의 같은 이미지는 업로드를 차단하고, 비슷한 이미지는 게시를 허용한 뒤 기록합니다.
+          </p>
+        </div>
+        <DuplicateMatchList />
+      </div>
+    </div>
+  );
+}
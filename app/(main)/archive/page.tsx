@@ -0,0 +1,39 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import ArchivedPostGrid from "@/components/archive/ArchivedPostGrid";
+
+/**
+ * @file page.tsx
+ * @description 보관함 페이지
+ *
+ * 주요 기능:
+ * - 내가 보관한 게시물 목록 (본인만 볼 수 있음)
+ * - 보관한 게시물 복원
+ *
+ * @dependencies
+ * - components/archive/ArchivedPostGrid: 보관한 게시물 그리드
+ */
+
+export default async function ArchivePage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in?redirect_url=/archive");
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--instagram-background)] dark:bg-[var(--background)]">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+            보관함
+          </h1>
+          <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+            보관한 게시물은 나만 볼 수 있으며, 좋아요와 댓글은 그대로 유지됩니다.
+          </p>
+        </div>
+        <ArchivedPostGrid />
+      </div>
+    </div>
+  );
+}
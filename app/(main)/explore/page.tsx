@@ -0,0 +1,48 @@
+import TrendingHashtags from "@/components/explore/TrendingHashtags";
+import ExploreGrid from "@/components/explore/ExploreGrid";
+import HashtagPostGrid from "@/components/search/HashtagPostGrid";
+
+/**
+ * @file page.tsx
+ * @description 탐색 페이지
+ *
+ * 주요 기능:
+ * - 인기 해시태그 목록 (가로 스크롤)
+ * - 팔로우하지 않은 계정의 인기 게시물 그리드 (크기가 섞인 그리드)
+ * - URL 파라미터: tag (선택한 인기 해시태그, 있으면 해당 해시태그 게시물 표시)
+ *
+ * @dependencies
+ * - components/explore/TrendingHashtags: 인기 해시태그 목록
+ * - components/explore/ExploreGrid: 인기 게시물 그리드
+ * - components/search/HashtagPostGrid: 해시태그 게시물 그리드
+ */
+
+interface ExplorePageProps {
+  searchParams: Promise<{ tag?: string }>;
+}
+
+export default async function ExplorePage({ searchParams }: ExplorePageProps) {
+  const { tag } = await searchParams;
+  const selectedTag = tag ? tag.trim().replace(/^#+/, "").toLowerCase() || null : null;
+
+  return (
+    <div className="min-h-screen bg-[var(--instagram-background)] dark:bg-[var(--background)]">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+          탐색
+        </h1>
+        <TrendingHashtags selectedTag={selectedTag} />
+        {selectedTag ? (
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+              #{selectedTag} 게시물
+            </h2>
+            <HashtagPostGrid hashtag={selectedTag} />
+          </div>
+        ) : (
+          <ExploreGrid />
+        )}
+      </div>
+    </div>
+  );
+}
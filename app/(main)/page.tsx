@@ -1,4 +1,4 @@
-import PostFeed from "@/components/post/PostFeed";
+import HomeFeedTabs from "@/components/post/HomeFeedTabs";
 
 /**
  * @file page.tsx
@@ -6,18 +6,19 @@ import PostFeed from "@/components/post/PostFeed";
  *
  * 주요 기능:
  * - 게시물 목록 표시
+ * - 추천 / 팔로잉 피드 전환 (로그인한 경우)
  * - 배경색: #FAFAFA
  * - PostCard 최대 너비 630px, 중앙 정렬
  *
  * @dependencies
- * - components/post/PostFeed: 게시물 피드 컴포넌트
+ * - components/post/HomeFeedTabs: 피드 전환 탭 + 게시물 피드
  */
 
 export default function HomePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-[var(--instagram-background)] via-purple-50 to-violet-50 dark:from-[var(--background)] dark:via-purple-950/20 dark:to-violet-950/20 py-4 md:py-8">
       <div className="max-w-[630px] mx-auto px-0 md:px-4">
-        <PostFeed />
+        <HomeFeedTabs />
       </div>
     </div>
   );
@@ -0,0 +1,35 @@
+import PlaceHeader from "@/components/place/PlaceHeader";
+import PlacePostGrid from "@/components/place/PlacePostGrid";
+
+/**
+ * @file page.tsx
+ * @description 장소 페이지
+ *
+ * 주요 기능:
+ * - 장소 정보 표시 (이름, 주소, 게시물 수)
+ * - 해당 장소에 태그된 게시물 그리드 표시
+ * - URL 파라미터: placeId (places.id)
+ *
+ * @dependencies
+ * - components/place/PlaceHeader: 장소 헤더 컴포넌트
+ * - components/place/PlacePostGrid: 장소 게시물 그리드 컴포넌트
+ */
+
+interface PlacePageProps {
+  params: Promise<{ placeId: string }>;
+}
+
+export default async function PlacePage({ params }: PlacePageProps) {
+  const { placeId } = await params;
+
+  return (
+    <div className="min-h-screen bg-[var(--instagram-background)] dark:bg-[var(--background)]">
+      <div className="max-w-4xl mx-auto">
+        <PlaceHeader placeId={placeId} />
+        <div className="px-4 py-8">
+          <PlacePostGrid placeId={placeId} />
+        </div>
+      </div>
+    </div>
+  );
+}
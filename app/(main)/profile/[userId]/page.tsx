@@ -1,5 +1,5 @@
 import ProfileHeader from "@/components/profile/ProfileHeader";
-import PostGrid from "@/components/profile/PostGrid";
+import ProfileTabs from "@/components/profile/ProfileTabs";
 
 /**
  * @file page.tsx
@@ -7,12 +7,12 @@ import PostGrid from "@/components/profile/PostGrid";
  *
  * 주요 기능:
  * - 사용자 프로필 정보 표시
- * - 사용자 게시물 그리드 표시
+ * - 사용자 게시물 그리드 표시 (게시물 / 태그됨 탭)
  * - URL 파라미터: userId (Clerk ID)
  *
  * @dependencies
  * - components/profile/ProfileHeader: 프로필 헤더 컴포넌트
- * - components/profile/PostGrid: 게시물 그리드 컴포넌트
+ * - components/profile/ProfileTabs: 게시물/태그됨 탭 및 그리드
  */
 
 interface ProfilePageProps {
@@ -27,7 +27,7 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
       <div className="max-w-4xl mx-auto">
         <ProfileHeader userId={userId} />
         <div className="px-4 py-8">
-          <PostGrid userId={userId} />
+          <ProfileTabs userId={userId} />
         </div>
       </div>
     </div>
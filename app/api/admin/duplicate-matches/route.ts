@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { isAdminClerkId } from "@/lib/utils/admin";
+import { buildCursorFilter, parseCursorParam, toCursorPage } from "@/lib/utils/pagination";
+
+/**
+ * @file route.ts
+ * @description 중복/재업로드 이미지 감지 기록 API (관리자 전용)
+ *
+ * GET: 감지 기록 목록 (최신순, 20개씩)
+ * - action: blocked(업로드 차단) / flagged(게시 허용, 기록만)
+ * - 업로더, 새 게시물(차단이면 null), 원본 게시물과 작성자, 해밍 거리 포함
+ * - action 쿼리로 필터 (선택)
+ * - 커서 페이지네이션 (cursor로 다음 페이지 요청, 응답의 nextCursor 사용)
+ * - ADMIN_CLERK_IDS에 포함된 사용자만 조회 가능
+ */
+
+const PAGE_SIZE = 20;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdminClerkId(userId)) {
+      return NextResponse.json(
+        { error: "관리자만 접근할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const action = searchParams.get("action");
+    const cursorResult = parseCursorParam(searchParams.get("cursor"));
+    if ("error" in cursorResult) {
+      return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+    }
+    const { cursor } = cursorResult;
+
+    if (action && action !== "blocked" && action !== "flagged") {
+      return NextResponse.json(
+        { error: "지원하지 않는 필터입니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+
+    let query = supabase
+      .from("duplicate_image_matches")
+      .select(
+        "id, media_position, distance, action, created_at, uploader:uploader_user_id (id, clerk_id, name), post:post_id (id, image_url), matched_post:matched_post_id (id, image_url, user:user_id (clerk_id, name))"
+      );
+
+    if (action) {
+      query = query.eq("action", action);
+    }
+
+    if (cursor) {
+      query = query.or(buildCursorFilter(cursor));
+    }
+
+    // 다음 페이지 여부 확인을 위해 하나 더 조회
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(PAGE_SIZE + 1);
+
+    if (error) {
+      console.error("[GET /api/admin/duplicate-matches] Error:", error);
+      return NextResponse.json(
+        { error: "감지 기록을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const { items, hasMore, nextCursor } = toCursorPage(data || [], PAGE_SIZE, (match: any) => ({
+      created_at: match.created_at,
+      id: match.id,
+    }));
+
+    const matches = items.map((match: any) => ({
+      id: match.id,
+      media_position: match.media_position,
+      distance: match.distance,
+      action: match.action,
+      created_at: match.created_at,
+      uploader: match.uploader,
+      post: match.post || null,
+      matched_post: match.matched_post || null,
+    }));
+
+    return NextResponse.json({
+      matches,
+      hasMore,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/duplicate-matches:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+
+/**
+ * @file route.ts
+ * @description 공동 작성 초대 API
+ *
+ * GET: 내가 받은 공동 작성 초대 목록 (대기 중, 최신순)
+ * - 게시물 대표 이미지, 캡션, 초대한 작성자 정보 포함
+ *
+ * PATCH: 공동 작성 초대 수락/거절
+ * - 요청 본문: { post_id: string, status: "accepted" | "declined" }
+ * - 수락하면 게시물이 내 프로필 그리드와 게시물 수에 포함되고 게시물 헤더에 이름 표시
+ * - 대기 중인 초대만 응답 가능
+ *
+ * Clerk 인증 필수
+ */
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    console.error("[getCurrentUserId] Error:", {
+      error,
+      clerkId,
+      code: error?.code,
+      message: error?.message,
+    });
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const { data, error } = await supabase
+      .from("post_collaborators")
+      .select(
+        "post_id, created_at, post:post_id (id, image_url, caption, status, author:user_id (id, clerk_id, name))"
+      )
+      .eq("user_id", userUuid)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[GET /api/collaborations] Error fetching invitations:", error);
+      return NextResponse.json(
+        { error: "공동 작성 초대를 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const invitations = (data || [])
+      .filter((row: any) => row.post)
+      .map((row: any) => ({
+        post_id: row.post_id,
+        created_at: row.created_at,
+        post: {
+          id: row.post.id,
+          image_url: row.post.image_url,
+          caption: row.post.caption,
+          is_scheduled: row.post.status === "scheduled",
+        },
+        author: {
+          id: row.post.author?.id || "",
+          clerk_id: row.post.author?.clerk_id || "",
+          name: row.post.author?.name || "Unknown",
+        },
+      }));
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    console.error("Error in GET /api/collaborations:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { post_id: postId, status } = body;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    if (status !== "accepted" && status !== "declined") {
+      return NextResponse.json(
+        { error: "수락 또는 거절만 선택할 수 있습니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const { data, error } = await supabase
+      .from("post_collaborators")
+      .update({
+        status,
+        responded_at: new Date().toISOString(),
+      })
+      .eq("post_id", postId)
+      .eq("user_id", userUuid)
+      .eq("status", "pending")
+      .select("post_id, status")
+      .maybeSingle();
+
+    if (error) {
+      console.error("[PATCH /api/collaborations] Error updating invitation:", error);
+      return NextResponse.json(
+        { error: "공동 작성 초대 응답에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "대기 중인 공동 작성 초대를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message:
+        status === "accepted"
+          ? "공동 작성 초대를 수락했습니다."
+          : "공동 작성 초대를 거절했습니다.",
+      collaboration: data,
+    });
+  } catch (error) {
+    console.error("Error in PATCH /api/collaborations:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
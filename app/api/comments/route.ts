@@ -8,6 +8,7 @@ import { getServiceRoleClient } from "@/lib/supabase/service-role";
  *
  * POST: 댓글 작성
  * - Clerk 인증 확인
+ * - 댓글 기능을 해제한 게시물은 작성 불가 (작성자 포함)
  * - comments 테이블에 저장
  * - 사용자 정보 포함하여 응답
  */
@@ -60,11 +61,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 게시물 존재 확인
+    // 게시물 존재 및 댓글 허용 여부 확인
     const { data: postData, error: postError } = await supabase
       .from("posts")
-      .select("id")
+      .select("id, comments_disabled")
       .eq("id", post_id)
+      .eq("status", "published")
       .single();
 
     if (postError || !postData) {
@@ -74,6 +76,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (postData.comments_disabled) {
+      return NextResponse.json(
+        { error: "댓글 기능이 해제된 게시물입니다." },
+        { status: 403 }
+      );
+    }
+
     const mentionPayload: Array<{ mentioned_user_id: string; display_text: string }> = Array.isArray(rawMentions)
       ? rawMentions.filter(
           (item: any) =>
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { fetchOwnedDraft } from "@/lib/utils/drafts";
+import { createPostWithMedia } from "@/lib/utils/post-create";
+import { parsePublishAt } from "@/lib/utils/scheduled-posts";
+import { parseBeforeAfterPayload } from "@/lib/utils/post-before-after";
+import {
+  fetchDuplicateOriginalPost,
+  findDuplicateImages,
+  getBlockingDuplicate,
+  logDuplicateImageMatches,
+} from "@/lib/utils/duplicate-images";
+
+/**
+ * @file route.ts
+ * @description 임시저장 게시 API
+ *
+ * POST: 임시저장을 게시물로 전환
+ * - 이미 업로드된 미디어를 그대로 post_media로 옮김 (재업로드 없음)
+ * - 캡션 해시태그 연결 및 멘션 저장은 게시 시점에 처리
+ * - 임시저장한 사진 속 사람 태그를 post_tags로 저장
+ * - 임시저장한 공동 작성자에게 초대 전송
+ * - 전/후 비교 임시저장은 이미지가 2장인지 확인 후 라벨 저장
+ * - 게시물 작성과 같은 중복/재업로드 이미지 감지 (차단 시 409 + 원본 게시물, 임시저장 유지)
+ * - JSON body의 publish_at 지정 시 예약 게시
+ * - 게시 후 임시저장 행 삭제 (Storage 파일은 게시물이 소유)
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+
+    // 예약 게시 시각 (body가 없으면 즉시 게시)
+    const body = await request.json().catch(() => ({}));
+    const parsedPublishAt = parsePublishAt(body?.publish_at);
+    if ("error" in parsedPublishAt) {
+      return NextResponse.json(
+        { error: parsedPublishAt.error },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", userId)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json(
+        { error: "사용자 정보를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const draft = await fetchOwnedDraft(supabase, draftId, userData.id);
+    if (!draft) {
+      return NextResponse.json(
+        { error: "임시저장을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (draft.draft_media.length === 0) {
+      return NextResponse.json(
+        { error: "게시할 이미지 또는 동영상이 없습니다." },
+        { status: 400 }
+      );
+    }
+
+    // 임시저장 후 미디어가 바뀌었을 수 있으므로 게시 시점에 이미지 수 확인
+    const parsedBeforeAfter = parseBeforeAfterPayload(
+      draft.before_after,
+      draft.draft_media.filter((media) => media.media_type === "image").length
+    );
+    if ("error" in parsedBeforeAfter) {
+      return NextResponse.json(
+        { error: parsedBeforeAfter.error },
+        { status: 400 }
+      );
+    }
+
+    // 다른 사용자의 게시물 이미지 재업로드 감지
+    const duplicateMatches = await findDuplicateImages(
+      supabase,
+      draft.draft_media.map((media) => media.perceptual_hash),
+      userData.id
+    );
+    const blockingDuplicate = getBlockingDuplicate(duplicateMatches);
+    if (blockingDuplicate) {
+      await logDuplicateImageMatches(supabase, {
+        uploaderUserId: userData.id,
+        postId: null,
+        matches: duplicateMatches,
+        action: "blocked",
+      });
+      return NextResponse.json(
+        {
+          error: "다른 사용자의 게시물과 같은 이미지입니다. 직접 촬영한 사진만 올릴 수 있습니다.",
+          duplicate: await fetchDuplicateOriginalPost(supabase, blockingDuplicate.post_id),
+        },
+        { status: 409 }
+      );
+    }
+
+    const created = await createPostWithMedia(supabase, {
+      userId: userData.id,
+      caption: draft.caption,
+      media: draft.draft_media.map((media, position) => ({
+        url: media.url,
+        storage_path: media.storage_path,
+        position,
+        media_type: media.media_type,
+        poster_url: media.poster_url,
+        poster_storage_path: media.poster_storage_path,
+        duration_seconds:
+          media.duration_seconds !== null && media.duration_seconds !== undefined
+            ? Number(media.duration_seconds)
+            : null,
+        alt_text: media.alt_text || null,
+        width: media.width ?? null,
+        height: media.height ?? null,
+        placeholder: media.placeholder || null,
+        variants: media.variants || [],
+        perceptual_hash: media.perceptual_hash || null,
+      })),
+      mentions: draft.mentions || [],
+      publishAt: parsedPublishAt.publishAt,
+      workout: draft.workout,
+      poll: draft.poll,
+      beforeAfter: parsedBeforeAfter.beforeAfter,
+      aspectRatio: draft.aspect_ratio,
+      placeId: draft.place_id,
+      tags: draft.tags || [],
+      collaborators: draft.collaborators || [],
+      hideLikeCount: draft.hide_like_count ?? false,
+      commentsDisabled: draft.comments_disabled ?? false,
+    });
+
+    if ("error" in created) {
+      return NextResponse.json(
+        { error: created.error },
+        { status: 500 }
+      );
+    }
+
+    await logDuplicateImageMatches(supabase, {
+      uploaderUserId: userData.id,
+      postId: created.post.id,
+      matches: duplicateMatches,
+      action: "flagged",
+    });
+
+    // 임시저장 삭제 (draft_media는 CASCADE, Storage 파일은 게시물이 계속 사용)
+    const { error: deleteError } = await supabase
+      .from("drafts")
+      .delete()
+      .eq("id", draftId);
+
+    if (deleteError) {
+      console.error("[POST /api/drafts/[draftId]/publish] Error deleting draft:", deleteError);
+    }
+
+    return NextResponse.json(
+      {
+        message: parsedPublishAt.publishAt
+          ? "게시물이 예약되었습니다."
+          : "게시물이 성공적으로 업로드되었습니다.",
+        post: created.post,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error in POST /api/drafts/[draftId]/publish:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { parseAltTexts, removeStoredMedia } from "@/lib/utils/media-upload";
+import { MAX_CAPTION_LENGTH, parseMentionPayload } from "@/lib/utils/post-caption";
+import { fetchOwnedDraft, formatDraft } from "@/lib/utils/drafts";
+import { parseWorkoutPayload } from "@/lib/utils/post-workout";
+import { parsePollPayload } from "@/lib/utils/post-poll";
+import { parseBeforeAfterPayload } from "@/lib/utils/post-before-after";
+import { resolvePlaceId } from "@/lib/utils/post-place";
+import { remapTagPositions } from "@/lib/utils/post-tags";
+import { parseCollaboratorsPayload } from "@/lib/utils/post-collaborators";
+import { parsePostSettingFlag } from "@/lib/utils/post-settings";
+
+/**
+ * @file route.ts
+ * @description 임시저장 수정/삭제 API
+ *
+ * PATCH: 임시저장 수정
+ * - caption, mentions, workout 갱신 (workout: null이면 운동 기록 삭제)
+ * - poll 갱신 (null이면 투표 삭제)
+ * - before_after 갱신 (null이면 일반 게시물, 이미지 2장 확인은 게시할 때)
+ * - place_id 갱신 (null이면 장소 태그 해제)
+ * - collaborators 갱신 (게시할 때 초대할 공동 작성자)
+ * - hide_like_count, comments_disabled 갱신 (게시물 공개 설정)
+ * - media_ids: 남길 미디어 ID를 원하는 순서대로 전달 (빠진 미디어는 삭제)
+ * - alt_texts: media_ids와 같은 순서의 대체 텍스트 (선택)
+ * - 사진 속 사람 태그는 media_ids 순서에 맞춰 다시 매기고, 삭제된 미디어의 태그는 제거
+ *
+ * DELETE: 임시저장 삭제 (Storage 파일 포함)
+ *
+ * 본인 임시저장만 수정/삭제 가능
+ */
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    console.error("[getCurrentUserId] Error:", {
+      error,
+      clerkId,
+      code: error?.code,
+      message: error?.message,
+    });
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+    const body = await request.json();
+
+    if (typeof body.caption === "string" && body.caption.length > MAX_CAPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `캡션은 최대 ${MAX_CAPTION_LENGTH.toLocaleString()}자까지 입력할 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const altTexts = parseAltTexts(body.alt_texts);
+    if ("error" in altTexts) {
+      return NextResponse.json(
+        { error: altTexts.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedWorkout = parseWorkoutPayload(body.workout);
+    if ("error" in parsedWorkout) {
+      return NextResponse.json(
+        { error: parsedWorkout.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedPoll = parsePollPayload(body.poll);
+    if ("error" in parsedPoll) {
+      return NextResponse.json(
+        { error: parsedPoll.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedBeforeAfter = parseBeforeAfterPayload(body.before_after);
+    if ("error" in parsedBeforeAfter) {
+      return NextResponse.json(
+        { error: parsedBeforeAfter.error },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const draft = await fetchOwnedDraft(supabase, draftId, userUuid);
+    if (!draft) {
+      return NextResponse.json(
+        { error: "임시저장을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const parsedPlace = await resolvePlaceId(supabase, body.place_id);
+    if ("error" in parsedPlace) {
+      return NextResponse.json(
+        { error: parsedPlace.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedCollaborators = parseCollaboratorsPayload(body.collaborators, userUuid);
+    if ("error" in parsedCollaborators) {
+      return NextResponse.json(
+        { error: parsedCollaborators.error },
+        { status: 400 }
+      );
+    }
+
+    // 미디어 순서 변경 / 삭제
+    if (Array.isArray(body.media_ids)) {
+      const mediaIds: string[] = body.media_ids.filter((id: unknown) => typeof id === "string");
+      const currentIds = new Set(draft.draft_media.map((media) => media.id));
+
+      if (
+        mediaIds.length === 0 ||
+        new Set(mediaIds).size !== mediaIds.length ||
+        mediaIds.some((id) => !currentIds.has(id))
+      ) {
+        return NextResponse.json(
+          { error: "미디어 목록이 올바르지 않습니다." },
+          { status: 400 }
+        );
+      }
+
+      const removedMedia = draft.draft_media.filter((media) => !mediaIds.includes(media.id));
+      if (removedMedia.length > 0) {
+        const { error: deleteError } = await supabase
+          .from("draft_media")
+          .delete()
+          .in("id", removedMedia.map((media) => media.id));
+
+        if (deleteError) {
+          console.error("[PATCH /api/drafts/[draftId]] Error deleting media:", deleteError);
+          return NextResponse.json(
+            { error: "임시저장 수정에 실패했습니다." },
+            { status: 500 }
+          );
+        }
+        await removeStoredMedia(supabase, removedMedia);
+      }
+
+      const results = await Promise.all(
+        mediaIds.map((id, position) =>
+          supabase
+            .from("draft_media")
+            .update(
+              body.alt_texts !== undefined
+                ? { position, alt_text: altTexts[position] || null }
+                : { position }
+            )
+            .eq("id", id)
+        )
+      );
+      const positionError = results.find((result) => result.error)?.error;
+      if (positionError) {
+        console.error("[PATCH /api/drafts/[draftId]] Error updating positions:", positionError);
+        return NextResponse.json(
+          { error: "임시저장 수정에 실패했습니다." },
+          { status: 500 }
+        );
+      }
+    }
+
+    const updates: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (typeof body.caption === "string") {
+      updates.caption = body.caption || null;
+    }
+    if (body.mentions !== undefined) {
+      updates.mentions = parseMentionPayload(body.mentions);
+    }
+    if (body.workout !== undefined) {
+      updates.workout = parsedWorkout.workout;
+    }
+    if (body.poll !== undefined) {
+      updates.poll = parsedPoll.poll;
+    }
+    if (body.before_after !== undefined) {
+      updates.before_after = parsedBeforeAfter.beforeAfter;
+    }
+    if (body.place_id !== undefined) {
+      updates.place_id = parsedPlace.placeId;
+    }
+    if (body.collaborators !== undefined) {
+      updates.collaborators = parsedCollaborators.collaborators;
+    }
+    if (body.hide_like_count !== undefined) {
+      updates.hide_like_count = parsePostSettingFlag(body.hide_like_count);
+    }
+    if (body.comments_disabled !== undefined) {
+      updates.comments_disabled = parsePostSettingFlag(body.comments_disabled);
+    }
+    if (Array.isArray(body.media_ids)) {
+      updates.tags = remapTagPositions(
+        draft.tags,
+        draft.draft_media.map((media) => media.id),
+        body.media_ids.filter((id: unknown) => typeof id === "string")
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("drafts")
+      .update(updates)
+      .eq("id", draftId);
+
+    if (updateError) {
+      console.error("[PATCH /api/drafts/[draftId]] Error updating draft:", updateError);
+      return NextResponse.json(
+        { error: "임시저장 수정에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const updatedDraft = await fetchOwnedDraft(supabase, draftId, userUuid);
+
+    return NextResponse.json({
+      message: "임시저장되었습니다.",
+      draft: updatedDraft ? formatDraft(updatedDraft) : null,
+    });
+  } catch (error) {
+    console.error("Error in PATCH /api/drafts/[draftId]:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const draft = await fetchOwnedDraft(supabase, draftId, userUuid);
+    if (!draft) {
+      return NextResponse.json(
+        { error: "임시저장을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // draft_media는 CASCADE로 삭제
+    const { error: deleteError } = await supabase
+      .from("drafts")
+      .delete()
+      .eq("id", draftId);
+
+    if (deleteError) {
+      console.error("[DELETE /api/drafts/[draftId]] Error deleting draft:", deleteError);
+      return NextResponse.json(
+        { error: "임시저장 삭제에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    await removeStoredMedia(supabase, draft.draft_media);
+
+    return NextResponse.json({ message: "임시저장이 삭제되었습니다." });
+  } catch (error) {
+    console.error("Error in DELETE /api/drafts/[draftId]:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
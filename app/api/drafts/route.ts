@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { parseMediaUpload, removeStoredMedia, uploadMedia } from "@/lib/utils/media-upload";
+import { parseMentionPayload } from "@/lib/utils/post-caption";
+import { parseWorkoutPayload } from "@/lib/utils/post-workout";
+import { parsePollPayload } from "@/lib/utils/post-poll";
+import { parseBeforeAfterPayload } from "@/lib/utils/post-before-after";
+import { resolvePlaceId } from "@/lib/utils/post-place";
+import { parsePhotoTagsPayload } from "@/lib/utils/post-tags";
+import { parseCollaboratorsPayload } from "@/lib/utils/post-collaborators";
+import { parsePostSettingFlag } from "@/lib/utils/post-settings";
+import { parseAspectRatio } from "@/lib/utils/post-media";
+import { DRAFT_SELECT, formatDraft, type DraftRecord } from "@/lib/utils/drafts";
+
+/**
+ * @file route.ts
+ * @description 게시물 임시저장 API
+ *
+ * GET: 내 임시저장 목록 조회 (최근 수정순)
+ * POST: 임시저장 생성
+ * - 크롭된 이미지(최대 10장) 또는 동영상 + 포스터 업로드 (게시물 작성과 같은 검증)
+ * - 캡션, 멘션, 운동 기록, 투표, 전/후 비교 라벨(before_after), 화면 비율(aspect_ratio), 장소 태그(place_id), 사진 속 사람 태그(tags),
+ *   공동 작성자(collaborators), 좋아요 수 숨기기(hide_like_count), 댓글 기능 해제(comments_disabled) 상태 저장
+ * - Clerk 인증 필수
+ */
+
+const MAX_DRAFTS = 20;
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    console.error("[getCurrentUserId] Error:", {
+      error,
+      clerkId,
+      code: error?.code,
+      message: error?.message,
+    });
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const { data, error } = await supabase
+      .from("drafts")
+      .select(DRAFT_SELECT)
+      .eq("user_id", userUuid)
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("[GET /api/drafts] Error fetching drafts:", error);
+      return NextResponse.json(
+        { error: "임시저장 목록을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      drafts: ((data || []) as unknown as DraftRecord[]).map(formatDraft),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/drafts:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const formData = await request.formData();
+    const caption = formData.get("caption") as string | null;
+    const mentions = parseMentionPayload(formData.get("mentions"));
+
+    // 운동 기록 검증 (선택)
+    const parsedWorkout = parseWorkoutPayload(formData.get("workout"));
+    if ("error" in parsedWorkout) {
+      return NextResponse.json(
+        { error: parsedWorkout.error },
+        { status: 400 }
+      );
+    }
+
+    // 투표 검증 (선택)
+    const parsedPoll = parsePollPayload(formData.get("poll"));
+    if ("error" in parsedPoll) {
+      return NextResponse.json(
+        { error: parsedPoll.error },
+        { status: 400 }
+      );
+    }
+
+    const aspectRatio = parseAspectRatio(formData.get("aspect_ratio"));
+    if (!aspectRatio) {
+      return NextResponse.json(
+        { error: "지원하지 않는 화면 비율입니다." },
+        { status: 400 }
+      );
+    }
+
+    const parsedPlace = await resolvePlaceId(supabase, formData.get("place_id"));
+    if ("error" in parsedPlace) {
+      return NextResponse.json(
+        { error: parsedPlace.error },
+        { status: 400 }
+      );
+    }
+
+    // 이미지 또는 동영상 검증
+    const parsedUpload = await parseMediaUpload(formData);
+    if ("error" in parsedUpload) {
+      return NextResponse.json(
+        { error: parsedUpload.error },
+        { status: 400 }
+      );
+    }
+
+    // 사진 속 사람 태그 검증 (이미지에만 태그 가능)
+    const parsedTags = parsePhotoTagsPayload(
+      formData.get("tags"),
+      parsedUpload.upload.video ? 0 : parsedUpload.upload.imageFiles.length
+    );
+    if ("error" in parsedTags) {
+      return NextResponse.json(
+        { error: parsedTags.error },
+        { status: 400 }
+      );
+    }
+
+    // 전/후 비교 검증 (선택, 이미지 2장만 가능)
+    const parsedBeforeAfter = parseBeforeAfterPayload(
+      formData.get("before_after"),
+      parsedUpload.upload.video ? 0 : parsedUpload.upload.imageFiles.length
+    );
+    if ("error" in parsedBeforeAfter) {
+      return NextResponse.json(
+        { error: parsedBeforeAfter.error },
+        { status: 400 }
+      );
+    }
+
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    // 공동 작성자 초대 검증 (게시할 때 초대)
+    const parsedCollaborators = parseCollaboratorsPayload(formData.get("collaborators"), userUuid);
+    if ("error" in parsedCollaborators) {
+      return NextResponse.json(
+        { error: parsedCollaborators.error },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("drafts")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userUuid);
+
+    if ((count || 0) >= MAX_DRAFTS) {
+      return NextResponse.json(
+        { error: `임시저장은 최대 ${MAX_DRAFTS}개까지 보관할 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const uploadedMedia = await uploadMedia(supabase, userId, parsedUpload.upload);
+    if (!uploadedMedia) {
+      return NextResponse.json(
+        { error: "파일 업로드에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const { data: draftData, error: draftError } = await supabase
+      .from("drafts")
+      .insert({
+        user_id: userUuid,
+        caption: caption || null,
+        mentions,
+        workout: parsedWorkout.workout,
+        poll: parsedPoll.poll,
+        before_after: parsedBeforeAfter.beforeAfter,
+        tags: parsedTags.tags,
+        collaborators: parsedCollaborators.collaborators,
+        aspect_ratio: aspectRatio,
+        place_id: parsedPlace.placeId,
+        hide_like_count: parsePostSettingFlag(formData.get("hide_like_count")),
+        comments_disabled: parsePostSettingFlag(formData.get("comments_disabled")),
+      })
+      .select("id")
+      .single();
+
+    if (draftError || !draftData) {
+      console.error("[POST /api/drafts] Error creating draft:", draftError);
+      await removeStoredMedia(supabase, uploadedMedia);
+      return NextResponse.json(
+        { error: "임시저장에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const { error: mediaError } = await supabase.from("draft_media").insert(
+      uploadedMedia.map((media) => ({
+        draft_id: draftData.id,
+        url: media.url,
+        storage_path: media.storage_path,
+        position: media.position,
+        media_type: media.media_type,
+        poster_url: media.poster_url || null,
+        poster_storage_path: media.poster_storage_path || null,
+        duration_seconds: media.duration_seconds ?? null,
+        alt_text: media.alt_text || null,
+        width: media.width ?? null,
+        height: media.height ?? null,
+        placeholder: media.placeholder || null,
+        variants: media.variants || [],
+        perceptual_hash: media.perceptual_hash || null,
+      }))
+    );
+
+    if (mediaError) {
+      console.error("[POST /api/drafts] Error saving draft media:", mediaError);
+      await supabase.from("drafts").delete().eq("id", draftData.id);
+      await removeStoredMedia(supabase, uploadedMedia);
+      return NextResponse.json(
+        { error: "임시저장에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const { data: savedDraft } = await supabase
+      .from("drafts")
+      .select(DRAFT_SELECT)
+      .eq("id", draftData.id)
+      .single();
+
+    return NextResponse.json(
+      {
+        message: "임시저장되었습니다.",
+        draft: savedDraft ? formatDraft(savedDraft as unknown as DraftRecord) : { id: draftData.id },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error in POST /api/drafts:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { fetchTrendingHashtags } from "@/lib/utils/trending";
+
+/**
+ * @file route.ts
+ * @description 탐색 탭 인기 해시태그 API
+ *
+ * GET: 인기 해시태그 목록 (최근 48시간 새 게시물/좋아요/댓글 점수순, 최대 10개)
+ * - posts_count: 기간 안에 반응이 있었던 해당 해시태그 게시물 수
+ */
+
+const TRENDING_HASHTAG_LIMIT = 10;
+
+export async function GET() {
+  try {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const hashtags = await fetchTrendingHashtags(supabase, TRENDING_HASHTAG_LIMIT);
+    if (!hashtags) {
+      return NextResponse.json(
+        { error: "인기 해시태그를 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ hashtags });
+  } catch (error) {
+    console.error("Error in GET /api/explore/hashtags:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
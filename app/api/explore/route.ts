@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { auth } from "@clerk/nextjs/server";
+import { fetchPostMediaMap, hasVideoMedia } from "@/lib/utils/post-media";
+import { getVisibleLikesCount } from "@/lib/utils/post-settings";
+import { parseRankedCursorParam } from "@/lib/utils/pagination";
+import { fetchTrendingPostsPage } from "@/lib/utils/trending";
+
+/**
+ * @file route.ts
+ * @description 탐색 탭 인기 게시물 API
+ *
+ * GET: 인기 게시물 목록 (최근 48시간 좋아요/댓글 점수순, 24개씩)
+ * - 로그인한 경우 내 게시물과 내가 팔로우한 계정의 게시물은 제외
+ * - 커서 페이지네이션 (cursor로 다음 페이지 요청, 응답의 nextCursor 사용)
+ * - 대표 이미지(리사이즈 이미지, 저화질 미리보기), 동영상 여부 포함
+ * - 좋아요 수를 숨긴 게시물은 작성자가 아니면 likes_count를 null로 반환
+ */
+
+const DEFAULT_LIMIT = 24;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10);
+    const cursorResult = parseRankedCursorParam(searchParams.get("cursor"));
+    if ("error" in cursorResult) {
+      return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+    }
+
+    // 탐색 탭은 공개 데이터이므로 공개 클라이언트 사용
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { userId } = await auth();
+    let currentUserUuid: string | null = null;
+    if (userId) {
+      const { data: currentUser } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", userId)
+        .maybeSingle();
+      currentUserUuid = currentUser?.id || null;
+    }
+
+    const trendingPage = await fetchTrendingPostsPage(supabase, {
+      viewerId: currentUserUuid,
+      cursor: cursorResult.cursor,
+      limit,
+    });
+
+    if (!trendingPage) {
+      return NextResponse.json(
+        { error: "인기 게시물을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    if (trendingPage.postIds.length === 0) {
+      return NextResponse.json({ posts: [], hasMore: false, nextCursor: null });
+    }
+
+    const { data: postsData, error: postsError } = await supabase
+      .from("post_stats")
+      .select("post_id, user_id, image_url, likes_count, comments_count, hide_like_count")
+      .in("post_id", trendingPage.postIds);
+
+    if (postsError) {
+      console.error("[GET /api/explore] Error fetching posts:", postsError);
+      return NextResponse.json(
+        { error: "인기 게시물을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const mediaMap = await fetchPostMediaMap(supabase, trendingPage.postIds);
+
+    // 인기 순서대로
+    const rankOrder = new Map(trendingPage.postIds.map((postId, index) => [postId, index]));
+    const posts = [...(postsData || [])]
+      .sort((a, b) => (rankOrder.get(a.post_id) ?? 0) - (rankOrder.get(b.post_id) ?? 0))
+      .map((post) => {
+        const media = mediaMap.get(post.post_id) || [];
+        const cover = media[0];
+        return {
+          id: post.post_id,
+          image_url: post.image_url,
+          alt_text: cover?.alt_text || null,
+          placeholder: cover?.placeholder || null,
+          variants: cover?.variants || [],
+          is_video: hasVideoMedia(media),
+          likes_count: getVisibleLikesCount(post, currentUserUuid),
+          comments_count: post.comments_count || 0,
+        };
+      });
+
+    return NextResponse.json({
+      posts,
+      hasMore: trendingPage.hasMore,
+      nextCursor: trendingPage.nextCursor,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/explore:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { PLACE_SELECT, formatPlace } from "@/lib/utils/post-place";
+
+/**
+ * @file route.ts
+ * @description 장소 상세 조회 API
+ *
+ * GET: 장소 정보 (이름, 주소, 좌표) + 태그된 게시물 수
+ * - 게시물 목록은 GET /api/posts?placeId= 사용
+ * - 예약 게시물은 게시 전까지 개수에서 제외
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ placeId: string }> }
+) {
+  try {
+    const { placeId } = await params;
+
+    if (!placeId) {
+      return NextResponse.json(
+        { error: "장소 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: placeData, error: placeError } = await supabase
+      .from("places")
+      .select(PLACE_SELECT)
+      .eq("id", placeId)
+      .maybeSingle();
+
+    if (placeError || !placeData) {
+      return NextResponse.json(
+        { error: "장소를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("posts")
+      .select("id", { count: "exact", head: true })
+      .eq("place_id", placeId)
+      .eq("status", "published");
+
+    return NextResponse.json({
+      place: {
+        ...formatPlace(placeData),
+        posts_count: count || 0,
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/places/[placeId]:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createClient } from "@supabase/supabase-js";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { PLACE_SELECT, formatPlace, parsePlaceInput } from "@/lib/utils/post-place";
+
+/**
+ * @file route.ts
+ * @description 장소 디렉터리 API
+ *
+ * GET: 장소 검색 (게시물 작성 시 장소 선택용)
+ * - q: 검색어 (이름 또는 주소에 포함, 없으면 빈 목록)
+ * - 최대 10개, 이름순
+ *
+ * POST: 새 장소 추가
+ * - name(필수), address(선택), latitude/longitude(필수)
+ * - 같은 이름과 좌표의 장소가 이미 있으면 기존 장소 반환
+ * - Clerk 인증 필수
+ */
+
+const SEARCH_LIMIT = 10;
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    console.error("[getCurrentUserId] Error:", {
+      error,
+      clerkId,
+      code: error?.code,
+      message: error?.message,
+    });
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // PostgREST or 필터 구문에 쓰이는 문자는 검색어에서 제외
+    const query = (request.nextUrl.searchParams.get("q") || "").replace(/[,()%*\\]/g, " ").trim();
+    if (!query) {
+      return NextResponse.json({ places: [] });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data, error } = await supabase
+      .from("places")
+      .select(PLACE_SELECT)
+      .or(`name.ilike.%${query}%,address.ilike.%${query}%`)
+      .order("name")
+      .limit(SEARCH_LIMIT);
+
+    if (error) {
+      console.error("[GET /api/places] Error searching places:", error);
+      return NextResponse.json(
+        { error: "장소를 검색하는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ places: (data || []).map(formatPlace) });
+  } catch (error) {
+    console.error("Error in GET /api/places:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parsePlaceInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+    const { name, address, latitude, longitude } = parsed.place;
+
+    // 같은 장소 중복 등록 방지
+    const { data: existingPlace } = await supabase
+      .from("places")
+      .select(PLACE_SELECT)
+      .eq("name", name)
+      .eq("latitude", latitude)
+      .eq("longitude", longitude)
+      .maybeSingle();
+
+    if (existingPlace) {
+      return NextResponse.json({ place: formatPlace(existingPlace) });
+    }
+
+    const { data: placeData, error: insertError } = await supabase
+      .from("places")
+      .insert({
+        name,
+        address,
+        latitude,
+        longitude,
+        created_by: userUuid,
+      })
+      .select(PLACE_SELECT)
+      .single();
+
+    if (insertError || !placeData) {
+      console.error("[POST /api/places] Error creating place:", insertError);
+      return NextResponse.json(
+        { error: "장소를 추가하는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ place: formatPlace(placeData) }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/places:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
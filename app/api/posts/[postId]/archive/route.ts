@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+
+/**
+ * @file route.ts
+ * @description 게시물 보관/복원 API
+ *
+ * POST: 게시물 보관
+ * - 게시된 게시물만 보관 가능 (예약 게시물은 예약 취소 사용)
+ * - 피드, 해시태그/장소 페이지, 프로필, 게시물 수에서 제외 (post_stats는 게시된 게시물만 포함)
+ * - 좋아요, 댓글, 미디어 파일은 그대로 유지
+ * - 프로필 고정은 해제 (복원해도 다시 고정되지 않음)
+ *
+ * DELETE: 보관한 게시물 복원 (다시 게시됨으로 전환)
+ *
+ * 본인 게시물만 보관/복원 가능, Clerk 인증 필수
+ */
+
+type ArchiveAction = "archive" | "restore";
+
+async function updateArchiveState(
+  request: NextRequest,
+  postId: string,
+  action: ArchiveAction
+) {
+  const { userId: currentClerkId } = await auth();
+  if (!currentClerkId) {
+    return NextResponse.json(
+      { error: "인증이 필요합니다." },
+      { status: 401 }
+    );
+  }
+
+  if (!postId) {
+    return NextResponse.json(
+      { error: "게시물 ID가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getServiceRoleClient();
+
+  // 현재 사용자의 Supabase user_id 조회
+  const { data: currentUser, error: currentUserError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", currentClerkId)
+    .single();
+
+  if (currentUserError || !currentUser) {
+    return NextResponse.json(
+      { error: "사용자 정보를 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  // 게시물 정보 조회 (소유권 및 현재 상태 확인)
+  const { data: postData, error: postError } = await supabase
+    .from("posts")
+    .select("id, user_id, status")
+    .eq("id", postId)
+    .single();
+
+  if (postError || !postData) {
+    return NextResponse.json(
+      { error: "게시물을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  if (postData.user_id !== currentUser.id) {
+    return NextResponse.json(
+      {
+        error:
+          action === "archive"
+            ? "본인의 게시물만 보관할 수 있습니다."
+            : "본인의 게시물만 복원할 수 있습니다.",
+      },
+      { status: 403 }
+    );
+  }
+
+  const expectedStatus = action === "archive" ? "published" : "archived";
+  if (postData.status !== expectedStatus) {
+    return NextResponse.json(
+      {
+        error:
+          action === "archive"
+            ? "게시된 게시물만 보관할 수 있습니다."
+            : "보관된 게시물이 아닙니다.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const archivedAt = action === "archive" ? new Date().toISOString() : null;
+  const { error: updateError } = await supabase
+    .from("posts")
+    .update({
+      status: action === "archive" ? "archived" : "published",
+      archived_at: archivedAt,
+      ...(action === "archive" ? { pinned_at: null } : {}),
+    })
+    .eq("id", postId)
+    .eq("status", expectedStatus);
+
+  if (updateError) {
+    console.error(`[${request.method} /api/posts/[postId]/archive] Error updating post:`, updateError);
+    return NextResponse.json(
+      { error: action === "archive" ? "게시물 보관에 실패했습니다." : "게시물 복원에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    message: action === "archive" ? "게시물이 보관되었습니다." : "게시물이 복원되었습니다.",
+    post: {
+      id: postId,
+      archived_at: archivedAt,
+    },
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+    return await updateArchiveState(request, postId, "archive");
+  } catch (error) {
+    console.error("Error in POST /api/posts/[postId]/archive:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+    return await updateArchiveState(request, postId, "restore");
+  } catch (error) {
+    console.error("Error in DELETE /api/posts/[postId]/archive:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
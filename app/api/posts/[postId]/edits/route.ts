@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+
+/**
+ * @file route.ts
+ * @description 게시물 수정 이력 API
+ *
+ * GET: 게시물 캡션 수정 이력 조회
+ * - Clerk 인증 필수
+ * - 게시물 작성자만 조회 가능
+ * - 현재 캡션 + 이전 캡션 목록 (최신순)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    // Clerk 인증 확인
+    const { userId: currentClerkId } = await auth();
+    if (!currentClerkId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { postId } = await params;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+
+    // 현재 사용자의 Supabase user_id 조회
+    const { data: currentUser, error: currentUserError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", currentClerkId)
+      .single();
+
+    if (currentUserError || !currentUser) {
+      return NextResponse.json(
+        { error: "사용자 정보를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id, user_id, caption, created_at, edited_at")
+      .eq("id", postId)
+      .single();
+
+    if (postError || !postData) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 소유권 확인
+    if (postData.user_id !== currentUser.id) {
+      return NextResponse.json(
+        { error: "본인의 게시물 수정 이력만 볼 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data: editsData, error: editsError } = await supabase
+      .from("post_edits")
+      .select("id, caption, created_at")
+      .eq("post_id", postId)
+      .order("created_at", { ascending: false });
+
+    if (editsError) {
+      console.error("Error fetching post edits:", editsError);
+      return NextResponse.json(
+        { error: "수정 이력을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      current: {
+        caption: postData.caption,
+        created_at: postData.created_at,
+        edited_at: postData.edited_at,
+      },
+      // caption: 해당 시점(created_at)에 수정되기 전의 캡션
+      edits: editsData || [],
+    });
+  } catch (error) {
+    console.error("Error in GET /api/posts/[postId]/edits:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+
+/**
+ * @file route.ts
+ * @description 프로필 게시물 고정/고정 해제 API
+ *
+ * POST: 게시물 고정
+ * - 게시된 게시물만 고정 가능, 사용자당 최대 3개 (DB 트리거에서 동시 요청까지 보장)
+ * - 고정한 게시물은 프로필 그리드 맨 앞에 표시 (최근 고정순)
+ *
+ * DELETE: 게시물 고정 해제
+ *
+ * 본인 게시물만 고정/해제 가능, Clerk 인증 필수
+ */
+
+// DB 트리거(enforce_pinned_posts_limit)의 최대 개수와 같은 값
+const MAX_PINNED_POSTS = 3;
+
+type PinAction = "pin" | "unpin";
+
+async function updatePinState(
+  request: NextRequest,
+  postId: string,
+  action: PinAction
+) {
+  const { userId: currentClerkId } = await auth();
+  if (!currentClerkId) {
+    return NextResponse.json(
+      { error: "인증이 필요합니다." },
+      { status: 401 }
+    );
+  }
+
+  if (!postId) {
+    return NextResponse.json(
+      { error: "게시물 ID가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getServiceRoleClient();
+
+  // 현재 사용자의 Supabase user_id 조회
+  const { data: currentUser, error: currentUserError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", currentClerkId)
+    .single();
+
+  if (currentUserError || !currentUser) {
+    return NextResponse.json(
+      { error: "사용자 정보를 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  // 게시물 정보 조회 (소유권 및 현재 상태 확인)
+  const { data: postData, error: postError } = await supabase
+    .from("posts")
+    .select("id, user_id, status, pinned_at")
+    .eq("id", postId)
+    .single();
+
+  if (postError || !postData) {
+    return NextResponse.json(
+      { error: "게시물을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  if (postData.user_id !== currentUser.id) {
+    return NextResponse.json(
+      {
+        error:
+          action === "pin"
+            ? "본인의 게시물만 고정할 수 있습니다."
+            : "본인의 게시물만 고정 해제할 수 있습니다.",
+      },
+      { status: 403 }
+    );
+  }
+
+  if (action === "pin") {
+    if (postData.status !== "published") {
+      return NextResponse.json(
+        { error: "게시된 게시물만 고정할 수 있습니다." },
+        { status: 400 }
+      );
+    }
+
+    if (postData.pinned_at) {
+      return NextResponse.json(
+        { error: "이미 고정된 게시물입니다." },
+        { status: 400 }
+      );
+    }
+  } else if (!postData.pinned_at) {
+    return NextResponse.json(
+      { error: "고정된 게시물이 아닙니다." },
+      { status: 400 }
+    );
+  }
+
+  const pinnedAt = action === "pin" ? new Date().toISOString() : null;
+  const { error: updateError } = await supabase
+    .from("posts")
+    .update({ pinned_at: pinnedAt })
+    .eq("id", postId);
+
+  if (updateError) {
+    // 고정 개수 초과 (트리거에서 거부)
+    if (action === "pin" && updateError.code === "23514") {
+      return NextResponse.json(
+        { error: `게시물은 최대 ${MAX_PINNED_POSTS}개까지 고정할 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    console.error(`[${request.method} /api/posts/[postId]/pin] Error updating post:`, updateError);
+    return NextResponse.json(
+      { error: action === "pin" ? "게시물 고정에 실패했습니다." : "게시물 고정 해제에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    message: action === "pin" ? "게시물이 프로필에 고정되었습니다." : "게시물 고정이 해제되었습니다.",
+    post: {
+      id: postId,
+      pinned_at: pinnedAt,
+    },
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+    return await updatePinState(request, postId, "pin");
+  } catch (error) {
+    console.error("Error in POST /api/posts/[postId]/pin:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+    return await updatePinState(request, postId, "unpin");
+  } catch (error) {
+    console.error("Error in DELETE /api/posts/[postId]/pin:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
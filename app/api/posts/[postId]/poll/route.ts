@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { fetchPostPollMap } from "@/lib/utils/post-poll";
+
+/**
+ * @file route.ts
+ * @description 게시물 투표 조회/참여 API
+ *
+ * GET: 투표 현황 조회 (선택지별 득표 수, 내 투표, 마감 여부)
+ * - 득표 수는 투표했거나 마감된 경우에만 포함 (그 외에는 null)
+ * - 투표 후 결과를 주기적으로 갱신할 때 사용
+ *
+ * POST: 투표 참여
+ * - 요청 본문: { option_id: string }
+ * - 사용자당 한 번만 투표 가능 (변경 불가)
+ * - 마감된 투표는 참여 불가 (결과 고정)
+ * - 응답으로 갱신된 투표 현황 반환
+ *
+ * 게시된 게시물의 투표만 조회/참여 가능, POST는 Clerk 인증 필수
+ */
+
+async function findViewerUserId(
+  supabase: ReturnType<typeof getServiceRoleClient>,
+  clerkId: string | null
+): Promise<string | null> {
+  if (!clerkId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  return data?.id || null;
+}
+
+async function isPublishedPost(supabase: ReturnType<typeof getServiceRoleClient>, postId: string) {
+  const { data } = await supabase
+    .from("posts")
+    .select("id")
+    .eq("id", postId)
+    .eq("status", "published")
+    .maybeSingle();
+
+  return !!data;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const { userId: currentClerkId } = await auth();
+    const supabase = getServiceRoleClient();
+
+    if (!(await isPublishedPost(supabase, postId))) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const viewerUserId = await findViewerUserId(supabase, currentClerkId);
+    const pollMap = await fetchPostPollMap(supabase, [postId], viewerUserId);
+    const poll = pollMap.get(postId);
+
+    if (!poll) {
+      return NextResponse.json(
+        { error: "투표를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ poll });
+  } catch (error) {
+    console.error("Error in GET /api/posts/[postId]/poll:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { userId: currentClerkId } = await auth();
+    if (!currentClerkId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { postId } = await params;
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "요청 본문이 올바른 JSON 형식이 아닙니다." },
+        { status: 400 }
+      );
+    }
+    const optionId = body?.option_id;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    if (typeof optionId !== "string" || !optionId) {
+      return NextResponse.json(
+        { error: "투표할 선택지가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+
+    const viewerUserId = await findViewerUserId(supabase, currentClerkId);
+    if (!viewerUserId) {
+      return NextResponse.json(
+        { error: "사용자 정보를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (!(await isPublishedPost(supabase, postId))) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { data: pollData, error: pollError } = await supabase
+      .from("polls")
+      .select("id, ends_at, poll_options (id)")
+      .eq("post_id", postId)
+      .maybeSingle();
+
+    if (pollError || !pollData) {
+      return NextResponse.json(
+        { error: "투표를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (new Date(pollData.ends_at).getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: "마감된 투표입니다." },
+        { status: 400 }
+      );
+    }
+
+    if (!(pollData.poll_options || []).some((option: { id: string }) => option.id === optionId)) {
+      return NextResponse.json(
+        { error: "존재하지 않는 선택지입니다." },
+        { status: 400 }
+      );
+    }
+
+    const { error: voteError } = await supabase
+      .from("poll_votes")
+      .insert({
+        poll_id: pollData.id,
+        option_id: optionId,
+        user_id: viewerUserId,
+      });
+
+    if (voteError) {
+      if (voteError.code === "23505") {
+        return NextResponse.json(
+          { error: "이미 투표했습니다." },
+          { status: 409 }
+        );
+      }
+      console.error("[POST /api/posts/[postId]/poll] Error saving vote:", voteError);
+      return NextResponse.json(
+        { error: "투표에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const pollMap = await fetchPostPollMap(supabase, [postId], viewerUserId);
+
+    return NextResponse.json(
+      {
+        message: "투표했습니다.",
+        poll: pollMap.get(postId) || null,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error in POST /api/posts/[postId]/poll:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -3,17 +3,50 @@ import { createClient } from "@supabase/supabase-js";
 import { clerkClient } from "@clerk/nextjs/server";
 import { auth } from "@clerk/nextjs/server";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  DEFAULT_POST_ASPECT_RATIO,
+  fetchPostMediaMap,
+  getStoragePathFromUrl,
+  getVariantStoragePaths,
+  resolvePostMedia,
+} from "@/lib/utils/post-media";
+import {
+  MAX_CAPTION_LENGTH,
+  filterCaptionMentions,
+  parseMentionPayload,
+  syncPostHashtags,
+  syncPostMentions,
+} from "@/lib/utils/post-caption";
+import { fetchPostWorkoutMap } from "@/lib/utils/post-workout";
+import { fetchPostPollMap } from "@/lib/utils/post-poll";
+import { fetchPostBeforeAfterMap } from "@/lib/utils/post-before-after";
+import { fetchPlaceMap } from "@/lib/utils/post-place";
+import { fetchPostTagsMap } from "@/lib/utils/post-tags";
+import { fetchPostCollaboratorsMap } from "@/lib/utils/post-collaborators";
+import { getVisibleLikesCount } from "@/lib/utils/post-settings";
 
 /**
  * @file route.ts
- * @description 게시물 상세 조회 API
+ * @description 게시물 상세 조회/수정/삭제 API
  *
  * GET: 단일 게시물 상세 정보 조회
  * - 게시물 정보
+ * - 캐러셀 이미지/동영상 목록 (post_media)
+ * - 화면 비율 (aspect_ratio)
  * - 사용자 정보
  * - 좋아요 수, 댓글 수
  * - 전체 댓글 목록 (시간 역순)
  * - 현재 로그인한 사용자의 좋아요 상태
+ * - 캡션 수정 시각 (edited_at)
+ * - 운동 기록 (없으면 null)
+ * - 투표 (선택지별 득표 수, 내 투표, 마감 여부, 없으면 null)
+ * - 전/후 비교 라벨 (before_after, 일반 게시물은 null)
+ * - 장소 태그 (없으면 null)
+ * - 사진 속 사람 태그 (tags)
+ * - 수락한 공동 작성자 (collaborators)
+ * - 게시물 공개 설정 (hide_like_count, comments_disabled)
+ * - 좋아요 수를 숨긴 게시물은 작성자가 아니면 likes_count가 null
+ * - 예약 게시물은 게시 전까지 조회 불가
  */
 
 export async function GET(
@@ -54,8 +87,9 @@ export async function GET(
       // 뷰가 없으면 posts 테이블을 직접 조회
       const postsResult = await supabase
         .from("posts")
-        .select("id, user_id, image_url, caption, created_at")
+        .select("id, user_id, image_url, caption, created_at, edited_at, aspect_ratio, place_id, hide_like_count, comments_disabled")
         .eq("id", postId)
+        .eq("status", "published")
         .single();
 
       if (postsResult.error) {
@@ -83,6 +117,11 @@ export async function GET(
         image_url: postsResult.data.image_url,
         caption: postsResult.data.caption,
         created_at: postsResult.data.created_at,
+        edited_at: postsResult.data.edited_at,
+        aspect_ratio: postsResult.data.aspect_ratio,
+        place_id: postsResult.data.place_id,
+        hide_like_count: postsResult.data.hide_like_count,
+        comments_disabled: postsResult.data.comments_disabled,
         likes_count: (likesResult.data || []).length,
         comments_count: (commentsResult.data || []).length,
       };
@@ -122,6 +161,7 @@ export async function GET(
     // 현재 로그인한 사용자의 좋아요/북마크 상태 확인
     let isLiked = false;
     let isBookmarked = false;
+    let currentUserUuid: string | null = null;
     if (currentClerkId) {
       try {
         const { data: currentUser } = await supabase
@@ -131,6 +171,7 @@ export async function GET(
           .single();
 
         if (currentUser) {
+          currentUserUuid = currentUser.id;
           const { data: likeData } = await supabase
             .from("likes")
             .select("id")
@@ -238,14 +279,33 @@ export async function GET(
       // 댓글이 없어도 계속 진행
     }
 
+    const mediaMap = await fetchPostMediaMap(supabase, [postData.post_id]);
+    const workoutMap = await fetchPostWorkoutMap(supabase, [postData.post_id]);
+    const pollMap = await fetchPostPollMap(supabase, [postData.post_id], currentUserUuid);
+    const beforeAfterMap = await fetchPostBeforeAfterMap(supabase, [postData.post_id]);
+    const placeMap = await fetchPlaceMap(supabase, [postData.place_id]);
+    const tagsMap = await fetchPostTagsMap(supabase, [postData.post_id]);
+    const collaboratorsMap = await fetchPostCollaboratorsMap(supabase, [postData.post_id]);
+
     return NextResponse.json({
       post: {
         id: postData.post_id,
         user_id: postData.user_id,
         image_url: postData.image_url,
+        media: resolvePostMedia(mediaMap, postData.post_id, postData.image_url),
         caption: postData.caption,
         created_at: postData.created_at,
-        likes_count: postData.likes_count || 0,
+        edited_at: postData.edited_at || null,
+        aspect_ratio: postData.aspect_ratio || DEFAULT_POST_ASPECT_RATIO,
+        workout: workoutMap.get(postData.post_id) || null,
+        poll: pollMap.get(postData.post_id) || null,
+        before_after: beforeAfterMap.get(postData.post_id) || null,
+        place: (postData.place_id && placeMap.get(postData.place_id)) || null,
+        tags: tagsMap.get(postData.post_id) || [],
+        collaborators: collaboratorsMap.get(postData.post_id) || [],
+        hide_like_count: postData.hide_like_count ?? false,
+        comments_disabled: postData.comments_disabled ?? false,
+        likes_count: getVisibleLikesCount(postData, currentUserUuid),
         comments_count: postData.comments_count || 0,
         isLiked,
         isBookmarked,
@@ -269,12 +329,213 @@ export async function GET(
   }
 }
 
+/**
+ * PATCH: 게시물 캡션 수정
+ * - Clerk 인증 확인
+ * - 본인 게시물만 수정 가능
+ * - 수정 전 캡션을 post_edits에 기록
+ * - post_hashtags / mentions를 수정된 캡션 기준으로 재계산
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    // Clerk 인증 확인
+    const { userId: currentClerkId } = await auth();
+    if (!currentClerkId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { postId } = await params;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "요청 본문이 올바른 JSON 형식이 아닙니다." },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body?.caption !== "string") {
+      return NextResponse.json(
+        { error: "캡션이 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    if (body.caption.length > MAX_CAPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `캡션은 최대 ${MAX_CAPTION_LENGTH.toLocaleString()}자까지 입력할 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const nextCaption: string | null = body.caption.trim() ? body.caption : null;
+    const requestedMentions = parseMentionPayload(body.mentions);
+
+    // Supabase Service Role 클라이언트 사용
+    const supabase = getServiceRoleClient();
+
+    // 현재 사용자의 Supabase user_id 조회
+    const { data: currentUser, error: currentUserError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", currentClerkId)
+      .single();
+
+    if (currentUserError || !currentUser) {
+      return NextResponse.json(
+        { error: "사용자 정보를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 게시물 정보 조회 (소유권 확인 및 기존 캡션 가져오기)
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id, user_id, caption, edited_at, status, pending_mentions")
+      .eq("id", postId)
+      .single();
+
+    if (postError || !postData) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 소유권 확인
+    if (postData.user_id !== currentUser.id) {
+      return NextResponse.json(
+        { error: "본인의 게시물만 수정할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    // 예약 게시물: 아직 공개되지 않았으므로 이력 없이 캡션과 게시 시점에 저장할 멘션만 갱신
+    if (postData.status === "scheduled") {
+      const pendingMentions = filterCaptionMentions(nextCaption, [
+        ...parseMentionPayload(postData.pending_mentions),
+        ...requestedMentions,
+      ]);
+
+      const { error: updateError } = await supabase
+        .from("posts")
+        .update({ caption: nextCaption, pending_mentions: pendingMentions })
+        .eq("id", postId);
+
+      if (updateError) {
+        console.error("Error updating scheduled post:", updateError);
+        return NextResponse.json(
+          { error: "게시물 수정에 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "게시물이 수정되었습니다.",
+        post: {
+          id: postId,
+          caption: nextCaption,
+          edited_at: null,
+          mentions: [],
+        },
+      });
+    }
+
+    let editedAt: string | null = postData.edited_at;
+
+    // 캡션이 바뀐 경우에만 이력 기록 및 수정 시각 갱신
+    if ((postData.caption || null) !== nextCaption) {
+      const { error: historyError } = await supabase
+        .from("post_edits")
+        .insert({
+          post_id: postId,
+          editor_id: currentUser.id,
+          caption: postData.caption,
+        });
+
+      if (historyError) {
+        console.error("Error saving post edit history:", historyError);
+        return NextResponse.json(
+          { error: "게시물 수정에 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      editedAt = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from("posts")
+        .update({ caption: nextCaption, edited_at: editedAt })
+        .eq("id", postId);
+
+      if (updateError) {
+        console.error("Error updating post:", updateError);
+        return NextResponse.json(
+          { error: "게시물 수정에 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      await syncPostHashtags(supabase, postId, nextCaption);
+    }
+
+    await syncPostMentions(supabase, postId, currentUser.id, nextCaption, requestedMentions);
+
+    const { data: postMentionsData } = await supabase
+      .from("mentions")
+      .select("display_text, mentioned_user:mentioned_user_id (id, clerk_id, name)")
+      .eq("post_id", postId)
+      .is("comment_id", null);
+
+    const postMentions = (postMentionsData || [])
+      .filter((mention: any) => mention.mentioned_user)
+      .map((mention: any) => ({
+        display_text: mention.display_text,
+        user: {
+          id: mention.mentioned_user.id,
+          clerk_id: mention.mentioned_user.clerk_id,
+          name: mention.mentioned_user.name,
+        },
+      }));
+
+    return NextResponse.json({
+      message: "게시물이 수정되었습니다.",
+      post: {
+        id: postId,
+        caption: nextCaption,
+        edited_at: editedAt,
+        mentions: postMentions,
+      },
+    });
+  } catch (error) {
+    console.error("Error in PATCH /api/posts/[postId]:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE: 게시물 삭제
  * - Clerk 인증 확인
  * - 본인 게시물만 삭제 가능
- * - Storage에서 이미지 파일 삭제
- * - posts 테이블에서 게시물 삭제
+ * - Storage에서 모든 이미지 파일 삭제 (캐러셀, 리사이즈 이미지 포함)
+ * - posts 테이블에서 게시물 삭제 (post_media는 CASCADE)
  */
 export async function DELETE(
   request: NextRequest,
@@ -338,23 +599,42 @@ export async function DELETE(
       );
     }
 
-    // Storage에서 이미지 파일 삭제
-    if (postData.image_url) {
-      try {
-        // 이미지 URL에서 파일 경로 추출
-        // 예: https://xxx.supabase.co/storage/v1/object/public/uploads/user_id/filename.jpg
-        const urlParts = postData.image_url.split("/");
-        const fileNameIndex = urlParts.findIndex((part) => part === "uploads");
-        if (fileNameIndex !== -1 && fileNameIndex < urlParts.length - 1) {
-          const filePath = urlParts.slice(fileNameIndex + 1).join("/");
-          const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
-          
-          await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+    // Storage에서 모든 미디어 파일 삭제 (post_media + 동영상 포스터 + 리사이즈 이미지 + 대표 이미지)
+    try {
+      const { data: mediaRows } = await supabase
+        .from("post_media")
+        .select("url, storage_path, poster_url, poster_storage_path, variants")
+        .eq("post_id", postId);
+
+      const filePaths = new Set<string>();
+      (mediaRows || []).forEach((media) => {
+        const path = media.storage_path || getStoragePathFromUrl(media.url);
+        if (path) {
+          filePaths.add(path);
+        }
+        const posterPath = media.poster_storage_path || getStoragePathFromUrl(media.poster_url);
+        if (posterPath) {
+          filePaths.add(posterPath);
+        }
+        getVariantStoragePaths(media.variants).forEach((variantPath) => filePaths.add(variantPath));
+      });
+      const coverPath = getStoragePathFromUrl(postData.image_url);
+      if (coverPath) {
+        filePaths.add(coverPath);
+      }
+
+      if (filePaths.size > 0) {
+        const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+        const { error: removeError } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .remove(Array.from(filePaths));
+        if (removeError) {
+          console.warn("Failed to delete images from storage:", removeError);
         }
-      } catch (storageError) {
-        // Storage 삭제 실패해도 게시물은 삭제 진행 (이미지가 없을 수도 있음)
-        console.warn("Failed to delete image from storage:", storageError);
       }
+    } catch (storageError) {
+      // Storage 삭제 실패해도 게시물은 삭제 진행 (이미지가 없을 수도 있음)
+      console.warn("Failed to delete images from storage:", storageError);
     }
 
     // 게시물 삭제 (CASCADE로 인해 관련된 likes, comments도 자동 삭제됨)
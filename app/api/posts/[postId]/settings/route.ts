@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { PostSettings } from "@/lib/utils/post-settings";
+
+/**
+ * @file route.ts
+ * @description 게시물 공개 설정 변경 API
+ *
+ * PATCH: 좋아요 수 숨기기 / 댓글 기능 해제 설정 변경
+ * - 요청 본문: { hide_like_count?: boolean, comments_disabled?: boolean } (하나 이상 필요)
+ * - hide_like_count: 켜면 작성자 외에는 좋아요 수가 표시되지 않음
+ * - comments_disabled: 켜면 새 댓글 작성 불가 (기존 댓글은 유지)
+ *
+ * 본인 게시물만 변경 가능 (예약/보관 게시물 포함), Clerk 인증 필수
+ */
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { userId: currentClerkId } = await auth();
+    if (!currentClerkId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { postId } = await params;
+
+    if (!postId) {
+      return NextResponse.json(
+        { error: "게시물 ID가 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const updates: Partial<PostSettings> = {};
+    if (typeof body.hide_like_count === "boolean") {
+      updates.hide_like_count = body.hide_like_count;
+    }
+    if (typeof body.comments_disabled === "boolean") {
+      updates.comments_disabled = body.comments_disabled;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: "변경할 설정이 필요합니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+
+    // 현재 사용자의 Supabase user_id 조회
+    const { data: currentUser, error: currentUserError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("clerk_id", currentClerkId)
+      .single();
+
+    if (currentUserError || !currentUser) {
+      return NextResponse.json(
+        { error: "사용자 정보를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 게시물 정보 조회 (소유권 확인)
+    const { data: postData, error: postError } = await supabase
+      .from("posts")
+      .select("id, user_id")
+      .eq("id", postId)
+      .single();
+
+    if (postError || !postData) {
+      return NextResponse.json(
+        { error: "게시물을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (postData.user_id !== currentUser.id) {
+      return NextResponse.json(
+        { error: "본인의 게시물만 설정을 변경할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data: updatedPost, error: updateError } = await supabase
+      .from("posts")
+      .update(updates)
+      .eq("id", postId)
+      .select("id, hide_like_count, comments_disabled")
+      .single();
+
+    if (updateError || !updatedPost) {
+      console.error("[PATCH /api/posts/[postId]/settings] Error updating post:", updateError);
+      return NextResponse.json(
+        { error: "게시물 설정 변경에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "게시물 설정이 변경되었습니다.",
+      post: updatedPost,
+    });
+  } catch (error) {
+    console.error("Error in PATCH /api/posts/[postId]/settings:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { fetchPostMediaMap, resolvePostMedia } from "@/lib/utils/post-media";
+
+/**
+ * @file route.ts
+ * @description 보관한 게시물 목록 API
+ *
+ * GET: 내 보관한 게시물 목록 조회 (최근 보관순)
+ * - 좋아요 수, 댓글 수 포함 (보관 중에도 유지)
+ * - 복원은 DELETE /api/posts/[postId]/archive 사용
+ * - Clerk 인증 필수
+ */
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const { data: postsData, error: postsError } = await supabase
+      .from("posts")
+      .select("id, image_url, caption, created_at, archived_at")
+      .eq("user_id", userUuid)
+      .eq("status", "archived")
+      .order("archived_at", { ascending: false });
+
+    if (postsError) {
+      console.error("[GET /api/posts/archived] Error fetching archived posts:", postsError);
+      return NextResponse.json(
+        { error: "보관한 게시물을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const postIds = (postsData || []).map((post) => post.id);
+    const mediaMap = await fetchPostMediaMap(supabase, postIds);
+
+    // 좋아요 수와 댓글 수 계산 (post_stats는 게시된 게시물만 포함)
+    const likesCountMap = new Map<string, number>();
+    const commentsCountMap = new Map<string, number>();
+    if (postIds.length > 0) {
+      const [likesResult, commentsResult] = await Promise.all([
+        supabase.from("likes").select("post_id").in("post_id", postIds),
+        supabase.from("comments").select("post_id").in("post_id", postIds),
+      ]);
+
+      (likesResult.data || []).forEach((like) => {
+        likesCountMap.set(like.post_id, (likesCountMap.get(like.post_id) || 0) + 1);
+      });
+      (commentsResult.data || []).forEach((comment) => {
+        commentsCountMap.set(comment.post_id, (commentsCountMap.get(comment.post_id) || 0) + 1);
+      });
+    }
+
+    const posts = (postsData || []).map((post) => ({
+      id: post.id,
+      image_url: post.image_url,
+      media: resolvePostMedia(mediaMap, post.id, post.image_url),
+      caption: post.caption,
+      created_at: post.created_at,
+      archived_at: post.archived_at,
+      likes_count: likesCountMap.get(post.id) || 0,
+      comments_count: commentsCountMap.get(post.id) || 0,
+    }));
+
+    return NextResponse.json({ posts });
+  } catch (error) {
+    console.error("Error in GET /api/posts/archived:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
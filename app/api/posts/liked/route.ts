@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { fetchPostMediaMap } from "@/lib/utils/post-media";
+import { getVisibleLikesCount } from "@/lib/utils/post-settings";
+import { buildCursorFilter, parseCursorParam, toCursorPage } from "@/lib/utils/pagination";
 
 const DEFAULT_LIMIT = 12;
 
@@ -29,18 +32,30 @@ export async function GET(request: NextRequest) {
     }
 
     const searchParams = request.nextUrl.searchParams;
-    const page = parseInt(searchParams.get("page") || String(1), 10);
     const limit = parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10);
-    const offset = (page - 1) * limit;
+    const cursorResult = parseCursorParam(searchParams.get("cursor"));
+    if ("error" in cursorResult) {
+      return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+    }
+    const { cursor } = cursorResult;
 
     const supabase = getServiceRoleClient();
     const userUuid = await getCurrentUserId(supabase, userId);
 
-    const { data: likeRows, error: likeError } = await supabase
+    // 좋아요한 순서(최신순)로 커서 다음 항목만, 다음 페이지 확인용으로 하나 더 조회
+    let likesQuery = supabase
       .from("likes")
-      .select("post_id, created_at")
-      .eq("user_id", userUuid)
-      .order("created_at", { ascending: false });
+      .select("id, post_id, created_at")
+      .eq("user_id", userUuid);
+
+    if (cursor) {
+      likesQuery = likesQuery.or(buildCursorFilter(cursor));
+    }
+
+    const { data: likeRows, error: likeError } = await likesQuery
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
 
     if (likeError) {
       console.error("Error fetching liked posts:", likeError);
@@ -50,25 +65,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const allPostIds = (likeRows || []).map((row) => row.post_id);
-
-    if (allPostIds.length === 0) {
-      return NextResponse.json({ posts: [], hasMore: false, page: 1 });
-    }
-
-    const pagedPostIds = allPostIds.slice(offset, offset + limit);
+    const { items: pageRows, hasMore, nextCursor } = toCursorPage(likeRows || [], limit, (row) => ({
+      created_at: row.created_at,
+      id: row.id,
+    }));
+    const pagedPostIds = pageRows.map((row) => row.post_id);
 
     if (pagedPostIds.length === 0) {
-      return NextResponse.json({
-        posts: [],
-        hasMore: offset + limit < allPostIds.length,
-        page,
-      });
+      return NextResponse.json({ posts: [], hasMore: false, nextCursor: null });
     }
 
     const { data: postsData, error: postsError } = await supabase
       .from("post_stats")
-      .select("post_id, image_url, likes_count, comments_count, created_at")
+      .select("post_id, user_id, image_url, likes_count, comments_count, created_at, hide_like_count")
       .in("post_id", pagedPostIds)
       .order("created_at", { ascending: false });
 
@@ -80,17 +89,35 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const posts = (postsData || []).map((post) => ({
-      id: post.post_id,
-      image_url: post.image_url,
-      likes_count: post.likes_count || 0,
-      comments_count: post.comments_count || 0,
-    }));
+    // 대표 이미지의 대체 텍스트, 리사이즈 이미지, 저화질 미리보기
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      (postsData || []).map((post) => post.post_id)
+    );
+
+    // 게시물 작성 순서가 아니라 좋아요한 순서대로
+    const postOrder = new Map(pagedPostIds.map((postId, index) => [postId, index]));
+    const sortedPosts = [...(postsData || [])].sort(
+      (a, b) => (postOrder.get(a.post_id) ?? 0) - (postOrder.get(b.post_id) ?? 0)
+    );
+
+    const posts = sortedPosts.map((post) => {
+      const cover = mediaMap.get(post.post_id)?.[0];
+      return {
+        id: post.post_id,
+        image_url: post.image_url,
+        alt_text: cover?.alt_text || null,
+        placeholder: cover?.placeholder || null,
+        variants: cover?.variants || [],
+        likes_count: getVisibleLikesCount(post, userUuid),
+        comments_count: post.comments_count || 0,
+      };
+    });
 
     return NextResponse.json({
       posts,
-      hasMore: offset + limit < allPostIds.length,
-      page,
+      hasMore,
+      nextCursor,
     });
   } catch (error) {
     console.error("Error in GET /api/posts/liked:", error);
@@ -1,59 +1,248 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { clerkClient } from "@clerk/nextjs/server";
 import { auth } from "@clerk/nextjs/server";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  DEFAULT_POST_ASPECT_RATIO,
+  fetchPostMediaMap,
+  parseAspectRatio,
+  resolvePostMedia,
+} from "@/lib/utils/post-media";
+import { parseMentionPayload } from "@/lib/utils/post-caption";
+import { parseMediaUpload, removeStoredMedia, uploadMedia } from "@/lib/utils/media-upload";
+import { createPostWithMedia } from "@/lib/utils/post-create";
+import { parsePublishAt } from "@/lib/utils/scheduled-posts";
+import { fetchPostWorkoutMap, parseWorkoutPayload } from "@/lib/utils/post-workout";
+import { fetchPostPollMap, parsePollPayload } from "@/lib/utils/post-poll";
+import { fetchPostBeforeAfterMap, parseBeforeAfterPayload } from "@/lib/utils/post-before-after";
+import { fetchPlaceMap, resolvePlaceId } from "@/lib/utils/post-place";
+import { fetchPostTagsMap, parsePhotoTagsPayload } from "@/lib/utils/post-tags";
+import {
+  fetchPostCollaboratorsMap,
+  parseCollaboratorsPayload,
+} from "@/lib/utils/post-collaborators";
+import { getVisibleLikesCount, parsePostSettingFlag } from "@/lib/utils/post-settings";
+import {
+  fetchDuplicateOriginalPost,
+  findDuplicateImages,
+  getBlockingDuplicate,
+  logDuplicateImageMatches,
+} from "@/lib/utils/duplicate-images";
+import {
+  buildCursorFilter,
+  parseCursorParam,
+  parseFeedCursorParam,
+  toCursorPage,
+  type ListCursor,
+  type OlderFeedCursor,
+  type RankedCursor,
+} from "@/lib/utils/pagination";
+import { fetchRankedFeedPage, type RankedFeedPage } from "@/lib/utils/feed-ranking";
 
 /**
  * @file route.ts
  * @description 게시물 API
  *
  * GET: 게시물 목록 조회
- * - 페이지네이션 (10개씩)
+ * - 커서 페이지네이션 (10개씩, cursor로 다음 페이지 요청, 응답의 nextCursor 사용)
  * - 시간 역순 정렬
  * - 사용자 정보 포함
  * - 좋아요 수, 댓글 수 포함 (post_stats 뷰 활용)
  * - 댓글 미리보기 2개 포함 (최신순)
+ * - 캐러셀 이미지 목록 포함 (post_media)
+ * - 화면 비율 포함 (aspect_ratio: 1:1, 4:5, 1.91:1)
+ * - 운동 기록 포함 (workouts, 없으면 null)
+ * - 투표 포함 (poll: 선택지별 득표 수, 내 투표, 마감 여부, 없으면 null)
+ * - 전/후 비교 라벨 포함 (before_after: 전/후 날짜와 체중, 일반 게시물은 null)
+ * - 장소 태그 포함 (place, 없으면 null)
+ * - placeId 지정 시 해당 장소에 태그된 게시물만 조회
+ * - 사진 속 사람 태그 포함 (tags: 미디어 순서, x/y 위치, 태그된 사용자)
+ * - taggedUserId(Clerk ID) 지정 시 해당 사용자가 사진에 태그된 게시물만 조회
+ * - 수락한 공동 작성자 포함 (collaborators)
+ * - userId 지정 시 공동 작성자로 참여한 게시물도 함께 조회 (profile_post_stats 뷰)
+ * - userId 지정 시 프로필 주인이 고정한 본인 게시물(is_pinned)을 첫 페이지 맨 앞에 표시 (최근 고정순)
+ * - feed=for_you(기본값): 필터 없는 홈 피드는 추천 순위로 조회 (최신성, 참여 속도, 팔로우, 관심 해시태그)
+ *   - 가중치는 서버 환경 변수(FEED_RANKING_*)로 설정, 커서에 순위 기준 시각을 담아 다음 페이지도 같은 순서
+ *   - userId, placeId, taggedUserId, hashtag 필터가 있으면 최신순
+ * - feed=following: 내가 팔로우한 계정과 내 게시물만 조회 (로그인 필수, 최신순)
+ * - ids(쉼표 구분, 최대 50개) 지정 시 해당 게시물 중 피드 조건에 맞는 게시물만 조회 (실시간 새 게시물 표시용, 최신순)
+ * - 좋아요 수를 숨긴 게시물은 작성자가 아니면 likes_count를 null로 반환
+ * - 게시물 공개 설정 포함 (hide_like_count, comments_disabled)
  * - Clerk 인증 확인 (선택적, 공개 데이터도 허용)
+ * - 예약 게시물(status = 'scheduled')은 게시 전까지 제외
  *
  * POST: 게시물 작성
- * - 이미지 파일 업로드 (최대 5MB)
+ * - 이미지 파일 업로드 (최대 10장, 장당 최대 5MB)
+ * - 또는 동영상 1개 업로드 (MP4/WebM, 최대 50MB, 최대 60초)
+ *   - 컨테이너 시그니처와 재생 시간을 서버에서 검증
+ *   - 서버에서 동영상으로부터 추출한 포스터 프레임을 함께 저장
+ * - 이미지(동영상 포스터 포함)별 너비별 WebP/JPEG 리사이즈 이미지와 저화질 미리보기 생성
  * - Supabase Storage에 저장
- * - posts 테이블에 데이터 저장
+ * - posts 테이블에 데이터 저장 (image_url은 첫 번째 이미지 또는 동영상 포스터)
+ * - post_media 테이블에 미디어 순서대로 저장
+ * - aspect_ratio: 화면 비율 (1:1, 4:5, 1.91:1, 기본값 1:1)
+ * - workout(JSON): 운동 기록 (종목, 세트별 횟수/중량/시간, 총 운동 시간)
+ * - poll(JSON): 투표 (선택지 2~4개, 진행 시간 duration_hours, 게시 시각부터 진행)
+ * - before_after(JSON): 전/후 비교 게시물 (이미지 2장, 이미지별 날짜/체중 라벨 선택)
+ * - place_id: 장소 태그 (선택, places에 등록된 장소만)
+ * - tags(JSON): 사진 속 사람 태그 (이미지별 최대 20명, x/y는 0~1 비율)
+ * - collaborators(JSON): 공동 작성자 초대 (최대 3명, 수락하면 두 프로필에 모두 표시)
+ * - hide_like_count, comments_disabled("true"): 좋아요 수 숨기기, 댓글 기능 해제
+ * - publish_at 지정 시 예약 게시 (게시 워커가 해당 시각에 게시)
+ * - 이미지(동영상 포스터 포함)별 perceptual hash 저장 및 중복/재업로드 감지
+ *   - 다른 사용자의 게시물과 거의 같은 이미지는 409와 함께 원본 게시물(duplicate) 반환
+ *   - 비슷한 이미지는 게시를 허용하고 관리자 확인용으로 기록
  * - Clerk 인증 필수
  */
 
 const DEFAULT_LIMIT = 10;
-const DEFAULT_PAGE = 1;
-const HASHTAG_REGEX = /#([\p{L}\p{N}_]+)/gu;
+const MAX_POST_IDS = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const FEED_MODES = ["for_you", "following"] as const;
 
-function extractHashtags(text: string | null | undefined): string[] {
-  if (!text) {
+/**
+ * ids 쿼리 파싱 (없으면 null)
+ */
+function parsePostIdsParam(raw: string | null): { postIds: string[] | null } | { error: string } {
+  if (raw === null) {
+    return { postIds: null };
+  }
+
+  const postIds = [...new Set(raw.split(",").map((id) => id.trim()).filter(Boolean))];
+  if (postIds.length === 0 || postIds.length > MAX_POST_IDS || !postIds.every((id) => UUID_PATTERN.test(id))) {
+    return { error: "잘못된 게시물 ID 목록입니다." };
+  }
+
+  return { postIds };
+}
+
+const POST_TABLE_COLUMNS =
+  "id, user_id, image_url, caption, created_at, edited_at, aspect_ratio, place_id, hide_like_count, comments_disabled, pinned_at";
+
+/**
+ * posts 테이블 행을 post_stats 형식으로 변환 (좋아요/댓글 수 직접 계산)
+ */
+async function toPostStatsRows(supabase: SupabaseClient, posts: any[]): Promise<any[]> {
+  if (posts.length === 0) {
     return [];
   }
-  const tags = new Set<string>();
-  for (const match of text.matchAll(HASHTAG_REGEX)) {
-    const tag = match[1]?.toLowerCase();
-    if (tag) {
-      tags.add(tag);
-    }
+
+  const postIds = posts.map((p) => p.id);
+  const [likesResult, commentsResult] = await Promise.all([
+    supabase
+      .from("likes")
+      .select("post_id")
+      .in("post_id", postIds),
+    supabase
+      .from("comments")
+      .select("post_id")
+      .in("post_id", postIds),
+  ]);
+
+  // post_id별로 카운트 계산
+  const likesCountMap = new Map<string, number>();
+  const commentsCountMap = new Map<string, number>();
+
+  (likesResult.data || []).forEach((like: any) => {
+    likesCountMap.set(like.post_id, (likesCountMap.get(like.post_id) || 0) + 1);
+  });
+
+  (commentsResult.data || []).forEach((comment: any) => {
+    commentsCountMap.set(comment.post_id, (commentsCountMap.get(comment.post_id) || 0) + 1);
+  });
+
+  return posts.map((post) => ({
+    post_id: post.id,
+    user_id: post.user_id,
+    image_url: post.image_url,
+    caption: post.caption,
+    created_at: post.created_at,
+    edited_at: post.edited_at,
+    aspect_ratio: post.aspect_ratio,
+    place_id: post.place_id,
+    hide_like_count: post.hide_like_count,
+    comments_disabled: post.comments_disabled,
+    pinned_at: post.pinned_at,
+    likes_count: likesCountMap.get(post.id) || 0,
+    comments_count: commentsCountMap.get(post.id) || 0,
+  }));
+}
+
+/**
+ * 프로필 주인이 고정한 본인 게시물 (최근 고정순, 실패 시 null)
+ * 공동 작성 게시물의 고정은 작성자 프로필에만 적용되므로 공동 작성자 프로필에서는 제외
+ */
+async function fetchPinnedProfilePosts(supabase: SupabaseClient, targetUserId: string): Promise<any[] | null> {
+  const { data, error } = await supabase
+    .from("posts")
+    .select(POST_TABLE_COLUMNS)
+    .eq("user_id", targetUserId)
+    .eq("status", "published")
+    .not("pinned_at", "is", null)
+    .order("pinned_at", { ascending: false });
+
+  if (error) {
+    console.error("[GET /api/posts] Error fetching pinned posts:", error);
+    return null;
   }
-  return Array.from(tags);
+
+  return toPostStatsRows(supabase, data || []);
 }
 
 export async function GET(request: NextRequest) {
   try {
     console.log("[GET /api/posts] Request received");
     const searchParams = request.nextUrl.searchParams;
-    const page = parseInt(searchParams.get("page") || String(DEFAULT_PAGE), 10);
-    const limit = parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10);
-    const offset = (page - 1) * limit;
+    const postIdsResult = parsePostIdsParam(searchParams.get("ids"));
+    if ("error" in postIdsResult) {
+      return NextResponse.json({ error: postIdsResult.error }, { status: 400 });
+    }
+    const { postIds: requestedPostIds } = postIdsResult;
+    const limit = requestedPostIds
+      ? requestedPostIds.length
+      : parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10);
     const userIdParam = searchParams.get("userId"); // Clerk ID (선택적)
+    const placeIdParam = searchParams.get("placeId"); // places.id (선택적)
+    const taggedUserIdParam = searchParams.get("taggedUserId"); // Clerk ID (선택적)
+    const feedParam = searchParams.get("feed") || "for_you";
     const hashtagParamRaw = searchParams.get("hashtag");
     const normalizedHashtag = hashtagParamRaw
       ? hashtagParamRaw.trim().replace(/^#+/, "").toLowerCase()
       : null;
 
+    if (!(FEED_MODES as readonly string[]).includes(feedParam)) {
+      return NextResponse.json(
+        { error: "지원하지 않는 피드입니다." },
+        { status: 400 }
+      );
+    }
+
+    // 필터 없는 추천 피드만 순위로 정렬 (커서 형식도 다름)
+    const isRankedFeed =
+      feedParam === "for_you" &&
+      !userIdParam &&
+      !placeIdParam &&
+      !taggedUserIdParam &&
+      !normalizedHashtag &&
+      !requestedPostIds;
+
+    let cursor: ListCursor | null = null;
+    let rankedCursor: RankedCursor | OlderFeedCursor | null = null;
+    if (isRankedFeed) {
+      const rankedCursorResult = parseFeedCursorParam(searchParams.get("cursor"));
+      if ("error" in rankedCursorResult) {
+        return NextResponse.json({ error: rankedCursorResult.error }, { status: 400 });
+      }
+      rankedCursor = rankedCursorResult.cursor;
+    } else {
+      const cursorResult = parseCursorParam(searchParams.get("cursor"));
+      if ("error" in cursorResult) {
+        return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+      }
+      cursor = cursorResult.cursor;
+    }
+
     // 게시물 목록은 공개 데이터이므로 공개 클라이언트 사용
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -76,6 +265,32 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // 팔로잉 피드: 팔로우한 계정 + 내 게시물
+    let feedAuthorIds: string[] | null = null;
+    if (feedParam === "following") {
+      if (!currentUserUuid) {
+        return NextResponse.json(
+          { error: "팔로잉 피드는 로그인 후 볼 수 있습니다." },
+          { status: 401 }
+        );
+      }
+
+      const { data: followingRows, error: followingError } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", currentUserUuid);
+
+      if (followingError) {
+        console.error("[GET /api/posts] Error fetching follows:", followingError);
+        return NextResponse.json(
+          { error: "팔로잉 피드를 불러오는데 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      feedAuthorIds = [currentUserUuid, ...(followingRows || []).map((row) => row.following_id)];
+    }
+
     // userId 파라미터가 있으면 Supabase user_id로 변환
     let targetUserId: string | null = null;
     if (userIdParam) {
@@ -95,10 +310,44 @@ export async function GET(request: NextRequest) {
       targetUserId = userData.id;
     }
 
+    // taggedUserId 파라미터가 있으면 사진에 태그된 게시물 ID 목록 조회
+    let taggedPostIds: string[] | null = null;
+    if (taggedUserIdParam) {
+      const { data: taggedUser, error: taggedUserError } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", taggedUserIdParam)
+        .single();
+
+      if (taggedUserError || !taggedUser) {
+        return NextResponse.json(
+          { error: "사용자를 찾을 수 없습니다." },
+          { status: 404 }
+        );
+      }
+
+      const { data: taggedRows, error: taggedRowsError } = await supabase
+        .from("post_tags")
+        .select("post_id")
+        .eq("tagged_user_id", taggedUser.id);
+
+      if (taggedRowsError) {
+        console.error("[GET /api/posts] Error fetching post_tags:", taggedRowsError);
+        return NextResponse.json(
+          { error: "태그된 게시물을 불러오는데 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      taggedPostIds = [...new Set((taggedRows || []).map((row) => row.post_id))];
+      if (taggedPostIds.length === 0) {
+        return NextResponse.json({ posts: [], hasMore: false, nextCursor: null });
+      }
+    }
+
     // post_stats 뷰에서 게시물 목록 가져오기 (시간 역순)
     // 뷰가 없을 경우를 대비해 posts 테이블을 직접 조회
     let postsData: any[] | null = null;
-    let totalCount: number | null = null;
 
     if (normalizedHashtag) {
       try {
@@ -131,50 +380,26 @@ export async function GET(request: NextRequest) {
 
         if (!hashtagRecord || !hashtagRecord.id) {
           console.log("[GET /api/posts] Hashtag not found:", normalizedHashtag);
-          return NextResponse.json({ posts: [], hasMore: false, page });
+          return NextResponse.json({ posts: [], hasMore: false, nextCursor: null });
         }
 
         console.log("[GET /api/posts] Found hashtag:", hashtagRecord.id);
 
-        // post_hashtags에서 post_id 조회
-        const { data: hashtagPosts, error: hashtagPostsError } = await supabase
-          .from("post_hashtags")
-          .select("post_id")
-          .eq("hashtag_id", hashtagRecord.id);
-
-        if (hashtagPostsError) {
-          console.error("[GET /api/posts] Error fetching post_hashtags:", {
-            error: hashtagPostsError,
-            code: hashtagPostsError.code,
-            message: hashtagPostsError.message,
-          });
-          return NextResponse.json(
-            { error: "해시태그 게시물을 불러오는데 실패했습니다." },
-            { status: 500 }
-          );
-        }
-
-        const allPostIds = (hashtagPosts || []).map((row) => row.post_id).filter(Boolean);
-        totalCount = allPostIds.length;
-        
-        console.log("[GET /api/posts] Found", totalCount, "posts for hashtag");
+        // post_hashtags와 조인해 해당 해시태그 게시물만 조회 (posts 테이블 직접)
+        let hashtagPostsQuery = supabase
+          .from("posts")
+          .select("id, user_id, image_url, caption, created_at, edited_at, aspect_ratio, place_id, hide_like_count, comments_disabled, pinned_at, post_hashtags!inner(hashtag_id)")
+          .eq("post_hashtags.hashtag_id", hashtagRecord.id)
+          .eq("status", "published");
 
-        if (allPostIds.length === 0) {
-          return NextResponse.json({ posts: [], hasMore: false, page });
+        if (cursor) {
+          hashtagPostsQuery = hashtagPostsQuery.or(buildCursorFilter(cursor));
         }
 
-        // 페이지네이션
-        const pagedPostIds = allPostIds.slice(offset, offset + limit);
-        if (pagedPostIds.length === 0) {
-          return NextResponse.json({ posts: [], hasMore: offset + limit < totalCount, page });
-        }
-
-        // posts 테이블에서 직접 조회
-        const { data: hashtagPostsData, error: hashtagPostsDataError } = await supabase
-          .from("posts")
-          .select("id, user_id, image_url, caption, created_at")
-          .in("id", pagedPostIds)
-          .order("created_at", { ascending: false });
+        const { data: hashtagPostsData, error: hashtagPostsDataError } = await hashtagPostsQuery
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(limit + 1);
 
         if (hashtagPostsDataError) {
           console.error("[GET /api/posts] Error fetching posts:", {
@@ -238,6 +463,12 @@ export async function GET(request: NextRequest) {
             image_url: post.image_url,
             caption: post.caption,
             created_at: post.created_at,
+            edited_at: post.edited_at,
+            aspect_ratio: post.aspect_ratio,
+            place_id: post.place_id,
+            hide_like_count: post.hide_like_count,
+            comments_disabled: post.comments_disabled,
+            pinned_at: post.pinned_at,
             likes_count: likesCountMap.get(post.id) || 0,
             comments_count: commentsCountMap.get(post.id) || 0,
           }));
@@ -255,23 +486,110 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    if (!postsData) {
-      // 먼저 post_stats 뷰를 시도
-      let viewQuery = supabase
+    // 추천 피드: 순위 함수로 한 페이지 분량의 ID를 받아 순위 순서대로 조회
+    let rankedPage: RankedFeedPage | null = null;
+    if (isRankedFeed) {
+      rankedPage = await fetchRankedFeedPage(supabase, {
+        viewerId: currentUserUuid,
+        cursor: rankedCursor,
+        limit,
+      });
+
+      if (!rankedPage) {
+        return NextResponse.json(
+          { error: "추천 피드를 불러오는데 실패했습니다." },
+          { status: 500 }
+        );
+      }
+
+      if (rankedPage.postIds.length === 0) {
+        return NextResponse.json({ posts: [], hasMore: false, nextCursor: null });
+      }
+
+      const { data: rankedPostsData, error: rankedPostsError } = await supabase
         .from("post_stats")
         .select("*")
-        .order("created_at", { ascending: false });
+        .in("post_id", rankedPage.postIds);
+
+      if (rankedPostsError) {
+        console.error("[GET /api/posts] Error fetching ranked posts:", rankedPostsError);
+        return NextResponse.json(
+          { error: "추천 피드를 불러오는데 실패했습니다." },
+          { status: 500 }
+        );
+      }
 
-      // userId 필터 적용
+      const rankOrder = new Map(rankedPage.postIds.map((postId, index) => [postId, index]));
+      postsData = [...(rankedPostsData || [])].sort(
+        (a, b) => (rankOrder.get(a.post_id) ?? 0) - (rankOrder.get(b.post_id) ?? 0)
+      );
+    }
+
+    // 프로필 그리드: 고정 게시물은 첫 페이지 맨 앞에 두고 시간순 목록에서는 제외
+    let pinnedPostsData: any[] = [];
+    if (!postsData && targetUserId && !placeIdParam && !taggedPostIds && !requestedPostIds && !feedAuthorIds) {
+      const pinnedPosts = await fetchPinnedProfilePosts(supabase, targetUserId);
+      if (!pinnedPosts) {
+        return NextResponse.json(
+          { error: "게시물을 불러오는데 실패했습니다." },
+          { status: 500 }
+        );
+      }
+      pinnedPostsData = pinnedPosts;
+    }
+    const pinnedIdList = pinnedPostsData.map((post) => post.post_id).join(",");
+
+    if (!postsData) {
+      // 먼저 post_stats 뷰를 시도 (프로필은 공동 작성 게시물을 포함한 profile_post_stats 뷰)
+      let viewQuery = supabase
+        .from(targetUserId ? "profile_post_stats" : "post_stats")
+        .select("*");
+
+      // userId 필터 적용 (공동 작성 게시물 포함, 뷰에서 필터링)
       if (targetUserId) {
-        viewQuery = viewQuery.eq("user_id", targetUserId);
+        viewQuery = viewQuery.eq("profile_user_id", targetUserId);
+      }
+
+      // 팔로잉 피드 필터 적용
+      if (feedAuthorIds) {
+        viewQuery = viewQuery.in("user_id", feedAuthorIds);
+      }
+
+      // placeId 필터 적용
+      if (placeIdParam) {
+        viewQuery = viewQuery.eq("place_id", placeIdParam);
+      }
+
+      // taggedUserId 필터 적용
+      if (taggedPostIds) {
+        viewQuery = viewQuery.in("post_id", taggedPostIds);
+      }
+
+      // ids 필터 적용
+      if (requestedPostIds) {
+        viewQuery = viewQuery.in("post_id", requestedPostIds);
+      }
+
+      // 고정 게시물 제외
+      if (pinnedIdList) {
+        viewQuery = viewQuery.not("post_id", "in", `(${pinnedIdList})`);
       }
 
       if (normalizedHashtag) {
         // 해시태그가 있지만 post_stats에서 필터링할 수 없으므로 위에서 처리
       }
 
-      const viewResult = await viewQuery.range(offset, offset + limit - 1);
+      // 커서 다음 게시물만
+      if (cursor) {
+        viewQuery = viewQuery.or(buildCursorFilter(cursor, { idColumn: "post_id" }));
+      }
+
+      viewQuery = viewQuery
+        .order("created_at", { ascending: false })
+        .order("post_id", { ascending: false });
+
+      // 다음 페이지 여부 확인을 위해 하나 더 조회
+      const viewResult = await viewQuery.limit(limit + 1);
 
       if (viewResult.error) {
         console.warn("post_stats 뷰 조회 실패, posts 테이블 직접 조회 시도:", viewResult.error);
@@ -279,15 +597,48 @@ export async function GET(request: NextRequest) {
         // 뷰가 없으면 posts 테이블을 직접 조회
         let postsQuery = supabase
           .from("posts")
-          .select("id, user_id, image_url, caption, created_at")
-          .order("created_at", { ascending: false });
+          .select(POST_TABLE_COLUMNS)
+          .eq("status", "published");
 
-        // userId 필터 적용
+        // userId 필터 적용 (뷰 없이는 공동 작성 게시물을 서버에서 합칠 수 없어 본인 게시물만)
         if (targetUserId) {
           postsQuery = postsQuery.eq("user_id", targetUserId);
         }
 
-        const postsResult = await postsQuery.range(offset, offset + limit - 1);
+        // 팔로잉 피드 필터 적용
+        if (feedAuthorIds) {
+          postsQuery = postsQuery.in("user_id", feedAuthorIds);
+        }
+
+        // placeId 필터 적용
+        if (placeIdParam) {
+          postsQuery = postsQuery.eq("place_id", placeIdParam);
+        }
+
+        // taggedUserId 필터 적용
+        if (taggedPostIds) {
+          postsQuery = postsQuery.in("id", taggedPostIds);
+        }
+
+        // ids 필터 적용
+        if (requestedPostIds) {
+          postsQuery = postsQuery.in("id", requestedPostIds);
+        }
+
+        // 고정 게시물 제외
+        if (pinnedIdList) {
+          postsQuery = postsQuery.not("id", "in", `(${pinnedIdList})`);
+        }
+
+        if (cursor) {
+          postsQuery = postsQuery.or(buildCursorFilter(cursor));
+        }
+
+        postsQuery = postsQuery
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false });
+
+        const postsResult = await postsQuery.limit(limit + 1);
 
         if (postsResult.error) {
           console.error("Error fetching posts:", postsResult.error);
@@ -301,58 +652,30 @@ export async function GET(request: NextRequest) {
         }
 
         // posts 테이블 데이터를 post_stats 형식으로 변환
-        const postIds = (postsResult.data || []).map((p) => p.id);
-        
-        // 좋아요 수와 댓글 수 계산
-        const [likesResult, commentsResult] = await Promise.all([
-          supabase
-            .from("likes")
-            .select("post_id")
-            .in("post_id", postIds),
-          supabase
-            .from("comments")
-            .select("post_id")
-            .in("post_id", postIds),
-        ]);
-
-        // post_id별로 카운트 계산
-        const likesCountMap = new Map<string, number>();
-        const commentsCountMap = new Map<string, number>();
-
-        (likesResult.data || []).forEach((like: any) => {
-          likesCountMap.set(like.post_id, (likesCountMap.get(like.post_id) || 0) + 1);
-        });
-
-        (commentsResult.data || []).forEach((comment: any) => {
-          commentsCountMap.set(comment.post_id, (commentsCountMap.get(comment.post_id) || 0) + 1);
-        });
-
-        postsData = (postsResult.data || []).map((post) => ({
-          post_id: post.id,
-          user_id: post.user_id,
-          image_url: post.image_url,
-          caption: post.caption,
-          created_at: post.created_at,
-          likes_count: likesCountMap.get(post.id) || 0,
-          comments_count: commentsCountMap.get(post.id) || 0,
-        }));
+        postsData = await toPostStatsRows(supabase, postsResult.data || []);
       } else {
         postsData = viewResult.data;
       }
     }
 
-    if (totalCount === null) {
-      totalCount = null; // will be computed later via count query
-    }
-
-    if (!postsData || postsData.length === 0) {
+    if ((!postsData || postsData.length === 0) && (cursor || pinnedPostsData.length === 0)) {
       return NextResponse.json({
         posts: [],
         hasMore: false,
-        page,
+        nextCursor: null,
       });
     }
 
+    // 한 페이지로 자르고 다음 커서 계산 (추천 피드는 순위 함수에서 계산)
+    const { items: pagePosts, hasMore, nextCursor } = rankedPage
+      ? { items: postsData || [], hasMore: rankedPage.hasMore, nextCursor: rankedPage.nextCursor }
+      : toCursorPage(postsData || [], limit, (post) => ({
+          created_at: post.created_at,
+          id: post.post_id,
+        }));
+    // 고정 게시물은 첫 페이지에만
+    postsData = cursor ? pagePosts : [...pinnedPostsData, ...pagePosts];
+
     // 사용자 정보 가져오기
     const userIds = [...new Set(postsData.map((post) => post.user_id).filter((id): id is string => !!id))];
     
@@ -423,6 +746,27 @@ export async function GET(request: NextRequest) {
     // 각 게시물에 대해 댓글 최신 2개 가져오기
     const postIds = postsData.map((post) => post.post_id).filter((id): id is string => !!id);
 
+    // 캐러셀 이미지 목록
+    const mediaMap = await fetchPostMediaMap(supabase, postIds);
+
+    // 운동 기록
+    const workoutMap = await fetchPostWorkoutMap(supabase, postIds);
+
+    // 장소 태그
+    const placeMap = await fetchPlaceMap(supabase, postsData.map((post) => post.place_id));
+
+    // 사진 속 사람 태그
+    const tagsMap = await fetchPostTagsMap(supabase, postIds);
+
+    // 공동 작성자 (수락한 사용자만)
+    const collaboratorsMap = await fetchPostCollaboratorsMap(supabase, postIds);
+
+    // 투표 (득표 수, 내 투표)
+    const pollMap = await fetchPostPollMap(supabase, postIds, currentUserUuid);
+
+    // 전/후 비교 라벨
+    const beforeAfterMap = await fetchPostBeforeAfterMap(supabase, postIds);
+
     let bookmarkedPostIds = new Set<string>();
     if (currentUserUuid && postIds.length > 0) {
       try {
@@ -562,9 +906,22 @@ export async function GET(request: NextRequest) {
         id: post.post_id,
         user_id: post.user_id,
         image_url: post.image_url,
+        media: resolvePostMedia(mediaMap, post.post_id, post.image_url),
         caption: post.caption,
         created_at: post.created_at,
-        likes_count: post.likes_count || 0,
+        edited_at: post.edited_at || null,
+        aspect_ratio: post.aspect_ratio || DEFAULT_POST_ASPECT_RATIO,
+        workout: workoutMap.get(post.post_id) || null,
+        poll: pollMap.get(post.post_id) || null,
+        before_after: beforeAfterMap.get(post.post_id) || null,
+        place: (post.place_id && placeMap.get(post.place_id)) || null,
+        tags: tagsMap.get(post.post_id) || [],
+        collaborators: collaboratorsMap.get(post.post_id) || [],
+        hide_like_count: post.hide_like_count ?? false,
+        comments_disabled: post.comments_disabled ?? false,
+        // 공동 작성자 프로필에서는 작성자가 고정한 게시물을 고정으로 표시하지 않음
+        is_pinned: !!post.pinned_at && (!targetUserId || post.user_id === targetUserId),
+        likes_count: getVisibleLikesCount(post, currentUserUuid),
         comments_count: post.comments_count || 0,
         user: {
           id: user?.id || post.user_id,
@@ -589,28 +946,10 @@ export async function GET(request: NextRequest) {
       };
     });
 
-    // 다음 페이지가 있는지 확인
-    let hasMore = false;
-
-    if (totalCount !== null) {
-      hasMore = offset + limit < totalCount;
-    } else {
-      let countQuery = supabase
-        .from("post_stats")
-        .select("post_id", { count: "exact", head: true });
-
-      if (targetUserId) {
-        countQuery = countQuery.eq("user_id", targetUserId);
-      }
-
-      const { count } = await countQuery;
-      hasMore = count ? offset + limit < count : false;
-    }
-
     return NextResponse.json({
       posts,
       hasMore,
-      page,
+      nextCursor,
     });
   } catch (error) {
     console.error("[GET /api/posts] Unexpected error:", {
@@ -628,9 +967,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
-
 export async function POST(request: NextRequest) {
   try {
     // Clerk 인증 확인
@@ -646,51 +982,82 @@ export async function POST(request: NextRequest) {
     const supabase = getServiceRoleClient();
     const formData = await request.formData();
     const caption = formData.get("caption") as string | null;
-    const imageFile = formData.get("image") as File | null;
-    const rawMentions = formData.get("mentions") as string | null;
+    const mentionPayload = parseMentionPayload(formData.get("mentions"));
 
-    if (!imageFile) {
+    // 예약 게시 시각 검증 (없으면 즉시 게시)
+    const parsedPublishAt = parsePublishAt(formData.get("publish_at"));
+    if ("error" in parsedPublishAt) {
       return NextResponse.json(
-        { error: "이미지 파일이 필요합니다." },
+        { error: parsedPublishAt.error },
         { status: 400 }
       );
     }
 
-    let mentionPayload: Array<{ mentioned_user_id: string; display_text: string }> = [];
-    if (rawMentions) {
-      try {
-        const parsed = JSON.parse(rawMentions);
-        if (Array.isArray(parsed)) {
-          mentionPayload = parsed.filter(
-            (item: any) =>
-              item && typeof item.mentioned_user_id === "string" && typeof item.display_text === "string"
-          );
-        }
-      } catch (error) {
-        console.warn("Failed to parse mentions payload:", error);
-      }
+    // 운동 기록 검증 (선택)
+    const parsedWorkout = parseWorkoutPayload(formData.get("workout"));
+    if ("error" in parsedWorkout) {
+      return NextResponse.json(
+        { error: parsedWorkout.error },
+        { status: 400 }
+      );
+    }
+
+    // 투표 검증 (선택)
+    const parsedPoll = parsePollPayload(formData.get("poll"));
+    if ("error" in parsedPoll) {
+      return NextResponse.json(
+        { error: parsedPoll.error },
+        { status: 400 }
+      );
     }
 
-    // 이미지 파일 검증
-    if (!imageFile) {
+    // 화면 비율 검증 (없으면 1:1)
+    const aspectRatio = parseAspectRatio(formData.get("aspect_ratio"));
+    if (!aspectRatio) {
       return NextResponse.json(
-        { error: "이미지 파일이 필요합니다." },
+        { error: "지원하지 않는 화면 비율입니다." },
         { status: 400 }
       );
     }
 
-    // 파일 타입 검증
-    if (!imageFile.type.startsWith("image/")) {
+    // 장소 태그 확인 (선택)
+    const parsedPlace = await resolvePlaceId(supabase, formData.get("place_id"));
+    if ("error" in parsedPlace) {
       return NextResponse.json(
-        { error: "이미지 파일만 업로드할 수 있습니다." },
+        { error: parsedPlace.error },
         { status: 400 }
       );
     }
 
-    // 파일 크기 검증
-    if (imageFile.size > MAX_FILE_SIZE) {
+    // 이미지 또는 동영상 검증
+    const parsedUpload = await parseMediaUpload(formData);
+    if ("error" in parsedUpload) {
       return NextResponse.json(
-        { error: "파일 크기는 5MB를 초과할 수 없습니다." },
+        { error: parsedUpload.error },
+        { status: 400 }
+      );
+    }
+
+    // 사진 속 사람 태그 검증 (이미지에만 태그 가능)
+    const parsedTags = parsePhotoTagsPayload(
+      formData.get("tags"),
+      parsedUpload.upload.video ? 0 : parsedUpload.upload.imageFiles.length
+    );
+    if ("error" in parsedTags) {
+      return NextResponse.json(
+        { error: parsedTags.error },
+        { status: 400 }
+      );
+    }
+
+    // 전/후 비교 검증 (선택, 이미지 2장만 가능)
+    const parsedBeforeAfter = parseBeforeAfterPayload(
+      formData.get("before_after"),
+      parsedUpload.upload.video ? 0 : parsedUpload.upload.imageFiles.length
+    );
+    if ("error" in parsedBeforeAfter) {
+      return NextResponse.json(
+        { error: parsedBeforeAfter.error },
         { status: 400 }
       );
     }
@@ -779,136 +1146,88 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 파일명 생성: {clerk_user_id}/{timestamp}-{filename}
-    const timestamp = Date.now();
-    const fileExtension = imageFile.name.split(".").pop() || "jpg";
-    const fileName = `${userId}/${timestamp}-${Math.random().toString(36).substring(7)}.${fileExtension}`;
+    // 공동 작성자 초대 검증 (선택)
+    const parsedCollaborators = parseCollaboratorsPayload(formData.get("collaborators"), userData.id);
+    if ("error" in parsedCollaborators) {
+      return NextResponse.json(
+        { error: parsedCollaborators.error },
+        { status: 400 }
+      );
+    }
 
-    // Supabase Storage에 업로드
-    const fileBuffer = await imageFile.arrayBuffer();
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .upload(fileName, fileBuffer, {
-        contentType: imageFile.type,
-        upsert: false,
+    // 다른 사용자의 게시물 이미지 재업로드 감지
+    const duplicateMatches = await findDuplicateImages(
+      supabase,
+      parsedUpload.upload.processedImages.map((image) => image.perceptualHash),
+      userData.id
+    );
+    const blockingDuplicate = getBlockingDuplicate(duplicateMatches);
+    if (blockingDuplicate) {
+      await logDuplicateImageMatches(supabase, {
+        uploaderUserId: userData.id,
+        postId: null,
+        matches: duplicateMatches,
+        action: "blocked",
       });
-
-    if (uploadError) {
-      console.error("Error uploading file:", uploadError);
       return NextResponse.json(
-        { error: "파일 업로드에 실패했습니다." },
-        { status: 500 }
+        {
+          error: "다른 사용자의 게시물과 같은 이미지입니다. 직접 촬영한 사진만 올릴 수 있습니다.",
+          duplicate: await fetchDuplicateOriginalPost(supabase, blockingDuplicate.post_id),
+        },
+        { status: 409 }
       );
     }
 
-    // 업로드된 파일의 공개 URL 가져오기
-    const { data: urlData } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(fileName);
-
-    if (!urlData?.publicUrl) {
+    // Supabase Storage에 순서대로 업로드
+    const uploadedMedia = await uploadMedia(supabase, userId, parsedUpload.upload);
+    if (!uploadedMedia) {
       return NextResponse.json(
-        { error: "파일 URL을 가져오는데 실패했습니다." },
+        { error: "파일 업로드에 실패했습니다." },
         { status: 500 }
       );
     }
 
-    // posts 테이블에 데이터 저장
-    const { data: postData, error: postError } = await supabase
-      .from("posts")
-      .insert({
-        user_id: userData.id,
-        image_url: urlData.publicUrl,
-        caption: caption || null,
-      })
-      .select("id, user_id, image_url, caption, created_at")
-      .single();
+    // posts / post_media 저장, 해시태그 및 멘션 연결
+    const created = await createPostWithMedia(supabase, {
+      userId: userData.id,
+      caption,
+      media: uploadedMedia,
+      mentions: mentionPayload,
+      publishAt: parsedPublishAt.publishAt,
+      workout: parsedWorkout.workout,
+      poll: parsedPoll.poll,
+      beforeAfter: parsedBeforeAfter.beforeAfter,
+      aspectRatio,
+      placeId: parsedPlace.placeId,
+      tags: parsedTags.tags,
+      collaborators: parsedCollaborators.collaborators,
+      hideLikeCount: parsePostSettingFlag(formData.get("hide_like_count")),
+      commentsDisabled: parsePostSettingFlag(formData.get("comments_disabled")),
+    });
 
-    if (postError) {
-      console.error("Error creating post:", postError);
+    if ("error" in created) {
       // 업로드된 파일 삭제 시도 (실패해도 계속 진행)
-      await supabase.storage.from(STORAGE_BUCKET).remove([fileName]);
+      await removeStoredMedia(supabase, uploadedMedia);
       return NextResponse.json(
-        { error: "게시물 저장에 실패했습니다." },
+        { error: created.error },
         { status: 500 }
       );
     }
 
-    // 해시태그 저장
-    const hashtags = extractHashtags(caption || null);
-    if (hashtags.length > 0) {
-      try {
-        const { data: upsertedTags } = await supabase
-          .from("hashtags")
-          .upsert(
-            hashtags.map((tag) => ({ tag })),
-            { onConflict: "tag" }
-          )
-          .select("id, tag");
-
-        let tagRecords = upsertedTags || [];
-
-        if (tagRecords.length < hashtags.length) {
-          const { data: fetchedTags } = await supabase
-            .from("hashtags")
-            .select("id, tag")
-            .in("tag", hashtags);
-          tagRecords = fetchedTags || tagRecords;
-        }
-
-        if (tagRecords.length > 0) {
-          const postHashtagRows = tagRecords.map((tag) => ({
-            post_id: postData.id,
-            hashtag_id: tag.id,
-          }));
-
-          const { error: linkError } = await supabase
-            .from("post_hashtags")
-            .upsert(postHashtagRows, { onConflict: "post_id,hashtag_id" });
-
-          if (linkError) {
-            console.error("Error linking post hashtags:", linkError);
-          }
-        }
-      } catch (err) {
-        console.error("Error processing hashtags:", err);
-      }
-    }
-
-    const normalizedCaption = (caption || "").toLowerCase();
-    if (mentionPayload.length > 0) {
-      const seen = new Set<string>();
-      const validMentions = mentionPayload.filter((mention) => {
-        const key = `@${mention.display_text.toLowerCase()}`;
-        const uniqueKey = `${mention.mentioned_user_id}-${key}`;
-        if (!normalizedCaption.includes(key) || seen.has(uniqueKey)) {
-          return false;
-        }
-        seen.add(uniqueKey);
-        return true;
-      });
-
-      if (validMentions.length > 0) {
-        try {
-          await supabase.from("mentions").insert(
-            validMentions.map((mention) => ({
-              post_id: postData.id,
-              comment_id: null,
-              mentioned_user_id: mention.mentioned_user_id,
-              mentioner_user_id: userData.id,
-              display_text: mention.display_text,
-            }))
-          );
-        } catch (err) {
-          console.error("Error inserting mentions:", err);
-        }
-      }
-    }
+    // 비슷한 이미지는 게시 후 기록만 (관리자 확인)
+    await logDuplicateImageMatches(supabase, {
+      uploaderUserId: userData.id,
+      postId: created.post.id,
+      matches: duplicateMatches,
+      action: "flagged",
+    });
 
     return NextResponse.json(
       {
-        message: "게시물이 성공적으로 업로드되었습니다.",
-        post: postData,
+        message: parsedPublishAt.publishAt
+          ? "게시물이 예약되었습니다."
+          : "게시물이 성공적으로 업로드되었습니다.",
+        post: created.post,
       },
       { status: 201 }
     );
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { fetchPostMediaMap, resolvePostMedia } from "@/lib/utils/post-media";
+
+/**
+ * @file route.ts
+ * @description 예약 게시물 목록 API
+ *
+ * GET: 내 예약 게시물 목록 조회 (게시 예정 시각순)
+ * - 예약 취소는 DELETE /api/posts/[postId] 사용 (미디어 파일 포함 삭제)
+ * - Clerk 인증 필수
+ */
+
+async function getCurrentUserId(supabase: ReturnType<typeof getServiceRoleClient>, clerkId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("사용자 정보를 찾을 수 없습니다.");
+  }
+
+  return data.id as string;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: "인증이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceRoleClient();
+    const userUuid = await getCurrentUserId(supabase, userId);
+
+    const { data: postsData, error: postsError } = await supabase
+      .from("posts")
+      .select("id, image_url, caption, created_at, publish_at")
+      .eq("user_id", userUuid)
+      .eq("status", "scheduled")
+      .order("publish_at", { ascending: true });
+
+    if (postsError) {
+      console.error("[GET /api/posts/scheduled] Error fetching scheduled posts:", postsError);
+      return NextResponse.json(
+        { error: "예약 게시물을 불러오는데 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      (postsData || []).map((post) => post.id)
+    );
+
+    const posts = (postsData || []).map((post) => ({
+      id: post.id,
+      image_url: post.image_url,
+      media: resolvePostMedia(mediaMap, post.id, post.image_url),
+      caption: post.caption,
+      created_at: post.created_at,
+      publish_at: post.publish_at,
+    }));
+
+    return NextResponse.json({ posts });
+  } catch (error) {
+    console.error("Error in GET /api/posts/scheduled:", error);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
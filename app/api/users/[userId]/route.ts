@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { clerkClient } from "@clerk/nextjs/server";
 import { createClient } from "@supabase/supabase-js";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { sanitizeImage } from "@/lib/utils/image-processing";
 
 /**
  * @file route.ts
@@ -10,6 +11,8 @@ import { getServiceRoleClient } from "@/lib/supabase/service-role";
  *
  * GET: 사용자 정보 및 통계 조회
  * PUT: 프로필 정보 업데이트 (프로필 사진, 이름)
+ *
+ * 프로필 사진은 메타데이터(GPS/기기 정보)를 제거한 뒤 저장합니다.
  */
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
@@ -218,15 +221,22 @@ export async function PUT(
 
     // 프로필 이미지 업로드
     if (imageFile) {
+      // EXIF 방향 반영 후 GPS/기기 정보 제거 (GPS가 남아 있으면 null)
+      const sanitizedImage = await sanitizeImage(await imageFile.arrayBuffer());
+      if (!sanitizedImage) {
+        return NextResponse.json(
+          { error: "이미지 파일을 읽을 수 없습니다." },
+          { status: 400 }
+        );
+      }
+
       const timestamp = Date.now();
-      const fileExtension = imageFile.name.split(".").pop() || "jpg";
-      const fileName = `${currentClerkId}/profile-${timestamp}.${fileExtension}`;
+      const fileName = `${currentClerkId}/profile-${timestamp}.${sanitizedImage.extension}`;
 
-      const fileBuffer = await imageFile.arrayBuffer();
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from(STORAGE_BUCKET)
-        .upload(fileName, fileBuffer, {
-          contentType: imageFile.type,
+        .upload(fileName, sanitizedImage.buffer, {
+          contentType: sanitizedImage.contentType,
           upsert: false,
         });
 
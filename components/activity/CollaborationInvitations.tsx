@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { formatRelativeTime } from "@/lib/utils/format-time";
+import PostImage from "@/components/post/PostImage";
+
+/**
+ * @file CollaborationInvitations.tsx
+ * @description 받은 공동 작성 초대 목록 (활동 페이지)
+ *
+ * 주요 기능:
+ * - 대기 중인 공동 작성 초대 표시 (게시물 썸네일, 초대한 사용자, 캡션)
+ * - 수락/거절 (수락하면 내 프로필에도 게시물 표시)
+ * - 초대가 없으면 아무것도 표시하지 않음
+ *
+ * @dependencies
+ * - components/post/PostImage: 게시물 썸네일
+ * - lib/utils/format-time: 상대 시간 포맷팅
+ */
+
+interface Invitation {
+  post_id: string;
+  created_at: string;
+  post: {
+    id: string;
+    image_url: string;
+    caption: string | null;
+    is_scheduled: boolean;
+  };
+  author: {
+    id: string;
+    clerk_id: string;
+    name: string;
+  };
+}
+
+export default function CollaborationInvitations() {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/collaborations");
+      if (!response.ok) {
+        throw new Error(await extractErrorMessage(response));
+      }
+      const data = await response.json();
+      setInvitations(data.invitations || []);
+    } catch (err) {
+      console.error("Error fetching collaboration invitations:", err);
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleRespond = async (postId: string, status: "accepted" | "declined") => {
+    setRespondingId(postId);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/collaborations", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ post_id: postId, status }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await extractErrorMessage(response));
+      }
+
+      setInvitations((prev) => prev.filter((invitation) => invitation.post_id !== postId));
+    } catch (err) {
+      console.error("Error responding to collaboration invitation:", err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+        <Users className="w-5 h-5" />
+        공동 작성 초대
+      </h2>
+
+      {error && <p className="text-sm text-[var(--instagram-like)]">{error}</p>}
+
+      <ul className="divide-y divide-[var(--instagram-border)] dark:divide-[var(--border)] rounded-lg border border-[var(--instagram-border)] dark:border-[var(--border)]">
+        {invitations.map((invitation) => (
+          <li key={invitation.post_id} className="flex items-center gap-3 p-3">
+            <div className="relative w-14 h-14 flex-shrink-0 overflow-hidden rounded bg-gray-100 dark:bg-gray-800">
+              <PostImage
+                src={invitation.post.image_url}
+                alt="공동 작성 게시물"
+                fill
+                className="object-cover"
+                sizes="56px"
+              />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                <Link href={`/profile/${invitation.author.clerk_id}`} className="font-semibold hover:opacity-70">
+                  {invitation.author.name}
+                </Link>
+                님이 게시물의 공동 작성자로 초대했습니다.
+              </p>
+              {invitation.post.caption && (
+                <p className="text-xs truncate text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  {invitation.post.caption}
+                </p>
+              )}
+              <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                {invitation.post.is_scheduled ? "예약된 게시물 · " : ""}
+                {formatRelativeTime(invitation.created_at)}
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button
+                size="sm"
+                onClick={() => handleRespond(invitation.post_id, "accepted")}
+                disabled={respondingId !== null}
+                className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
+              >
+                {respondingId === invitation.post_id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                수락
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRespond(invitation.post_id, "declined")}
+                disabled={respondingId !== null}
+              >
+                거절
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,35 +1,41 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import Image from "next/image";
 import Link from "next/link";
 import { Heart, MessageCircle } from "lucide-react";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import type { ImageVariant } from "@/lib/utils/post-media";
+import PostImage from "@/components/post/PostImage";
 
 interface PostSummary {
   id: string;
   image_url: string;
-  likes_count: number;
+  alt_text?: string | null;
+  placeholder?: string | null;
+  variants?: ImageVariant[];
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 null
   comments_count: number;
 }
 
 export default function LikedPostGrid() {
   const [posts, setPosts] = useState<PostSummary[]>([]);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchPosts(1);
+    fetchPosts(null);
   }, []);
 
-  const fetchPosts = async (targetPage: number) => {
+  const fetchPosts = async (cursor: string | null) => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/posts/liked?page=${targetPage}`);
+      const response = await fetch(
+        cursor ? `/api/posts/liked?cursor=${encodeURIComponent(cursor)}` : "/api/posts/liked"
+      );
 
       if (!response.ok) {
         const errorMessage = await extractErrorMessage(response);
@@ -38,14 +44,14 @@ export default function LikedPostGrid() {
 
       const data = await response.json();
 
-      if (targetPage === 1) {
+      if (!cursor) {
         setPosts(data.posts || []);
       } else {
         setPosts((prev) => [...prev, ...(data.posts || [])]);
       }
 
       setHasMore(data.hasMore);
-      setPage(data.page || targetPage);
+      setNextCursor(data.nextCursor || null);
     } catch (err) {
       const errorMessage = getUserFriendlyErrorMessage(err);
       setError(errorMessage);
@@ -72,7 +78,7 @@ export default function LikedPostGrid() {
           {error}
         </p>
         <button
-          onClick={() => fetchPosts(1)}
+          onClick={() => fetchPosts(null)}
           className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
         >
           다시 시도
@@ -100,22 +106,25 @@ export default function LikedPostGrid() {
             href={`/post/${post.id}`}
             className="group relative aspect-square bg-gray-100 dark:bg-gray-800 overflow-hidden"
           >
-            <Image
+            <PostImage
               src={post.image_url}
-              alt="좋아요한 게시물"
+              variants={post.variants}
+              placeholder={post.placeholder}
+              alt={post.alt_text || "좋아요한 게시물"}
               fill
               className="object-cover"
               sizes="(max-width: 768px) 33vw, 200px"
-              unoptimized={post.image_url?.includes("supabase.co/storage") || post.image_url?.includes("supabase.co/storage/v1/object/public")}
               onError={() => {
                 console.error("[LikedPostGrid] Image load error:", post.image_url);
               }}
             />
             <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6">
-              <span className="flex items-center gap-2 text-white">
-                <Heart className="w-5 h-5 fill-current" />
-                <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
-              </span>
+              {post.likes_count !== null && (
+                <span className="flex items-center gap-2 text-white">
+                  <Heart className="w-5 h-5 fill-current" />
+                  <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+                </span>
+              )}
               <span className="flex items-center gap-2 text-white">
                 <MessageCircle className="w-5 h-5 fill-current" />
                 <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
@@ -125,10 +134,10 @@ export default function LikedPostGrid() {
         ))}
       </div>
 
-      {hasMore && (
+      {hasMore && nextCursor && (
         <div className="text-center py-8">
           <button
-            onClick={() => fetchPosts(page + 1)}
+            onClick={() => fetchPosts(nextCursor)}
             className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
           >
             더 보기
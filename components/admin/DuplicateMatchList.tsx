@@ -0,0 +1,222 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowRight, Ban, Flag } from "lucide-react";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { formatRelativeTime } from "@/lib/utils/format-time";
+
+/**
+ * @file DuplicateMatchList.tsx
+ * @description 중복/재업로드 이미지 감지 기록 목록 (관리자 페이지)
+ *
+ * 주요 기능:
+ * - GET /api/admin/duplicate-matches 조회 (최신순, 더 보기는 cursor로 다음 페이지)
+ * - 전체 / 차단 / 기록만 필터
+ * - 업로드한 게시물(차단이면 표시 없음)과 원본 게시물(삭제되면 표시 없음) 썸네일, 해밍 거리 표시
+ *
+ * @dependencies
+ * - lib/utils/format-time: 상대 시간 포맷팅
+ */
+
+type MatchAction = "blocked" | "flagged";
+
+interface DuplicateMatch {
+  id: string;
+  media_position: number;
+  distance: number;
+  action: MatchAction;
+  created_at: string;
+  uploader: { id: string; clerk_id: string; name: string } | null;
+  post: { id: string; image_url: string } | null;
+  matched_post: {
+    id: string;
+    image_url: string;
+    user: { clerk_id: string; name: string } | null;
+  } | null;
+}
+
+const FILTERS: Array<{ value: MatchAction | null; label: string }> = [
+  { value: null, label: "전체" },
+  { value: "blocked", label: "차단" },
+  { value: "flagged", label: "기록만" },
+];
+
+function Thumbnail({ post, label }: { post: { id: string; image_url: string }; label: string }) {
+  return (
+    <Link
+      href={`/post/${post.id}`}
+      className="relative block w-16 h-16 flex-shrink-0 overflow-hidden rounded-md bg-gray-100 dark:bg-gray-800"
+    >
+      <Image
+        src={post.image_url}
+        alt={label}
+        fill
+        className="object-cover"
+        sizes="64px"
+        unoptimized={post.image_url.includes("supabase.co/storage")}
+      />
+    </Link>
+  );
+}
+
+export default function DuplicateMatchList() {
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const [action, setAction] = useState<MatchAction | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchMatches = useCallback(
+    async (cursor: string | null = null) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams();
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        if (action) {
+          params.set("action", action);
+        }
+        const response = await fetch(`/api/admin/duplicate-matches?${params.toString()}`);
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        setMatches((prev) => (cursor ? [...prev, ...data.matches] : data.matches));
+        setHasMore(data.hasMore);
+        setNextCursor(data.nextCursor || null);
+      } catch (err) {
+        console.error("Error fetching duplicate matches:", err);
+        setError(getUserFriendlyErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [action]
+  );
+
+  useEffect(() => {
+    fetchMatches(null);
+  }, [fetchMatches]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {FILTERS.map((filter) => (
+          <button
+            key={filter.label}
+            type="button"
+            onClick={() => setAction(filter.value)}
+            className={`rounded-full px-3 py-1 text-sm font-semibold border ${
+              action === filter.value
+                ? "border-[var(--instagram-text-primary)] dark:border-[var(--foreground)] text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+                : "border-[var(--instagram-border)] dark:border-[var(--border)] text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <div className="text-center py-12">
+          <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+            {error}
+          </p>
+          <button
+            onClick={() => fetchMatches(null)}
+            className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+          >
+            다시 시도
+          </button>
+        </div>
+      ) : loading && matches.length === 0 ? (
+        <div className="space-y-2">
+          {[...Array(4)].map((_, idx) => (
+            <div key={idx} className="h-20 rounded-md bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          ))}
+        </div>
+      ) : matches.length === 0 ? (
+        <p className="text-center py-12 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          감지 기록이 없습니다.
+        </p>
+      ) : (
+        <ul className="divide-y divide-[var(--instagram-border)] dark:divide-[var(--border)] rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] bg-white dark:bg-[var(--card)]">
+          {matches.map((match) => (
+            <li key={match.id} className="flex items-center gap-4 p-3">
+              <span
+                className={`flex items-center gap-1 w-16 flex-shrink-0 text-xs font-semibold ${
+                  match.action === "blocked"
+                    ? "text-[var(--instagram-like)]"
+                    : "text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+                }`}
+              >
+                {match.action === "blocked" ? <Ban className="w-4 h-4" /> : <Flag className="w-4 h-4" />}
+                {match.action === "blocked" ? "차단" : "기록"}
+              </span>
+
+              {match.post ? (
+                <Thumbnail post={match.post} label="업로드한 게시물" />
+              ) : (
+                <div className="flex w-16 h-16 flex-shrink-0 items-center justify-center rounded-md bg-gray-100 dark:bg-gray-800 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  게시 안 됨
+                </div>
+              )}
+              <ArrowRight className="w-4 h-4 flex-shrink-0 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+              {match.matched_post ? (
+                <Thumbnail post={match.matched_post} label="원본 게시물" />
+              ) : (
+                <div className="flex w-16 h-16 flex-shrink-0 items-center justify-center rounded-md bg-gray-100 dark:bg-gray-800 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  삭제됨
+                </div>
+              )}
+
+              <div className="min-w-0 flex-1 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                <p className="truncate">
+                  {match.uploader ? (
+                    <Link href={`/profile/${match.uploader.clerk_id}`} className="font-semibold hover:opacity-70">
+                      {match.uploader.name}
+                    </Link>
+                  ) : (
+                    "알 수 없음"
+                  )}
+                  {" → "}
+                  {match.matched_post?.user ? (
+                    <Link href={`/profile/${match.matched_post.user.clerk_id}`} className="font-semibold hover:opacity-70">
+                      {match.matched_post.user.name}
+                    </Link>
+                  ) : (
+                    "알 수 없음"
+                  )}
+                </p>
+                <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  {match.media_position + 1}번째 이미지 · 거리 {match.distance} · {formatRelativeTime(match.created_at)}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && nextCursor && !error && (
+        <div className="text-center py-4">
+          <button
+            onClick={() => fetchMatches(nextCursor)}
+            disabled={loading}
+            className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+          >
+            {loading ? "불러오는 중..." : "더 보기"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
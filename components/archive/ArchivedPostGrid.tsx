@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Archive, Heart, Loader2, MessageCircle, RotateCcw } from "lucide-react";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { formatRelativeTime } from "@/lib/utils/format-time";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+import PostImage from "@/components/post/PostImage";
+
+/**
+ * @file ArchivedPostGrid.tsx
+ * @description 보관한 게시물 그리드 (보관함 페이지)
+ *
+ * 주요 기능:
+ * - GET /api/posts/archived 조회 (최근 보관순)
+ * - 대표 이미지, 좋아요/댓글 수, 보관 시각 표시
+ * - 복원 (DELETE /api/posts/[postId]/archive) 후 목록에서 제거
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 및 미리보기
+ * - lib/utils/format-time: 상대 시간 포맷팅
+ */
+
+interface ArchivedPost {
+  id: string;
+  image_url: string;
+  media: PostMediaItem[];
+  caption: string | null;
+  created_at: string;
+  archived_at: string | null;
+  likes_count: number;
+  comments_count: number;
+}
+
+export default function ArchivedPostGrid() {
+  const [posts, setPosts] = useState<ArchivedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/posts/archived");
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      setPosts(data.posts || []);
+    } catch (err) {
+      console.error("Error fetching archived posts:", err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const handleRestore = async (postId: string) => {
+    if (restoringId) {
+      return;
+    }
+
+    setRestoringId(postId);
+
+    try {
+      const response = await fetch(`/api/posts/${postId}/archive`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      setPosts((prev) => prev.filter((post) => post.id !== postId));
+    } catch (err) {
+      console.error("Error restoring post:", err);
+      alert(getUserFriendlyErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading && posts.length === 0) {
+    return (
+      <div className="grid grid-cols-3 gap-1 md:gap-4">
+        {[...Array(6)].map((_, idx) => (
+          <div key={idx} className="aspect-square bg-gray-200 dark:bg-gray-700 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+          {error}
+        </p>
+        <button
+          onClick={fetchPosts}
+          className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <Archive className="w-10 h-10 mx-auto text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          보관한 게시물이 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-1 md:gap-4">
+      {posts.map((post) => {
+        const cover = post.media[0];
+        return (
+          <div
+            key={post.id}
+            className="group relative aspect-square bg-gray-100 dark:bg-gray-800 overflow-hidden"
+          >
+            <PostImage
+              src={cover?.poster_url || cover?.url || post.image_url}
+              variants={cover?.variants}
+              placeholder={cover?.placeholder}
+              alt={getMediaAltText(cover, "보관한 게시물")}
+              fill
+              className="object-cover"
+              sizes="(max-width: 768px) 33vw, 200px"
+            />
+            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 pointer-events-none">
+              <span className="flex items-center gap-2 text-white">
+                <Heart className="w-5 h-5 fill-current" />
+                <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+              </span>
+              <span className="flex items-center gap-2 text-white">
+                <MessageCircle className="w-5 h-5 fill-current" />
+                <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
+              </span>
+            </div>
+            <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-1 bg-gradient-to-t from-black/70 to-transparent px-2 pb-1.5 pt-4">
+              <span className="text-[10px] md:text-xs text-white truncate">
+                {post.archived_at ? `${formatRelativeTime(post.archived_at)} 보관` : ""}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRestore(post.id)}
+                disabled={restoringId !== null}
+                className="flex items-center gap-1 rounded-full bg-white/90 px-2 py-0.5 text-[10px] md:text-xs font-semibold text-black hover:bg-white disabled:opacity-60"
+              >
+                {restoringId === post.id ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-3 h-3" />
+                )}
+                복원
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Heart, MessageCircle, Play } from "lucide-react";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import type { ImageVariant } from "@/lib/utils/post-media";
+import PostImage from "@/components/post/PostImage";
+
+/**
+ * @file ExploreGrid.tsx
+ * @description 탐색 탭 인기 게시물 그리드 컴포넌트
+ *
+ * 주요 기능:
+ * - GET /api/explore 로 인기 게시물 조회 (내 게시물과 팔로우한 계정 제외, cursor로 다음 페이지)
+ * - 크기가 섞인 3열 그리드: 10개마다 두 개의 큰 타일(2x2)을 왼쪽/오른쪽에 번갈아 배치
+ * - Hover 시 좋아요/댓글 수, 동영상 배지 표시
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 표시
+ */
+
+interface ExplorePost {
+  id: string;
+  image_url: string;
+  alt_text?: string | null;
+  placeholder?: string | null;
+  variants?: ImageVariant[];
+  is_video: boolean;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 null
+  comments_count: number;
+}
+
+// 10개 단위로 큰 타일 위치 (0: 왼쪽 큰 타일, 7: 오른쪽 큰 타일)
+const LARGE_TILE_POSITIONS = [0, 7];
+
+function isLargeTile(index: number): boolean {
+  return LARGE_TILE_POSITIONS.includes(index % 10);
+}
+
+export default function ExploreGrid() {
+  const [posts, setPosts] = useState<ExplorePost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPosts(null);
+  }, []);
+
+  const fetchPosts = async (cursor: string | null) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        cursor ? `/api/explore?cursor=${encodeURIComponent(cursor)}` : "/api/explore"
+      );
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+
+      if (!cursor) {
+        setPosts(data.posts || []);
+      } else {
+        setPosts((prev) => [...prev, ...(data.posts || [])]);
+      }
+
+      setHasMore(data.hasMore);
+      setNextCursor(data.nextCursor || null);
+    } catch (err) {
+      const errorMessage = getUserFriendlyErrorMessage(err);
+      setError(errorMessage);
+      console.error("Error fetching explore posts:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading && posts.length === 0) {
+    return (
+      <div className="grid grid-cols-3 grid-flow-dense gap-1 md:gap-4">
+        {[...Array(10)].map((_, idx) => (
+          <div
+            key={idx}
+            className={`aspect-square bg-gray-200 dark:bg-gray-700 animate-pulse ${
+              isLargeTile(idx) ? "col-span-2 row-span-2" : ""
+            }`}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (error && posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+          {error}
+        </p>
+        <button
+          onClick={() => fetchPosts(null)}
+          className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          지금 인기 있는 게시물이 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="grid grid-cols-3 grid-flow-dense gap-1 md:gap-4">
+        {posts.map((post, index) => {
+          const large = isLargeTile(index);
+          return (
+            <Link
+              key={post.id}
+              href={`/post/${post.id}`}
+              className={`group relative aspect-square bg-gray-100 dark:bg-gray-800 overflow-hidden ${
+                large ? "col-span-2 row-span-2" : ""
+              }`}
+            >
+              <PostImage
+                src={post.image_url}
+                variants={post.variants}
+                placeholder={post.placeholder}
+                alt={post.alt_text || "인기 게시물"}
+                fill
+                className="object-cover"
+                sizes={large ? "(max-width: 768px) 66vw, 600px" : "(max-width: 768px) 33vw, 300px"}
+                onError={() => {
+                  console.error("[ExploreGrid] Image load error:", post.image_url);
+                }}
+              />
+              {/* 동영상 배지 */}
+              {post.is_video && (
+                <div className="absolute top-2 right-2 z-10 text-white drop-shadow pointer-events-none" aria-label="동영상">
+                  <Play className="w-5 h-5 fill-current" />
+                </div>
+              )}
+              <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6">
+                {post.likes_count !== null && (
+                  <span className="flex items-center gap-2 text-white">
+                    <Heart className="w-5 h-5 fill-current" />
+                    <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+                  </span>
+                )}
+                <span className="flex items-center gap-2 text-white">
+                  <MessageCircle className="w-5 h-5 fill-current" />
+                  <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
+                </span>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+
+      {hasMore && nextCursor && (
+        <div className="text-center py-8">
+          <button
+            onClick={() => fetchPosts(nextCursor)}
+            disabled={loading}
+            className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+          >
+            {loading ? "불러오는 중..." : "더 보기"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
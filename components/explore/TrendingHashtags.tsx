@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { TrendingUp } from "lucide-react";
+
+/**
+ * @file TrendingHashtags.tsx
+ * @description 탐색 탭 인기 해시태그 목록 (가로 스크롤)
+ *
+ * 주요 기능:
+ * - GET /api/explore/hashtags 로 인기 해시태그 조회
+ * - 해시태그를 누르면 /explore?tag= 로 이동해 해당 해시태그 게시물 표시
+ * - 선택한 해시태그 강조, "전체"로 인기 게시물 보기
+ * - 불러오지 못하거나 인기 해시태그가 없으면 표시하지 않음
+ */
+
+interface TrendingHashtag {
+  id: string;
+  tag: string;
+  posts_count: number;
+}
+
+interface TrendingHashtagsProps {
+  selectedTag?: string | null;
+}
+
+const CHIP_CLASS = "flex-shrink-0 px-3 py-1.5 rounded-full border text-sm transition-colors";
+const CHIP_ACTIVE_CLASS = "bg-[var(--instagram-blue)] text-white border-[var(--instagram-blue)]";
+const CHIP_INACTIVE_CLASS =
+  "border-[var(--instagram-border)] dark:border-[var(--border)] text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:bg-gray-50 dark:hover:bg-gray-800";
+
+export default function TrendingHashtags({ selectedTag = null }: TrendingHashtagsProps) {
+  const [hashtags, setHashtags] = useState<TrendingHashtag[]>([]);
+
+  useEffect(() => {
+    const fetchHashtags = async () => {
+      try {
+        const response = await fetch("/api/explore/hashtags");
+        if (!response.ok) {
+          throw new Error("인기 해시태그를 불러오는데 실패했습니다.");
+        }
+        const data = await response.json();
+        setHashtags(data.hashtags || []);
+      } catch (err) {
+        console.error("Error fetching trending hashtags:", err);
+      }
+    };
+
+    fetchHashtags();
+  }, []);
+
+  if (hashtags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+        <TrendingUp className="w-4 h-4" />
+        인기 해시태그
+      </h2>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        <Link
+          href="/explore"
+          className={`${CHIP_CLASS} ${!selectedTag ? CHIP_ACTIVE_CLASS : CHIP_INACTIVE_CLASS}`}
+        >
+          전체
+        </Link>
+        {hashtags.map((hashtag) => (
+          <Link
+            key={hashtag.id}
+            href={`/explore?tag=${encodeURIComponent(hashtag.tag)}`}
+            className={`${CHIP_CLASS} ${
+              selectedTag === hashtag.tag ? CHIP_ACTIVE_CLASS : CHIP_INACTIVE_CLASS
+            }`}
+          >
+            #{hashtag.tag}
+            <span
+              className={`ml-2 text-xs ${
+                selectedTag === hashtag.tag
+                  ? "text-white/80"
+                  : "text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+              }`}
+            >
+              {hashtag.posts_count.toLocaleString()}
+            </span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
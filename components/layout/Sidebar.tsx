@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, Search, Plus, Heart, Bookmark, User } from "lucide-react";
+import { Home, Search, Compass, Plus, Heart, Bookmark, User } from "lucide-react";
 import { SignedIn, SignedOut, SignInButton, UserButton, useAuth } from "@clerk/nextjs";
 import { useUser } from "@clerk/nextjs";
 import { useState } from "react";
@@ -35,6 +35,7 @@ interface MenuItem {
 const menuItems: MenuItem[] = [
   { href: "/", icon: Home, label: "홈" },
   { href: "/search", icon: Search, label: "검색" },
+  { href: "/explore", icon: Compass, label: "탐색" },
   { href: "/create", icon: Plus, label: "만들기", requiresAuth: true },
   { href: "/activity", icon: Heart, label: "좋아요", requiresAuth: true },
   { href: "/saved", icon: Bookmark, label: "저장됨", requiresAuth: true },
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { getPlaceMapUrl, type PostPlace } from "@/lib/utils/post-place";
+
+/**
+ * @file PlaceHeader.tsx
+ * @description 장소 페이지 헤더 컴포넌트
+ *
+ * 주요 기능:
+ * - GET /api/places/[placeId] 로 장소 정보 조회
+ * - 장소 이름, 주소, 태그된 게시물 수 표시
+ * - 지도에서 보기 링크 (OpenStreetMap)
+ *
+ * @dependencies
+ * - lib/utils/post-place: 장소 타입 및 지도 링크
+ */
+
+interface PlaceDetail extends PostPlace {
+  posts_count: number;
+}
+
+interface PlaceHeaderProps {
+  placeId: string;
+}
+
+export default function PlaceHeader({ placeId }: PlaceHeaderProps) {
+  const [place, setPlace] = useState<PlaceDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPlace = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/places/${placeId}`);
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      setPlace(data.place);
+    } catch (err) {
+      const errorMessage = getUserFriendlyErrorMessage(err);
+      setError(errorMessage);
+      console.error("Error fetching place:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [placeId]);
+
+  useEffect(() => {
+    fetchPlace();
+  }, [fetchPlace]);
+
+  if (loading) {
+    return (
+      <div className="w-full py-8 px-4">
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-gray-200 dark:bg-gray-700 animate-pulse" />
+          <div className="flex-1 space-y-2">
+            <div className="h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded animate-pulse" />
+            <div className="h-4 w-56 bg-gray-200 dark:bg-gray-700 rounded animate-pulse" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !place) {
+    return (
+      <div className="w-full py-8 px-4 text-center">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+          {error || "장소 정보를 불러올 수 없습니다."}
+        </p>
+        <Button onClick={fetchPlace} variant="outline" size="sm">
+          다시 시도
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full py-8 px-4 border-b border-[var(--instagram-border)] dark:border-[var(--border)]">
+      <div className="flex items-center gap-4">
+        <div className="w-16 h-16 rounded-full flex-shrink-0 flex items-center justify-center bg-gray-100 dark:bg-gray-800">
+          <MapPin className="w-7 h-7 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]" />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <h1 className="text-xl font-semibold truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+            {place.name}
+          </h1>
+          {place.address && (
+            <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+              {place.address}
+            </p>
+          )}
+          <p className="text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+            게시물 <span className="font-semibold">{place.posts_count.toLocaleString()}</span>
+            {" · "}
+            <a
+              href={getPlaceMapUrl(place)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-[var(--instagram-blue)] hover:opacity-70"
+            >
+              지도에서 보기
+            </a>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
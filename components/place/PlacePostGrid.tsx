@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Heart, MessageCircle } from "lucide-react";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+import PostImage from "@/components/post/PostImage";
+import BeforeAfterThumbnail from "@/components/post/BeforeAfterThumbnail";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
+
+/**
+ * @file PlacePostGrid.tsx
+ * @description 장소에 태그된 게시물 그리드 컴포넌트
+ *
+ * 주요 기능:
+ * - GET /api/posts?placeId= 로 게시물 목록 조회 (12개씩, 최신순, cursor로 다음 페이지)
+ * - 3열 정사각형 그리드, Hover 시 좋아요/댓글 수 표시
+ * - 전/후 비교 게시물은 두 이미지를 반씩 나란히 표시
+ * - 더 보기 (페이지네이션)
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 표시
+ */
+
+interface Post {
+  id: string;
+  user_id: string;
+  image_url: string;
+  media?: PostMediaItem[];
+  before_after?: PostBeforeAfter | null;
+  caption: string | null;
+  created_at: string;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 null
+  comments_count: number;
+}
+
+interface PlacePostGridProps {
+  placeId: string;
+}
+
+export default function PlacePostGrid({ placeId }: PlacePostGridProps) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
+
+  const fetchPosts = useCallback(
+    async (cursor: string | null) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(
+          `/api/posts?placeId=${encodeURIComponent(placeId)}&limit=12${
+            cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+          }`
+        );
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        if (!cursor) {
+          setPosts(data.posts || []);
+          setImageErrors(new Set());
+        } else {
+          setPosts((prev) => [...prev, ...(data.posts || [])]);
+        }
+
+        setHasMore(data.hasMore || false);
+        setNextCursor(data.nextCursor || null);
+      } catch (err) {
+        const errorMessage = getUserFriendlyErrorMessage(err);
+        setError(errorMessage);
+        console.error("[PlacePostGrid] Error fetching place posts:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [placeId]
+  );
+
+  useEffect(() => {
+    fetchPosts(null);
+  }, [fetchPosts]);
+
+  if (loading && posts.length === 0) {
+    return (
+      <div className="grid grid-cols-3 gap-1 md:gap-4">
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="aspect-square bg-gray-200 dark:bg-gray-700 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error && posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+          {error}
+        </p>
+        <button
+          onClick={() => fetchPosts(null)}
+          className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          이 장소에 태그된 게시물이 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="grid grid-cols-3 gap-1 md:gap-4">
+        {posts.map((post) => (
+          <Link
+            key={post.id}
+            href={`/post/${post.id}`}
+            className="group relative aspect-square bg-gray-100 dark:bg-gray-800 overflow-hidden"
+          >
+            {imageErrors.has(post.id) ? (
+              <div className="w-full h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
+                <span className="text-gray-400 text-sm">이미지를 불러올 수 없습니다</span>
+              </div>
+            ) : post.before_after && post.media?.length === 2 ? (
+              <BeforeAfterThumbnail
+                media={post.media}
+                alt={post.caption || "게시물"}
+                sizes="(max-width: 768px) 33vw, 200px"
+              />
+            ) : (
+              <PostImage
+                src={post.image_url}
+                variants={post.media?.[0]?.variants}
+                placeholder={post.media?.[0]?.placeholder}
+                alt={getMediaAltText(post.media?.[0], post.caption || "게시물")}
+                fill
+                className="object-cover"
+                sizes="(max-width: 768px) 33vw, 200px"
+                onError={() => setImageErrors((prev) => new Set(prev).add(post.id))}
+              />
+            )}
+            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6">
+              {post.likes_count !== null && (
+                <div className="flex items-center gap-2 text-white">
+                  <Heart className="w-5 h-5 fill-current" />
+                  <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-white">
+                <MessageCircle className="w-5 h-5 fill-current" />
+                <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+
+      {hasMore && nextCursor && (
+        <div className="text-center py-8">
+          <button
+            onClick={() => fetchPosts(nextCursor)}
+            disabled={loading}
+            className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
+          >
+            {loading ? "불러오는 중..." : "더 보기"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  MAX_BEFORE_AFTER_WEIGHT_KG,
+  MIN_BEFORE_AFTER_WEIGHT_KG,
+  type PostBeforeAfter,
+} from "@/lib/utils/post-before-after";
+
+/**
+ * @file BeforeAfterEditor.tsx
+ * @description 게시물 작성 모달의 전/후 비교 라벨 입력 컴포넌트
+ *
+ * 주요 기능:
+ * - 전(첫 번째 이미지) / 후(두 번째 이미지)별 날짜, 체중 입력 (모두 선택)
+ * - 입력 상태를 API 요청 형식으로 변환
+ *
+ * @dependencies
+ * - components/ui/input: 날짜/체중 입력 필드
+ * - lib/utils/post-before-after: 체중 제한값
+ */
+
+interface BeforeAfterLabelForm {
+  date: string; // YYYY-MM-DD (비어 있으면 표시 안 함)
+  weight_kg: string;
+}
+
+export interface BeforeAfterForm {
+  before: BeforeAfterLabelForm;
+  after: BeforeAfterLabelForm;
+}
+
+interface BeforeAfterEditorProps {
+  value: BeforeAfterForm;
+  onChange: (value: BeforeAfterForm) => void;
+  disabled?: boolean;
+}
+
+export function createEmptyBeforeAfterForm(): BeforeAfterForm {
+  return {
+    before: { date: "", weight_kg: "" },
+    after: { date: "", weight_kg: "" },
+  };
+}
+
+/**
+ * 저장된 전/후 라벨을 입력 상태로 변환 (임시저장 이어서 작성)
+ */
+export function beforeAfterToForm(beforeAfter: PostBeforeAfter): BeforeAfterForm {
+  return {
+    before: {
+      date: beforeAfter.before.date || "",
+      weight_kg: beforeAfter.before.weight_kg !== null ? String(beforeAfter.before.weight_kg) : "",
+    },
+    after: {
+      date: beforeAfter.after.date || "",
+      weight_kg: beforeAfter.after.weight_kg !== null ? String(beforeAfter.after.weight_kg) : "",
+    },
+  };
+}
+
+/**
+ * 입력 상태를 API 요청 형식으로 변환 (검증은 서버에서 수행)
+ */
+export function beforeAfterFormToPayload(form: BeforeAfterForm): PostBeforeAfter {
+  const toLabel = (label: BeforeAfterLabelForm) => ({
+    date: label.date || null,
+    weight_kg: label.weight_kg.trim() ? Number(label.weight_kg) : null,
+  });
+
+  return { before: toLabel(form.before), after: toLabel(form.after) };
+}
+
+export default function BeforeAfterEditor({
+  value,
+  onChange,
+  disabled = false,
+}: BeforeAfterEditorProps) {
+  const today = new Date().toLocaleDateString("sv-SE"); // 로컬 기준 YYYY-MM-DD
+
+  const updateLabel = (key: keyof BeforeAfterForm, field: keyof BeforeAfterLabelForm, text: string) => {
+    onChange({ ...value, [key]: { ...value[key], [field]: text } });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {(["before", "after"] as const).map((key) => {
+        const name = key === "before" ? "전" : "후";
+        return (
+          <div key={key} className="space-y-1.5">
+            <p className="text-xs font-semibold text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+              {name} ({key === "before" ? "첫 번째" : "두 번째"} 이미지)
+            </p>
+            <Input
+              type="date"
+              value={value[key].date}
+              onChange={(e) => updateLabel(key, "date", e.target.value)}
+              max={today}
+              disabled={disabled}
+              className="h-8 px-2 text-sm"
+              aria-label={`${name} 날짜`}
+            />
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                inputMode="decimal"
+                value={value[key].weight_kg}
+                onChange={(e) => updateLabel(key, "weight_kg", e.target.value)}
+                min={MIN_BEFORE_AFTER_WEIGHT_KG}
+                max={MAX_BEFORE_AFTER_WEIGHT_KG}
+                step={0.1}
+                placeholder="체중"
+                disabled={disabled}
+                className="h-8 px-2 text-sm"
+                aria-label={`${name} 체중 (kg)`}
+              />
+              <span className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                kg
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
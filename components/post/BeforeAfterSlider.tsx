@@ -0,0 +1,167 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ChevronsLeftRight } from "lucide-react";
+import PostImage from "./PostImage";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+import type { BeforeAfterLabel, PostBeforeAfter } from "@/lib/utils/post-before-after";
+
+/**
+ * @file BeforeAfterSlider.tsx
+ * @description 전/후 비교 게시물 슬라이더 (PostCard, PostModal 공용)
+ *
+ * 주요 기능:
+ * - 전 이미지 위에 후 이미지를 겹치고 손잡이 위치만큼 잘라서 표시 (왼쪽 = 전, 오른쪽 = 후)
+ * - 손잡이를 드래그(마우스/터치)하거나 좌우 방향키로 비교 위치 이동
+ * - 이미지별 날짜/체중 라벨 표시
+ * - 손잡이 조작은 게시물 탭(모달 열기, 더블탭 좋아요)으로 전달하지 않음
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 표시
+ * - lib/utils/post-before-after: 전/후 라벨 타입
+ */
+
+const KEYBOARD_STEP = 5;
+
+interface BeforeAfterSliderProps {
+  media: PostMediaItem[]; // [전, 후]
+  labels: PostBeforeAfter;
+  alt: string;
+  sizes: string;
+  fit?: "cover" | "contain";
+}
+
+/**
+ * 라벨 표시 (예: "2025.01.03 · 82.5kg")
+ */
+function formatLabel(label: BeforeAfterLabel): string {
+  return [
+    label.date ? label.date.replace(/-/g, ".") : null,
+    label.weight_kg !== null ? `${label.weight_kg}kg` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function BeforeAfterSlider({
+  media,
+  labels,
+  alt,
+  sizes,
+  fit = "cover",
+}: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const [beforeMedia, afterMedia] = media;
+  const beforeLabel = formatLabel(labels.before);
+  const afterLabel = formatLabel(labels.after);
+  const imageClassName = fit === "cover" ? "object-cover" : "object-contain";
+
+  const updatePosition = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) {
+      return;
+    }
+    setPosition(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDraggingRef.current = true;
+    updatePosition(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current) return;
+    updatePosition(e.clientX);
+  };
+
+  const handlePointerEnd = () => {
+    isDraggingRef.current = false;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      const direction = e.key === "ArrowLeft" ? -1 : 1;
+      setPosition((prev) => Math.max(0, Math.min(100, prev + direction * KEYBOARD_STEP)));
+    } else if (e.key === "Home" || e.key === "End") {
+      e.preventDefault();
+      setPosition(e.key === "Home" ? 0 : 100);
+    }
+  };
+
+  if (!beforeMedia || !afterMedia) {
+    return null;
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full overflow-hidden">
+      {/* 전 이미지 (아래) */}
+      <PostImage
+        src={beforeMedia.url}
+        variants={beforeMedia.variants}
+        placeholder={beforeMedia.placeholder}
+        alt={getMediaAltText(beforeMedia, `${alt} (전)`)}
+        fill
+        className={imageClassName}
+        sizes={sizes}
+        draggable={false}
+      />
+
+      {/* 후 이미지 (위, 손잡이 오른쪽만 표시) */}
+      <div
+        className="absolute inset-0"
+        style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+      >
+        <PostImage
+          src={afterMedia.url}
+          variants={afterMedia.variants}
+          placeholder={afterMedia.placeholder}
+          alt={getMediaAltText(afterMedia, `${alt} (후)`)}
+          fill
+          className={imageClassName}
+          sizes={sizes}
+          draggable={false}
+        />
+      </div>
+
+      {/* 전/후 라벨 */}
+      <div className="absolute top-3 left-3 rounded-md bg-black/60 px-2 py-1 text-xs text-white pointer-events-none">
+        <span className="font-semibold">전</span>
+        {beforeLabel && <span className="ml-1.5">{beforeLabel}</span>}
+      </div>
+      <div className="absolute top-3 right-3 rounded-md bg-black/60 px-2 py-1 text-xs text-white pointer-events-none">
+        <span className="font-semibold">후</span>
+        {afterLabel && <span className="ml-1.5">{afterLabel}</span>}
+      </div>
+
+      {/* 비교 손잡이 */}
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="전/후 비교 위치"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position)}
+        className="absolute inset-y-0 z-10 flex w-10 -translate-x-1/2 cursor-ew-resize touch-none items-center justify-center focus:outline-none"
+        style={{ left: `${position}%` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 bg-white shadow" />
+        <div className="relative flex h-9 w-9 items-center justify-center rounded-full bg-white text-black shadow-md">
+          <ChevronsLeftRight className="w-5 h-5" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import PostImage from "./PostImage";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+
+/**
+ * @file BeforeAfterThumbnail.tsx
+ * @description 전/후 비교 게시물 그리드 썸네일 (왼쪽 절반 = 전, 오른쪽 절반 = 후)
+ *
+ * 주요 기능:
+ * - 두 이미지를 각각 가운데 크롭하여 나란히 표시
+ * - 가운데 구분선
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 표시
+ */
+
+interface BeforeAfterThumbnailProps {
+  media: PostMediaItem[]; // [전, 후]
+  alt: string;
+  sizes: string;
+}
+
+export default function BeforeAfterThumbnail({ media, alt, sizes }: BeforeAfterThumbnailProps) {
+  return (
+    <div className="absolute inset-0 flex">
+      {media.slice(0, 2).map((item, index) => (
+        <div key={item.id} className="relative w-1/2 h-full overflow-hidden">
+          <PostImage
+            src={item.url}
+            variants={item.variants}
+            placeholder={item.placeholder}
+            alt={getMediaAltText(item, `${alt} (${index === 0 ? "전" : "후"})`)}
+            fill
+            className="object-cover"
+            sizes={sizes}
+          />
+        </div>
+      ))}
+      <div className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 bg-white pointer-events-none" />
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { Loader2, Users, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MAX_POST_COLLABORATORS, type PostCollaborator } from "@/lib/utils/post-collaborators";
+
+/**
+ * @file CollaboratorPicker.tsx
+ * @description 게시물 작성 모달의 공동 작성자 초대 컴포넌트
+ *
+ * 주요 기능:
+ * - 사용자 검색 (입력 후 200ms 디바운스, 본인 제외)
+ * - 초대할 공동 작성자 추가/해제 (최대 3명)
+ *
+ * 게시하면 초대가 전송되고, 상대가 수락해야 게시물에 이름이 표시됩니다.
+ *
+ * @dependencies
+ * - components/ui/input: 검색 입력 필드
+ * - lib/utils/post-collaborators: 공동 작성자 타입 및 제한값
+ */
+
+interface CollaboratorPickerProps {
+  value: PostCollaborator[];
+  onChange: (collaborators: PostCollaborator[]) => void;
+  disabled?: boolean;
+}
+
+export default function CollaboratorPicker({ value, onChange, disabled = false }: CollaboratorPickerProps) {
+  const { userId: currentClerkId } = useAuth();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PostCollaborator[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const trimmedQuery = query.trim();
+  const isFull = value.length >= MAX_POST_COLLABORATORS;
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const searchUsers = async () => {
+      try {
+        setIsSearching(true);
+        const response = await fetch(`/api/users/search?q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json();
+        setResults(data.users || []);
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") {
+          console.error("Error searching collaborators:", err);
+        }
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    const debounceTimeout = setTimeout(searchUsers, 200);
+    return () => {
+      controller.abort();
+      clearTimeout(debounceTimeout);
+    };
+  }, [trimmedQuery]);
+
+  const handleAdd = (user: PostCollaborator) => {
+    onChange([...value, { id: user.id, clerk_id: user.clerk_id, name: user.name }]);
+    setQuery("");
+    setResults([]);
+  };
+
+  const selectableResults = results.filter(
+    (user) => user.clerk_id !== currentClerkId && !value.some((selected) => selected.id === user.id)
+  );
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((collaborator) => (
+            <span
+              key={collaborator.id}
+              className="flex items-center gap-1 rounded-full bg-gray-100 dark:bg-gray-800 px-3 py-1 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+            >
+              {collaborator.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item.id !== collaborator.id))}
+                disabled={disabled}
+                className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:opacity-70"
+                aria-label={`${collaborator.name} 초대 취소`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isFull ? (
+        <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          공동 작성자는 최대 {MAX_POST_COLLABORATORS}명까지 초대할 수 있습니다.
+        </p>
+      ) : (
+        <div className="relative">
+          <Users className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--instagram-text-secondary)]" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="함께 게시할 사용자 검색"
+            disabled={disabled}
+            className="pl-9"
+          />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-[var(--instagram-text-secondary)]" />
+          )}
+        </div>
+      )}
+
+      {!isFull && trimmedQuery && selectableResults.length > 0 && (
+        <div className="rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] divide-y divide-[var(--instagram-border)] dark:divide-[var(--border)]">
+          {selectableResults.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => handleAdd(user)}
+              disabled={disabled}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-800 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+            >
+              {user.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+        초대를 수락하면 게시물이 상대방 프로필에도 표시됩니다.
+      </p>
+    </div>
+  );
+}
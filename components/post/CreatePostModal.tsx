@@ -12,27 +12,94 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Upload, X, Loader2, Check, Smile, Hash } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Upload, X, Loader2, Check, Smile, Hash, ChevronLeft, ChevronRight, Plus, Film, CalendarClock, Dumbbell, RotateCw, MapPin, UserRound, Users, EyeOff, MessageCircleOff, BarChart3, Columns2 } from "lucide-react";
 import Image from "next/image";
+import Link from "next/link";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
 import Cropper, { Area } from "react-easy-crop";
 import "react-easy-crop/react-easy-crop.css";
 import { getCroppedImg, blobToFile } from "@/lib/utils/image-crop";
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  getAdjustedImg,
+  hasImageAdjustments,
+  type ImageAdjustments,
+} from "@/lib/utils/image-adjustments";
 import EmojiPicker, { EmojiClickData } from "emoji-picker-react";
 import { getHashtagSuggestions } from "@/lib/utils/hashtag-suggestions";
+import {
+  DEFAULT_POST_ASPECT_RATIO,
+  MAX_ALT_TEXT_LENGTH,
+  MAX_POST_IMAGES,
+  getAspectRatioValue,
+  type PostAspectRatio,
+  type PostMediaItem,
+} from "@/lib/utils/post-media";
+import {
+  ALLOWED_VIDEO_TYPES,
+  MAX_VIDEO_DURATION_SECONDS,
+  MAX_VIDEO_FILE_SIZE,
+} from "@/lib/utils/video-validation";
+import { captureVideoPoster } from "@/lib/utils/video-poster";
+import { formatScheduledTime } from "@/lib/utils/format-time";
+import { MAX_SCHEDULE_DAYS, MIN_SCHEDULE_LEAD_MINUTES } from "@/lib/utils/schedule-limits";
+import type { PostPlace } from "@/lib/utils/post-place";
+import type { PhotoTagPoint } from "@/lib/utils/post-tags";
+import type { PostCollaborator } from "@/lib/utils/post-collaborators";
+import MediaCarousel from "./MediaCarousel";
+import DraftList, { type Draft } from "./DraftList";
+import ImageAdjustmentEditor from "./ImageAdjustmentEditor";
+import PhotoTagEditor from "./PhotoTagEditor";
+import PlacePicker from "./PlacePicker";
+import CollaboratorPicker from "./CollaboratorPicker";
+import WorkoutEditor, {
+  createEmptyWorkoutForm,
+  workoutFormToPayload,
+  workoutToForm,
+  type WorkoutForm,
+} from "./WorkoutEditor";
+import PollEditor, {
+  createEmptyPollForm,
+  pollFormToPayload,
+  pollToForm,
+  type PollForm,
+} from "./PollEditor";
+import BeforeAfterEditor, {
+  beforeAfterFormToPayload,
+  beforeAfterToForm,
+  createEmptyBeforeAfterForm,
+  type BeforeAfterForm,
+} from "./BeforeAfterEditor";
+import { BEFORE_AFTER_IMAGE_COUNT } from "@/lib/utils/post-before-after";
+import type { DuplicateOriginalPost } from "@/lib/utils/duplicate-images";
 
 /**
  * @file CreatePostModal.tsx
  * @description 게시물 작성 모달 컴포넌트
  *
  * 주요 기능:
- * - 이미지 업로드 (드래그 앤 드롭 또는 클릭)
- * - 이미지 크롭 (1:1 정사각형)
- * - 이미지 미리보기
+ * - 이미지 업로드 (드래그 앤 드롭 또는 클릭, 최대 10장)
+ * - 이미지별 크롭 및 90도 회전 (화면 비율 1:1 정사각형, 4:5 세로, 1.91:1 가로 중 게시물 공통 선택)
+ * - 이미지별 보정 (필터 프리셋, 밝기/대비/채도/색온도) - 업로드 JPEG에 적용, 원본은 보관하여 재편집 가능
+ * - 이미지 미리보기 및 순서 변경/삭제
+ * - 이미지/동영상별 대체 텍스트 입력 (스크린 리더용)
+ * - 사진 속 사람 태그 (편집을 마친 이미지를 탭한 위치에 사용자 태그, 다시 크롭하면 초기화)
+ * - 동영상 업로드 (MP4/WebM 1개, 최대 60초, 포스터 프레임 자동 추출)
+ * - 임시저장 (서버 보관) 및 임시저장 목록에서 이어서 작성/게시
+ * - 작성 중 닫으면 임시저장 여부 확인
+ * - 예약 게시 (5분 뒤 ~ 30일 이내)
+ * - 운동 기록 입력 (종목, 세트별 횟수/중량/시간)
+ * - 투표 추가 (선택지 2~4개, 투표 기간)
+ * - 전/후 비교 게시물 (이미지 2장, 이미지별 날짜/체중 라벨)
+ * - 장소 태그 (장소 검색 또는 현재 위치로 새 장소 추가)
+ * - 공동 작성자 초대 (최대 3명, 수락하면 상대 프로필에도 표시)
+ * - 고급 설정: 좋아요 수 숨기기, 댓글 기능 해제 (게시 후에도 게시물 메뉴에서 변경 가능)
  * - 게시물 피드글 입력 (최대 2,200자)
  * - 해시태그 입력 및 추천 (# 입력 시)
  * - 이모지 입력
  * - 게시 버튼으로 업로드
+ * - 다른 사용자의 게시물과 같은 이미지로 차단되면 원본 게시물 링크 표시
  * - 업로드 진행 상태 표시
  *
  * @dependencies
@@ -58,9 +125,46 @@ interface MentionSelection extends MentionSuggestion {
   displayText: string;
 }
 
+/** 작성 중인 이미지 (원본 + 편집 결과 + 재편집용 크롭 위치/회전/보정값 + 사람 태그) */
+interface ComposerImage {
+  id: string;
+  originalFile: File;
+  previewUrl: string;
+  croppedFile: File | null;
+  croppedPreviewUrl: string | null;
+  crop: { x: number; y: number };
+  zoom: number;
+  rotation: number;
+  croppedAreaPixels: Area | null;
+  adjustments: ImageAdjustments;
+  altText: string;
+  tags: PhotoTagPoint[];
+}
+
+/** 작성 중인 동영상 (원본 + 미리보기용 포스터 프레임, 저장되는 포스터는 서버에서 추출) */
+interface ComposerVideo {
+  file: File;
+  previewUrl: string;
+  posterPreviewUrl: string;
+  durationSeconds: number;
+  altText: string;
+}
+
+const ASPECT_RATIO_OPTIONS: { value: PostAspectRatio; label: string }[] = [
+  { value: "1:1", label: "1:1" },
+  { value: "4:5", label: "4:5 세로" },
+  { value: "1.91:1", label: "1.91:1 가로" },
+];
+
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const MAX_CAPTION_LENGTH = 2200;
 
+/** datetime-local 입력값 형식 (로컬 시간 기준 YYYY-MM-DDTHH:mm) */
+function toDateTimeLocalValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 export default function CreatePostModal({
   open,
   onOpenChange,
@@ -69,22 +173,49 @@ export default function CreatePostModal({
   const { userId } = useAuth();
   const { theme } = useTheme();
   const [mounted, setMounted] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [originalFile, setOriginalFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [croppedPreviewUrl, setCroppedPreviewUrl] = useState<string | null>(null);
+  const [images, setImages] = useState<ComposerImage[]>([]);
+  const [activeImageId, setActiveImageId] = useState<string | null>(null);
+  const [video, setVideo] = useState<ComposerVideo | null>(null);
+  const [isProcessingVideo, setIsProcessingVideo] = useState(false);
+  // 이어서 작성 중인 임시저장 (미디어는 이미 업로드되어 있음)
+  const [activeDraft, setActiveDraft] = useState<Draft | null>(null);
+  const [draftMedia, setDraftMedia] = useState<PostMediaItem[]>([]);
+  const [activeDraftMediaIndex, setActiveDraftMediaIndex] = useState(0);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  // 예약 게시 (scheduledAt: datetime-local 입력값)
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState("");
+  // 운동 기록 (null이면 운동 기록 없음)
+  const [workoutForm, setWorkoutForm] = useState<WorkoutForm | null>(null);
+  // 투표 (null이면 투표 없음)
+  const [pollForm, setPollForm] = useState<PollForm | null>(null);
+  // 전/후 비교 (null이면 일반 게시물, 이미지가 2장일 때만 적용)
+  const [beforeAfterForm, setBeforeAfterForm] = useState<BeforeAfterForm | null>(null);
+  const [place, setPlace] = useState<PostPlace | null>(null);
+  const [collaborators, setCollaborators] = useState<PostCollaborator[]>([]);
+  const [hideLikeCount, setHideLikeCount] = useState(false);
+  const [commentsDisabled, setCommentsDisabled] = useState(false);
   const [caption, setCaption] = useState("");
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // 중복 이미지로 게시가 차단된 경우 원본 게시물
+  const [duplicateOriginal, setDuplicateOriginal] = useState<DuplicateOriginalPost | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   
-  // 크롭 관련 상태
-  const [showCrop, setShowCrop] = useState(false);
+  // 이미지 편집 관련 상태 (크롭/회전 → 보정 순서)
+  const [editStep, setEditStep] = useState<"crop" | "adjust" | null>(null);
+  // 게시물 화면 비율 (모든 이미지에 같은 비율 적용)
+  const [aspectRatio, setAspectRatio] = useState<PostAspectRatio>(DEFAULT_POST_ASPECT_RATIO);
   const [crop, setCrop] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
   const [croppedAreaPixels, setCroppedAreaPixels] = useState<Area | null>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_IMAGE_ADJUSTMENTS);
+  // 크롭/회전만 적용된 이미지 (보정 단계 입력)
+  const [adjustBaseUrl, setAdjustBaseUrl] = useState<string | null>(null);
+  const [isApplyingEdit, setIsApplyingEdit] = useState(false);
   
   // 이모지 피커 상태
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -170,37 +301,159 @@ export default function CreatePostModal({
     };
   }, []);
 
-  // 파일 선택 핸들러
-  const handleFileSelect = useCallback((file: File) => {
-    // 파일 타입 검증
-    if (!file.type.startsWith("image/")) {
-      setError("이미지 파일만 업로드할 수 있습니다.");
+  const activeImage = images.find((image) => image.id === activeImageId) || null;
+  const activeImageIndex = activeImage ? images.indexOf(activeImage) : -1;
+  const allImagesCropped = images.length > 0 && images.every((image) => !!image.croppedFile);
+  const canSubmit = activeDraft
+    ? draftMedia.length > 0
+    : video
+      ? !isProcessingVideo
+      : allImagesCropped;
+
+  // 전/후 비교는 이미지가 정확히 2장일 때만 사용 가능
+  const composerImageCount = activeDraft
+    ? draftMedia.filter((media) => media.media_type !== "video").length
+    : video
+      ? 0
+      : images.length;
+  const canUseBeforeAfter = composerImageCount === BEFORE_AFTER_IMAGE_COUNT;
+  const beforeAfterPayload =
+    beforeAfterForm && canUseBeforeAfter ? beforeAfterFormToPayload(beforeAfterForm) : null;
+
+  // 보정 단계 입력 이미지 정리
+  const clearAdjustBase = useCallback(() => {
+    setAdjustBaseUrl((prev) => {
+      if (prev) {
+        URL.revokeObjectURL(prev);
+      }
+      return null;
+    });
+  }, []);
+
+  // 특정 이미지의 편집 모드 시작 (이전 크롭 위치/회전/보정값 복원)
+  const startCrop = useCallback((image: ComposerImage) => {
+    clearAdjustBase();
+    setActiveImageId(image.id);
+    setCrop(image.crop);
+    setZoom(image.zoom);
+    setRotation(image.rotation);
+    setCroppedAreaPixels(image.croppedAreaPixels);
+    setAdjustments(image.adjustments);
+    setEditStep("crop");
+  }, [clearAdjustBase]);
+
+  // 동영상 선택 핸들러 (형식/용량/길이 확인 후 포스터 프레임 추출)
+  const handleVideoSelect = useCallback(async (file: File) => {
+    if (!ALLOWED_VIDEO_TYPES.includes(file.type)) {
+      setError("MP4 또는 WebM 동영상만 업로드할 수 있습니다.");
       return;
     }
 
-    // 파일 크기 검증
-    if (file.size > MAX_FILE_SIZE) {
-      setError("파일 크기는 5MB를 초과할 수 없습니다.");
+    if (file.size > MAX_VIDEO_FILE_SIZE) {
+      setError("동영상 크기는 50MB를 초과할 수 없습니다.");
       return;
     }
 
+    setIsProcessingVideo(true);
     setError(null);
-    setOriginalFile(file);
 
-    // 미리보기 URL 생성 및 크롭 모드로 전환
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
-    setShowCrop(true);
-    setZoom(1);
-    setCrop({ x: 0, y: 0 });
+    try {
+      const { poster, durationSeconds } = await captureVideoPoster(file);
+
+      if (durationSeconds > MAX_VIDEO_DURATION_SECONDS) {
+        setError(`동영상은 최대 ${MAX_VIDEO_DURATION_SECONDS}초까지 업로드할 수 있습니다.`);
+        return;
+      }
+
+      setVideo({
+        file,
+        previewUrl: URL.createObjectURL(file),
+        posterPreviewUrl: URL.createObjectURL(poster),
+        durationSeconds,
+        altText: "",
+      });
+    } catch (err) {
+      console.error("Video processing error:", err);
+      setError("동영상을 불러오지 못했습니다. 다른 파일로 다시 시도해주세요.");
+    } finally {
+      setIsProcessingVideo(false);
+    }
   }, []);
 
+  // 파일 선택 핸들러 (이미지 여러 장 또는 동영상 1개)
+  const handleFilesSelect = useCallback((files: File[]) => {
+    const videoFiles = files.filter((file) => file.type.startsWith("video/"));
+    if (videoFiles.length > 0 || video) {
+      if (files.length > 1 || images.length > 0 || video) {
+        setError("동영상은 한 개만 올릴 수 있으며 사진과 함께 올릴 수 없습니다.");
+        return;
+      }
+      handleVideoSelect(videoFiles[0]);
+      return;
+    }
+
+    const remaining = MAX_POST_IMAGES - images.length;
+    if (remaining <= 0) {
+      setError(`이미지는 최대 ${MAX_POST_IMAGES}장까지 선택할 수 있습니다.`);
+      return;
+    }
+
+    const validFiles: File[] = [];
+    for (const file of files) {
+      // 파일 타입 검증
+      if (!file.type.startsWith("image/")) {
+        setError("이미지 파일만 업로드할 수 있습니다.");
+        return;
+      }
+
+      // 파일 크기 검증
+      if (file.size > MAX_FILE_SIZE) {
+        setError("파일 크기는 5MB를 초과할 수 없습니다.");
+        return;
+      }
+
+      validFiles.push(file);
+    }
+
+    if (validFiles.length === 0) {
+      return;
+    }
+
+    setError(
+      validFiles.length > remaining
+        ? `이미지는 최대 ${MAX_POST_IMAGES}장까지 선택할 수 있습니다.`
+        : null
+    );
+
+    const newImages: ComposerImage[] = validFiles.slice(0, remaining).map((file) => ({
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      originalFile: file,
+      previewUrl: URL.createObjectURL(file),
+      croppedFile: null,
+      croppedPreviewUrl: null,
+      crop: { x: 0, y: 0 },
+      zoom: 1,
+      rotation: 0,
+      croppedAreaPixels: null,
+      adjustments: DEFAULT_IMAGE_ADJUSTMENTS,
+      altText: "",
+      tags: [],
+    }));
+
+    setImages((prev) => [...prev, ...newImages]);
+
+    // 새로 추가된 첫 번째 이미지부터 편집 모드로 전환
+    startCrop(newImages[0]);
+  }, [images.length, video, startCrop, handleVideoSelect]);
+
   // 파일 입력 변경 핸들러
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      handleFilesSelect(files);
     }
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    e.target.value = "";
   };
 
   // 드래그 앤 드롭 핸들러
@@ -218,9 +471,9 @@ export default function CreatePostModal({
     e.preventDefault();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    const files = Array.from(e.dataTransfer.files || []);
+    if (files.length > 0) {
+      handleFilesSelect(files);
     }
   };
 
@@ -229,42 +482,139 @@ export default function CreatePostModal({
     setCroppedAreaPixels(croppedAreaPixels);
   }, []);
 
-  // 크롭 적용 핸들러
-  const handleCropComplete = useCallback(async () => {
-    if (!previewUrl || !croppedAreaPixels || !originalFile) {
+  // 크롭/회전 적용 후 보정 단계로 이동
+  const handleCropNext = useCallback(async () => {
+    if (!activeImage || !croppedAreaPixels) {
       return;
     }
 
     try {
-      // 크롭된 이미지 생성
+      setIsApplyingEdit(true);
+      // 원본에서 크롭/회전 이미지 생성 (재편집 시에도 항상 원본 기준)
       const croppedBlob = await getCroppedImg(
-        previewUrl,
-        croppedAreaPixels
+        activeImage.previewUrl,
+        croppedAreaPixels,
+        rotation
       );
 
-      // Blob을 File로 변환
-      const fileExtension = originalFile.name.split(".").pop() || "jpg";
-      const croppedFile = blobToFile(
-        croppedBlob,
-        `cropped.${fileExtension}`
-      );
-
-      // 크롭된 이미지 미리보기 URL 생성
-      const croppedUrl = URL.createObjectURL(croppedBlob);
-      setCroppedPreviewUrl(croppedUrl);
-
-      setSelectedFile(croppedFile);
-      setShowCrop(false);
+      clearAdjustBase();
+      setAdjustBaseUrl(URL.createObjectURL(croppedBlob));
+      setEditStep("adjust");
     } catch (err) {
       console.error("Crop error:", err);
       setError("이미지 크롭에 실패했습니다.");
+    } finally {
+      setIsApplyingEdit(false);
+    }
+  }, [activeImage, croppedAreaPixels, rotation, clearAdjustBase]);
+
+  // 보정 적용 핸들러 (업로드할 JPEG 생성)
+  const handleAdjustComplete = useCallback(async () => {
+    if (!activeImage || !adjustBaseUrl) {
+      return;
     }
-  }, [previewUrl, croppedAreaPixels, originalFile]);
 
-  // 크롭 취소 핸들러
+    try {
+      setIsApplyingEdit(true);
+      const editedBlob = hasImageAdjustments(adjustments)
+        ? await getAdjustedImg(adjustBaseUrl, adjustments)
+        : await fetch(adjustBaseUrl).then((response) => response.blob());
+
+      // Blob을 File로 변환 (크롭/보정 결과는 항상 JPEG)
+      const croppedFile = blobToFile(editedBlob, "edited.jpg");
+
+      // 편집된 이미지 미리보기 URL 생성
+      const croppedUrl = URL.createObjectURL(editedBlob);
+      if (activeImage.croppedPreviewUrl) {
+        URL.revokeObjectURL(activeImage.croppedPreviewUrl);
+      }
+
+      // 크롭 영역이나 회전이 바뀌면 태그 위치가 맞지 않으므로 사람 태그 초기화
+      const isSameFraming =
+        activeImage.rotation === rotation &&
+        JSON.stringify(activeImage.croppedAreaPixels) === JSON.stringify(croppedAreaPixels);
+
+      const updatedImages = images.map((image) =>
+        image.id === activeImage.id
+          ? {
+              ...image,
+              croppedFile,
+              croppedPreviewUrl: croppedUrl,
+              crop,
+              zoom,
+              rotation,
+              croppedAreaPixels,
+              adjustments,
+              tags: isSameFraming ? image.tags : [],
+            }
+          : image
+      );
+      setImages(updatedImages);
+
+      // 아직 편집하지 않은 다음 이미지가 있으면 이어서 편집
+      const nextUncropped = updatedImages.find((image) => !image.croppedFile);
+      if (nextUncropped) {
+        startCrop(nextUncropped);
+      } else {
+        clearAdjustBase();
+        setEditStep(null);
+      }
+    } catch (err) {
+      console.error("Adjust error:", err);
+      setError("이미지 보정에 실패했습니다.");
+    } finally {
+      setIsApplyingEdit(false);
+    }
+  }, [
+    activeImage,
+    adjustBaseUrl,
+    adjustments,
+    images,
+    crop,
+    zoom,
+    rotation,
+    croppedAreaPixels,
+    startCrop,
+    clearAdjustBase,
+  ]);
+
+  // 화면 비율 변경 (이미 크롭한 다른 이미지는 새 비율로 다시 크롭해야 함, 회전/보정값은 유지)
+  const handleAspectRatioChange = (nextRatio: PostAspectRatio) => {
+    if (nextRatio === aspectRatio) {
+      return;
+    }
+
+    setAspectRatio(nextRatio);
+    setCrop({ x: 0, y: 0 });
+    setZoom(1);
+    setImages((prev) =>
+      prev.map((image) => {
+        if (image.id === activeImageId || !image.croppedFile) {
+          return image;
+        }
+        if (image.croppedPreviewUrl) {
+          URL.revokeObjectURL(image.croppedPreviewUrl);
+        }
+        return {
+          ...image,
+          croppedFile: null,
+          croppedPreviewUrl: null,
+          crop: { x: 0, y: 0 },
+          zoom: 1,
+          croppedAreaPixels: null,
+          tags: [],
+        };
+      })
+    );
+  };
+
+  // 편집 취소 핸들러 (아직 편집하지 않은 새 이미지는 제거)
   const handleCropCancel = () => {
-    setShowCrop(false);
-    handleRemoveImage();
+    setEditStep(null);
+    clearAdjustBase();
+    if (activeImage && !activeImage.croppedFile) {
+      handleRemoveImage(activeImage.id);
+    }
   };
 
   // 이모지 선택 핸들러
@@ -397,20 +747,68 @@ export default function CreatePostModal({
     setMentionQuery("");
   };
 
-  // 이미지 제거
-  const handleRemoveImage = () => {
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
+  // 이미지 한 장 제거
+  const handleRemoveImage = (imageId: string) => {
+    const target = images.find((image) => image.id === imageId);
+    if (!target) {
+      return;
     }
-    if (croppedPreviewUrl) {
-      URL.revokeObjectURL(croppedPreviewUrl);
+
+    URL.revokeObjectURL(target.previewUrl);
+    if (target.croppedPreviewUrl) {
+      URL.revokeObjectURL(target.croppedPreviewUrl);
+    }
+
+    const remainingImages = images.filter((image) => image.id !== imageId);
+    setImages(remainingImages);
+    setError(null);
+
+    if (activeImageId === imageId) {
+      const fallback = remainingImages[Math.min(activeImageIndex, remainingImages.length - 1)];
+      setActiveImageId(fallback?.id || null);
+      setEditStep(null);
+      clearAdjustBase();
+    }
+  };
+
+  // 이미지 순서 변경 (왼쪽: -1, 오른쪽: 1)
+  const handleMoveImage = (imageId: string, direction: -1 | 1) => {
+    setImages((prev) => {
+      const index = prev.findIndex((image) => image.id === imageId);
+      const targetIndex = index + direction;
+      if (index === -1 || targetIndex < 0 || targetIndex >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[targetIndex]] = [next[targetIndex], next[index]];
+      return next;
+    });
+  };
+
+  // 선택한 동영상 제거
+  const resetVideo = () => {
+    if (video) {
+      URL.revokeObjectURL(video.previewUrl);
+      URL.revokeObjectURL(video.posterPreviewUrl);
     }
-    setSelectedFile(null);
-    setOriginalFile(null);
-    setPreviewUrl(null);
-    setCroppedPreviewUrl(null);
+    setVideo(null);
+  };
+
+  // 전체 이미지 및 입력 상태 초기화
+  const resetImages = () => {
+    images.forEach((image) => {
+      URL.revokeObjectURL(image.previewUrl);
+      if (image.croppedPreviewUrl) {
+        URL.revokeObjectURL(image.croppedPreviewUrl);
+      }
+    });
+    setImages([]);
+    setActiveImageId(null);
+    setAspectRatio(DEFAULT_POST_ASPECT_RATIO);
+    resetVideo();
     setError(null);
-    setShowCrop(false);
+    setEditStep(null);
+    clearAdjustBase();
     setShowEmojiPicker(false);
     setShowHashtagSuggestions(false);
     setShowMentionSuggestions(false);
@@ -421,63 +819,272 @@ export default function CreatePostModal({
     }
   };
 
+  // 캡션에 남아있는 멘션만 전송 (중복 제거)
+  const getMentionPayload = () => {
+    const normalizedCaption = caption.toLowerCase();
+    const seen = new Set<string>();
+    return mentionSelections
+      .filter((mention) => {
+        const key = `@${mention.displayText.toLowerCase()}`;
+        const uniqueKey = `${mention.id}-${key}`;
+        if (!normalizedCaption.includes(key) || seen.has(uniqueKey)) {
+          return false;
+        }
+        seen.add(uniqueKey);
+        return true;
+      })
+      .map((mention) => ({
+        mentioned_user_id: mention.id,
+        display_text: mention.displayText,
+        // 임시저장에서 이어서 작성할 때 멘션 추천 항목을 복원하기 위해 함께 저장
+        clerk_id: mention.clerk_id,
+        name: mention.name,
+      }));
+  };
+
+  // 공동 작성자 초대 요청 형식 (clerk_id, name은 임시저장 복원용)
+  const getCollaboratorPayload = () =>
+    collaborators.map((collaborator) => ({
+      user_id: collaborator.id,
+      clerk_id: collaborator.clerk_id,
+      name: collaborator.name,
+    }));
+
+  // 새로 작성한 미디어 + 캡션을 FormData로 구성 (게시/임시저장 공용)
+  const buildMediaFormData = () => {
+    const formData = new FormData();
+    if (video) {
+      formData.append("video", video.file);
+      formData.append("alt_texts", JSON.stringify([video.altText]));
+    } else {
+      images.forEach((image) => {
+        formData.append("images", image.croppedFile!);
+      });
+      formData.append("alt_texts", JSON.stringify(images.map((image) => image.altText)));
+      formData.append("aspect_ratio", aspectRatio);
+
+      const tagPayload = images.flatMap((image, index) =>
+        image.tags.map((tag) => ({
+          media_position: index,
+          x: tag.x,
+          y: tag.y,
+          tagged_user_id: tag.user.id,
+          clerk_id: tag.user.clerk_id,
+          name: tag.user.name,
+        }))
+      );
+      if (tagPayload.length > 0) {
+        formData.append("tags", JSON.stringify(tagPayload));
+      }
+    }
+    formData.append("caption", caption);
+
+    if (workoutForm) {
+      formData.append("workout", JSON.stringify(workoutFormToPayload(workoutForm)));
+    }
+
+    if (pollForm) {
+      formData.append("poll", JSON.stringify(pollFormToPayload(pollForm)));
+    }
+
+    if (beforeAfterPayload) {
+      formData.append("before_after", JSON.stringify(beforeAfterPayload));
+    }
+
+    if (place) {
+      formData.append("place_id", place.id);
+    }
+
+    if (collaborators.length > 0) {
+      formData.append("collaborators", JSON.stringify(getCollaboratorPayload()));
+    }
+
+    if (hideLikeCount) {
+      formData.append("hide_like_count", "true");
+    }
+
+    if (commentsDisabled) {
+      formData.append("comments_disabled", "true");
+    }
+
+    const mentionPayload = getMentionPayload();
+    if (mentionPayload.length > 0) {
+      formData.append("mentions", JSON.stringify(mentionPayload));
+    }
+    return formData;
+  };
+
+  // 이어서 작성 중인 임시저장의 캡션/멘션/미디어 순서 저장
+  const updateActiveDraft = async () => {
+    if (!activeDraft) {
+      return;
+    }
+
+    const response = await fetch(`/api/drafts/${activeDraft.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        caption,
+        mentions: getMentionPayload(),
+        media_ids: draftMedia.map((media) => media.id),
+        alt_texts: draftMedia.map((media) => media.alt_text || ""),
+        workout: workoutForm ? workoutFormToPayload(workoutForm) : null,
+        poll: pollForm ? pollFormToPayload(pollForm) : null,
+        before_after: beforeAfterPayload,
+        place_id: place?.id || null,
+        collaborators: getCollaboratorPayload(),
+        hide_like_count: hideLikeCount,
+        comments_disabled: commentsDisabled,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorMessage = await extractErrorMessage(response);
+      throw new Error(errorMessage);
+    }
+  };
+
+  // 입력 상태 전체 초기화
+  const resetComposer = () => {
+    resetImages();
+    setActiveDraft(null);
+    setDraftMedia([]);
+    setActiveDraftMediaIndex(0);
+    setCaption("");
+    setMentionSelections([]);
+    setIsScheduling(false);
+    setScheduledAt("");
+    setWorkoutForm(null);
+    setPollForm(null);
+    setBeforeAfterForm(null);
+    setPlace(null);
+    setCollaborators([]);
+    setHideLikeCount(false);
+    setCommentsDisabled(false);
+    setDuplicateOriginal(null);
+  };
+
+  // 임시저장 미디어 순서가 바뀌면 캐러셀이 처음으로 돌아가므로 선택 위치도 초기화
+  const draftMediaKey = draftMedia.map((media) => media.id).join(",");
+  useEffect(() => {
+    setActiveDraftMediaIndex(0);
+  }, [draftMediaKey]);
+  const activeDraftMediaItem =
+    draftMedia[Math.min(activeDraftMediaIndex, draftMedia.length - 1)] || null;
+
+  // 임시저장 사람 태그는 저장된 미디어 순서 기준이므로 미디어 ID로 찾음 (이어서 작성 중에는 보기 전용)
+  const activeDraftTags =
+    activeDraft && activeDraftMediaItem
+      ? (activeDraft.tags || []).filter(
+          (tag) =>
+            tag.media_position ===
+            activeDraft.media.findIndex((media) => media.id === activeDraftMediaItem.id)
+        )
+      : [];
+
+  // 사람 태그 변경 (새 이미지)
+  const handleImageTagsChange = (imageId: string, tags: PhotoTagPoint[]) => {
+    setImages((prev) =>
+      prev.map((image) => (image.id === imageId ? { ...image, tags } : image))
+    );
+  };
+
+  // 대체 텍스트 입력 (새 이미지)
+  const handleImageAltTextChange = (imageId: string, altText: string) => {
+    setImages((prev) =>
+      prev.map((image) => (image.id === imageId ? { ...image, altText } : image))
+    );
+  };
+
+  // 대체 텍스트 입력 (임시저장 미디어)
+  const handleDraftAltTextChange = (mediaId: string, altText: string) => {
+    setDraftMedia((prev) =>
+      prev.map((media) => (media.id === mediaId ? { ...media, alt_text: altText } : media))
+    );
+  };
+
+  // 예약 토글 (처음 켤 때 1시간 뒤 정각으로 기본값 설정)
+  const handleScheduleToggle = () => {
+    if (!isScheduling && !scheduledAt) {
+      const defaultTime = new Date(Date.now() + 60 * 60 * 1000);
+      defaultTime.setMinutes(0, 0, 0);
+      setScheduledAt(toDateTimeLocalValue(defaultTime));
+    }
+    setIsScheduling((prev) => !prev);
+  };
+
   // 게시 핸들러
   const handleSubmit = async () => {
-    if (!selectedFile || !userId) {
-      setError("이미지를 선택해주세요.");
+    if ((images.length === 0 && !video && !activeDraft) || !userId) {
+      setError("이미지 또는 동영상을 선택해주세요.");
       return;
     }
 
+    if (!activeDraft && !video && !allImagesCropped) {
+      setError("모든 이미지의 크롭을 완료해주세요.");
+      return;
+    }
+
+    let publishAt: string | null = null;
+    if (isScheduling) {
+      const scheduledDate = new Date(scheduledAt);
+      if (!scheduledAt || Number.isNaN(scheduledDate.getTime())) {
+        setError("예약 시각을 선택해주세요.");
+        return;
+      }
+      if (scheduledDate.getTime() < Date.now() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000) {
+        setError(`예약 시각은 지금부터 ${MIN_SCHEDULE_LEAD_MINUTES}분 이후로 설정해주세요.`);
+        return;
+      }
+      publishAt = scheduledDate.toISOString();
+    }
+
     setIsUploading(true);
     setError(null);
+    setDuplicateOriginal(null);
 
     try {
-      const formData = new FormData();
-      formData.append("image", selectedFile);
-      formData.append("caption", caption);
-
-      const normalizedMentions = (() => {
-        const normalizedCaption = caption.toLowerCase();
-        const seen = new Set<string>();
-        return mentionSelections.filter((mention) => {
-          const key = `@${mention.displayText.toLowerCase()}`;
-          const uniqueKey = `${mention.id}-${key}`;
-          if (!normalizedCaption.includes(key) || seen.has(uniqueKey)) {
-            return false;
-          }
-          seen.add(uniqueKey);
-          return true;
+      let response: Response;
+      if (activeDraft) {
+        // 임시저장은 이미 업로드된 미디어를 그대로 게시
+        await updateActiveDraft();
+        response = await fetch(`/api/drafts/${activeDraft.id}/publish`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ publish_at: publishAt }),
+        });
+      } else {
+        const formData = buildMediaFormData();
+        if (publishAt) {
+          formData.append("publish_at", publishAt);
+        }
+        response = await fetch("/api/posts", {
+          method: "POST",
+          body: formData,
         });
-      })();
-
-      if (normalizedMentions.length > 0) {
-        formData.append(
-          "mentions",
-          JSON.stringify(
-            normalizedMentions.map((mention) => ({
-              mentioned_user_id: mention.id,
-              display_text: mention.displayText,
-            }))
-          )
-        );
       }
 
-      const response = await fetch("/api/posts", {
-        method: "POST",
-        body: formData,
-      });
-
       if (!response.ok) {
+        if (response.status === 409) {
+          const data = await response.clone().json().catch(() => null);
+          setDuplicateOriginal(data?.duplicate || null);
+        }
         const errorMessage = await extractErrorMessage(response);
         throw new Error(errorMessage);
       }
 
       // 성공 시 상태 초기화
-      handleRemoveImage();
-      setCaption("");
-      setMentionSelections([]);
+      resetComposer();
       onOpenChange(false);
 
+      if (publishAt) {
+        alert(`${formatScheduledTime(publishAt)}에 게시되도록 예약했습니다.`);
+      }
+
       // 피드 새로고침을 위한 커스텀 이벤트 발생
       window.dispatchEvent(new CustomEvent("postCreated"));
 
@@ -494,16 +1101,124 @@ export default function CreatePostModal({
     }
   };
 
-  // 모달 닫기 시 상태 초기화
-  const handleOpenChange = (newOpen: boolean) => {
-    if (!newOpen && !isUploading) {
-      handleRemoveImage();
-      setCaption("");
+  // 임시저장 (새 작성: 미디어 업로드 후 생성, 이어서 작성: 변경 사항만 저장)
+  const saveDraft = async (): Promise<boolean> => {
+    setIsSavingDraft(true);
+    setError(null);
+
+    try {
+      if (activeDraft) {
+        await updateActiveDraft();
+      } else {
+        const response = await fetch("/api/drafts", {
+          method: "POST",
+          body: buildMediaFormData(),
+        });
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+      }
+      return true;
+    } catch (err) {
+      const errorMessage = getUserFriendlyErrorMessage(err);
+      setError(errorMessage);
+      console.error("Draft save error:", err);
+      return false;
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!canSubmit) {
+      setError("모든 이미지의 크롭을 완료해주세요.");
+      return;
+    }
+
+    if (await saveDraft()) {
+      resetComposer();
+      onOpenChange(false);
+    }
+  };
+
+  // 임시저장 이어서 작성
+  const handleDraftSelect = (draft: Draft) => {
+    resetImages();
+    setActiveDraft(draft);
+    setDraftMedia(draft.media);
+    setActiveDraftMediaIndex(0);
+    setCaption(draft.caption || "");
+    setWorkoutForm(draft.workout ? workoutToForm(draft.workout) : null);
+    setPollForm(draft.poll ? pollToForm(draft.poll) : null);
+    setBeforeAfterForm(draft.before_after ? beforeAfterToForm(draft.before_after) : null);
+    setPlace(draft.place || null);
+    setCollaborators(draft.collaborators || []);
+    setHideLikeCount(draft.hide_like_count ?? false);
+    setCommentsDisabled(draft.comments_disabled ?? false);
+    setMentionSelections(
+      (draft.mentions || []).map((mention) => ({
+        id: mention.mentioned_user_id,
+        clerk_id: mention.clerk_id || "",
+        name: mention.name || mention.display_text,
+        displayText: mention.display_text,
+      }))
+    );
+  };
+
+  // 임시저장 미디어 순서 변경 (왼쪽: -1, 오른쪽: 1)
+  const handleMoveDraftMedia = (mediaId: string, direction: -1 | 1) => {
+    setDraftMedia((prev) => {
+      const index = prev.findIndex((media) => media.id === mediaId);
+      const targetIndex = index + direction;
+      if (index === -1 || targetIndex < 0 || targetIndex >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[targetIndex]] = [next[targetIndex], next[index]];
+      return next;
+    });
+  };
+
+  // 저장되지 않은 변경 사항이 있는지 확인 (닫기 전 임시저장 안내용)
+  const hasUnsavedChanges = activeDraft
+    ? caption !== (activeDraft.caption || "") ||
+      draftMedia.map((media) => media.id).join(",") !==
+        activeDraft.media.map((media) => media.id).join(",") ||
+      JSON.stringify(workoutForm ? workoutFormToPayload(workoutForm) : null) !==
+        JSON.stringify(activeDraft.workout) ||
+      JSON.stringify(pollForm ? pollFormToPayload(pollForm) : null) !==
+        JSON.stringify(activeDraft.poll || null) ||
+      JSON.stringify(beforeAfterPayload) !== JSON.stringify(activeDraft.before_after || null) ||
+      (place?.id || null) !== (activeDraft.place?.id || null) ||
+      collaborators.map((collaborator) => collaborator.id).join(",") !==
+        (activeDraft.collaborators || []).map((collaborator) => collaborator.id).join(",") ||
+      hideLikeCount !== (activeDraft.hide_like_count ?? false) ||
+      commentsDisabled !== (activeDraft.comments_disabled ?? false)
+    : images.length > 0 || !!video;
+
+  // 모달 닫기 시 상태 초기화 (작성 중인 내용이 있으면 임시저장 여부 확인)
+  const handleOpenChange = async (newOpen: boolean) => {
+    if (!newOpen && (isUploading || isSavingDraft)) {
+      return;
+    }
+
+    if (!newOpen) {
+      if (
+        hasUnsavedChanges &&
+        canSubmit &&
+        confirm("작성 중인 게시물을 임시저장할까요?")
+      ) {
+        if (!(await saveDraft())) {
+          return;
+        }
+      }
+      resetComposer();
       setError(null);
       setShowEmojiPicker(false);
       setShowHashtagSuggestions(false);
       setShowMentionSuggestions(false);
-      setMentionSelections([]);
       setMentionQuery("");
     }
     onOpenChange(newOpen);
@@ -520,52 +1235,249 @@ export default function CreatePostModal({
         </DialogHeader>
 
         <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`image/*,${ALLOWED_VIDEO_TYPES.join(",")}`}
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
+
           {/* 이미지 업로드 영역 */}
-          {!previewUrl ? (
-            <div
-              className={`
-                relative border-2 border-dashed rounded-lg p-12 text-center
-                transition-colors cursor-pointer
-                ${
-                  isDragging
-                    ? "border-[var(--instagram-blue)] bg-blue-50 dark:bg-blue-950/20"
-                    : "border-[var(--instagram-border)] dark:border-[var(--border)] hover:border-[var(--instagram-blue)]"
-                }
-              `}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              onClick={() => fileInputRef.current?.click()}
-            >
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                onChange={handleFileInputChange}
-                className="hidden"
-              />
-              <Upload className="w-12 h-12 mx-auto mb-4 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
-              <p className="text-lg font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] mb-2">
-                사진을 여기에 끌어다 놓으세요
-              </p>
-              <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
-                또는 클릭하여 선택하세요
+          {activeDraft ? (
+            /* 임시저장 미리보기 (순서 변경/삭제 가능, 크롭은 불가) */
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  임시저장한 게시물을 이어서 작성 중입니다.
+                </p>
+                <button
+                  type="button"
+                  onClick={resetComposer}
+                  className="text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+                >
+                  새로 작성
+                </button>
+              </div>
+              <div
+                className="relative w-full bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden"
+                style={{ aspectRatio: getAspectRatioValue(activeDraft.aspect_ratio) }}
+              >
+                <MediaCarousel
+                  key={draftMediaKey}
+                  media={draftMedia}
+                  alt="임시저장 미리보기"
+                  fit="contain"
+                  sizes="(max-width: 768px) 100vw, 600px"
+                  onIndexChange={setActiveDraftMediaIndex}
+                />
+              </div>
+              {activeDraftTags.length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  <UserRound className="w-3.5 h-3.5 flex-shrink-0" />
+                  <span className="truncate">
+                    태그된 사람: {activeDraftTags.map((tag) => tag.user.name).join(", ")}
+                  </span>
+                </p>
+              )}
+              {activeDraftMediaItem && (
+                <Input
+                  value={activeDraftMediaItem.alt_text || ""}
+                  onChange={(e) => handleDraftAltTextChange(activeDraftMediaItem.id, e.target.value)}
+                  placeholder={
+                    draftMedia.length > 1
+                      ? `${activeDraftMediaIndex + 1}번째 미디어 대체 텍스트 (사진을 설명해주세요)`
+                      : "대체 텍스트 (사진을 설명해주세요)"
+                  }
+                  maxLength={MAX_ALT_TEXT_LENGTH}
+                  aria-label="대체 텍스트"
+                />
+              )}
+              {draftMedia.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {draftMedia.map((media, index) => (
+                    <div
+                      key={media.id}
+                      className="relative flex-shrink-0 w-20 h-20 rounded-md overflow-hidden"
+                    >
+                      <Image
+                        src={media.poster_url || media.url}
+                        alt={`${index + 1}번째 미디어`}
+                        fill
+                        className="object-cover"
+                        sizes="80px"
+                        unoptimized={true}
+                      />
+                      <span className="absolute top-1 left-1 px-1.5 rounded-full bg-black/60 text-white text-[10px] pointer-events-none">
+                        {index + 1}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDraftMedia((prev) => prev.filter((item) => item.id !== media.id))
+                        }
+                        className="absolute top-1 right-1 bg-black/50 hover:bg-black/70 text-white rounded-full p-0.5"
+                        aria-label="미디어 제거"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                      <div className="absolute bottom-0 inset-x-0 flex justify-between bg-black/40">
+                        <button
+                          type="button"
+                          onClick={() => handleMoveDraftMedia(media.id, -1)}
+                          disabled={index === 0}
+                          className="p-0.5 text-white disabled:opacity-30"
+                          aria-label="앞으로 이동"
+                        >
+                          <ChevronLeft className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleMoveDraftMedia(media.id, 1)}
+                          disabled={index === draftMedia.length - 1}
+                          className="p-0.5 text-white disabled:opacity-30"
+                          aria-label="뒤로 이동"
+                        >
+                          <ChevronRight className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : isProcessingVideo ? (
+            <div className="flex flex-col items-center justify-center gap-3 py-16 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+              <Loader2 className="w-8 h-8 animate-spin" />
+              <p className="text-sm">동영상을 불러오는 중...</p>
+            </div>
+          ) : video ? (
+            /* 동영상 미리보기 */
+            <div className="space-y-2">
+              <div className="relative w-full aspect-square bg-black rounded-lg overflow-hidden">
+                <video
+                  src={video.previewUrl}
+                  poster={video.posterPreviewUrl}
+                  className="w-full h-full object-contain"
+                  controls
+                  muted
+                  playsInline
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    resetVideo();
+                    setError(null);
+                  }}
+                  className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors"
+                  aria-label="동영상 제거"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="flex items-center gap-1 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                <Film className="w-3.5 h-3.5" />
+                {Math.round(video.durationSeconds)}초 / 최대 {MAX_VIDEO_DURATION_SECONDS}초
               </p>
-              <Button type="button" variant="outline" size="sm">
-                컴퓨터에서 선택
-              </Button>
+              <Input
+                value={video.altText}
+                onChange={(e) => {
+                  const altText = e.target.value;
+                  setVideo((prev) => (prev ? { ...prev, altText } : prev));
+                }}
+                placeholder="대체 텍스트 (동영상 내용을 설명해주세요)"
+                maxLength={MAX_ALT_TEXT_LENGTH}
+                aria-label="동영상 대체 텍스트"
+              />
+            </div>
+          ) : images.length === 0 ? (
+            <div className="space-y-4">
+              <div
+                className={`
+                  relative border-2 border-dashed rounded-lg p-12 text-center
+                  transition-colors cursor-pointer
+                  ${
+                    isDragging
+                      ? "border-[var(--instagram-blue)] bg-blue-50 dark:bg-blue-950/20"
+                      : "border-[var(--instagram-border)] dark:border-[var(--border)] hover:border-[var(--instagram-blue)]"
+                  }
+                `}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="w-12 h-12 mx-auto mb-4 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+                <p className="text-lg font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] mb-2">
+                  사진 또는 동영상을 여기에 끌어다 놓으세요
+                </p>
+                <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] mb-4">
+                  또는 클릭하여 선택하세요 (사진 최대 {MAX_POST_IMAGES}장 또는 {MAX_VIDEO_DURATION_SECONDS}초 이하 동영상 1개)
+                </p>
+                <Button type="button" variant="outline" size="sm">
+                  컴퓨터에서 선택
+                </Button>
+              </div>
+              {/* 임시저장 목록 */}
+              <DraftList onSelect={handleDraftSelect} />
             </div>
-          ) : showCrop ? (
-            /* 크롭 모드 */
+          ) : editStep === "adjust" && activeImage && adjustBaseUrl ? (
+            /* 보정 모드 */
             <div className="space-y-4">
+              {images.length > 1 && (
+                <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  {activeImageIndex + 1}/{images.length}번째 이미지 보정
+                </p>
+              )}
+              <ImageAdjustmentEditor
+                imageSrc={adjustBaseUrl}
+                value={adjustments}
+                onChange={setAdjustments}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setEditStep("crop")}
+                  disabled={isApplyingEdit}
+                >
+                  이전
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleAdjustComplete}
+                  disabled={isApplyingEdit}
+                  className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
+                >
+                  {isApplyingEdit ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Check className="w-4 h-4 mr-2" />
+                  )}
+                  적용
+                </Button>
+              </div>
+            </div>
+          ) : editStep === "crop" && activeImage ? (
+            /* 크롭/회전 모드 */
+            <div className="space-y-4">
+              {images.length > 1 && (
+                <p className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  {activeImageIndex + 1}/{images.length}번째 이미지 자르기
+                </p>
+              )}
               <div className="relative w-full aspect-square bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden">
                 <Cropper
-                  image={previewUrl}
+                  key={activeImage.id}
+                  image={activeImage.previewUrl}
                   crop={crop}
                   zoom={zoom}
-                  aspect={1} // 1:1 정사각형
+                  rotation={rotation}
+                  aspect={getAspectRatioValue(aspectRatio)}
                   onCropChange={setCrop}
                   onZoomChange={setZoom}
+                  onRotationChange={setRotation}
                   onCropComplete={onCropComplete}
                   cropShape="rect"
                   showGrid={true}
@@ -578,11 +1490,37 @@ export default function CreatePostModal({
                   }}
                 />
               </div>
-              {/* 줌 컨트롤 */}
+              {/* 화면 비율 선택 */}
+              <div className="flex gap-2">
+                {ASPECT_RATIO_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    variant={aspectRatio === option.value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleAspectRatioChange(option.value)}
+                    aria-pressed={aspectRatio === option.value}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              {/* 줌/회전 컨트롤 */}
               <div className="space-y-2">
-                <label className="text-sm font-medium text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
-                  확대/축소
-                </label>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                    확대/축소
+                  </label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRotation((prev) => (prev + 90) % 360)}
+                  >
+                    <RotateCw className="w-4 h-4" />
+                    회전
+                  </Button>
+                </div>
                 <input
                   type="range"
                   min={1}
@@ -604,64 +1542,176 @@ export default function CreatePostModal({
                 </Button>
                 <Button
                   type="button"
-                  onClick={handleCropComplete}
+                  onClick={handleCropNext}
+                  disabled={isApplyingEdit}
                   className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
                 >
-                  <Check className="w-4 h-4 mr-2" />
-                  적용
+                  {isApplyingEdit ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 mr-2" />
+                  )}
+                  다음
                 </Button>
               </div>
             </div>
           ) : (
-            /* 크롭 완료 후 미리보기 */
-            <div className="relative">
-              <div className="relative w-full aspect-square bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden">
-                <Image
-                  src={croppedPreviewUrl || previewUrl || ""}
-                  alt="미리보기"
-                  fill
-                  className="object-contain"
-                  sizes="(max-width: 768px) 100vw, 600px"
-                  unoptimized={true}
-                />
-              </div>
-              <div className="absolute top-2 right-2 flex gap-2">
-                <button
-                  type="button"
-                  onClick={() => setShowCrop(true)}
-                  className="bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors"
-                  aria-label="이미지 크롭"
-                  title="크롭 수정"
+            /* 편집 완료 후 미리보기 */
+            <div className="space-y-3">
+              <div className="relative">
+                <div
+                  className="relative w-full bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden"
+                  style={{ aspectRatio: getAspectRatioValue(aspectRatio) }}
                 >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="w-4 h-4"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                  {activeImage && (
+                    <Image
+                      src={activeImage.croppedPreviewUrl || activeImage.previewUrl}
+                      alt="미리보기"
+                      fill
+                      className="object-contain"
+                      sizes="(max-width: 768px) 100vw, 600px"
+                      unoptimized={true}
                     />
-                  </svg>
-                </button>
-              <button
-                type="button"
-                onClick={handleRemoveImage}
-                  className="bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors"
-                aria-label="이미지 제거"
-              >
-                <X className="w-4 h-4" />
-              </button>
+                  )}
+                  {activeImage?.croppedFile && (
+                    <PhotoTagEditor
+                      key={activeImage.id}
+                      tags={activeImage.tags}
+                      onChange={(tags) => handleImageTagsChange(activeImage.id, tags)}
+                      disabled={isUploading}
+                    />
+                  )}
+                </div>
+                {activeImage && (
+                  <div className="absolute top-2 right-2 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => startCrop(activeImage)}
+                      className="bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors"
+                      aria-label="이미지 편집"
+                      title="크롭/보정 수정"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="w-4 h-4"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                        />
+                      </svg>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveImage(activeImage.id)}
+                      className="bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors"
+                      aria-label="이미지 제거"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
               </div>
+
+              {/* 대체 텍스트 (선택한 이미지) */}
+              {activeImage && (
+                <Input
+                  value={activeImage.altText}
+                  onChange={(e) => handleImageAltTextChange(activeImage.id, e.target.value)}
+                  placeholder={
+                    images.length > 1
+                      ? `${activeImageIndex + 1}번째 이미지 대체 텍스트 (사진을 설명해주세요)`
+                      : "대체 텍스트 (사진을 설명해주세요)"
+                  }
+                  maxLength={MAX_ALT_TEXT_LENGTH}
+                  aria-label="대체 텍스트"
+                />
+              )}
+
+              {/* 썸네일 목록 (선택, 순서 변경, 추가) */}
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {images.map((image, index) => (
+                  <div
+                    key={image.id}
+                    className={`relative flex-shrink-0 w-20 h-20 rounded-md overflow-hidden border-2 ${
+                      image.id === activeImageId
+                        ? "border-[var(--instagram-blue)]"
+                        : "border-transparent"
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setActiveImageId(image.id)}
+                      className="absolute inset-0"
+                      aria-label={`${index + 1}번째 이미지 선택`}
+                    >
+                      <Image
+                        src={image.croppedPreviewUrl || image.previewUrl}
+                        alt={`${index + 1}번째 이미지`}
+                        fill
+                        className="object-cover"
+                        sizes="80px"
+                        unoptimized={true}
+                      />
+                    </button>
+                    <span className="absolute top-1 left-1 px-1.5 rounded-full bg-black/60 text-white text-[10px] pointer-events-none">
+                      {index + 1}
+                    </span>
+                    {!image.croppedFile && (
+                      <button
+                        type="button"
+                        onClick={() => startCrop(image)}
+                        className="absolute inset-x-0 top-1/2 -translate-y-1/2 mx-1 py-0.5 rounded bg-[var(--instagram-blue)] text-white text-[10px]"
+                      >
+                        편집 필요
+                      </button>
+                    )}
+                    <div className="absolute bottom-0 inset-x-0 flex justify-between bg-black/40">
+                      <button
+                        type="button"
+                        onClick={() => handleMoveImage(image.id, -1)}
+                        disabled={index === 0}
+                        className="p-0.5 text-white disabled:opacity-30"
+                        aria-label="앞으로 이동"
+                      >
+                        <ChevronLeft className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMoveImage(image.id, 1)}
+                        disabled={index === images.length - 1}
+                        className="p-0.5 text-white disabled:opacity-30"
+                        aria-label="뒤로 이동"
+                      >
+                        <ChevronRight className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {images.length < MAX_POST_IMAGES && (
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-shrink-0 w-20 h-20 rounded-md border-2 border-dashed border-[var(--instagram-border)] dark:border-[var(--border)] flex items-center justify-center text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:border-[var(--instagram-blue)]"
+                    aria-label="이미지 추가"
+                  >
+                    <Plus className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] text-right">
+                {images.length}/{MAX_POST_IMAGES}
+              </p>
             </div>
           )}
 
-          {/* 게시물 피드글 입력 (크롭 모드가 아닐 때만 표시) */}
-          {!showCrop && (
+          {/* 게시물 피드글 입력 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
           <div className="space-y-2 relative">
             <div className="flex items-center justify-between">
               <label
@@ -795,35 +1845,256 @@ export default function CreatePostModal({
           </div>
           )}
 
+          {/* 운동 기록 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                  <Dumbbell className="w-4 h-4" />
+                  운동 기록
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setWorkoutForm((prev) => (prev ? null : createEmptyWorkoutForm()))
+                  }
+                  disabled={isUploading}
+                  className="text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+                >
+                  {workoutForm ? "삭제" : "추가"}
+                </button>
+              </div>
+              {workoutForm && (
+                <WorkoutEditor
+                  value={workoutForm}
+                  onChange={setWorkoutForm}
+                  disabled={isUploading}
+                />
+              )}
+            </div>
+          )}
+
+          {/* 투표 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                  <BarChart3 className="w-4 h-4" />
+                  투표
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPollForm((prev) => (prev ? null : createEmptyPollForm()))}
+                  disabled={isUploading}
+                  className="text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+                >
+                  {pollForm ? "삭제" : "추가"}
+                </button>
+              </div>
+              {pollForm && (
+                <PollEditor value={pollForm} onChange={setPollForm} disabled={isUploading} />
+              )}
+            </div>
+          )}
+
+          {/* 전/후 비교 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                  <Columns2 className="w-4 h-4" />
+                  전/후 비교
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setBeforeAfterForm((prev) => (prev ? null : createEmptyBeforeAfterForm()))
+                  }
+                  disabled={isUploading || (!beforeAfterForm && !canUseBeforeAfter)}
+                  className="text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70 disabled:opacity-40"
+                >
+                  {beforeAfterForm ? "삭제" : "추가"}
+                </button>
+              </div>
+              {!canUseBeforeAfter ? (
+                <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  이미지를 {BEFORE_AFTER_IMAGE_COUNT}장 선택하면 드래그로 비교하는 전/후 게시물로 올릴 수 있습니다.
+                </p>
+              ) : (
+                beforeAfterForm && (
+                  <BeforeAfterEditor
+                    value={beforeAfterForm}
+                    onChange={setBeforeAfterForm}
+                    disabled={isUploading}
+                  />
+                )
+              )}
+            </div>
+          )}
+
+          {/* 장소 태그 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <span className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                <MapPin className="w-4 h-4" />
+                장소
+              </span>
+              <PlacePicker value={place} onChange={setPlace} disabled={isUploading} />
+            </div>
+          )}
+
+          {/* 공동 작성자 초대 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <span className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                <Users className="w-4 h-4" />
+                공동 작성자
+              </span>
+              <CollaboratorPicker
+                value={collaborators}
+                onChange={setCollaborators}
+                disabled={isUploading}
+              />
+            </div>
+          )}
+
+          {/* 고급 설정 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <span className="text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                고급 설정
+              </span>
+              <label className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={hideLikeCount}
+                  onChange={(e) => setHideLikeCount(e.target.checked)}
+                  disabled={isUploading}
+                  className="accent-[var(--instagram-blue)]"
+                />
+                <EyeOff className="w-4 h-4" />
+                좋아요 수 숨기기
+              </label>
+              <label className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={commentsDisabled}
+                  onChange={(e) => setCommentsDisabled(e.target.checked)}
+                  disabled={isUploading}
+                  className="accent-[var(--instagram-blue)]"
+                />
+                <MessageCircleOff className="w-4 h-4" />
+                댓글 기능 해제
+              </label>
+              <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                좋아요 수를 숨기면 나만 볼 수 있습니다. 게시 후에도 게시물 메뉴에서 변경할 수 있습니다.
+              </p>
+            </div>
+          )}
+
+          {/* 예약 게시 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={isScheduling}
+                  onChange={handleScheduleToggle}
+                  disabled={isUploading}
+                  className="accent-[var(--instagram-blue)]"
+                />
+                <CalendarClock className="w-4 h-4" />
+                예약 게시
+              </label>
+              {isScheduling && (
+                <Input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  min={toDateTimeLocalValue(
+                    new Date(Date.now() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000)
+                  )}
+                  max={toDateTimeLocalValue(
+                    new Date(Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000)
+                  )}
+                  disabled={isUploading}
+                  aria-label="예약 시각"
+                />
+              )}
+            </div>
+          )}
+
           {/* 에러 메시지 */}
           {error && (
             <div className="text-sm text-[var(--instagram-like)] bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-md p-3">
               {error}
+              {duplicateOriginal && (
+                <Link
+                  href={`/post/${duplicateOriginal.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-3 flex items-center gap-3 rounded-md bg-white dark:bg-[var(--card)] p-2 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-80"
+                >
+                  <div className="relative w-12 h-12 flex-shrink-0 overflow-hidden rounded">
+                    <Image
+                      src={duplicateOriginal.image_url}
+                      alt="원본 게시물"
+                      fill
+                      className="object-cover"
+                      sizes="48px"
+                      unoptimized={duplicateOriginal.image_url.includes("supabase.co/storage")}
+                    />
+                  </div>
+                  <span className="min-w-0">
+                    <span className="block font-semibold truncate">{duplicateOriginal.user.name}님의 원본 게시물</span>
+                    <span className="block text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                      게시물 보기
+                    </span>
+                  </span>
+                </Link>
+              )}
             </div>
           )}
 
-          {/* 게시 버튼 (크롭 모드가 아닐 때만 표시) */}
-          {!showCrop && (
+          {/* 게시 버튼 (편집 모드가 아닐 때만 표시) */}
+          {!editStep && (
           <div className="flex justify-end gap-2 pt-4 border-t border-[var(--instagram-border)] dark:border-[var(--border)]">
             <Button
               type="button"
               variant="outline"
               onClick={() => handleOpenChange(false)}
-              disabled={isUploading}
+              disabled={isUploading || isSavingDraft}
             >
               취소
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveDraft}
+              disabled={!canSubmit || isUploading || isSavingDraft}
+            >
+              {isSavingDraft ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  저장 중...
+                </>
+              ) : (
+                "임시저장"
+              )}
+            </Button>
             <Button
               type="button"
               onClick={handleSubmit}
-              disabled={!selectedFile || isUploading}
+              disabled={!canSubmit || isUploading || isSavingDraft}
               className="button-3d purple-gradient text-white hover:opacity-90 shadow-lg"
             >
               {isUploading ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                  게시 중...
+                  {isScheduling ? "예약 중..." : "게시 중..."}
                 </>
+              ) : isScheduling ? (
+                "예약"
               ) : (
                 "게시"
               )}
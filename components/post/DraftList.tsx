@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Film, Loader2, Trash2 } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils/format-time";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import {
+  getMediaAltText,
+  hasVideoMedia,
+  type PostAspectRatio,
+  type PostMediaItem,
+} from "@/lib/utils/post-media";
+import type { PostWorkout } from "@/lib/utils/post-workout";
+import type { PollPayload } from "@/lib/utils/post-poll";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
+import type { PostPlace } from "@/lib/utils/post-place";
+import type { PhotoTag } from "@/lib/utils/post-tags";
+import type { PostCollaborator } from "@/lib/utils/post-collaborators";
+
+/**
+ * @file DraftList.tsx
+ * @description 임시저장 목록 컴포넌트 (게시물 작성 모달에서 사용)
+ *
+ * 주요 기능:
+ * - GET /api/drafts 로 내 임시저장 목록 조회
+ * - 썸네일, 캡션 일부, 마지막 수정 시간 표시
+ * - 선택 시 작성 모달에서 이어서 작성
+ * - 임시저장 삭제
+ *
+ * @dependencies
+ * - next/image: 썸네일
+ * - lib/utils/format-time: 상대 시간 포맷팅
+ */
+
+export interface DraftMention {
+  mentioned_user_id: string;
+  display_text: string;
+  clerk_id?: string;
+  name?: string;
+}
+
+export interface Draft {
+  id: string;
+  caption: string | null;
+  mentions: DraftMention[];
+  workout: PostWorkout | null;
+  poll: PollPayload | null;
+  before_after: PostBeforeAfter | null;
+  aspect_ratio: PostAspectRatio;
+  place: PostPlace | null;
+  tags: PhotoTag[];
+  collaborators: PostCollaborator[];
+  hide_like_count: boolean;
+  comments_disabled: boolean;
+  created_at: string;
+  updated_at: string;
+  media: PostMediaItem[];
+}
+
+interface DraftListProps {
+  onSelect: (draft: Draft) => void;
+}
+
+export default function DraftList({ onSelect }: DraftListProps) {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDrafts = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch("/api/drafts");
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        setDrafts(data.drafts || []);
+      } catch (err) {
+        // 목록을 못 불러와도 새 게시물 작성은 가능하므로 조용히 처리
+        console.error("Error fetching drafts:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDrafts();
+  }, []);
+
+  const handleDelete = async (draftId: string) => {
+    if (!confirm("임시저장을 삭제하시겠습니까?")) {
+      return;
+    }
+
+    setDeletingId(draftId);
+    try {
+      const response = await fetch(`/api/drafts/${draftId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      setDrafts((prev) => prev.filter((draft) => draft.id !== draftId));
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+      alert(getUserFriendlyErrorMessage(err));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+        임시저장 ({drafts.length})
+      </p>
+      <ul className="space-y-1 max-h-56 overflow-y-auto">
+        {drafts.map((draft) => {
+          const cover = draft.media[0];
+          const thumbnailUrl = cover ? cover.poster_url || cover.url : null;
+
+          return (
+            <li
+              key={draft.id}
+              className="flex items-center gap-3 rounded-md p-2 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(draft)}
+                className="flex flex-1 min-w-0 items-center gap-3 text-left"
+              >
+                <div className="relative w-12 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-100 dark:bg-gray-800">
+                  {thumbnailUrl && (
+                    <Image
+                      src={thumbnailUrl}
+                      alt={getMediaAltText(cover, "임시저장 미리보기")}
+                      fill
+                      className="object-cover"
+                      sizes="48px"
+                      unoptimized={thumbnailUrl.includes("supabase.co/storage")}
+                    />
+                  )}
+                  {hasVideoMedia(draft.media) && (
+                    <Film className="absolute top-0.5 right-0.5 w-3.5 h-3.5 text-white drop-shadow" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                    {draft.caption || "문구 없음"}
+                  </p>
+                  <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                    {draft.media.length > 1 ? `${draft.media.length}장 · ` : ""}
+                    {formatRelativeTime(draft.updated_at)}
+                  </p>
+                </div>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(draft.id)}
+                disabled={deletingId === draft.id}
+                className="p-1.5 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:text-[var(--instagram-like)] disabled:opacity-50"
+                aria-label="임시저장 삭제"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import type { MentionItem } from "@/components/ui/MentionText";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+
+/**
+ * @file EditPostDialog.tsx
+ * @description 게시물 캡션 수정 다이얼로그
+ *
+ * 주요 기능:
+ * - 기존 캡션을 불러와 수정 (최대 2,200자)
+ * - PATCH /api/posts/[postId] 호출
+ * - 캡션에 남아있는 기존 멘션은 서버에서 유지, 사라진 멘션/해시태그는 정리
+ *
+ * @dependencies
+ * - components/ui/dialog: 모달 UI
+ * - components/ui/textarea: 텍스트 입력 필드
+ */
+
+const MAX_CAPTION_LENGTH = 2200;
+
+export interface EditedPost {
+  id: string;
+  caption: string | null;
+  edited_at: string | null;
+  mentions: MentionItem[];
+}
+
+interface EditPostDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialCaption: string | null;
+  onSaved?: (post: EditedPost) => void;
+}
+
+export default function EditPostDialog({
+  postId,
+  open,
+  onOpenChange,
+  initialCaption,
+  onSaved,
+}: EditPostDialogProps) {
+  const [caption, setCaption] = useState(initialCaption || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 열릴 때마다 현재 캡션으로 초기화
+  useEffect(() => {
+    if (open) {
+      setCaption(initialCaption || "");
+      setError(null);
+    }
+  }, [open, initialCaption]);
+
+  const handleSave = async () => {
+    if (isSaving) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/posts/${postId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ caption }),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      if (onSaved) {
+        onSaved(data.post);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      console.error("Error editing post:", err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(newOpen) => !isSaving && onOpenChange(newOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>게시물 수정</DialogTitle>
+          <DialogDescription>
+            수정 전 내용은 수정 기록에 보관됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            maxLength={MAX_CAPTION_LENGTH}
+            rows={6}
+            className="resize-none"
+            placeholder="문구를 입력하세요..."
+            disabled={isSaving}
+          />
+          <div className="text-xs text-right text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+            {caption.length}/{MAX_CAPTION_LENGTH}
+          </div>
+          {error && (
+            <div className="text-sm text-[var(--instagram-like)] bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            취소
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || caption === (initialCaption || "")}
+            className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                저장 중...
+              </>
+            ) : (
+              "완료"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import PostFeed, { type FeedMode } from "./PostFeed";
+
+/**
+ * @file HomeFeedTabs.tsx
+ * @description 홈 피드 전환 탭 (추천 / 팔로잉)
+ *
+ * 주요 기능:
+ * - 추천: 최근 게시물을 최신성, 참여도, 팔로우, 관심 해시태그로 정렬한 피드
+ * - 팔로잉: 팔로우한 계정과 내 게시물만 (로그인한 경우에만 탭 표시)
+ * - 마지막으로 선택한 탭을 localStorage에 저장
+ *
+ * @dependencies
+ * - components/post/PostFeed: 게시물 피드 컴포넌트
+ */
+
+const FEED_STORAGE_KEY = "home-feed";
+
+const TABS: Array<{ value: FeedMode; label: string }> = [
+  { value: "for_you", label: "추천" },
+  { value: "following", label: "팔로잉" },
+];
+
+export default function HomeFeedTabs() {
+  const { isLoaded, isSignedIn } = useAuth();
+  const [feed, setFeed] = useState<FeedMode>("for_you");
+  const [isFeedRestored, setIsFeedRestored] = useState(false);
+
+  // 저장된 탭 불러오기 (불러오기 전에 피드를 요청하면 두 번 요청하게 됨)
+  useEffect(() => {
+    if (localStorage.getItem(FEED_STORAGE_KEY) === "following") {
+      setFeed("following");
+    }
+    setIsFeedRestored(true);
+  }, []);
+
+  const handleSelect = (value: FeedMode) => {
+    setFeed(value);
+    localStorage.setItem(FEED_STORAGE_KEY, value);
+  };
+
+  // 로그인 상태 확인 전에는 피드를 요청하지 않음 (팔로잉 피드는 로그인 필요)
+  if (!isLoaded || !isFeedRestored) {
+    return null;
+  }
+
+  const activeFeed: FeedMode = isSignedIn ? feed : "for_you";
+
+  return (
+    <div className="space-y-4">
+      {isSignedIn && (
+        <div
+          className="flex border-b border-[var(--instagram-border)] dark:border-[var(--border)]"
+          role="tablist"
+        >
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={activeFeed === value}
+              onClick={() => handleSelect(value)}
+              className={`flex-1 -mb-px py-3 text-sm font-semibold border-b-2 ${
+                activeFeed === value
+                  ? "border-[var(--instagram-text-primary)] dark:border-[var(--foreground)] text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+                  : "border-transparent text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <PostFeed key={activeFeed} feed={activeFeed} />
+    </div>
+  );
+}
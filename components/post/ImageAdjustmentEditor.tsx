@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { createImage } from "@/lib/utils/image-crop";
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  IMAGE_FILTER_PRESETS,
+  drawAdjustedImage,
+  type AdjustmentValues,
+  type ImageAdjustments,
+  type ImageFilterId,
+} from "@/lib/utils/image-adjustments";
+
+/**
+ * @file ImageAdjustmentEditor.tsx
+ * @description 게시물 작성 모달의 이미지 보정 단계 (크롭 이후)
+ *
+ * 주요 기능:
+ * - 필터 프리셋 선택 (프리셋별 썸네일 미리보기)
+ * - 밝기/대비/채도/색온도 슬라이더 (-100 ~ 100)
+ * - Canvas 실시간 미리보기 (업로드 결과와 같은 계산 사용)
+ *
+ * @dependencies
+ * - lib/utils/image-adjustments: 보정 계산 및 프리셋
+ */
+
+interface ImageAdjustmentEditorProps {
+  imageSrc: string; // 크롭/회전까지 적용된 이미지
+  value: ImageAdjustments;
+  onChange: (value: ImageAdjustments) => void;
+}
+
+const ADJUSTMENT_CONTROLS: { key: keyof AdjustmentValues; label: string }[] = [
+  { key: "brightness", label: "밝기" },
+  { key: "contrast", label: "대비" },
+  { key: "saturation", label: "채도" },
+  { key: "warmth", label: "색온도" },
+];
+
+const PREVIEW_SIZE = 600;
+const PRESET_THUMBNAIL_SIZE = 80;
+
+/** 프리셋 썸네일 (보정 슬라이더 값은 제외하고 프리셋만 적용) */
+function PresetThumbnail({ image, filter }: { image: HTMLImageElement; filter: ImageFilterId }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawAdjustedImage(
+        canvasRef.current,
+        image,
+        { ...DEFAULT_IMAGE_ADJUSTMENTS, filter },
+        PRESET_THUMBNAIL_SIZE
+      );
+    }
+  }, [image, filter]);
+
+  return <canvas ref={canvasRef} className="w-full h-full object-cover" />;
+}
+
+export default function ImageAdjustmentEditor({ imageSrc, value, onChange }: ImageAdjustmentEditorProps) {
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+
+    createImage(imageSrc)
+      .then((loaded) => {
+        if (!cancelled) {
+          setImage(loaded);
+        }
+      })
+      .catch((err) => {
+        console.error("Error loading image for adjustments:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  // 슬라이더 조작 중 과도한 재계산을 막기 위해 프레임 단위로 미리보기 갱신
+  useEffect(() => {
+    if (!image || !previewCanvasRef.current) {
+      return;
+    }
+
+    const frame = requestAnimationFrame(() => {
+      if (previewCanvasRef.current) {
+        drawAdjustedImage(previewCanvasRef.current, image, value, PREVIEW_SIZE);
+      }
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [image, value]);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative w-full aspect-square bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden flex items-center justify-center">
+        {image ? (
+          <canvas ref={previewCanvasRef} className="max-w-full max-h-full" aria-label="보정 미리보기" />
+        ) : (
+          <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+        )}
+      </div>
+
+      {/* 필터 프리셋 */}
+      {image && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {IMAGE_FILTER_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onChange({ ...value, filter: preset.id })}
+              className="flex-shrink-0 flex flex-col items-center gap-1"
+              aria-pressed={value.filter === preset.id}
+            >
+              <span
+                className={`block w-16 h-16 rounded-md overflow-hidden border-2 ${
+                  value.filter === preset.id ? "border-[var(--instagram-blue)]" : "border-transparent"
+                }`}
+              >
+                <PresetThumbnail image={image} filter={preset.id} />
+              </span>
+              <span
+                className={`text-xs ${
+                  value.filter === preset.id
+                    ? "font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+                    : "text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+                }`}
+              >
+                {preset.label}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 보정 슬라이더 */}
+      <div className="space-y-2">
+        {ADJUSTMENT_CONTROLS.map((control) => (
+          <label key={control.key} className="grid grid-cols-[3.5rem_1fr_2.5rem] items-center gap-2 text-sm">
+            <span className="font-medium text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+              {control.label}
+            </span>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              step={1}
+              value={value[control.key]}
+              onChange={(e) => onChange({ ...value, [control.key]: Number(e.target.value) })}
+              onDoubleClick={() => onChange({ ...value, [control.key]: 0 })}
+              className="w-full"
+            />
+            <span className="text-right text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+              {value[control.key]}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_IMAGE_ADJUSTMENTS)}
+          className="text-xs font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+        >
+          보정 초기화
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, Volume2, VolumeX } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+import PostImage from "./PostImage";
+
+/**
+ * @file MediaCarousel.tsx
+ * @description 게시물 이미지/동영상 캐러셀 컴포넌트
+ *
+ * 주요 기능:
+ * - 좌우 스와이프(터치/마우스)로 이미지 전환
+ * - 좌우 화살표 버튼 (Desktop)
+ * - 현재 위치 표시 점(dots)
+ * - 이미지가 1장이면 일반 이미지처럼 표시
+ * - 동영상은 화면에 보일 때 음소거 자동 재생 (compact 모드에서는 포스터만 표시)
+ * - 작성자가 입력한 대체 텍스트 우선 사용 (없으면 alt prop 기본 문구)
+ * - sizes에 맞는 리사이즈 이미지 요청, 로딩 중 저화질 미리보기 표시 (PostImage)
+ *
+ * 스와이프 직후의 클릭은 무시하여 부모의 클릭 동작(모달 열기, 링크 이동)이
+ * 실행되지 않도록 합니다.
+ *
+ * @dependencies
+ * - components/post/PostImage: 리사이즈 이미지 및 미리보기
+ * - lib/utils/post-media: 미디어 타입
+ */
+
+const SWIPE_THRESHOLD = 40; // px
+const VIDEO_VISIBLE_THRESHOLD = 0.6; // 60% 이상 보일 때 재생
+
+interface MediaCarouselProps {
+  media: PostMediaItem[];
+  alt: string;
+  sizes: string;
+  /** object-cover(피드/그리드) 또는 object-contain(상세) */
+  fit?: "cover" | "contain";
+  /** 그리드 썸네일처럼 작은 영역에서 사용 (화살표 숨김, 작은 점) */
+  compact?: boolean;
+  className?: string;
+  onIndexChange?: (index: number) => void;
+}
+
+interface VideoSlideProps {
+  item: PostMediaItem;
+  alt: string;
+  fit: "cover" | "contain";
+  active: boolean;
+}
+
+/**
+ * 동영상 슬라이드
+ * 현재 슬라이드이면서 화면에 충분히 보일 때만 음소거 상태로 재생
+ */
+function VideoSlide({ item, alt, fit, active }: VideoSlideProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isInView, setIsInView] = useState(false);
+  const [isMuted, setIsMuted] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setIsInView(entries[0].isIntersecting);
+      },
+      { threshold: VIDEO_VISIBLE_THRESHOLD }
+    );
+
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (active && isInView) {
+      // 자동 재생이 차단되어도 포스터가 보이므로 무시
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [active, isInView]);
+
+  const handleToggleMute = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsMuted((prev) => !prev);
+  };
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        src={item.url}
+        poster={item.poster_url || undefined}
+        aria-label={alt}
+        className={cn("absolute inset-0 w-full h-full", fit === "cover" ? "object-cover" : "object-contain")}
+        muted={isMuted}
+        loop
+        playsInline
+        preload="metadata"
+        onError={() => {
+          console.error("[MediaCarousel] Video load error:", item.url);
+        }}
+      />
+      <button
+        type="button"
+        onClick={handleToggleMute}
+        className="absolute bottom-3 right-3 w-7 h-7 flex items-center justify-center rounded-full bg-black/60 text-white z-10"
+        aria-label={isMuted ? "소리 켜기" : "소리 끄기"}
+      >
+        {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+      </button>
+    </>
+  );
+}
+
+export default function MediaCarousel({
+  media,
+  alt,
+  sizes,
+  fit = "cover",
+  compact = false,
+  className,
+  onIndexChange,
+}: MediaCarouselProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const pointerStartXRef = useRef<number | null>(null);
+  const didSwipeRef = useRef(false);
+
+  const total = media.length;
+  const hasMultiple = total > 1;
+
+  const goTo = (index: number) => {
+    const nextIndex = Math.max(0, Math.min(total - 1, index));
+    setCurrentIndex(nextIndex);
+    if (onIndexChange) {
+      onIndexChange(nextIndex);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!hasMultiple) return;
+    pointerStartXRef.current = e.clientX;
+    didSwipeRef.current = false;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (pointerStartXRef.current === null) return;
+    const deltaX = e.clientX - pointerStartXRef.current;
+    pointerStartXRef.current = null;
+
+    if (Math.abs(deltaX) < SWIPE_THRESHOLD) {
+      return;
+    }
+
+    didSwipeRef.current = true;
+    goTo(deltaX < 0 ? currentIndex + 1 : currentIndex - 1);
+  };
+
+  // 스와이프로 끝난 경우 클릭 이벤트 전파 차단
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (didSwipeRef.current) {
+      e.preventDefault();
+      e.stopPropagation();
+      didSwipeRef.current = false;
+    }
+  };
+
+  const handleArrowClick = (e: React.MouseEvent, direction: -1 | 1) => {
+    e.preventDefault();
+    e.stopPropagation();
+    goTo(currentIndex + direction);
+  };
+
+  if (total === 0) {
+    return <div className={cn("relative w-full h-full", className)} />;
+  }
+
+  return (
+    <div
+      className={cn("relative w-full h-full overflow-hidden touch-pan-y", className)}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        pointerStartXRef.current = null;
+      }}
+      onClickCapture={handleClickCapture}
+    >
+      {/* 슬라이드 트랙 */}
+      <div
+        className="flex w-full h-full transition-transform duration-300 ease-out"
+        style={{ transform: `translateX(-${currentIndex * 100}%)` }}
+      >
+        {media.map((item, index) => (
+          <div key={item.id} className="relative w-full h-full flex-shrink-0">
+            {item.media_type === "video" && !compact ? (
+              <VideoSlide
+                item={item}
+                alt={getMediaAltText(item, hasMultiple ? `${alt} (${index + 1}/${total})` : alt)}
+                fit={fit}
+                active={index === currentIndex}
+              />
+            ) : (
+              <PostImage
+                src={item.media_type === "video" ? item.poster_url || item.url : item.url}
+                variants={item.variants}
+                placeholder={item.placeholder}
+                alt={getMediaAltText(item, hasMultiple ? `${alt} (${index + 1}/${total})` : alt)}
+                fill
+                className={fit === "cover" ? "object-cover" : "object-contain"}
+                sizes={sizes}
+                draggable={false}
+                onError={() => {
+                  console.error("[MediaCarousel] Image load error:", item.url);
+                }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {hasMultiple && (
+        <>
+          {/* 좌우 화살표 (compact 모드에서는 숨김) */}
+          {!compact && currentIndex > 0 && (
+            <button
+              type="button"
+              onClick={(e) => handleArrowClick(e, -1)}
+              className="hidden md:flex absolute left-2 top-1/2 -translate-y-1/2 w-7 h-7 items-center justify-center rounded-full bg-white/80 hover:bg-white text-black shadow z-10"
+              aria-label="이전 이미지"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+          )}
+          {!compact && currentIndex < total - 1 && (
+            <button
+              type="button"
+              onClick={(e) => handleArrowClick(e, 1)}
+              className="hidden md:flex absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 items-center justify-center rounded-full bg-white/80 hover:bg-white text-black shadow z-10"
+              aria-label="다음 이미지"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          )}
+
+          {/* 위치 표시 점 */}
+          <div
+            className={cn(
+              "absolute left-1/2 -translate-x-1/2 flex items-center z-10 pointer-events-none",
+              compact ? "bottom-1.5 gap-0.5" : "bottom-3 gap-1"
+            )}
+            aria-label={`${total}장 중 ${currentIndex + 1}번째 이미지`}
+          >
+            {media.map((item, index) => (
+              <span
+                key={item.id}
+                className={cn(
+                  "rounded-full transition-colors",
+                  compact ? "w-1 h-1" : "w-1.5 h-1.5",
+                  index === currentIndex ? "bg-white" : "bg-white/50"
+                )}
+              />
+            ))}
+          </div>
+
+          {/* 현재 위치 (n/total) */}
+          {!compact && (
+            <span className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs z-10 pointer-events-none">
+              {currentIndex + 1}/{total}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, UserPlus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MAX_TAGS_PER_MEDIA, type PhotoTagPoint } from "@/lib/utils/post-tags";
+import PhotoTagOverlay from "./PhotoTagOverlay";
+
+/**
+ * @file PhotoTagEditor.tsx
+ * @description 게시물 작성 모달의 사진 속 사람 태그 편집 레이어
+ *
+ * 주요 기능:
+ * - 이미지의 원하는 위치를 탭하면 사용자 검색 창 표시
+ * - 검색 결과에서 사용자를 선택하면 해당 위치(x/y 비율)에 태그 추가
+ * - 이미 태그한 사용자를 다시 선택하면 위치만 이동
+ * - 태그 라벨의 X 버튼으로 삭제
+ *
+ * 편집(크롭)이 끝난 이미지 미리보기 위에 배치합니다.
+ *
+ * @dependencies
+ * - components/post/PhotoTagOverlay: 태그 라벨 표시
+ * - lib/utils/post-tags: 태그 타입 및 제한값
+ */
+
+interface PhotoTagEditorProps {
+  tags: PhotoTagPoint[];
+  onChange: (tags: PhotoTagPoint[]) => void;
+  disabled?: boolean;
+}
+
+interface UserSuggestion {
+  id: string;
+  clerk_id: string;
+  name: string;
+}
+
+export default function PhotoTagEditor({ tags, onChange, disabled = false }: PhotoTagEditorProps) {
+  const [pendingPoint, setPendingPoint] = useState<{ x: number; y: number } | null>(null);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([]);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const fetchSuggestions = async () => {
+      try {
+        const response = await fetch(`/api/users/search?q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          return;
+        }
+
+        const data = await response.json();
+        setSuggestions(data.users || []);
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Error fetching tag suggestions:", error);
+        }
+      }
+    };
+
+    const timeout = setTimeout(fetchSuggestions, 200);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery]);
+
+  const closeSearch = () => {
+    setPendingPoint(null);
+    setQuery("");
+    setSuggestions([]);
+  };
+
+  // 이미지 탭 위치를 0~1 비율로 변환
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled) {
+      return;
+    }
+    if (pendingPoint) {
+      closeSearch();
+      return;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    const y = Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1);
+    setPendingPoint({ x, y });
+  };
+
+  const handleSelectUser = (user: UserSuggestion) => {
+    if (!pendingPoint) {
+      return;
+    }
+
+    onChange([
+      ...tags.filter((tag) => tag.user.id !== user.id),
+      { x: pendingPoint.x, y: pendingPoint.y, user },
+    ]);
+    closeSearch();
+  };
+
+  const isFull = tags.length >= MAX_TAGS_PER_MEDIA;
+
+  return (
+    <div className="absolute inset-0 cursor-crosshair" onClick={handleImageClick}>
+      <PhotoTagOverlay
+        tags={tags}
+        onRemove={(userId) => onChange(tags.filter((tag) => tag.user.id !== userId))}
+      />
+
+      {tags.length === 0 && !pendingPoint && (
+        <div className="absolute bottom-2 left-2 flex items-center gap-1 rounded-full bg-black/60 px-2.5 py-1 text-xs text-white pointer-events-none">
+          <UserPlus className="w-3.5 h-3.5" />
+          사진을 탭해서 사람 태그하기
+        </div>
+      )}
+
+      {pendingPoint && (
+        <>
+          <span
+            className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-[var(--instagram-blue)] pointer-events-none"
+            style={{ left: `${pendingPoint.x * 100}%`, top: `${pendingPoint.y * 100}%` }}
+          />
+          <div
+            className="absolute inset-x-3 bottom-3 rounded-lg bg-[var(--instagram-card-background)] dark:bg-[var(--card)] shadow-lg p-2 space-y-1 cursor-default"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {isFull ? (
+              <p className="px-1 py-2 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                이미지 한 장에 최대 {MAX_TAGS_PER_MEDIA}명까지 태그할 수 있습니다.
+              </p>
+            ) : (
+              <>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--instagram-text-secondary)]" />
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Escape") {
+                        e.stopPropagation();
+                        closeSearch();
+                      }
+                    }}
+                    placeholder="사용자 검색"
+                    className="pl-9"
+                    autoFocus
+                  />
+                </div>
+                <div className="max-h-40 overflow-y-auto">
+                  {suggestions.map((user) => (
+                    <button
+                      key={user.id}
+                      type="button"
+                      onClick={() => handleSelectUser(user)}
+                      className="w-full text-left px-3 py-2 rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-800 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+                    >
+                      {user.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={closeSearch}
+                className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:opacity-70"
+              >
+                취소
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { X } from "lucide-react";
+import type { PhotoTagPoint } from "@/lib/utils/post-tags";
+
+/**
+ * @file PhotoTagOverlay.tsx
+ * @description 사진 속 사람 태그 라벨 오버레이
+ *
+ * 주요 기능:
+ * - 태그 위치(x/y 비율)에 사용자 이름 라벨 표시
+ * - 보기 모드: 라벨 클릭 시 태그된 사용자 프로필로 이동
+ * - 편집 모드(onRemove 지정): 라벨의 X 버튼으로 태그 삭제
+ *
+ * 이미지와 같은 크기의 relative 컨테이너 안에 배치합니다.
+ * 라벨 클릭은 부모로 전파하지 않습니다. (모달 열기, 새 태그 추가 방지)
+ */
+
+interface PhotoTagOverlayProps {
+  tags: PhotoTagPoint[];
+  onRemove?: (userId: string) => void;
+}
+
+export default function PhotoTagOverlay({ tags, onRemove }: PhotoTagOverlayProps) {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {tags.map((tag) => (
+        <div
+          key={tag.user.id}
+          className="absolute -translate-x-1/2 pt-1.5 pointer-events-auto"
+          style={{ left: `${tag.x * 100}%`, top: `${tag.y * 100}%` }}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          {/* 라벨 말풍선 꼬리 */}
+          <span className="absolute top-0 left-1/2 -translate-x-1/2 border-x-[6px] border-b-[6px] border-x-transparent border-b-black/75" />
+          <div className="flex items-center gap-1 rounded bg-black/75 px-2 py-1 text-xs font-semibold text-white whitespace-nowrap">
+            {onRemove ? (
+              <>
+                <span>{tag.user.name}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(tag.user.id)}
+                  className="hover:opacity-70"
+                  aria-label={`${tag.user.name} 태그 삭제`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </>
+            ) : (
+              <Link href={`/profile/${tag.user.clerk_id}`} className="hover:opacity-80">
+                {tag.user.name}
+              </Link>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, MapPin, Plus, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import {
+  MAX_PLACE_ADDRESS_LENGTH,
+  MAX_PLACE_NAME_LENGTH,
+  type PostPlace,
+} from "@/lib/utils/post-place";
+
+/**
+ * @file PlacePicker.tsx
+ * @description 게시물 작성 모달의 장소 태그 선택 컴포넌트
+ *
+ * 주요 기능:
+ * - GET /api/places 로 장소 검색 (입력 후 250ms 디바운스)
+ * - 검색 결과에 없으면 새 장소 추가 (이름 + 주소, 좌표는 현재 위치)
+ * - 선택한 장소 표시 및 해제
+ *
+ * @dependencies
+ * - components/ui/input: 검색/주소 입력 필드
+ * - lib/utils/post-place: 장소 타입 및 제한값
+ */
+
+interface PlacePickerProps {
+  value: PostPlace | null;
+  onChange: (place: PostPlace | null) => void;
+  disabled?: boolean;
+}
+
+/** 브라우저 현재 위치 (권한 거부/미지원 시 에러) */
+function getCurrentPosition(): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("이 브라우저에서는 위치 정보를 사용할 수 없습니다."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => {
+      reject(new Error("현재 위치를 가져올 수 없습니다. 위치 권한을 확인해주세요."));
+    }, { enableHighAccuracy: true, timeout: 10000 });
+  });
+}
+
+export default function PlacePicker({ value, onChange, disabled = false }: PlacePickerProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PostPlace[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [address, setAddress] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery || value) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const searchPlaces = async () => {
+      try {
+        setIsSearching(true);
+        const response = await fetch(`/api/places?q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(await extractErrorMessage(response));
+        }
+        const data = await response.json();
+        setResults(data.places || []);
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") {
+          console.error("Error searching places:", err);
+          setError(getUserFriendlyErrorMessage(err));
+        }
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    const debounceTimeout = setTimeout(searchPlaces, 250);
+    return () => {
+      controller.abort();
+      clearTimeout(debounceTimeout);
+    };
+  }, [trimmedQuery, value]);
+
+  const handleSelect = (place: PostPlace) => {
+    onChange(place);
+    setQuery("");
+    setResults([]);
+    setIsAdding(false);
+    setAddress("");
+    setError(null);
+  };
+
+  // 새 장소 추가 (좌표는 현재 위치 사용)
+  const handleCreate = async () => {
+    if (!trimmedQuery) {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const position = await getCurrentPosition();
+      const response = await fetch("/api/places", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: trimmedQuery,
+          address: address.trim(),
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await extractErrorMessage(response));
+      }
+
+      const data = await response.json();
+      handleSelect(data.place);
+    } catch (err) {
+      console.error("Error creating place:", err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] px-3 py-2">
+        <MapPin className="w-4 h-4 flex-shrink-0 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+            {value.name}
+          </p>
+          {value.address && (
+            <p className="text-xs truncate text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+              {value.address}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:opacity-70"
+          aria-label="장소 태그 해제"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--instagram-text-secondary)]" />
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsAdding(false);
+            setError(null);
+          }}
+          placeholder="장소 검색 (헬스장, 러닝 코스 등)"
+          maxLength={MAX_PLACE_NAME_LENGTH}
+          disabled={disabled}
+          className="pl-9"
+        />
+        {isSearching && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-[var(--instagram-text-secondary)]" />
+        )}
+      </div>
+
+      {trimmedQuery && !isSearching && (
+        <div className="rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] divide-y divide-[var(--instagram-border)] dark:divide-[var(--border)]">
+          {results.map((place) => (
+            <button
+              key={place.id}
+              type="button"
+              onClick={() => handleSelect(place)}
+              disabled={disabled}
+              className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              <p className="text-sm font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                {place.name}
+              </p>
+              {place.address && (
+                <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  {place.address}
+                </p>
+              )}
+            </button>
+          ))}
+
+          {isAdding ? (
+            <div className="px-3 py-2 space-y-2">
+              <Input
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="주소 (선택)"
+                maxLength={MAX_PLACE_ADDRESS_LENGTH}
+                disabled={disabled || isCreating}
+              />
+              <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                장소 위치는 현재 위치로 저장됩니다.
+              </p>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setIsAdding(false)}
+                  disabled={isCreating}
+                  className="text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:opacity-70"
+                >
+                  취소
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={disabled || isCreating}
+                  className="flex items-center gap-1 text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+                >
+                  {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+                  현재 위치로 추가
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsAdding(true)}
+              disabled={disabled}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm font-semibold text-[var(--instagram-blue)] hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              <Plus className="w-4 h-4" />
+              &apos;{trimmedQuery}&apos; 새 장소로 추가
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-[var(--instagram-like)]">{error}</p>}
+    </div>
+  );
+}
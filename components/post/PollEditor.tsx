@@ -0,0 +1,143 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  POLL_DURATION_PRESETS,
+  type PollPayload,
+} from "@/lib/utils/post-poll";
+
+/**
+ * @file PollEditor.tsx
+ * @description 게시물 작성 모달의 투표 입력 컴포넌트
+ *
+ * 주요 기능:
+ * - 선택지 입력 및 추가/삭제 (2~4개)
+ * - 투표 기간 선택 (1시간 ~ 7일, 게시 시각부터 진행)
+ * - 입력 상태를 API 요청 형식으로 변환
+ *
+ * @dependencies
+ * - components/ui/input: 선택지 입력 필드
+ * - lib/utils/post-poll: 투표 제한값
+ */
+
+export interface PollForm {
+  options: string[];
+  duration_hours: number;
+}
+
+interface PollEditorProps {
+  value: PollForm;
+  onChange: (value: PollForm) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_POLL_DURATION_HOURS = 24;
+
+export function createEmptyPollForm(): PollForm {
+  return {
+    options: Array.from({ length: MIN_POLL_OPTIONS }, () => ""),
+    duration_hours: DEFAULT_POLL_DURATION_HOURS,
+  };
+}
+
+/**
+ * 저장된 투표를 입력 상태로 변환 (임시저장 이어서 작성)
+ */
+export function pollToForm(poll: PollPayload): PollForm {
+  return { options: [...poll.options], duration_hours: poll.duration_hours };
+}
+
+/**
+ * 입력 상태를 API 요청 형식으로 변환 (검증은 서버에서 수행)
+ */
+export function pollFormToPayload(form: PollForm): PollPayload {
+  return {
+    options: form.options.map((option) => option.trim()),
+    duration_hours: form.duration_hours,
+  };
+}
+
+/**
+ * 투표 기간 표시 (예: 24 → "1일")
+ */
+function formatDurationLabel(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24}일` : `${hours}시간`;
+}
+
+export default function PollEditor({ value, onChange, disabled = false }: PollEditorProps) {
+  const updateOption = (index: number, text: string) => {
+    onChange({
+      ...value,
+      options: value.options.map((option, optionIndex) => (optionIndex === index ? text : option)),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={option}
+            onChange={(e) => updateOption(index, e.target.value)}
+            placeholder={`선택지 ${index + 1}`}
+            maxLength={MAX_POLL_OPTION_LENGTH}
+            disabled={disabled}
+            className="h-8 px-2 text-sm"
+            aria-label={`투표 선택지 ${index + 1}`}
+          />
+          {value.options.length > MIN_POLL_OPTIONS && (
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  options: value.options.filter((_, optionIndex) => optionIndex !== index),
+                })
+              }
+              disabled={disabled}
+              className="p-1 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:text-[var(--instagram-like)]"
+              aria-label="선택지 삭제"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        {value.options.length < MAX_POLL_OPTIONS ? (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, options: [...value.options, ""] })}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            선택지 추가
+          </button>
+        ) : (
+          <span />
+        )}
+        <label className="flex items-center gap-2 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          투표 기간
+          <select
+            value={value.duration_hours}
+            onChange={(e) => onChange({ ...value, duration_hours: Number(e.target.value) })}
+            disabled={disabled}
+            className="h-8 rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] bg-transparent px-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+          >
+            {POLL_DURATION_PRESETS.map((hours) => (
+              <option key={hours} value={hours}>
+                {formatDurationLabel(hours)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
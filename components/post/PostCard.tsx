@@ -2,7 +2,7 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { Heart, MessageCircle, Send, Bookmark, MoreHorizontal, Trash2 } from "lucide-react";
+import { Heart, MessageCircle, MessageCircleOff, Send, Bookmark, MoreHorizontal, Trash2, Pencil, History, UserRound, Archive, Eye, EyeOff, Pin, PinOff } from "lucide-react";
 import { formatRelativeTime } from "@/lib/utils/format-time";
 import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@clerk/nextjs";
@@ -12,6 +12,8 @@ import CommentForm from "@/components/comment/CommentForm";
 import PostModal from "./PostModal";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
 import ShareDialog from "./ShareDialog";
+import EditPostDialog from "./EditPostDialog";
+import PostEditHistoryDialog from "./PostEditHistoryDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -28,16 +30,32 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import MentionText, { MentionItem } from "@/components/ui/MentionText";
+import MediaCarousel from "./MediaCarousel";
+import BeforeAfterSlider from "./BeforeAfterSlider";
+import WorkoutTable from "./WorkoutTable";
+import PostPoll from "./PostPoll";
+import PhotoTagOverlay from "./PhotoTagOverlay";
+import { getAspectRatioValue, type PostMediaItem } from "@/lib/utils/post-media";
+import type { PostWorkout } from "@/lib/utils/post-workout";
+import type { PostPoll as PostPollData } from "@/lib/utils/post-poll";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
+import type { PostPlace } from "@/lib/utils/post-place";
+import type { PhotoTag } from "@/lib/utils/post-tags";
+import type { PostCollaborator } from "@/lib/utils/post-collaborators";
 
 /**
  * @file PostCard.tsx
  * @description Instagram 스타일의 게시물 카드 컴포넌트
  *
  * 주요 기능:
- * - 헤더: 프로필 이미지, 사용자명, 시간, 메뉴
- * - 이미지 영역: 1:1 정사각형
+ * - 헤더: 프로필 이미지, 사용자명(공동 작성자가 있으면 함께 표시), 장소 태그(장소 페이지 링크), 시간("수정됨" 표시), 메뉴
+ * - 본인 게시물: 캡션 수정, 수정 기록 보기, 프로필 고정(최대 3개), 좋아요 수 숨기기, 댓글 기능 해제, 보관(보관함에서 복원 가능), 삭제
+ * - 이미지 영역: 게시물 화면 비율(1:1, 4:5, 1.91:1), 여러 장이면 스와이프 캐러셀
+ * - 전/후 비교 게시물: 드래그 비교 슬라이더 (날짜/체중 라벨)
+ * - 사진 속 사람 태그: 태그가 있는 이미지는 탭하면 태그 라벨 표시/숨김 (없으면 상세 모달 열기)
  * - 액션 버튼: 좋아요, 댓글, 공유, 북마크
- * - 컨텐츠: 좋아요 수, 캡션, 댓글 미리보기
+ * - 컨텐츠: 좋아요 수(숨긴 게시물은 작성자에게만 표시), 캡션, 운동 기록(접기/펼치기), 투표, 댓글 미리보기
+ * - 댓글 기능이 해제된 게시물은 댓글 작성 폼 대신 안내 문구 표시
  *
  * @dependencies
  * - next/image: 이미지 최적화
@@ -69,9 +87,21 @@ interface Post {
   id: string;
   user_id: string;
   image_url: string;
+  media?: PostMediaItem[];
   caption: string | null;
   created_at: string;
-  likes_count: number;
+  edited_at?: string | null;
+  aspect_ratio?: string;
+  workout?: PostWorkout | null;
+  poll?: PostPollData | null;
+  before_after?: PostBeforeAfter | null;
+  place?: PostPlace | null;
+  tags?: PhotoTag[];
+  collaborators?: PostCollaborator[];
+  hide_like_count?: boolean;
+  comments_disabled?: boolean;
+  is_pinned?: boolean;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 작성자가 아니면 null
   comments_count: number;
   user: PostUser;
   comments: Comment[];
@@ -83,14 +113,15 @@ interface Post {
 interface PostCardProps {
   post: Post;
   onDelete?: (postId: string) => void; // 삭제 후 콜백
+  onArchive?: (postId: string) => void; // 보관 후 콜백
 }
 
-export default function PostCard({ post, onDelete }: PostCardProps) {
+export default function PostCard({ post, onDelete, onArchive }: PostCardProps) {
   const { isSignedIn, userId } = useAuth();
   const supabase = useClerkSupabaseClient();
   const [showFullCaption, setShowFullCaption] = useState(false);
   const [isLiked, setIsLiked] = useState(post.isLiked || post.isLiked === undefined);
-  const [likesCount, setLikesCount] = useState(post.likes_count);
+  const [likesCount, setLikesCount] = useState(post.likes_count ?? 0);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showDoubleTapHeart, setShowDoubleTapHeart] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
@@ -99,12 +130,28 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [hideLikeCount, setHideLikeCount] = useState(post.hide_like_count ?? false);
+  const [commentsDisabled, setCommentsDisabled] = useState(post.comments_disabled ?? false);
+  const [isUpdatingSettings, setIsUpdatingSettings] = useState(false);
+  const [isPinned, setIsPinned] = useState(post.is_pinned ?? false);
+  const [isPinning, setIsPinning] = useState(false);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [caption, setCaption] = useState(post.caption);
+  const [captionMentionItems, setCaptionMentionItems] = useState<MentionItem[]>(post.mentions || []);
+  const [editedAt, setEditedAt] = useState<string | null>(post.edited_at || null);
   const lastTapRef = useRef<number>(0);
   const imageRef = useRef<HTMLDivElement>(null);
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [isBookmarking, setIsBookmarking] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(post.isBookmarked ?? false);
+  const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
+  const [showTags, setShowTags] = useState(false);
+
+  // 현재 보고 있는 이미지의 사람 태그
+  const currentTags = (post.tags || []).filter((tag) => tag.media_position === currentMediaIndex);
 
   // 초기 좋아요 상태 확인
   useEffect(() => {
@@ -268,12 +315,112 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
       const now = Date.now();
       const timeSinceLastTap = now - lastTapRef.current;
       // 더블탭이 아닌 경우에만 모달 열기 (300ms 이상 지난 경우)
+      // 사람 태그가 있는 이미지는 모달 대신 태그 표시/숨김
       if (timeSinceLastTap > 300 || lastTapRef.current === 0) {
-        setIsModalOpen(true);
+        if (currentTags.length > 0) {
+          setShowTags((prev) => !prev);
+        } else {
+          setIsModalOpen(true);
+        }
       }
     }, 300);
   };
 
+  // 게시물 보관 핸들러 (피드/프로필에서 숨김, 보관함에서 복원 가능)
+  const handleArchive = async () => {
+    if (!isOwnPost || isArchiving) {
+      return;
+    }
+
+    setIsArchiving(true);
+
+    try {
+      const response = await fetch(`/api/posts/${post.id}/archive`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      // 콜백 호출 (피드에서 게시물 제거)
+      if (onArchive) {
+        onArchive(post.id);
+      } else {
+        window.location.reload();
+      }
+    } catch (error) {
+      console.error("Error archiving post:", error);
+      const errorMessage = getUserFriendlyErrorMessage(error);
+      alert(errorMessage);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // 프로필 고정/고정 해제 핸들러
+  const handlePinToggle = async () => {
+    if (!isOwnPost || isPinning) {
+      return;
+    }
+
+    setIsPinning(true);
+
+    try {
+      const response = await fetch(`/api/posts/${post.id}/pin`, {
+        method: isPinned ? "DELETE" : "POST",
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      setIsPinned(!isPinned);
+    } catch (error) {
+      console.error("Error toggling pin:", error);
+      const errorMessage = getUserFriendlyErrorMessage(error);
+      alert(errorMessage);
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  // 게시물 공개 설정 변경 핸들러 (좋아요 수 숨기기, 댓글 기능 해제)
+  const handleSettingsChange = async (settings: { hide_like_count?: boolean; comments_disabled?: boolean }) => {
+    if (!isOwnPost || isUpdatingSettings) {
+      return;
+    }
+
+    setIsUpdatingSettings(true);
+
+    try {
+      const response = await fetch(`/api/posts/${post.id}/settings`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      setHideLikeCount(data.post.hide_like_count);
+      setCommentsDisabled(data.post.comments_disabled);
+    } catch (error) {
+      console.error("Error updating post settings:", error);
+      const errorMessage = getUserFriendlyErrorMessage(error);
+      alert(errorMessage);
+    } finally {
+      setIsUpdatingSettings(false);
+    }
+  };
+
   // 게시물 삭제 핸들러
   const handleDelete = async () => {
     if (!isOwnPost || isDeleting) {
@@ -397,17 +544,23 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
   };
 
   // 캡션이 2줄을 초과하는지 확인 (대략적인 계산)
-  const captionLines = post.caption ? Math.ceil(post.caption.length / 50) : 0;
+  const captionLines = caption ? Math.ceil(caption.length / 50) : 0;
   const shouldTruncate = captionLines > 2;
 
   const isCaptionTruncated = shouldTruncate && !showFullCaption;
   const displayCaption = isCaptionTruncated
-    ? post.caption?.substring(0, 100) + "..."
-    : post.caption;
-  const captionMentions = (post.mentions || []).filter((mention) =>
+    ? caption?.substring(0, 100) + "..."
+    : caption;
+  const captionMentions = captionMentionItems.filter((mention) =>
     displayCaption?.toLowerCase().includes(`@${mention.display_text.toLowerCase()}`)
   );
 
+  // 캐러셀 이미지 목록 (media가 없는 응답은 대표 이미지 하나로 표시)
+  const postMedia: PostMediaItem[] =
+    post.media && post.media.length > 0
+      ? post.media
+      : [{ id: `${post.id}-cover`, url: post.image_url, position: 0 }];
+
   // 프로필 이미지 URL (Clerk 또는 기본 아바타)
   const profileImageUrl = post.user.image_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${post.user.clerk_id}`;
   const isSvg = profileImageUrl.includes("dicebear") || profileImageUrl.endsWith(".svg");
@@ -421,13 +574,13 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
             {isSvg ? (
               <img
                 src={profileImageUrl}
-                alt={post.user.name}
+                alt={`${post.user.name}님의 프로필 사진`}
                 className="w-8 h-8 rounded-full object-cover"
               />
             ) : (
               <Image
                 src={profileImageUrl}
-                alt={post.user.name}
+                alt={`${post.user.name}님의 프로필 사진`}
                 width={32}
                 height={32}
                 className="rounded-full object-cover"
@@ -435,15 +588,51 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
               />
             )}
           </Link>
-          <div className="flex flex-col">
-            <Link
-              href={`/profile/${post.user.clerk_id || post.user.id}`}
-              className="font-semibold text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-70"
-            >
-              {post.user.name}
-            </Link>
+          <div className="flex flex-col min-w-0">
+            <p className="text-sm truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+              <Link
+                href={`/profile/${post.user.clerk_id || post.user.id}`}
+                className="font-semibold hover:opacity-70"
+              >
+                {post.user.name}
+              </Link>
+              {/* 공동 작성자 (수락한 사용자) */}
+              {(post.collaborators || []).map((collaborator) => (
+                <span key={collaborator.id}>
+                  {" 및 "}
+                  <Link
+                    href={`/profile/${collaborator.clerk_id}`}
+                    className="font-semibold hover:opacity-70"
+                  >
+                    {collaborator.name}
+                  </Link>
+                </span>
+              ))}
+            </p>
+            {post.place && (
+              <Link
+                href={`/place/${post.place.id}`}
+                className="text-xs leading-tight truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-70"
+              >
+                {post.place.name}
+              </Link>
+            )}
             <span className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
               {formatRelativeTime(post.created_at)}
+              {editedAt && (
+                isOwnPost ? (
+                  <button
+                    type="button"
+                    onClick={() => setIsHistoryDialogOpen(true)}
+                    className="hover:underline"
+                    title="수정 기록 보기"
+                  >
+                    {" · "}수정됨
+                  </button>
+                ) : (
+                  <span title={`${formatRelativeTime(editedAt)} 수정됨`}>{" · "}수정됨</span>
+                )
+              )}
             </span>
           </div>
         </div>
@@ -458,6 +647,58 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
         </button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={() => setIsEditDialogOpen(true)}
+                className="cursor-pointer"
+              >
+                <Pencil className="w-4 h-4" />
+                수정
+              </DropdownMenuItem>
+              {editedAt && (
+                <DropdownMenuItem
+                  onClick={() => setIsHistoryDialogOpen(true)}
+                  className="cursor-pointer"
+                >
+                  <History className="w-4 h-4" />
+                  수정 기록
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={handlePinToggle}
+                disabled={isPinning}
+                className="cursor-pointer"
+              >
+                {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                {isPinned ? "고정 해제" : "프로필에 고정"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleSettingsChange({ hide_like_count: !hideLikeCount })}
+                disabled={isUpdatingSettings}
+                className="cursor-pointer"
+              >
+                {hideLikeCount ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                {hideLikeCount ? "좋아요 수 표시" : "좋아요 수 숨기기"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleSettingsChange({ comments_disabled: !commentsDisabled })}
+                disabled={isUpdatingSettings}
+                className="cursor-pointer"
+              >
+                {commentsDisabled ? (
+                  <MessageCircle className="w-4 h-4" />
+                ) : (
+                  <MessageCircleOff className="w-4 h-4" />
+                )}
+                {commentsDisabled ? "댓글 기능 설정" : "댓글 기능 해제"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={handleArchive}
+                disabled={isArchiving}
+                className="cursor-pointer"
+              >
+                <Archive className="w-4 h-4" />
+                보관
+              </DropdownMenuItem>
               <DropdownMenuItem
                 variant="destructive"
                 onClick={() => setIsDeleteDialogOpen(true)}
@@ -482,23 +723,41 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
       {/* 이미지 영역 */}
       <div
         ref={imageRef}
-        className="relative w-full aspect-square bg-gray-100 cursor-pointer select-none image-3d"
+        className="relative w-full bg-gray-100 cursor-pointer select-none image-3d"
+        style={{ aspectRatio: getAspectRatioValue(post.aspect_ratio) }}
         onDoubleClick={handleDoubleTap}
         onClick={handleImageClick}
       >
-        <Image
-          src={post.image_url}
-          alt={post.caption || "게시물 이미지"}
-          fill
-          className="object-cover"
-          sizes="(max-width: 768px) 100vw, 630px"
-          draggable={false}
-          onError={(e) => {
-            console.error("[PostCard] Image load error:", post.image_url);
-            // 이미지 로드 실패 시 기본 이미지로 대체하거나 에러 처리
-          }}
-          unoptimized={post.image_url.includes("supabase.co/storage")}
-        />
+        {post.before_after && postMedia.length === 2 ? (
+          <BeforeAfterSlider
+            media={postMedia}
+            labels={post.before_after}
+            alt={caption || "게시물 이미지"}
+            sizes="(max-width: 768px) 100vw, 630px"
+          />
+        ) : (
+          <MediaCarousel
+            media={postMedia}
+            alt={caption || "게시물 이미지"}
+            sizes="(max-width: 768px) 100vw, 630px"
+            onIndexChange={(index) => {
+              setCurrentMediaIndex(index);
+              setShowTags(false);
+            }}
+          />
+        )}
+        {/* 사진 속 사람 태그 */}
+        {currentTags.length > 0 && (
+          <>
+            {showTags && <PhotoTagOverlay tags={currentTags} />}
+            <span
+              className="absolute bottom-3 left-3 rounded-full bg-black/60 p-1.5 text-white pointer-events-none"
+              aria-label="사람 태그 있음"
+            >
+              <UserRound className="w-3.5 h-3.5" />
+            </span>
+          </>
+        )}
         {/* 더블탭 하트 애니메이션 */}
         {showDoubleTapHeart && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
@@ -584,19 +843,19 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
 
       {/* 컨텐츠 */}
       <div className="px-4 pb-4 space-y-2">
-        {/* 좋아요 수 */}
-        {likesCount > 0 && (
+        {/* 좋아요 수 (숨긴 게시물은 작성자만 응답에 좋아요 수가 포함됨) */}
+        {post.likes_count !== null && likesCount > 0 && (
           <div className="font-semibold text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
             좋아요 {likesCount.toLocaleString()}개
           </div>
         )}
 
         {/* 캡션 */}
-        {post.caption && (
+        {caption && (
           <div className="px-4 pb-2 space-y-2">
             <MentionText
               text={displayCaption || ""}
-              mentions={isCaptionTruncated ? captionMentions : post.mentions}
+              mentions={isCaptionTruncated ? captionMentions : captionMentionItems}
               className="text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] break-words"
             />
             {shouldTruncate && !showFullCaption && (
@@ -611,6 +870,12 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
           </div>
         )}
 
+        {/* 운동 기록 */}
+        {post.workout && <WorkoutTable workout={post.workout} />}
+
+        {/* 투표 */}
+        {post.poll && <PostPoll postId={post.id} poll={post.poll} />}
+
         {/* 댓글 미리보기 */}
         {commentsCount > 0 && (
           <div className="space-y-1">
@@ -659,7 +924,13 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
       </div>
 
       {/* 댓글 작성 폼 */}
-      <CommentForm postId={post.id} onSuccess={refreshComments} />
+      {commentsDisabled ? (
+        <p className="px-4 py-3 border-t border-[var(--instagram-border)] dark:border-[var(--border)] text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          댓글 기능이 해제된 게시물입니다.
+        </p>
+      ) : (
+        <CommentForm postId={post.id} onSuccess={refreshComments} />
+      )}
 
       {/* 게시물 상세 모달 */}
       <PostModal
@@ -712,8 +983,32 @@ export default function PostCard({ post, onDelete }: PostCardProps) {
         onOpenChange={setIsShareDialogOpen}
         url={`${typeof window !== 'undefined' ? window.location.origin : ''}/post/${post.id}`}
         title={`${post.user.name}님의 게시물`}
-        text={post.caption || ""}
+        text={caption || ""}
       />
+
+      {/* 캡션 수정 다이얼로그 */}
+      {isOwnPost && (
+        <EditPostDialog
+          postId={post.id}
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          initialCaption={caption}
+          onSaved={(updatedPost) => {
+            setCaption(updatedPost.caption);
+            setCaptionMentionItems(updatedPost.mentions || []);
+            setEditedAt(updatedPost.edited_at);
+          }}
+        />
+      )}
+
+      {/* 수정 기록 다이얼로그 (작성자 전용) */}
+      {isOwnPost && (
+        <PostEditHistoryDialog
+          postId={post.id}
+          open={isHistoryDialogOpen}
+          onOpenChange={setIsHistoryDialogOpen}
+        />
+      )}
     </article>
   );
 }
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils/format-time";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+
+/**
+ * @file PostEditHistoryDialog.tsx
+ * @description 게시물 수정 기록 다이얼로그 (작성자 전용)
+ *
+ * 주요 기능:
+ * - GET /api/posts/[postId]/edits 조회
+ * - 현재 캡션과 이전 캡션들을 최신순으로 표시
+ *
+ * @dependencies
+ * - components/ui/dialog: 모달 UI
+ * - lib/utils/format-time: 상대 시간 포맷팅
+ */
+
+interface PostEdit {
+  id: string;
+  caption: string | null;
+  created_at: string;
+}
+
+interface PostEditHistory {
+  current: {
+    caption: string | null;
+    created_at: string;
+    edited_at: string | null;
+  };
+  edits: PostEdit[];
+}
+
+interface PostEditHistoryDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function PostEditHistoryDialog({
+  postId,
+  open,
+  onOpenChange,
+}: PostEditHistoryDialogProps) {
+  const [history, setHistory] = useState<PostEditHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/posts/${postId}/edits`);
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        setHistory(data);
+      } catch (err) {
+        console.error("Error fetching edit history:", err);
+        setError(getUserFriendlyErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [open, postId]);
+
+  // 각 버전의 작성 시각: 현재 버전은 마지막 수정 시각,
+  // 이전 버전은 바로 이전 수정 시각(없으면 게시 시각)
+  const versions = history
+    ? [
+        {
+          id: "current",
+          label: "현재",
+          caption: history.current.caption,
+          since: history.current.edited_at || history.current.created_at,
+        },
+        ...history.edits.map((edit, index) => ({
+          id: edit.id,
+          label: index === history.edits.length - 1 ? "원본" : "이전",
+          caption: edit.caption,
+          since: history.edits[index + 1]?.created_at || history.current.created_at,
+        })),
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>수정 기록</DialogTitle>
+          <DialogDescription>
+            수정 기록은 게시물 작성자에게만 표시됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-center text-[var(--instagram-like)] py-4">{error}</p>
+        ) : (
+          <ol className="space-y-3">
+            {versions.map((version) => (
+              <li
+                key={version.id}
+                className="border border-[var(--instagram-border)] dark:border-[var(--border)] rounded-md p-3 space-y-1"
+              >
+                <div className="flex items-center justify-between text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  <span className="font-semibold">{version.label}</span>
+                  <span>{formatRelativeTime(version.since)}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                  {version.caption || (
+                    <span className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                      (문구 없음)
+                    </span>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
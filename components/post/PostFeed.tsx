@@ -1,10 +1,14 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useLayoutEffect, useState, useRef, useCallback } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { ArrowUp } from "lucide-react";
 import PostCard from "./PostCard";
 import PostCardSkeleton from "./PostCardSkeleton";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
 import type { MentionItem } from "@/components/ui/MentionText";
+import type { PostMediaItem } from "@/lib/utils/post-media";
+import { supabase } from "@/lib/supabase/client";
 
 /**
  * @file PostFeed.tsx
@@ -13,12 +17,18 @@ import type { MentionItem } from "@/components/ui/MentionText";
  * 주요 기능:
  * - 게시물 목록 표시
  * - 시간 역순 정렬 (API에서 처리)
+ * - feed="following"이면 팔로우한 계정과 내 게시물만 표시
+ * - 새 게시물 알림 (Supabase Realtime으로 post_publish_events INSERT 구독, 게시물 ID만 전달됨)
+ *   - 바로 게시한 게시물과 예약 시각이 되어 게시된 게시물 모두 포함
+ *   - 피드 조건에 맞는 다른 사람의 게시물만 GET /api/posts?ids= 로 확인해 "새 게시물 N개" 표시
+ *   - 누르면 목록 맨 앞에 추가하고 보던 위치 유지 (맨 위에 있었으면 새 게시물이 보이도록)
  * - 로딩 상태: PostCardSkeleton 표시
  * - 빈 상태 처리
  *
  * @dependencies
  * - components/post/PostCard: 게시물 카드 컴포넌트
  * - components/post/PostCardSkeleton: 로딩 UI
+ * - lib/supabase/client: Realtime 구독
  */
 
 interface Comment {
@@ -44,9 +54,10 @@ interface Post {
   id: string;
   user_id: string;
   image_url: string;
+  media?: PostMediaItem[];
   caption: string | null;
   created_at: string;
-  likes_count: number;
+  likes_count: number | null;
   comments_count: number;
   user: PostUser;
   comments: Comment[];
@@ -58,27 +69,126 @@ interface Post {
 interface PostsResponse {
   posts: Post[];
   hasMore: boolean;
-  page: number;
+  nextCursor: string | null;
 }
 
-export default function PostFeed() {
+export type FeedMode = "for_you" | "following";
+
+// 새 게시물이 연달아 올라오면 모아서 한 번에 확인
+const NEW_POSTS_CHECK_DELAY_MS = 1000;
+const MAX_NEW_POSTS_PER_CHECK = 50;
+
+interface PostFeedProps {
+  feed?: FeedMode;
+}
+
+export default function PostFeed({ feed = "for_you" }: PostFeedProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [pendingPosts, setPendingPosts] = useState<Post[]>([]);
   const observerTarget = useRef<HTMLDivElement>(null);
+  const postIdsRef = useRef<Set<string>>(new Set());
+  const scrollHeightBeforePrependRef = useRef<number | null>(null);
+  const { userId: currentClerkId } = useAuth();
+
+  useEffect(() => {
+    postIdsRef.current = new Set(posts.map((post) => post.id));
+  }, [posts]);
+
+  // 새 게시물 구독 (피드 조건 확인은 API에서)
+  useEffect(() => {
+    const queuedIds = new Set<string>();
+    let checkTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const checkQueuedPosts = async () => {
+      checkTimer = null;
+      const ids = [...queuedIds].slice(0, MAX_NEW_POSTS_PER_CHECK);
+      ids.forEach((id) => queuedIds.delete(id));
+      if (queuedIds.size > 0) {
+        checkTimer = setTimeout(checkQueuedPosts, NEW_POSTS_CHECK_DELAY_MS);
+      }
+
+      try {
+        const response = await fetch(`/api/posts?feed=${feed}&ids=${ids.join(",")}`);
+        if (!response.ok) {
+          return;
+        }
+
+        const data: PostsResponse = await response.json();
+        // 내 게시물은 작성 후 피드를 새로고침하므로 알림에서 제외
+        const newPosts = data.posts.filter((post) => post.user.clerk_id !== currentClerkId);
+        if (newPosts.length === 0) {
+          return;
+        }
+
+        setPendingPosts((prev) => {
+          const seenIds = new Set([...postIdsRef.current, ...prev.map((post) => post.id)]);
+          return [...newPosts.filter((post) => !seenIds.has(post.id)), ...prev];
+        });
+      } catch (err) {
+        console.warn("[PostFeed] Failed to check new posts:", err);
+      }
+    };
+
+    const channel = supabase
+      .channel(`home-feed-${feed}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "post_publish_events" },
+        (payload) => {
+          const { post_id: postId } = payload.new as { post_id?: string };
+          if (!postId || postIdsRef.current.has(postId)) {
+            return;
+          }
+          queuedIds.add(postId);
+          if (!checkTimer) {
+            checkTimer = setTimeout(checkQueuedPosts, NEW_POSTS_CHECK_DELAY_MS);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (checkTimer) {
+        clearTimeout(checkTimer);
+      }
+      supabase.removeChannel(channel);
+    };
+  }, [feed, currentClerkId]);
+
+  // 새 게시물을 앞에 추가한 만큼 스크롤을 내려 보던 게시물 위치 유지
+  useLayoutEffect(() => {
+    if (scrollHeightBeforePrependRef.current === null) {
+      return;
+    }
+    window.scrollBy(0, document.documentElement.scrollHeight - scrollHeightBeforePrependRef.current);
+    scrollHeightBeforePrependRef.current = null;
+  }, [posts]);
+
+  const showPendingPosts = () => {
+    // 맨 위에 있었으면 위치를 유지하지 않고 새 게시물을 바로 보여줌
+    scrollHeightBeforePrependRef.current =
+      window.scrollY > 0 ? document.documentElement.scrollHeight : null;
+    setPosts((prev) => {
+      const existingIds = new Set(prev.map((post) => post.id));
+      return [...pendingPosts.filter((post) => !existingIds.has(post.id)), ...prev];
+    });
+    setPendingPosts([]);
+  };
 
   // 초기 로드
   useEffect(() => {
-    fetchPosts(1, true);
+    fetchPosts(null, true);
   }, []);
 
   // 게시물 작성 후 피드 새로고침
   useEffect(() => {
     const handlePostCreated = () => {
-      fetchPosts(1, true);
+      fetchPosts(null, true);
     };
 
     window.addEventListener("postCreated", handlePostCreated);
@@ -111,7 +221,7 @@ export default function PostFeed() {
     };
   }, [hasMore, isLoadingMore, loading]);
 
-  const fetchPosts = async (targetPage: number, isInitial = false) => {
+  const fetchPosts = async (cursor: string | null, isInitial = false) => {
     try {
       if (isInitial) {
         setLoading(true);
@@ -120,7 +230,8 @@ export default function PostFeed() {
       }
       setError(null);
 
-      const response = await fetch(`/api/posts?page=${targetPage}&limit=10`);
+      const cursorQuery = cursor ? `&cursor=${encodeURIComponent(cursor)}` : "";
+      const response = await fetch(`/api/posts?limit=10&feed=${feed}${cursorQuery}`);
       
       if (!response.ok) {
         // 사용자 친화적 에러 메시지 추출
@@ -138,12 +249,13 @@ export default function PostFeed() {
       
       if (isInitial) {
         setPosts(data.posts);
+        setPendingPosts([]);
       } else {
         setPosts((prev) => [...prev, ...data.posts]);
       }
       
       setHasMore(data.hasMore);
-      setPage(data.page);
+      setNextCursor(data.nextCursor);
     } catch (err) {
       const errorMessage = getUserFriendlyErrorMessage(err);
       setError(errorMessage);
@@ -155,11 +267,24 @@ export default function PostFeed() {
   };
 
   const loadMorePosts = useCallback(() => {
-    if (!isLoadingMore && hasMore) {
-      fetchPosts(page + 1, false);
+    if (!isLoadingMore && hasMore && nextCursor) {
+      fetchPosts(nextCursor, false);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, hasMore, isLoadingMore]);
+  }, [nextCursor, hasMore, isLoadingMore]);
+
+  const newPostsPill = pendingPosts.length > 0 && (
+    <div className="sticky top-[72px] md:top-4 z-30 h-0 flex justify-center">
+      <button
+        type="button"
+        onClick={showPendingPosts}
+        className="flex items-center gap-1 rounded-full bg-[var(--instagram-blue)] px-4 py-2 text-sm font-semibold text-white shadow-lg hover:bg-[var(--instagram-blue)]/90 transition-colors"
+      >
+        <ArrowUp className="w-4 h-4" />
+        새 게시물 {pendingPosts.length.toLocaleString()}개
+      </button>
+    </div>
+  );
 
   if (loading) {
     return (
@@ -178,7 +303,7 @@ export default function PostFeed() {
           {error}
         </p>
         <button
-          onClick={() => fetchPosts(1, true)}
+          onClick={() => fetchPosts(null, true)}
           className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold px-4 py-2 rounded-md bg-[var(--instagram-blue)]/10 hover:bg-[var(--instagram-blue)]/20 transition-colors"
         >
           다시 시도
@@ -190,22 +315,27 @@ export default function PostFeed() {
   if (posts.length === 0) {
     return (
       <div className="text-center py-12 px-4">
+        {newPostsPill}
         <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
-          아직 게시물이 없습니다.
+          {feed === "following"
+            ? "팔로우한 계정의 게시물이 없습니다. 추천 피드에서 새로운 계정을 찾아보세요."
+            : "아직 게시물이 없습니다."}
         </p>
       </div>
     );
   }
 
-  // 게시물 삭제 핸들러
+  // 게시물 삭제/보관 핸들러 (피드에서 제거)
   const handlePostDelete = (postId: string) => {
     setPosts((prev) => prev.filter((post) => post.id !== postId));
   };
 
   return (
-    <div className="space-y-4">
+    // 브라우저 자동 스크롤 보정은 끄고 새 게시물 추가 시 직접 보정
+    <div className="space-y-4" style={{ overflowAnchor: "none" }}>
+      {newPostsPill}
       {posts.map((post) => (
-        <PostCard key={post.id} post={post} onDelete={handlePostDelete} />
+        <PostCard key={post.id} post={post} onDelete={handlePostDelete} onArchive={handlePostDelete} />
       ))}
       
       {/* 무한 스크롤 감지용 요소 */}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Image, { type ImageLoader, type ImageProps } from "next/image";
+import { pickImageVariant, type ImageVariant } from "@/lib/utils/post-media";
+
+/**
+ * @file PostImage.tsx
+ * @description 게시물 이미지 컴포넌트 (서버에서 생성한 리사이즈 이미지 사용)
+ *
+ * 주요 기능:
+ * - sizes에 맞는 너비의 리사이즈 이미지를 srcset으로 요청 (WebP 우선)
+ * - WebP를 표시하지 못하면 같은 너비의 JPEG로 전환
+ * - 로딩 중 저화질 미리보기(placeholder)를 흐리게 표시
+ * - 리사이즈 이미지가 없는 기존 게시물은 원본 이미지 사용
+ *
+ * @dependencies
+ * - next/image: srcset/lazy loading 처리 (리사이즈는 서버 파이프라인 결과 사용)
+ * - lib/utils/post-media: 리사이즈 이미지 선택
+ */
+
+interface PostImageProps
+  extends Omit<ImageProps, "src" | "loader" | "placeholder" | "blurDataURL" | "unoptimized"> {
+  src: string;
+  variants?: ImageVariant[] | null;
+  placeholder?: string | null;
+}
+
+export default function PostImage({
+  src,
+  alt,
+  variants,
+  placeholder,
+  onError,
+  ...props
+}: PostImageProps) {
+  const [format, setFormat] = useState<"webp" | "jpeg">("webp");
+  const hasVariants = !!variants && variants.length > 0;
+
+  const loader = useCallback<ImageLoader>(
+    ({ width }) => {
+      const variant = pickImageVariant(variants, width);
+      if (!variant) {
+        return src;
+      }
+      return format === "webp" ? variant.webp_url : variant.jpeg_url;
+    },
+    [variants, format, src]
+  );
+
+  return (
+    <Image
+      {...props}
+      src={src}
+      alt={alt}
+      loader={hasVariants ? loader : undefined}
+      unoptimized={!hasVariants && src.includes("supabase.co/storage")}
+      placeholder={placeholder ? "blur" : "empty"}
+      blurDataURL={placeholder || undefined}
+      onError={(e) => {
+        if (hasVariants && format === "webp") {
+          setFormat("jpeg");
+          return;
+        }
+        onError?.(e);
+      }}
+    />
+  );
+}
@@ -18,7 +18,17 @@ import { Button } from "@/components/ui/button";
 import CommentForm from "@/components/comment/CommentForm";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
 import ShareDialog from "./ShareDialog";
+import PostEditHistoryDialog from "./PostEditHistoryDialog";
 import MentionText, { MentionItem } from "@/components/ui/MentionText";
+import MediaCarousel from "./MediaCarousel";
+import BeforeAfterSlider from "./BeforeAfterSlider";
+import WorkoutTable from "./WorkoutTable";
+import PostPoll from "./PostPoll";
+import { getAspectRatioValue, type PostMediaItem } from "@/lib/utils/post-media";
+import type { PostWorkout } from "@/lib/utils/post-workout";
+import type { PostPoll as PostPollData } from "@/lib/utils/post-poll";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
+import type { PostPlace } from "@/lib/utils/post-place";
 
 /**
  * @file PostModal.tsx
@@ -27,10 +37,16 @@ import MentionText, { MentionItem } from "@/components/ui/MentionText";
  * 주요 기능:
  * - Desktop: 모달 형식 (이미지 50% + 댓글 50%)
  * - Mobile: 전체화면 모달
- * - 이미지 영역
+ * - 이미지 영역 (여러 장이면 스와이프 캐러셀, Mobile은 게시물 화면 비율에 맞춤)
+ * - 전/후 비교 게시물은 드래그 비교 슬라이더로 표시
+ * - 헤더 사용자명 아래 장소 태그 (장소 페이지 링크)
+ * - 운동 기록 표 (기본 펼침)
+ * - 투표 (투표 후/마감 후 득표율 표시)
  * - 전체 댓글 목록 (스크롤 가능)
  * - 좋아요/댓글 액션 버튼
- * - 댓글 작성 폼
+ * - 좋아요 수 (숨긴 게시물은 작성자에게만 표시)
+ * - 댓글 작성 폼 (댓글 기능이 해제된 게시물은 안내 문구 표시)
+ * - "수정됨" 표시 (작성자는 수정 기록 보기)
  *
  * @dependencies
  * - components/ui/dialog: 모달 UI
@@ -62,9 +78,18 @@ interface Post {
   id: string;
   user_id: string;
   image_url: string;
+  media?: PostMediaItem[];
   caption: string | null;
   created_at: string;
-  likes_count: number;
+  edited_at?: string | null;
+  aspect_ratio?: string;
+  workout?: PostWorkout | null;
+  poll?: PostPollData | null;
+  before_after?: PostBeforeAfter | null;
+  place?: PostPlace | null;
+  hide_like_count?: boolean;
+  comments_disabled?: boolean;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 작성자가 아니면 null
   comments_count: number;
   isLiked: boolean;
   isBookmarked: boolean;
@@ -109,6 +134,7 @@ export default function PostModal({
   const [commentsCount, setCommentsCount] = useState(0);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const commentsEndRef = useRef<HTMLDivElement>(null);
 
   // 게시물 데이터 가져오기
@@ -347,18 +373,32 @@ export default function PostModal({
         ) : (
           <>
             {/* 이미지 영역 - Desktop 50%, Mobile 100% */}
-            <div className="relative w-full md:w-1/2 h-[50vh] md:h-[600px] bg-black flex-shrink-0">
-              <Image
-                src={post.image_url}
-                alt={post.caption || "게시물"}
-                fill
-                className="object-contain"
-                sizes="(max-width: 768px) 100vw, 50vw"
-                onError={(e) => {
-                  console.error("[PostModal] Image load error:", post.image_url);
-                }}
-                unoptimized={post.image_url.includes("supabase.co/storage")}
-              />
+            <div
+              className="relative w-full md:w-1/2 max-h-[50vh] aspect-(--post-aspect-ratio) md:max-h-none md:aspect-auto md:h-[600px] bg-black flex-shrink-0"
+              style={{ "--post-aspect-ratio": getAspectRatioValue(post.aspect_ratio) } as React.CSSProperties}
+            >
+              {post.before_after && post.media?.length === 2 ? (
+                <BeforeAfterSlider
+                  key={post.id}
+                  media={post.media}
+                  labels={post.before_after}
+                  alt={post.caption || "게시물"}
+                  sizes="(max-width: 768px) 100vw, 50vw"
+                  fit="contain"
+                />
+              ) : (
+                <MediaCarousel
+                  key={post.id}
+                  media={
+                    post.media && post.media.length > 0
+                      ? post.media
+                      : [{ id: `${post.id}-cover`, url: post.image_url, position: 0 }]
+                  }
+                  alt={post.caption || "게시물"}
+                  sizes="(max-width: 768px) 100vw, 50vw"
+                  fit="contain"
+                />
+              )}
             </div>
 
             {/* 댓글 영역 - Desktop 50%, Mobile 100% */}
@@ -370,13 +410,13 @@ export default function PostModal({
                     {isSvg ? (
                       <img
                         src={profileImageUrl}
-                        alt={post.user.name}
+                        alt={`${post.user.name}님의 프로필 사진`}
                         className="w-8 h-8 rounded-full object-cover"
                       />
                     ) : (
                       <Image
                         src={profileImageUrl}
-                        alt={post.user.name}
+                        alt={`${post.user.name}님의 프로필 사진`}
                         width={32}
                         height={32}
                         className="w-8 h-8 rounded-full object-cover"
@@ -384,11 +424,22 @@ export default function PostModal({
                       />
                     )}
                   </Link>
-                  <Link href={`/profile/${post.user.clerk_id}`} onClick={() => onOpenChange(false)}>
-                    <span className="font-semibold text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-70">
-                      {post.user.name}
-                    </span>
-                  </Link>
+                  <div className="flex flex-col min-w-0">
+                    <Link href={`/profile/${post.user.clerk_id}`} onClick={() => onOpenChange(false)}>
+                      <span className="font-semibold text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-70">
+                        {post.user.name}
+                      </span>
+                    </Link>
+                    {post.place && (
+                      <Link
+                        href={`/place/${post.place.id}`}
+                        onClick={() => onOpenChange(false)}
+                        className="text-xs truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)] hover:opacity-70"
+                      >
+                        {post.place.name}
+                      </Link>
+                    )}
+                  </div>
                 </div>
               </header>
 
@@ -401,13 +452,13 @@ export default function PostModal({
                       {isSvg ? (
                         <img
                           src={profileImageUrl}
-                          alt={post.user.name}
+                          alt={`${post.user.name}님의 프로필 사진`}
                           className="w-8 h-8 rounded-full object-cover flex-shrink-0"
                         />
                       ) : (
                         <Image
                           src={profileImageUrl}
-                          alt={post.user.name}
+                          alt={`${post.user.name}님의 프로필 사진`}
                           width={32}
                           height={32}
                           className="w-8 h-8 rounded-full object-cover flex-shrink-0"
@@ -432,6 +483,12 @@ export default function PostModal({
                   </div>
                 )}
 
+                {/* 운동 기록 */}
+                {post.workout && <WorkoutTable workout={post.workout} defaultOpen />}
+
+                {/* 투표 */}
+                {post.poll && <PostPoll postId={post.id} poll={post.poll} />}
+
                 {/* 댓글 목록 */}
                 {comments.length > 0 ? (
                   <div className="space-y-4">
@@ -551,7 +608,7 @@ export default function PostModal({
                 </div>
 
                 {/* 좋아요 수 */}
-                {likesCount > 0 && (
+                {post.likes_count !== null && likesCount > 0 && (
                   <div className="px-4 pb-2">
                     <p className="text-sm font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
                       좋아요 {likesCount.toLocaleString()}개
@@ -563,11 +620,31 @@ export default function PostModal({
                 <div className="px-4 pb-2">
                   <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] uppercase">
                     {formatRelativeTime(post.created_at)}
+                    {post.edited_at && (
+                      currentUserId === post.user_id ? (
+                        <button
+                          type="button"
+                          onClick={() => setIsHistoryDialogOpen(true)}
+                          className="uppercase hover:underline"
+                          title="수정 기록 보기"
+                        >
+                          {" · "}수정됨
+                        </button>
+                      ) : (
+                        <span title={`${formatRelativeTime(post.edited_at)} 수정됨`}>{" · "}수정됨</span>
+                      )
+                    )}
                   </p>
                 </div>
 
                 {/* 댓글 작성 폼 */}
-                <CommentForm postId={post.id} onSuccess={handleCommentSuccess} />
+                {post.comments_disabled ? (
+                  <p className="px-4 py-3 border-t border-[var(--instagram-border)] dark:border-[var(--border)] text-sm text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                    댓글 기능이 해제된 게시물입니다.
+                  </p>
+                ) : (
+                  <CommentForm postId={post.id} onSuccess={handleCommentSuccess} />
+                )}
               </div>
             </div>
           </>
@@ -584,6 +661,15 @@ export default function PostModal({
           text={post.caption || ""}
         />
       )}
+
+      {/* 수정 기록 다이얼로그 (작성자 전용) */}
+      {post && currentUserId === post.user_id && (
+        <PostEditHistoryDialog
+          postId={post.id}
+          open={isHistoryDialogOpen}
+          onOpenChange={setIsHistoryDialogOpen}
+        />
+      )}
     </Dialog>
   );
 }
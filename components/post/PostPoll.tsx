@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth, SignInButton } from "@clerk/nextjs";
+import { BarChart3, Check, Loader2 } from "lucide-react";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import type { PostPoll as PostPollData } from "@/lib/utils/post-poll";
+
+/**
+ * @file PostPoll.tsx
+ * @description 게시물 투표 컴포넌트 (PostCard, PostModal 공용)
+ *
+ * 주요 기능:
+ * - 투표 전: 선택지 버튼 (비로그인은 로그인 모달)
+ * - 투표 후 또는 마감 후: 선택지별 득표율 막대, 내 투표 표시 (득표 수는 이때만 서버에서 내려옴)
+ * - 투표 후 진행 중에는 15초마다 결과 갱신
+ * - 마감 시각이 지나면 투표를 잠그고 최종 결과 표시
+ *
+ * @dependencies
+ * - lib/utils/post-poll: 투표 타입
+ */
+
+const POLL_REFRESH_INTERVAL_MS = 15 * 1000;
+
+interface PostPollProps {
+  postId: string;
+  poll: PostPollData;
+}
+
+/**
+ * 마감까지 남은 시간 (예: "3시간 남음")
+ */
+function formatRemainingTime(endsAt: string): string {
+  const remainingMinutes = Math.max(1, Math.ceil((new Date(endsAt).getTime() - Date.now()) / 60000));
+  if (remainingMinutes < 60) {
+    return `${remainingMinutes}분 남음`;
+  }
+  const remainingHours = Math.floor(remainingMinutes / 60);
+  if (remainingHours < 24) {
+    return `${remainingHours}시간 남음`;
+  }
+  return `${Math.floor(remainingHours / 24)}일 남음`;
+}
+
+export default function PostPoll({ postId, poll: initialPoll }: PostPollProps) {
+  const { isSignedIn } = useAuth();
+  const [poll, setPoll] = useState<PostPollData>(initialPoll);
+  const [votingOptionId, setVotingOptionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPoll(initialPoll);
+  }, [initialPoll]);
+
+  const hasVoted = !!poll.voted_option_id;
+  const showResults = hasVoted || poll.is_closed;
+
+  const refreshPoll = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/posts/${postId}/poll`);
+      if (!response.ok) {
+        return;
+      }
+      const data = await response.json();
+      if (data.poll) {
+        setPoll(data.poll);
+      }
+    } catch (error) {
+      console.error("Error refreshing poll:", error);
+    }
+  }, [postId]);
+
+  // 투표 후 진행 중에는 결과를 주기적으로 갱신
+  useEffect(() => {
+    if (!hasVoted || poll.is_closed) {
+      return;
+    }
+
+    const interval = setInterval(refreshPoll, POLL_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasVoted, poll.is_closed, refreshPoll]);
+
+  // 마감 시각에 투표 잠금 후 최종 결과 조회
+  useEffect(() => {
+    if (poll.is_closed) {
+      return;
+    }
+
+    const remainingMs = new Date(poll.ends_at).getTime() - Date.now();
+    const timeout = setTimeout(() => {
+      setPoll((prev) => ({ ...prev, is_closed: true }));
+      refreshPoll();
+    }, Math.max(0, remainingMs));
+    return () => clearTimeout(timeout);
+  }, [poll.is_closed, poll.ends_at, refreshPoll]);
+
+  const handleVote = async (optionId: string) => {
+    if (!isSignedIn || hasVoted || poll.is_closed || votingOptionId) {
+      return;
+    }
+
+    setVotingOptionId(optionId);
+
+    try {
+      const response = await fetch(`/api/posts/${postId}/poll`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ option_id: optionId }),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        // 이미 투표했거나 마감된 경우 최신 상태로 갱신
+        await refreshPoll();
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      if (data.poll) {
+        setPoll(data.poll);
+      }
+    } catch (error) {
+      console.error("Error voting:", error);
+      const errorMessage = getUserFriendlyErrorMessage(error);
+      alert(errorMessage);
+    } finally {
+      setVotingOptionId(null);
+    }
+  };
+
+  const optionButtonClassName =
+    "w-full rounded-md border border-[var(--instagram-border)] dark:border-[var(--border)] px-3 py-2 text-sm font-semibold text-[var(--instagram-blue)] hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-60";
+
+  return (
+    <div className="space-y-2 rounded-lg border border-[var(--instagram-border)] dark:border-[var(--border)] p-3">
+      <p className="flex items-center gap-2 text-xs font-semibold text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+        <BarChart3 className="w-4 h-4" />
+        투표
+      </p>
+
+      <ul className="space-y-2">
+        {poll.options.map((option) => {
+          if (!showResults) {
+            return (
+              <li key={option.id}>
+                {isSignedIn ? (
+                  <button
+                    type="button"
+                    onClick={() => handleVote(option.id)}
+                    disabled={votingOptionId !== null}
+                    className={optionButtonClassName}
+                  >
+                    {votingOptionId === option.id ? (
+                      <Loader2 className="w-4 h-4 mx-auto animate-spin" />
+                    ) : (
+                      option.text
+                    )}
+                  </button>
+                ) : (
+                  <SignInButton mode="modal">
+                    <button type="button" className={optionButtonClassName}>
+                      {option.text}
+                    </button>
+                  </SignInButton>
+                )}
+              </li>
+            );
+          }
+
+          const percentage =
+            poll.total_votes && option.votes_count !== null
+              ? Math.round((option.votes_count / poll.total_votes) * 100)
+              : 0;
+          const isMyVote = poll.voted_option_id === option.id;
+
+          return (
+            <li
+              key={option.id}
+              className="relative overflow-hidden rounded-md bg-gray-100 dark:bg-gray-800"
+            >
+              <div
+                className={`absolute inset-y-0 left-0 transition-all ${
+                  isMyVote ? "bg-[var(--instagram-blue)]/25" : "bg-gray-300/60 dark:bg-gray-600/60"
+                }`}
+                style={{ width: `${percentage}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-2 px-3 py-2 text-sm text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                <span className={`flex items-center gap-1 min-w-0 ${isMyVote ? "font-semibold" : ""}`}>
+                  <span className="truncate">{option.text}</span>
+                  {isMyVote && <Check className="w-4 h-4 flex-shrink-0" aria-label="내 투표" />}
+                </span>
+                <span className="font-semibold flex-shrink-0">{percentage}%</span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+        {poll.total_votes !== null && `${poll.total_votes.toLocaleString()}명 참여 · `}
+        {poll.is_closed ? "투표 마감" : formatRemainingTime(poll.ends_at)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { Plus, Trash2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  MAX_EXERCISE_NAME_LENGTH,
+  MAX_WORKOUT_EXERCISES,
+  MAX_WORKOUT_SETS,
+  type PostWorkout,
+} from "@/lib/utils/post-workout";
+
+/**
+ * @file WorkoutEditor.tsx
+ * @description 게시물 작성 모달의 운동 기록 입력 컴포넌트
+ *
+ * 주요 기능:
+ * - 종목 추가/삭제 (최대 20개)
+ * - 종목별 세트 추가/삭제 (최대 20개, 횟수/중량/시간)
+ * - 총 운동 시간 입력
+ * - 입력 상태(문자열)를 API 요청 형식으로 변환
+ *
+ * @dependencies
+ * - components/ui/input: 숫자/텍스트 입력 필드
+ * - lib/utils/post-workout: 운동 기록 타입 및 제한값
+ */
+
+interface WorkoutSetForm {
+  id: string;
+  reps: string;
+  weight_kg: string;
+  duration_seconds: string;
+}
+
+interface WorkoutExerciseForm {
+  id: string;
+  name: string;
+  sets: WorkoutSetForm[];
+}
+
+export interface WorkoutForm {
+  duration_minutes: string;
+  exercises: WorkoutExerciseForm[];
+}
+
+interface WorkoutEditorProps {
+  value: WorkoutForm;
+  onChange: (value: WorkoutForm) => void;
+  disabled?: boolean;
+}
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createSet = (previous?: WorkoutSetForm): WorkoutSetForm => ({
+  id: createId(),
+  // 직전 세트 값을 복사해 반복 입력을 줄임
+  reps: previous?.reps || "",
+  weight_kg: previous?.weight_kg || "",
+  duration_seconds: previous?.duration_seconds || "",
+});
+
+const createExercise = (): WorkoutExerciseForm => ({
+  id: createId(),
+  name: "",
+  sets: [createSet()],
+});
+
+export function createEmptyWorkoutForm(): WorkoutForm {
+  return { duration_minutes: "", exercises: [createExercise()] };
+}
+
+/**
+ * 저장된 운동 기록을 입력 상태로 변환 (임시저장 이어서 작성)
+ */
+export function workoutToForm(workout: PostWorkout): WorkoutForm {
+  const toText = (value: number | null) => (value === null ? "" : String(value));
+  return {
+    duration_minutes: toText(workout.duration_minutes),
+    exercises: workout.exercises.map((exercise) => ({
+      id: createId(),
+      name: exercise.name,
+      sets: exercise.sets.map((set) => ({
+        id: createId(),
+        reps: toText(set.reps),
+        weight_kg: toText(set.weight_kg),
+        duration_seconds: toText(set.duration_seconds),
+      })),
+    })),
+  };
+}
+
+/**
+ * 입력 상태를 API 요청 형식으로 변환 (검증은 서버에서 수행)
+ */
+export function workoutFormToPayload(form: WorkoutForm) {
+  const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+  return {
+    duration_minutes: toNumber(form.duration_minutes),
+    exercises: form.exercises.map((exercise) => ({
+      name: exercise.name.trim(),
+      sets: exercise.sets.map((set) => ({
+        reps: toNumber(set.reps),
+        weight_kg: toNumber(set.weight_kg),
+        duration_seconds: toNumber(set.duration_seconds),
+      })),
+    })),
+  };
+}
+
+export default function WorkoutEditor({ value, onChange, disabled = false }: WorkoutEditorProps) {
+  const updateExercise = (
+    exerciseId: string,
+    updater: (exercise: WorkoutExerciseForm) => WorkoutExerciseForm
+  ) => {
+    onChange({
+      ...value,
+      exercises: value.exercises.map((exercise) =>
+        exercise.id === exerciseId ? updater(exercise) : exercise
+      ),
+    });
+  };
+
+  const updateSet = (
+    exerciseId: string,
+    setId: string,
+    field: keyof Omit<WorkoutSetForm, "id">,
+    fieldValue: string
+  ) => {
+    updateExercise(exerciseId, (exercise) => ({
+      ...exercise,
+      sets: exercise.sets.map((set) =>
+        set.id === setId ? { ...set, [field]: fieldValue } : set
+      ),
+    }));
+  };
+
+  const inputClassName = "h-8 px-2 text-sm";
+
+  return (
+    <div className="space-y-3">
+      {value.exercises.map((exercise, exerciseIndex) => (
+        <div
+          key={exercise.id}
+          className="border border-[var(--instagram-border)] dark:border-[var(--border)] rounded-md p-3 space-y-2"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              value={exercise.name}
+              onChange={(e) =>
+                updateExercise(exercise.id, (current) => ({ ...current, name: e.target.value }))
+              }
+              placeholder={`종목 ${exerciseIndex + 1} (예: 스쿼트)`}
+              maxLength={MAX_EXERCISE_NAME_LENGTH}
+              disabled={disabled}
+              className={inputClassName}
+              aria-label={`종목 ${exerciseIndex + 1} 이름`}
+            />
+            {value.exercises.length > 1 && (
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    exercises: value.exercises.filter((item) => item.id !== exercise.id),
+                  })
+                }
+                disabled={disabled}
+                className="p-1 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] hover:text-[var(--instagram-like)]"
+                aria-label="종목 삭제"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-[2rem_1fr_1fr_1fr_1.5rem] gap-1 items-center text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+            <span>세트</span>
+            <span>횟수</span>
+            <span>중량(kg)</span>
+            <span>시간(초)</span>
+            <span />
+            {exercise.sets.map((set, setIndex) => (
+              <div key={set.id} className="contents">
+                <span className="text-sm">{setIndex + 1}</span>
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={set.reps}
+                  onChange={(e) => updateSet(exercise.id, set.id, "reps", e.target.value)}
+                  disabled={disabled}
+                  className={inputClassName}
+                  aria-label={`${setIndex + 1}세트 횟수`}
+                />
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.5"
+                  value={set.weight_kg}
+                  onChange={(e) => updateSet(exercise.id, set.id, "weight_kg", e.target.value)}
+                  disabled={disabled}
+                  className={inputClassName}
+                  aria-label={`${setIndex + 1}세트 중량`}
+                />
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={set.duration_seconds}
+                  onChange={(e) => updateSet(exercise.id, set.id, "duration_seconds", e.target.value)}
+                  disabled={disabled}
+                  className={inputClassName}
+                  aria-label={`${setIndex + 1}세트 시간`}
+                />
+                {exercise.sets.length > 1 ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateExercise(exercise.id, (current) => ({
+                        ...current,
+                        sets: current.sets.filter((item) => item.id !== set.id),
+                      }))
+                    }
+                    disabled={disabled}
+                    className="hover:text-[var(--instagram-like)]"
+                    aria-label="세트 삭제"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <span />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {exercise.sets.length < MAX_WORKOUT_SETS && (
+            <button
+              type="button"
+              onClick={() =>
+                updateExercise(exercise.id, (current) => ({
+                  ...current,
+                  sets: [...current.sets, createSet(current.sets[current.sets.length - 1])],
+                }))
+              }
+              disabled={disabled}
+              className="flex items-center gap-1 text-xs font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              세트 추가
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        {value.exercises.length < MAX_WORKOUT_EXERCISES ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, exercises: [...value.exercises, createExercise()] })}
+            disabled={disabled}
+          >
+            <Plus className="w-4 h-4" />
+            종목 추가
+          </Button>
+        ) : (
+          <span />
+        )}
+        <label className="flex items-center gap-2 text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          총 운동 시간(분)
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={value.duration_minutes}
+            onChange={(e) => onChange({ ...value, duration_minutes: e.target.value })}
+            disabled={disabled}
+            className={`${inputClassName} w-20`}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Dumbbell } from "lucide-react";
+import { summarizeWorkout, type PostWorkout } from "@/lib/utils/post-workout";
+
+/**
+ * @file WorkoutTable.tsx
+ * @description 게시물 운동 기록 표 (접기/펼치기)
+ *
+ * 주요 기능:
+ * - 접힌 상태: 종목 수, 세트 수, 총 볼륨, 총 운동 시간 요약
+ * - 펼친 상태: 종목별 세트 표 (횟수, 중량, 시간)
+ *
+ * @dependencies
+ * - lib/utils/post-workout: 운동 기록 타입 및 요약
+ */
+
+interface WorkoutTableProps {
+  workout: PostWorkout;
+  defaultOpen?: boolean;
+}
+
+/** 초 단위 시간을 "1분 30초" 형식으로 변환 */
+function formatSetDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) {
+    return `${rest}초`;
+  }
+  return rest === 0 ? `${minutes}분` : `${minutes}분 ${rest}초`;
+}
+
+export default function WorkoutTable({ workout, defaultOpen = false }: WorkoutTableProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const { exerciseCount, setCount, volumeKg } = summarizeWorkout(workout);
+
+  const summary = [
+    `${exerciseCount}개 종목`,
+    `${setCount}세트`,
+    volumeKg > 0 ? `총 ${volumeKg.toLocaleString()}kg` : null,
+    workout.duration_minutes ? `${workout.duration_minutes}분` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <div className="border border-[var(--instagram-border)] dark:border-[var(--border)] rounded-md">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        aria-expanded={isOpen}
+      >
+        <Dumbbell className="w-4 h-4 flex-shrink-0 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]" />
+        <span className="text-sm font-semibold text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+          운동 기록
+        </span>
+        <span className="flex-1 min-w-0 truncate text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+          {summary}
+        </span>
+        <ChevronDown
+          className={`w-4 h-4 flex-shrink-0 text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-[var(--instagram-border)] dark:border-[var(--border)] px-3 py-2 space-y-3">
+          {workout.exercises.map((exercise, exerciseIndex) => (
+            <table key={exerciseIndex} className="w-full text-sm">
+              <caption className="text-left font-semibold pb-1 text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                {exercise.name}
+              </caption>
+              <thead>
+                <tr className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                  <th className="text-left font-normal w-12">세트</th>
+                  <th className="text-right font-normal">횟수</th>
+                  <th className="text-right font-normal">중량</th>
+                  <th className="text-right font-normal">시간</th>
+                </tr>
+              </thead>
+              <tbody className="text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                {exercise.sets.map((set, setIndex) => (
+                  <tr key={setIndex}>
+                    <td className="text-left text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                      {setIndex + 1}
+                    </td>
+                    <td className="text-right">{set.reps ? `${set.reps}회` : "-"}</td>
+                    <td className="text-right">
+                      {set.weight_kg !== null ? `${set.weight_kg}kg` : "-"}
+                    </td>
+                    <td className="text-right">
+                      {set.duration_seconds ? formatSetDuration(set.duration_seconds) : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import Image from "next/image";
 import Link from "next/link";
-import { Heart, MessageCircle } from "lucide-react";
+import { Heart, MessageCircle, Pin, Play } from "lucide-react";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import MediaCarousel from "@/components/post/MediaCarousel";
+import BeforeAfterThumbnail from "@/components/post/BeforeAfterThumbnail";
+import { hasVideoMedia, type PostMediaItem } from "@/lib/utils/post-media";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
 
 /**
  * @file PostGrid.tsx
@@ -12,7 +15,12 @@ import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/er
  *
  * 주요 기능:
  * - 3열 그리드 레이아웃 (반응형)
- * - 1:1 정사각형 이미지
+ * - 고정 게시물은 맨 앞에 고정 아이콘과 함께 표시 (서버에서 고정 게시물 먼저 정렬)
+ * - variant="tagged"이면 사용자가 사진에 태그된 게시물 표시
+ * - 1:1 정사각형 이미지 (게시물 화면 비율과 관계없이 가운데 크롭, 여러 장이면 스와이프 캐러셀 + 위치 점)
+ * - 동영상 게시물은 포스터 + 동영상 배지 표시
+ * - 전/후 비교 게시물은 두 이미지를 반씩 나란히 표시
+ * - 작성자가 입력한 대체 텍스트 사용 (MediaCarousel)
  * - Hover 시 좋아요/댓글 수 표시
  * - 클릭 시 게시물 상세 (향후 모달/페이지)
  *
@@ -25,32 +33,38 @@ import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/er
 interface Post {
   id: string;
   image_url: string;
-  likes_count: number;
+  media?: PostMediaItem[];
+  before_after?: PostBeforeAfter | null;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 null
   comments_count: number;
+  is_pinned?: boolean;
 }
 
 interface PostGridProps {
   userId: string; // Clerk ID
+  variant?: "posts" | "tagged";
 }
 
-export default function PostGrid({ userId }: PostGridProps) {
+export default function PostGrid({ userId, variant = "posts" }: PostGridProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
 
   useEffect(() => {
     fetchPosts();
-  }, [userId]);
+  }, [userId, variant]);
 
-  const fetchPosts = async (targetPage = 1) => {
+  const fetchPosts = async (cursor: string | null = null) => {
     try {
       setLoading(true);
       setError(null);
 
       const response = await fetch(
-        `/api/posts?userId=${userId}&page=${targetPage}&limit=12`
+        `/api/posts?${variant === "tagged" ? "taggedUserId" : "userId"}=${userId}&limit=12${
+          cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+        }`
       );
 
       if (!response.ok) {
@@ -60,14 +74,14 @@ export default function PostGrid({ userId }: PostGridProps) {
 
       const data = await response.json();
       
-      if (targetPage === 1) {
+      if (!cursor) {
         setPosts(data.posts);
       } else {
         setPosts((prev) => [...prev, ...data.posts]);
       }
       
       setHasMore(data.hasMore);
-      setPage(data.page);
+      setNextCursor(data.nextCursor);
     } catch (err) {
       const errorMessage = getUserFriendlyErrorMessage(err);
       setError(errorMessage);
@@ -97,7 +111,7 @@ export default function PostGrid({ userId }: PostGridProps) {
           {error}
         </p>
         <button
-          onClick={() => fetchPosts(1)}
+          onClick={() => fetchPosts()}
           className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
         >
           다시 시도
@@ -110,7 +124,7 @@ export default function PostGrid({ userId }: PostGridProps) {
     return (
       <div className="text-center py-12">
         <p className="text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
-          게시물이 없습니다.
+          {variant === "tagged" ? "태그된 사진이 없습니다." : "게시물이 없습니다."}
         </p>
       </div>
     );
@@ -126,23 +140,44 @@ export default function PostGrid({ userId }: PostGridProps) {
             href={`/post/${post.id}`}
             className="group relative aspect-square bg-gray-100 dark:bg-gray-800 overflow-hidden cursor-pointer"
           >
-            <Image
-              src={post.image_url}
-              alt="게시물"
-              fill
-              className="object-cover"
-              sizes="(max-width: 768px) 33vw, 200px"
-              unoptimized={post.image_url?.includes("supabase.co/storage") || post.image_url?.includes("supabase.co/storage/v1/object/public")}
-              onError={() => {
-                console.error("[PostGrid] Image load error:", post.image_url);
-              }}
-            />
-            {/* Hover 오버레이 */}
-            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6">
-              <div className="flex items-center gap-2 text-white">
-                <Heart className="w-5 h-5 fill-current" />
-                <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+            {post.before_after && post.media?.length === 2 ? (
+              <BeforeAfterThumbnail
+                media={post.media}
+                alt="게시물"
+                sizes="(max-width: 768px) 33vw, 200px"
+              />
+            ) : (
+              <MediaCarousel
+                media={
+                  post.media && post.media.length > 0
+                    ? post.media
+                    : [{ id: `${post.id}-cover`, url: post.image_url, position: 0 }]
+                }
+                alt="게시물"
+                sizes="(max-width: 768px) 33vw, 200px"
+                compact
+              />
+            )}
+            {/* 고정 게시물 아이콘 (태그됨 탭은 제외) */}
+            {variant === "posts" && post.is_pinned && (
+              <div className="absolute top-2 left-2 z-10 text-white drop-shadow pointer-events-none" aria-label="고정된 게시물">
+                <Pin className="w-5 h-5 fill-current" />
               </div>
+            )}
+            {/* 동영상 배지 */}
+            {hasVideoMedia(post.media) && (
+              <div className="absolute top-2 right-2 z-10 text-white drop-shadow pointer-events-none" aria-label="동영상">
+                <Play className="w-5 h-5 fill-current" />
+              </div>
+            )}
+            {/* Hover 오버레이 */}
+            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 pointer-events-none">
+              {post.likes_count !== null && (
+                <div className="flex items-center gap-2 text-white">
+                  <Heart className="w-5 h-5 fill-current" />
+                  <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+                </div>
+              )}
               <div className="flex items-center gap-2 text-white">
                 <MessageCircle className="w-5 h-5 fill-current" />
                 <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
@@ -153,10 +188,10 @@ export default function PostGrid({ userId }: PostGridProps) {
       </div>
 
       {/* 더 보기 버튼 (게시물이 많을 경우) */}
-      {hasMore && (
+      {hasMore && nextCursor && (
         <div className="text-center py-8">
           <button
-            onClick={() => fetchPosts(page + 1)}
+            onClick={() => fetchPosts(nextCursor)}
             className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
           >
             더 보기
@@ -1,12 +1,14 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 import { useState, useEffect } from "react";
 import { useAuth, SignInButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
-import { Loader2, Settings, Share2 } from "lucide-react";
+import { Archive, CalendarClock, Loader2, Settings, Share2 } from "lucide-react";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
 import EditProfileModal from "./EditProfileModal";
+import ScheduledPostsDialog from "./ScheduledPostsDialog";
 import { shareContent } from "@/lib/utils/share";
 
 /**
@@ -19,6 +21,7 @@ import { shareContent } from "@/lib/utils/share";
  * - 통계 (게시물 수, 팔로워 수, 팔로잉 수)
  * - 팔로우/언팔로우 버튼
  * - 본인 프로필 판단
+ * - 예약된 게시물 목록, 보관함 바로가기 (본인 프로필)
  *
  * @dependencies
  * - next/image: 프로필 이미지
@@ -55,6 +58,7 @@ export default function ProfileHeader({ userId }: ProfileHeaderProps) {
   const [isToggling, setIsToggling] = useState(false);
   const [hoverUnfollow, setHoverUnfollow] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isScheduledOpen, setIsScheduledOpen] = useState(false);
 
   useEffect(() => {
     fetchUserData();
@@ -189,13 +193,13 @@ export default function ProfileHeader({ userId }: ProfileHeaderProps) {
             {isSvg ? (
               <img
                 src={profileImageUrl}
-                alt={userData.name}
+                alt={`${userData.name}님의 프로필 사진`}
                 className="w-[90px] h-[90px] md:w-[150px] md:h-[150px] rounded-full object-cover"
               />
             ) : (
               <Image
                 src={profileImageUrl}
-                alt={userData.name}
+                alt={`${userData.name}님의 프로필 사진`}
                 width={150}
                 height={150}
                 className="w-[90px] h-[90px] md:w-[150px] md:h-[150px] rounded-full object-cover"
@@ -243,6 +247,20 @@ export default function ProfileHeader({ userId }: ProfileHeaderProps) {
                     <Share2 className="w-4 h-4 mr-2" />
                     공유
                   </Button>
+                  <Button
+                    onClick={() => setIsScheduledOpen(true)}
+                    variant="outline"
+                    size="icon"
+                    aria-label="예약된 게시물"
+                    title="예약된 게시물"
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                  </Button>
+                  <Button asChild variant="outline" size="icon" aria-label="보관함" title="보관함">
+                    <Link href="/archive">
+                      <Archive className="w-4 h-4" />
+                    </Link>
+                  </Button>
                 </div>
               ) : (
                 currentClerkId ? (
@@ -342,6 +360,14 @@ export default function ProfileHeader({ userId }: ProfileHeaderProps) {
         </div>
       </div>
 
+      {/* 예약된 게시물 */}
+      {userData?.isOwnProfile && (
+        <ScheduledPostsDialog
+          open={isScheduledOpen}
+          onOpenChange={setIsScheduledOpen}
+        />
+      )}
+
       {/* 프로필 편집 모달 */}
       {userData && (
         <EditProfileModal
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { Grid3x3, SquareUser } from "lucide-react";
+import PostGrid from "./PostGrid";
+
+/**
+ * @file ProfileTabs.tsx
+ * @description 프로필 페이지 게시물 탭 컴포넌트
+ *
+ * 주요 기능:
+ * - 게시물 탭: 사용자가 작성한 게시물 그리드
+ * - 태그됨 탭: 사용자가 사진에 태그된 게시물 그리드
+ *
+ * @dependencies
+ * - components/profile/PostGrid: 게시물 그리드 컴포넌트
+ */
+
+interface ProfileTabsProps {
+  userId: string; // Clerk ID
+}
+
+const TABS = [
+  { value: "posts", label: "게시물", icon: Grid3x3 },
+  { value: "tagged", label: "태그됨", icon: SquareUser },
+] as const;
+
+export default function ProfileTabs({ userId }: ProfileTabsProps) {
+  const [activeTab, setActiveTab] = useState<"posts" | "tagged">("posts");
+
+  return (
+    <div>
+      <div
+        className="flex justify-center gap-12 border-t border-[var(--instagram-border)] dark:border-[var(--border)] mb-4"
+        role="tablist"
+      >
+        {TABS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === value}
+            onClick={() => setActiveTab(value)}
+            className={`flex items-center gap-1.5 -mt-px pt-3 text-xs font-semibold tracking-wider border-t ${
+              activeTab === value
+                ? "border-[var(--instagram-text-primary)] dark:border-[var(--foreground)] text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]"
+                : "border-transparent text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]"
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      <PostGrid key={activeTab} userId={userId} variant={activeTab} />
+    </div>
+  );
+}
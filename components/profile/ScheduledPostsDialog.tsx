@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Film, Loader2 } from "lucide-react";
+import { formatScheduledTime } from "@/lib/utils/format-time";
+import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { getMediaAltText, hasVideoMedia, type PostMediaItem } from "@/lib/utils/post-media";
+
+/**
+ * @file ScheduledPostsDialog.tsx
+ * @description 예약 게시물 목록 다이얼로그 (본인 프로필 전용)
+ *
+ * 주요 기능:
+ * - GET /api/posts/scheduled 조회 (게시 예정 시각순)
+ * - 썸네일, 캡션 일부, 게시 예정 시각 표시
+ * - 예약 취소 (DELETE /api/posts/[postId], 미디어 파일 포함 삭제)
+ *
+ * @dependencies
+ * - components/ui/dialog: 모달 UI
+ * - lib/utils/format-time: 게시 예정 시각 포맷팅
+ */
+
+interface ScheduledPost {
+  id: string;
+  image_url: string;
+  media: PostMediaItem[];
+  caption: string | null;
+  created_at: string;
+  publish_at: string;
+}
+
+interface ScheduledPostsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ScheduledPostsDialog({
+  open,
+  onOpenChange,
+}: ScheduledPostsDialogProps) {
+  const [posts, setPosts] = useState<ScheduledPost[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelingId, setCancelingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchScheduledPosts = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch("/api/posts/scheduled");
+
+        if (!response.ok) {
+          const errorMessage = await extractErrorMessage(response);
+          throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        setPosts(data.posts || []);
+      } catch (err) {
+        console.error("Error fetching scheduled posts:", err);
+        setError(getUserFriendlyErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchScheduledPosts();
+  }, [open]);
+
+  const handleCancel = async (postId: string) => {
+    if (!confirm("예약을 취소하시겠습니까? 예약된 게시물은 삭제됩니다.")) {
+      return;
+    }
+
+    setCancelingId(postId);
+    try {
+      const response = await fetch(`/api/posts/${postId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorMessage = await extractErrorMessage(response);
+        throw new Error(errorMessage);
+      }
+
+      setPosts((prev) => prev.filter((post) => post.id !== postId));
+    } catch (err) {
+      console.error("Error canceling scheduled post:", err);
+      alert(getUserFriendlyErrorMessage(err));
+    } finally {
+      setCancelingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>예약된 게시물</DialogTitle>
+          <DialogDescription>
+            예약된 게시물은 게시 시각이 되면 자동으로 공개됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-center text-[var(--instagram-like)] py-4">{error}</p>
+        ) : posts.length === 0 ? (
+          <p className="text-sm text-center text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)] py-8">
+            예약된 게시물이 없습니다.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {posts.map((post) => {
+              const cover = post.media[0];
+              const thumbnailUrl = cover ? cover.poster_url || cover.url : post.image_url;
+
+              return (
+                <li
+                  key={post.id}
+                  className="flex items-center gap-3 border border-[var(--instagram-border)] dark:border-[var(--border)] rounded-md p-2"
+                >
+                  <div className="relative w-14 h-14 flex-shrink-0 rounded overflow-hidden bg-gray-100 dark:bg-gray-800">
+                    <Image
+                      src={thumbnailUrl}
+                      alt={getMediaAltText(cover, "예약 게시물 미리보기")}
+                      fill
+                      className="object-cover"
+                      sizes="56px"
+                      unoptimized={thumbnailUrl.includes("supabase.co/storage")}
+                    />
+                    {hasVideoMedia(post.media) && (
+                      <Film className="absolute top-0.5 right-0.5 w-3.5 h-3.5 text-white drop-shadow" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className="flex items-center gap-1 text-xs font-semibold text-[var(--instagram-blue)]">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {formatScheduledTime(post.publish_at)}
+                    </p>
+                    <p className="text-sm truncate text-[var(--instagram-text-primary)] dark:text-[var(--foreground)]">
+                      {post.caption || "문구 없음"}
+                    </p>
+                    {post.media.length > 1 && (
+                      <p className="text-xs text-[var(--instagram-text-secondary)] dark:text-[var(--muted-foreground)]">
+                        {post.media.length}장
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCancel(post.id)}
+                    disabled={cancelingId === post.id}
+                  >
+                    {cancelingId === post.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      "예약 취소"
+                    )}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
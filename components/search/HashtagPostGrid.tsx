@@ -1,18 +1,23 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import Image from "next/image";
 import Link from "next/link";
 import { Heart, MessageCircle } from "lucide-react";
 import { getUserFriendlyErrorMessage, extractErrorMessage } from "@/lib/utils/error-handler";
+import { getMediaAltText, type PostMediaItem } from "@/lib/utils/post-media";
+import PostImage from "@/components/post/PostImage";
+import BeforeAfterThumbnail from "@/components/post/BeforeAfterThumbnail";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
 
 interface Post {
   id: string;
   user_id: string;
   image_url: string;
+  media?: PostMediaItem[];
+  before_after?: PostBeforeAfter | null;
   caption: string | null;
   created_at: string;
-  likes_count: number;
+  likes_count: number | null; // 좋아요 수를 숨긴 게시물은 null
   comments_count: number;
 }
 
@@ -24,7 +29,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
 
@@ -34,10 +39,10 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
       setHasMore(false);
       return;
     }
-    fetchPosts(1, hashtag);
+    fetchPosts(null, hashtag);
   }, [hashtag]);
 
-  const fetchPosts = async (targetPage: number, targetHashtag: string, retryCount = 0) => {
+  const fetchPosts = async (cursor: string | null, targetHashtag: string, retryCount = 0) => {
     const MAX_RETRIES = 2;
     const RETRY_DELAY = 1000; // 1초
 
@@ -45,8 +50,9 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
       setLoading(true);
       setError(null);
 
-      const url = `/api/posts?hashtag=${encodeURIComponent(targetHashtag)}&page=${targetPage}&limit=12`;
-      console.log("[HashtagPostGrid] Fetching posts:", { url, targetHashtag, targetPage, retryCount });
+      const cursorQuery = cursor ? `&cursor=${encodeURIComponent(cursor)}` : "";
+      const url = `/api/posts?hashtag=${encodeURIComponent(targetHashtag)}&limit=12${cursorQuery}`;
+      console.log("[HashtagPostGrid] Fetching posts:", { url, targetHashtag, cursor, retryCount });
 
       // 타임아웃 설정 (10초)
       const controller = new AbortController();
@@ -75,10 +81,10 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
       console.log("[HashtagPostGrid] Received data:", {
         postsCount: data.posts?.length || 0,
         hasMore: data.hasMore,
-        page: data.page,
+        nextCursor: data.nextCursor,
       });
 
-      if (targetPage === 1) {
+      if (!cursor) {
         setPosts(data.posts || []);
         setImageErrors(new Set()); // 새 페이지 로드 시 이미지 에러 상태 초기화
       } else {
@@ -86,7 +92,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
       }
 
       setHasMore(data.hasMore || false);
-      setPage(data.page || targetPage);
+      setNextCursor(data.nextCursor || null);
     } catch (err) {
       // 타임아웃 에러 처리
       if (err instanceof Error && err.name === "AbortError") {
@@ -94,7 +100,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
         if (retryCount < MAX_RETRIES) {
           console.log(`[HashtagPostGrid] Timeout, retrying... (${retryCount + 1}/${MAX_RETRIES})`);
           await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-          return fetchPosts(targetPage, targetHashtag, retryCount + 1);
+          return fetchPosts(cursor, targetHashtag, retryCount + 1);
         }
         setError(getUserFriendlyErrorMessage(timeoutError));
         return;
@@ -109,7 +115,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
         if (retryCount < MAX_RETRIES) {
           console.log(`[HashtagPostGrid] Network error, retrying... (${retryCount + 1}/${MAX_RETRIES})`);
           await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-          return fetchPosts(targetPage, targetHashtag, retryCount + 1);
+          return fetchPosts(cursor, targetHashtag, retryCount + 1);
         }
       }
 
@@ -118,7 +124,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
       console.error("[HashtagPostGrid] Error fetching hashtag posts:", {
         error: err,
         hashtag: targetHashtag,
-        page: targetPage,
+        cursor,
         retryCount,
       });
     } finally {
@@ -147,7 +153,7 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
           {error}
         </p>
         <button
-          onClick={() => fetchPosts(1, hashtag)}
+          onClick={() => fetchPosts(null, hashtag)}
           className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
         >
           다시 시도
@@ -179,14 +185,21 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
               <div className="w-full h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
                 <span className="text-gray-400 text-sm">이미지를 불러올 수 없습니다</span>
               </div>
+            ) : post.before_after && post.media?.length === 2 ? (
+              <BeforeAfterThumbnail
+                media={post.media}
+                alt={post.caption || "게시물"}
+                sizes="(max-width: 768px) 33vw, 200px"
+              />
             ) : (
-              <Image
+              <PostImage
                 src={post.image_url}
-                alt={post.caption || "게시물"}
+                variants={post.media?.[0]?.variants}
+                placeholder={post.media?.[0]?.placeholder}
+                alt={getMediaAltText(post.media?.[0], post.caption || "게시물")}
                 fill
                 className="object-cover"
                 sizes="(max-width: 768px) 33vw, 200px"
-                unoptimized={post.image_url?.includes("supabase.co/storage") || post.image_url?.includes("supabase.co/storage/v1/object/public")}
                 onError={() => {
                   console.error("[HashtagPostGrid] Image load error:", {
                     imageUrl: post.image_url,
@@ -197,10 +210,12 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
               />
             )}
             <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6">
-              <div className="flex items-center gap-2 text-white">
-                <Heart className="w-5 h-5 fill-current" />
-                <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
-              </div>
+              {post.likes_count !== null && (
+                <div className="flex items-center gap-2 text-white">
+                  <Heart className="w-5 h-5 fill-current" />
+                  <span className="font-semibold">{post.likes_count.toLocaleString()}</span>
+                </div>
+              )}
               <div className="flex items-center gap-2 text-white">
                 <MessageCircle className="w-5 h-5 fill-current" />
                 <span className="font-semibold">{post.comments_count.toLocaleString()}</span>
@@ -210,10 +225,10 @@ export default function HashtagPostGrid({ hashtag }: HashtagPostGridProps) {
         ))}
       </div>
 
-      {hasMore && (
+      {hasMore && nextCursor && (
         <div className="text-center py-8">
           <button
-            onClick={() => fetchPosts(page + 1, hashtag)}
+            onClick={() => fetchPosts(nextCursor, hashtag)}
             className="text-[var(--instagram-blue)] hover:opacity-70 font-semibold"
           >
             더 보기
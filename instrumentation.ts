@@ -0,0 +1,20 @@
+/**
+ * @file instrumentation.ts
+ * @description Next.js 서버 시작 시 실행되는 초기화 코드
+ *
+ * - 예약 게시물 게시 워커 시작 (Node.js 런타임에서만)
+ * - SCHEDULED_POST_PUBLISHER=off 로 비활성화 가능 (별도 워커 프로세스를 둘 때)
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  if (process.env.SCHEDULED_POST_PUBLISHER === "off") {
+    return;
+  }
+
+  const { startScheduledPostPublisher } = await import("@/lib/utils/scheduled-posts");
+  startScheduledPostPublisher();
+}
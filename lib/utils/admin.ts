@@ -0,0 +1,20 @@
+/**
+ * @file admin.ts
+ * @description 관리자 확인 유틸리티 (서버 전용)
+ *
+ * 관리자는 환경 변수 ADMIN_CLERK_IDS에 쉼표로 구분한 Clerk 사용자 ID 목록으로 지정합니다.
+ * 값이 없으면 관리자가 없는 것으로 처리합니다.
+ */
+
+function getAdminClerkIds(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_CLERK_IDS || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean)
+  );
+}
+
+export function isAdminClerkId(clerkId: string | null | undefined): boolean {
+  return !!clerkId && getAdminClerkIds().has(clerkId);
+}
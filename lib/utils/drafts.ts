@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_POST_ASPECT_RATIO,
+  type PostAspectRatio,
+  type PostMediaItem,
+} from "@/lib/utils/post-media";
+import type { StoredMedia } from "@/lib/utils/media-upload";
+import type { PostWorkout } from "@/lib/utils/post-workout";
+import type { PollPayload } from "@/lib/utils/post-poll";
+import type { PostBeforeAfter } from "@/lib/utils/post-before-after";
+import { PLACE_SELECT, formatPlace, type PostPlace } from "@/lib/utils/post-place";
+import { formatDraftTags, type PhotoTagPayloadItem } from "@/lib/utils/post-tags";
+import {
+  formatDraftCollaborators,
+  type CollaboratorPayloadItem,
+} from "@/lib/utils/post-collaborators";
+
+/**
+ * @file drafts.ts
+ * @description 게시물 임시저장 조회 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - drafts + draft_media (+ 태그한 장소) 조회 컬럼 정의
+ * - 본인 임시저장만 조회 (소유권 확인)
+ * - API 응답 형태로 변환 (Storage 내부 경로 제외)
+ */
+
+export const DRAFT_SELECT = `id, user_id, caption, mentions, workout, poll, before_after, tags, collaborators, aspect_ratio, place_id, hide_like_count, comments_disabled, created_at, updated_at, place:place_id (${PLACE_SELECT}), draft_media (id, url, storage_path, position, media_type, poster_url, poster_storage_path, duration_seconds, alt_text, width, height, placeholder, variants, perceptual_hash)`;
+
+export interface DraftMention {
+  mentioned_user_id: string;
+  display_text: string;
+  clerk_id?: string;
+  name?: string;
+}
+
+export interface DraftRecord {
+  id: string;
+  user_id: string;
+  caption: string | null;
+  mentions: DraftMention[];
+  workout: PostWorkout | null;
+  poll: PollPayload | null;
+  before_after: PostBeforeAfter | null;
+  tags: PhotoTagPayloadItem[];
+  collaborators: CollaboratorPayloadItem[];
+  aspect_ratio: PostAspectRatio;
+  place_id: string | null;
+  place: PostPlace | null;
+  hide_like_count: boolean;
+  comments_disabled: boolean;
+  created_at: string;
+  updated_at: string;
+  draft_media: Array<StoredMedia & { id: string }>;
+}
+
+/**
+ * 본인 임시저장 조회 (없거나 다른 사용자의 것이면 null)
+ */
+export async function fetchOwnedDraft(
+  supabase: SupabaseClient,
+  draftId: string,
+  userId: string
+): Promise<DraftRecord | null> {
+  const { data, error } = await supabase
+    .from("drafts")
+    .select(DRAFT_SELECT)
+    .eq("id", draftId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[fetchOwnedDraft] Error:", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const draft = data as unknown as DraftRecord;
+  return {
+    ...draft,
+    draft_media: [...(draft.draft_media || [])].sort((a, b) => a.position - b.position),
+  };
+}
+
+/**
+ * API 응답용 임시저장 데이터
+ */
+export function formatDraft(draft: DraftRecord) {
+  const media: PostMediaItem[] = [...(draft.draft_media || [])]
+    .sort((a, b) => a.position - b.position)
+    .map((item) => ({
+      id: item.id,
+      url: item.url,
+      position: item.position,
+      media_type: item.media_type,
+      poster_url: item.poster_url || null,
+      duration_seconds:
+        item.duration_seconds !== null && item.duration_seconds !== undefined
+          ? Number(item.duration_seconds)
+          : null,
+      alt_text: item.alt_text || null,
+      width: item.width ?? null,
+      height: item.height ?? null,
+      placeholder: item.placeholder || null,
+      variants: item.variants || [],
+    }));
+
+  return {
+    id: draft.id,
+    caption: draft.caption,
+    mentions: draft.mentions || [],
+    workout: draft.workout || null,
+    poll: draft.poll || null,
+    before_after: draft.before_after || null,
+    aspect_ratio: draft.aspect_ratio || DEFAULT_POST_ASPECT_RATIO,
+    place: draft.place ? formatPlace(draft.place) : null,
+    tags: formatDraftTags(draft.tags),
+    collaborators: formatDraftCollaborators(draft.collaborators),
+    hide_like_count: draft.hide_like_count ?? false,
+    comments_disabled: draft.comments_disabled ?? false,
+    created_at: draft.created_at,
+    updated_at: draft.updated_at,
+    media,
+  };
+}
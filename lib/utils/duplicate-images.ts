@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file duplicate-images.ts
+ * @description 중복/재업로드 이미지 감지 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 업로드 이미지의 perceptual hash로 다른 사용자의 게시된 게시물에서 비슷한 이미지 검색
+ *   - 해시를 16비트 구간 4개로 나눈 인덱스로 후보를 좁힌 뒤 해밍 거리 계산 (find_similar_post_media)
+ * - 해밍 거리에 따라 차단(거의 같은 이미지) / 표시(flag, 비슷한 이미지) 판정
+ * - 감지 결과를 duplicate_image_matches에 기록 (관리자 확인용)
+ * - 업로더에게 보여줄 원본 게시물 요약 조회
+ *
+ * 본인 게시물은 검사하지 않으므로 내 사진을 다시 올리는 것은 허용됩니다.
+ */
+
+export const DUPLICATE_BLOCK_DISTANCE = 4; // 이하: 재압축/리사이즈 수준 → 업로드 차단
+export const DUPLICATE_FLAG_DISTANCE = 10; // 이하: 크롭/보정 수준 → 게시 허용, 기록만
+
+export interface DuplicateImageMatch {
+  media_position: number; // 업로드한 미디어 순서
+  post_id: string; // 비슷한 이미지가 있는 원본 게시물
+  media_id: string;
+  distance: number;
+}
+
+export interface DuplicateOriginalPost {
+  id: string;
+  image_url: string;
+  user: {
+    clerk_id: string;
+    name: string;
+  };
+}
+
+/**
+ * 다른 사용자의 게시물에서 비슷한 이미지 검색
+ * 미디어 순서별로 가장 가까운 게시물 하나만 반환 (거리순)
+ * 검색에 실패하면 빈 배열 (업로드는 막지 않음)
+ */
+export async function findDuplicateImages(
+  supabase: SupabaseClient,
+  hashes: Array<string | null | undefined>,
+  uploaderUserId: string
+): Promise<DuplicateImageMatch[]> {
+  if (!hashes.some(Boolean)) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc("find_similar_post_media", {
+    p_hashes: hashes.map((hash) => hash || null),
+    p_exclude_user_id: uploaderUserId,
+    p_max_distance: DUPLICATE_FLAG_DISTANCE,
+  });
+
+  if (error) {
+    console.warn("[findDuplicateImages] Error:", error);
+    return [];
+  }
+
+  const matches = new Map<number, DuplicateImageMatch>();
+  ((data || []) as DuplicateImageMatch[]).forEach((match) => {
+    if (!matches.has(match.media_position)) {
+      matches.set(match.media_position, match);
+    }
+  });
+
+  return [...matches.values()].sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * 업로드를 차단할 만큼 가까운 이미지 (없으면 null)
+ */
+export function getBlockingDuplicate(matches: DuplicateImageMatch[]): DuplicateImageMatch | null {
+  return matches.find((match) => match.distance <= DUPLICATE_BLOCK_DISTANCE) || null;
+}
+
+/**
+ * 감지 결과 기록 (실패해도 업로드 흐름은 계속 진행)
+ * postId: 게시를 허용한 경우 새 게시물 ID (차단은 null)
+ */
+export async function logDuplicateImageMatches(
+  supabase: SupabaseClient,
+  {
+    uploaderUserId,
+    postId,
+    matches,
+    action,
+  }: {
+    uploaderUserId: string;
+    postId: string | null;
+    matches: DuplicateImageMatch[];
+    action: "blocked" | "flagged";
+  }
+): Promise<void> {
+  if (matches.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.from("duplicate_image_matches").insert(
+    matches.map((match) => ({
+      uploader_user_id: uploaderUserId,
+      post_id: postId,
+      media_position: match.media_position,
+      matched_post_id: match.post_id,
+      matched_media_id: match.media_id,
+      distance: match.distance,
+      action,
+    }))
+  );
+
+  if (error) {
+    console.error("[logDuplicateImageMatches] Error:", error);
+  }
+}
+
+/**
+ * 업로더에게 보여줄 원본 게시물 요약
+ */
+export async function fetchDuplicateOriginalPost(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<DuplicateOriginalPost | null> {
+  const { data, error } = await supabase
+    .from("posts")
+    .select("id, image_url, user:user_id (clerk_id, name)")
+    .eq("id", postId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.warn("[fetchDuplicateOriginalPost] Error:", error);
+    return null;
+  }
+
+  const user = (Array.isArray(data.user) ? data.user[0] : data.user) as
+    | { clerk_id: string; name: string }
+    | undefined;
+
+  return {
+    id: data.id,
+    image_url: data.image_url,
+    user: {
+      clerk_id: user?.clerk_id || "",
+      name: user?.name || "Unknown",
+    },
+  };
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildCursorFilter,
+  encodeCursor,
+  toCursorPage,
+  type ListCursor,
+  type OlderFeedCursor,
+  type RankedCursor,
+} from "@/lib/utils/pagination";
+
+/**
+ * @file feed-ranking.ts
+ * @description 추천(For you) 피드 순위 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 순위 가중치 설정 (환경 변수, 없거나 잘못된 값은 기본값)
+ * - rank_feed_posts 함수로 한 페이지 분량의 게시물 ID와 다음 커서 조회
+ * - 순위 범위(windowHours)를 다 보면 범위 이전 게시물을 시간 역순으로 이어서 조회 (피드가 끝나지 않음)
+ *
+ * 점수 항목: 최신성, 참여 속도(시간당 좋아요 + 댓글), 팔로우 여부, 관심 해시태그
+ * (계산식은 supabase/migrations/20251109180000_create_ranked_feed_function.sql 참고)
+ */
+
+export interface FeedRankingConfig {
+  windowHours: number; // 순위를 계산할 게시물 범위 (최근 N시간, 이전 게시물은 시간 역순)
+  recencyHalfLifeHours: number; // 최신성 점수가 절반이 되는 시간
+  weights: {
+    recency: number;
+    engagement: number;
+    following: number;
+    hashtag: number;
+  };
+}
+
+export const DEFAULT_FEED_RANKING_CONFIG: FeedRankingConfig = {
+  windowHours: 24 * 7,
+  recencyHalfLifeHours: 12,
+  weights: {
+    recency: 1,
+    engagement: 1,
+    following: 1.5,
+    hashtag: 0.5,
+  },
+};
+
+export interface RankedFeedPage {
+  postIds: string[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+function readNumberEnv(name: string, fallback: number, { positive = false } = {}): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (positive && value === 0)) {
+    console.warn(`[feed-ranking] ${name} 값이 올바르지 않아 기본값을 사용합니다:`, raw);
+    return fallback;
+  }
+  return value;
+}
+
+export function getFeedRankingConfig(): FeedRankingConfig {
+  const defaults = DEFAULT_FEED_RANKING_CONFIG;
+  return {
+    windowHours: Math.round(
+      readNumberEnv("FEED_RANKING_WINDOW_HOURS", defaults.windowHours, { positive: true })
+    ),
+    recencyHalfLifeHours: readNumberEnv(
+      "FEED_RANKING_RECENCY_HALF_LIFE_HOURS",
+      defaults.recencyHalfLifeHours,
+      { positive: true }
+    ),
+    weights: {
+      recency: readNumberEnv("FEED_RANKING_WEIGHT_RECENCY", defaults.weights.recency),
+      engagement: readNumberEnv("FEED_RANKING_WEIGHT_ENGAGEMENT", defaults.weights.engagement),
+      following: readNumberEnv("FEED_RANKING_WEIGHT_FOLLOWING", defaults.weights.following),
+      hashtag: readNumberEnv("FEED_RANKING_WEIGHT_HASHTAG", defaults.weights.hashtag),
+    },
+  };
+}
+
+/**
+ * 순위 범위 이전(windowStart 이하) 게시물을 시간 역순으로 조회 (created_at 인덱스 사용)
+ * 조회에 실패하면 null
+ */
+async function fetchOlderFeedRows(
+  supabase: SupabaseClient,
+  windowStart: string,
+  after: ListCursor | null,
+  limit: number
+): Promise<Array<{ id: string; created_at: string }> | null> {
+  let query = supabase
+    .from("posts")
+    .select("id, created_at")
+    .eq("status", "published")
+    .lte("created_at", windowStart);
+
+  if (after) {
+    query = query.or(buildCursorFilter(after));
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[fetchRankedFeedPage] Error fetching older posts:", error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * 추천 피드 한 페이지 조회 (점수 역순, 순위 범위를 다 보면 범위 이전 게시물을 시간 역순으로)
+ * 첫 페이지는 지금 시각을 as_of로 고정하고, 이후 페이지는 커서의 as_of로 같은 순위를 다시 계산
+ * 조회에 실패하면 null
+ */
+export async function fetchRankedFeedPage(
+  supabase: SupabaseClient,
+  {
+    viewerId,
+    cursor,
+    limit,
+  }: {
+    viewerId: string | null;
+    cursor: RankedCursor | OlderFeedCursor | null;
+    limit: number;
+  }
+): Promise<RankedFeedPage | null> {
+  const config = getFeedRankingConfig();
+  const asOf = cursor?.as_of || new Date().toISOString();
+  // rank_feed_posts의 범위 조건(created_at > as_of - window)과 같은 경계
+  const windowStart = new Date(Date.parse(asOf) - config.windowHours * 60 * 60 * 1000).toISOString();
+  const toOlderCursor = (row: { id: string; created_at: string } | undefined): OlderFeedCursor => ({
+    phase: "older",
+    as_of: asOf,
+    after: row ? { created_at: row.created_at, id: row.id } : null,
+  });
+
+  // 이미 범위 이전 게시물로 넘어간 경우
+  if (cursor && "phase" in cursor) {
+    const olderRows = await fetchOlderFeedRows(supabase, windowStart, cursor.after, limit + 1);
+    if (!olderRows) {
+      return null;
+    }
+
+    const { items, hasMore, nextCursor } = toCursorPage(olderRows, limit, toOlderCursor);
+    return {
+      postIds: items.map((row) => row.id),
+      hasMore,
+      nextCursor,
+    };
+  }
+
+  const afterRanked = cursor && !("phase" in cursor) ? cursor : null;
+  const { data, error } = await supabase.rpc("rank_feed_posts", {
+    p_viewer_id: viewerId,
+    p_as_of: asOf,
+    p_window_hours: config.windowHours,
+    p_recency_half_life_hours: config.recencyHalfLifeHours,
+    p_weight_recency: config.weights.recency,
+    p_weight_engagement: config.weights.engagement,
+    p_weight_following: config.weights.following,
+    p_weight_hashtag: config.weights.hashtag,
+    p_after_score: afterRanked?.score ?? null,
+    p_after_post_id: afterRanked?.id ?? null,
+    p_limit: limit + 1,
+  });
+
+  if (error) {
+    console.error("[fetchRankedFeedPage] Error:", error);
+    return null;
+  }
+
+  const rankedRows = (data || []) as Array<{ post_id: string; score: number | string }>;
+  if (rankedRows.length > limit) {
+    const { items, hasMore, nextCursor } = toCursorPage(
+      rankedRows,
+      limit,
+      (row) => ({ as_of: asOf, score: Number(row.score), id: row.post_id })
+    );
+
+    return {
+      postIds: items.map((row) => row.post_id),
+      hasMore,
+      nextCursor,
+    };
+  }
+
+  // 순위 범위를 다 봄: 남은 자리를 범위 이전 게시물로 채우고 다음 페이지부터 시간 역순
+  const remaining = limit - rankedRows.length;
+  const olderRows = await fetchOlderFeedRows(supabase, windowStart, null, remaining + 1);
+  if (!olderRows) {
+    return null;
+  }
+
+  const olderItems = olderRows.slice(0, remaining);
+  const hasMore = olderRows.length > remaining;
+
+  return {
+    postIds: [...rankedRows.map((row) => row.post_id), ...olderItems.map((row) => row.id)],
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(toOlderCursor(olderItems[olderItems.length - 1])) : null,
+  };
+}
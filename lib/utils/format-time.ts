@@ -3,6 +3,7 @@
  * @description 상대 시간 포맷팅 유틸리티 함수
  *
  * 날짜를 "3시간 전", "2일 전" 같은 상대 시간 형식으로 변환합니다.
+ * 예약 게시 시각처럼 미래 시각은 "11월 10일 (월) 오전 9:00" 형식으로 표시합니다.
  */
 
 /**
@@ -55,3 +56,21 @@ export function formatRelativeTime(date: string | Date): string {
   return `${diffInYears}년 전`;
 }
 
+/**
+ * 미래 시각(예약 게시 시각)을 날짜/시간 형식으로 포맷팅
+ * @param date - ISO 8601 형식의 날짜 문자열 또는 Date 객체
+ * @returns 날짜/시간 문자열 (예: "11월 10일 (월) 오전 9:00")
+ */
+export function formatScheduledTime(date: string | Date): string {
+  const targetDate = typeof date === "string" ? new Date(date) : date;
+  const datePart = targetDate.toLocaleDateString("ko-KR", {
+    month: "long",
+    day: "numeric",
+  });
+  const weekdayPart = targetDate.toLocaleDateString("ko-KR", { weekday: "short" });
+  const timePart = targetDate.toLocaleTimeString("ko-KR", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${datePart} (${weekdayPart}) ${timePart}`;
+}
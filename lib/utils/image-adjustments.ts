@@ -0,0 +1,141 @@
+import { canvasToJpegBlob, createImage } from "@/lib/utils/image-crop";
+
+/**
+ * @file image-adjustments.ts
+ * @description 이미지 보정(필터/밝기/대비/채도/색온도) 유틸리티
+ *
+ * 주요 기능:
+ * - 필터 프리셋 정의 (프리셋 값 + 사용자 조정값을 합산해 적용)
+ * - Canvas 픽셀 단위 보정 (미리보기와 업로드 결과가 동일하도록 CSS filter 대신 직접 계산)
+ * - 보정을 적용한 JPEG Blob 생성
+ */
+
+export type ImageFilterId = "none" | "warm" | "cool" | "vivid" | "vintage" | "mono";
+
+/** 보정값 (각 -100 ~ 100, 0이면 변화 없음) */
+export interface AdjustmentValues {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+}
+
+export interface ImageAdjustments extends AdjustmentValues {
+  filter: ImageFilterId;
+}
+
+export const IMAGE_FILTER_PRESETS: { id: ImageFilterId; label: string; values: AdjustmentValues }[] = [
+  { id: "none", label: "원본", values: { brightness: 0, contrast: 0, saturation: 0, warmth: 0 } },
+  { id: "warm", label: "따뜻하게", values: { brightness: 5, contrast: 0, saturation: 10, warmth: 35 } },
+  { id: "cool", label: "시원하게", values: { brightness: 5, contrast: 5, saturation: 0, warmth: -35 } },
+  { id: "vivid", label: "선명하게", values: { brightness: 0, contrast: 25, saturation: 35, warmth: 0 } },
+  { id: "vintage", label: "빈티지", values: { brightness: 8, contrast: -20, saturation: -35, warmth: 25 } },
+  { id: "mono", label: "흑백", values: { brightness: 0, contrast: 15, saturation: -100, warmth: 0 } },
+];
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  filter: "none",
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+};
+
+const clampAdjustment = (value: number) => Math.max(-100, Math.min(100, value));
+
+/**
+ * 프리셋 값과 사용자 조정값을 합산한 최종 보정값
+ */
+function resolveAdjustmentValues(adjustments: ImageAdjustments): AdjustmentValues {
+  const preset =
+    IMAGE_FILTER_PRESETS.find((item) => item.id === adjustments.filter) || IMAGE_FILTER_PRESETS[0];
+  return {
+    brightness: clampAdjustment(preset.values.brightness + adjustments.brightness),
+    contrast: clampAdjustment(preset.values.contrast + adjustments.contrast),
+    saturation: clampAdjustment(preset.values.saturation + adjustments.saturation),
+    warmth: clampAdjustment(preset.values.warmth + adjustments.warmth),
+  };
+}
+
+/**
+ * 적용할 보정이 있는지 여부 (없으면 재인코딩 생략)
+ */
+export function hasImageAdjustments(adjustments: ImageAdjustments): boolean {
+  const values = resolveAdjustmentValues(adjustments);
+  return Object.values(values).some((value) => value !== 0);
+}
+
+/**
+ * 픽셀 데이터에 보정 적용 (원본 ImageData를 직접 수정)
+ */
+function applyAdjustmentsToImageData(imageData: ImageData, adjustments: ImageAdjustments) {
+  const { brightness, contrast, saturation, warmth } = resolveAdjustmentValues(adjustments);
+  const data = imageData.data;
+
+  const brightnessOffset = brightness; // 0~255 기준 최대 ±100
+  const contrastValue = contrast * 1.28; // -128 ~ 128
+  const contrastFactor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
+  const saturationFactor = 1 + saturation / 100;
+  const warmthOffset = warmth * 0.3; // 붉은색 +, 푸른색 -
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] + brightnessOffset;
+    let g = data[i + 1] + brightnessOffset;
+    let b = data[i + 2] + brightnessOffset;
+
+    r = contrastFactor * (r - 128) + 128;
+    g = contrastFactor * (g - 128) + 128;
+    b = contrastFactor * (b - 128) + 128;
+
+    const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+    r = gray + (r - gray) * saturationFactor;
+    g = gray + (g - gray) * saturationFactor;
+    b = gray + (b - gray) * saturationFactor;
+
+    r += warmthOffset;
+    b -= warmthOffset;
+
+    // Uint8ClampedArray가 0~255 범위로 자동 보정
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/**
+ * 이미지를 캔버스에 그리고 보정 적용 (maxSize 지정 시 긴 변 기준 축소 - 미리보기용)
+ */
+export function drawAdjustedImage(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  adjustments: ImageAdjustments,
+  maxSize?: number
+) {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Canvas context를 가져올 수 없습니다.");
+  }
+
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(image.width, image.height)) : 1;
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  if (!hasImageAdjustments(adjustments)) {
+    return;
+  }
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyAdjustmentsToImageData(imageData, adjustments);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * 보정을 적용한 원본 크기 JPEG Blob 생성
+ */
+export async function getAdjustedImg(imageSrc: string, adjustments: ImageAdjustments): Promise<Blob> {
+  const image = await createImage(imageSrc);
+  const canvas = document.createElement("canvas");
+  drawAdjustedImage(canvas, image, adjustments);
+  return canvasToJpegBlob(canvas, "이미지 보정에 실패했습니다.");
+}
@@ -4,7 +4,7 @@
  *
  * 주요 기능:
  * - Canvas를 사용하여 이미지 크롭
- * - 1:1 정사각형 비율로 크롭
+ * - 회전 적용 (react-easy-crop의 rotation 기준 크롭 영역)
  * - Blob으로 변환하여 File 생성
  */
 
@@ -16,7 +16,8 @@ interface CropArea {
 }
 
 /**
- * 이미지를 크롭하여 Blob으로 변환
+ * 이미지를 (회전 후) 크롭하여 Blob으로 변환
+ * pixelCrop은 회전된 이미지의 외접 사각형 기준 좌표 (react-easy-crop croppedAreaPixels)
  */
 export async function getCroppedImg(
   imageSrc: string,
@@ -24,20 +25,36 @@ export async function getCroppedImg(
   rotation = 0
 ): Promise<Blob> {
   const image = await createImage(imageSrc);
+  const rotatedCanvas = document.createElement("canvas");
+  const rotatedCtx = rotatedCanvas.getContext("2d");
   const canvas = document.createElement("canvas");
   const ctx = canvas.getContext("2d");
 
-  if (!ctx) {
+  if (!rotatedCtx || !ctx) {
     throw new Error("Canvas context를 가져올 수 없습니다.");
   }
 
+  // 회전된 이미지 전체를 담을 외접 사각형 크기로 캔버스 설정 후 회전하여 그리기
+  const rotationRad = (rotation * Math.PI) / 180;
+  const boundingWidth =
+    Math.abs(Math.cos(rotationRad) * image.width) + Math.abs(Math.sin(rotationRad) * image.height);
+  const boundingHeight =
+    Math.abs(Math.sin(rotationRad) * image.width) + Math.abs(Math.cos(rotationRad) * image.height);
+
+  rotatedCanvas.width = Math.round(boundingWidth);
+  rotatedCanvas.height = Math.round(boundingHeight);
+  rotatedCtx.translate(rotatedCanvas.width / 2, rotatedCanvas.height / 2);
+  rotatedCtx.rotate(rotationRad);
+  rotatedCtx.translate(-image.width / 2, -image.height / 2);
+  rotatedCtx.drawImage(image, 0, 0);
+
   // 크롭 영역 크기로 캔버스 설정
   canvas.width = pixelCrop.width;
   canvas.height = pixelCrop.height;
 
-  // 이미지를 크롭 영역에 맞게 그리기
+  // 회전된 이미지를 크롭 영역에 맞게 그리기
   ctx.drawImage(
-    image,
+    rotatedCanvas,
     pixelCrop.x,
     pixelCrop.y,
     pixelCrop.width,
@@ -48,11 +65,18 @@ export async function getCroppedImg(
     pixelCrop.height
   );
 
+  return canvasToJpegBlob(canvas, "이미지 크롭에 실패했습니다.");
+}
+
+/**
+ * Canvas를 JPEG Blob으로 변환
+ */
+export function canvasToJpegBlob(canvas: HTMLCanvasElement, errorMessage: string): Promise<Blob> {
   return new Promise((resolve, reject) => {
     canvas.toBlob(
       (blob) => {
         if (!blob) {
-          reject(new Error("이미지 크롭에 실패했습니다."));
+          reject(new Error(errorMessage));
           return;
         }
         resolve(blob);
@@ -66,7 +90,7 @@ export async function getCroppedImg(
 /**
  * 이미지 URL에서 Image 객체 생성
  */
-function createImage(url: string): Promise<HTMLImageElement> {
+export function createImage(url: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const image = new Image();
     image.addEventListener("load", () => resolve(image));
@@ -81,4 +105,3 @@ function createImage(url: string): Promise<HTMLImageElement> {
 export function blobToFile(blob: Blob, fileName: string): File {
   return new File([blob], fileName, { type: blob.type });
 }
-
@@ -0,0 +1,225 @@
+import sharp from "sharp";
+
+/**
+ * @file image-processing.ts
+ * @description 업로드 이미지 리사이즈/인코딩 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 너비별(320/640/1080px) 리사이즈 이미지 생성 (원본보다 크게 늘리지 않음)
+ * - 같은 너비로 WebP와 JPEG를 함께 인코딩 (WebP 미지원 브라우저용 JPEG)
+ * - 로딩 중 표시할 저화질 미리보기(LQIP) data URL 생성
+ * - 중복/재업로드 감지용 perceptual hash(dHash, 64비트) 계산
+ * - 원본 너비/높이 측정 (EXIF 방향 반영)
+ * - 원본 이미지 메타데이터 제거 (EXIF 방향은 픽셀에 반영한 뒤 GPS/기기 정보 등 삭제)
+ * - 저장 전 GPS 정보 잔존 여부 검사
+ */
+
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1080];
+const PLACEHOLDER_WIDTH = 16;
+const HASH_SIZE = 8; // dHash: 9x8 흑백 이미지의 가로 인접 픽셀 비교 → 64비트
+const WEBP_QUALITY = 80;
+const JPEG_QUALITY = 82;
+const ORIGINAL_JPEG_QUALITY = 92;
+
+const GPS_IFD_TAG = 0x8825;
+const EXIF_HEADER = "Exif\0\0";
+
+/** 메타데이터를 제거한 원본 이미지 */
+export interface SanitizedImage {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  placeholder: string; // data:image/webp;base64,...
+  perceptualHash: string; // 16자리 16진수 dHash
+  original: SanitizedImage;
+  variants: Array<{ width: number; webp: Buffer; jpeg: Buffer }>;
+}
+
+/**
+ * 이미지 리사이즈 및 미리보기 생성
+ * 이미지로 읽을 수 없는 파일이면 null
+ */
+export async function processImage(input: ArrayBuffer): Promise<ProcessedImage | null> {
+  try {
+    const original = await sanitizeImage(input);
+    if (!original) {
+      return null;
+    }
+
+    // rotate(): EXIF 방향대로 회전한 뒤 리사이즈 (출력 파일에는 메타데이터를 남기지 않음)
+    const source = sharp(Buffer.from(input)).rotate();
+    const { data: normalized, info } = await source.toBuffer({ resolveWithObject: true });
+
+    const targetWidths = [
+      ...new Set(IMAGE_VARIANT_WIDTHS.map((width) => Math.min(width, info.width))),
+    ];
+
+    const variants = await Promise.all(
+      targetWidths.map(async (width) => {
+        const resized = sharp(normalized).resize({ width, withoutEnlargement: true });
+        const [webp, jpeg] = await Promise.all([
+          resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer(),
+          resized.clone().jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer(),
+        ]);
+        return { width, webp, jpeg };
+      })
+    );
+
+    const placeholderBuffer = await sharp(normalized)
+      .resize({ width: PLACEHOLDER_WIDTH })
+      .webp({ quality: 40 })
+      .toBuffer();
+
+    const perceptualHash = await computePerceptualHash(normalized);
+
+    return {
+      width: info.width,
+      height: info.height,
+      placeholder: `data:image/webp;base64,${placeholderBuffer.toString("base64")}`,
+      perceptualHash,
+      original,
+      variants,
+    };
+  } catch (error) {
+    console.error("[processImage] Error processing image:", error);
+    return null;
+  }
+}
+
+/**
+ * perceptual hash (dHash) 계산
+ * 흑백 9x8로 줄인 뒤 각 행에서 왼쪽 픽셀이 오른쪽보다 밝으면 1
+ * 재압축/리사이즈/약한 보정에는 거의 변하지 않아 해밍 거리로 비슷한 이미지를 찾을 수 있음
+ */
+export async function computePerceptualHash(input: Buffer): Promise<string> {
+  const pixels = await sharp(input)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  for (let row = 0; row < HASH_SIZE; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_SIZE; col++) {
+      const offset = row * (HASH_SIZE + 1) + col;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * 원본 이미지에서 메타데이터 제거
+ * - EXIF 방향은 픽셀에 반영 (방향 태그가 사라져도 똑바로 보이도록)
+ * - GPS/기기/촬영 정보 등 EXIF·XMP·IPTC는 모두 삭제하고 색상 프로필(ICC)만 유지
+ * - JPEG/PNG/WebP/GIF는 같은 형식으로, 그 외 형식은 JPEG로 다시 인코딩
+ * 이미지로 읽을 수 없거나 GPS 정보가 남아 있으면 null
+ */
+export async function sanitizeImage(input: ArrayBuffer): Promise<SanitizedImage | null> {
+  try {
+    const { format } = await sharp(Buffer.from(input)).metadata();
+    // 움직이는 GIF는 모든 프레임 유지
+    const pipeline = sharp(Buffer.from(input), { animated: format === "gif" })
+      .rotate()
+      .keepIccProfile();
+
+    let sanitized: SanitizedImage;
+    switch (format) {
+      case "png":
+        sanitized = { buffer: await pipeline.png().toBuffer(), contentType: "image/png", extension: "png" };
+        break;
+      case "webp":
+        sanitized = { buffer: await pipeline.webp().toBuffer(), contentType: "image/webp", extension: "webp" };
+        break;
+      case "gif":
+        sanitized = { buffer: await pipeline.gif().toBuffer(), contentType: "image/gif", extension: "gif" };
+        break;
+      default:
+        sanitized = {
+          buffer: await pipeline.jpeg({ quality: ORIGINAL_JPEG_QUALITY, mozjpeg: true }).toBuffer(),
+          contentType: "image/jpeg",
+          extension: "jpg",
+        };
+    }
+
+    if (await hasGpsMetadata(sanitized.buffer)) {
+      console.error("[sanitizeImage] GPS metadata remained after stripping");
+      return null;
+    }
+
+    return sanitized;
+  } catch (error) {
+    console.error("[sanitizeImage] Error stripping image metadata:", error);
+    return null;
+  }
+}
+
+/**
+ * 이미지에 GPS 정보가 남아 있는지 검사 (EXIF GPS IFD 또는 XMP GPS 항목)
+ * 이미지로 읽을 수 없으면 false
+ */
+export async function hasGpsMetadata(input: Buffer): Promise<boolean> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    return false;
+  }
+
+  if (metadata.exif && exifHasGpsIfd(metadata.exif)) {
+    return true;
+  }
+
+  return !!metadata.xmp && metadata.xmp.toString("utf8").includes("GPS");
+}
+
+/**
+ * EXIF(TIFF) IFD0에 GPS IFD 포인터(0x8825)가 있는지 확인
+ * 구조를 해석할 수 없으면 안전하게 GPS가 있는 것으로 간주
+ */
+function exifHasGpsIfd(exif: Buffer): boolean {
+  const tiff = exif.toString("latin1", 0, EXIF_HEADER.length) === EXIF_HEADER
+    ? exif.subarray(EXIF_HEADER.length)
+    : exif;
+  if (tiff.length < 8) {
+    return true;
+  }
+
+  const byteOrder = tiff.toString("latin1", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") {
+    return true;
+  }
+  const littleEndian = byteOrder === "II";
+  const readUint16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUint32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const ifdOffset = readUint32(4);
+  if (ifdOffset + 2 > tiff.length) {
+    return true;
+  }
+
+  const entryCount = readUint16(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (entryOffset + 2 > tiff.length) {
+      return true;
+    }
+    if (readUint16(entryOffset) === GPS_IFD_TAG) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,411 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_POST_IMAGES,
+  getVariantStoragePaths,
+  type ImageVariant,
+  type PostMediaType,
+} from "@/lib/utils/post-media";
+import {
+  MAX_VIDEO_FILE_SIZE,
+  hasMp4LocationMetadata,
+  stripMp4Metadata,
+  validateVideoFile,
+} from "@/lib/utils/video-validation";
+import { hasGpsMetadata, processImage, type ProcessedImage } from "@/lib/utils/image-processing";
+import { extractVideoPosterFrame } from "@/lib/utils/video-frame";
+
+/**
+ * @file media-upload.ts
+ * @description 게시물/임시저장 미디어 업로드 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - FormData에서 이미지("images", 기존 "image") 또는 동영상("video") 추출 및 검증
+ * - 동영상 포스터는 서버에서 동영상으로부터 직접 추출 (클라이언트가 보낸 "poster"는 사용하지 않음)
+ * - 미디어별 대체 텍스트("alt_texts": 업로드 순서와 같은 JSON 문자열 배열) 검증
+ * - 이미지(동영상 포스터 포함)별 너비별 WebP/JPEG 리사이즈 이미지와 저화질 미리보기 생성
+ * - 원본 이미지는 메타데이터(GPS/기기 정보)를 제거한 뒤 저장, MP4는 메타데이터 박스 제거
+ * - 저장 직전 GPS/위치 정보 잔존 여부 검사 (남아 있으면 업로드 거부)
+ * - Supabase Storage에 순서대로 업로드 (실패 시 이미 올린 파일 정리)
+ * - 저장된 미디어 파일(리사이즈 이미지 포함) 일괄 삭제
+ *
+ * 게시물 작성(POST /api/posts)과 임시저장(POST /api/drafts)이 같은 규칙을 사용합니다.
+ */
+
+export const MAX_IMAGE_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+/** Storage에 저장된 미디어 (post_media / draft_media 행과 동일한 형태) */
+export interface StoredMedia {
+  url: string;
+  storage_path: string;
+  position: number;
+  media_type: PostMediaType;
+  poster_url?: string | null;
+  poster_storage_path?: string | null;
+  duration_seconds?: number | null;
+  alt_text?: string | null;
+  width?: number | null;
+  height?: number | null;
+  placeholder?: string | null;
+  variants?: ImageVariant[];
+  perceptual_hash?: string | null; // 중복 이미지 감지용 (동영상은 포스터 기준)
+}
+
+export interface MediaUpload {
+  imageFiles: File[];
+  processedImages: ProcessedImage[]; // imageFiles 순서 (동영상은 포스터 1개)
+  altTexts: Array<string | null>; // imageFiles 순서 (동영상은 0번)
+  video: {
+    file: File;
+    buffer: ArrayBuffer;
+    container: string;
+    durationSeconds: number;
+  } | null;
+}
+
+/**
+ * 대체 텍스트 목록 파싱 (JSON 문자열 배열, 빈 값은 null)
+ */
+export function parseAltTexts(raw: unknown): Array<string | null> | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return [];
+  }
+
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.warn("Failed to parse alt texts payload:", error);
+      return { error: "대체 텍스트 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { error: "대체 텍스트 형식이 올바르지 않습니다." };
+  }
+
+  const altTexts = parsed.map((item) => (typeof item === "string" && item.trim() ? item.trim() : null));
+  if (altTexts.some((altText) => altText && altText.length > MAX_ALT_TEXT_LENGTH)) {
+    return { error: `대체 텍스트는 최대 ${MAX_ALT_TEXT_LENGTH}자까지 입력할 수 있습니다.` };
+  }
+
+  return altTexts;
+}
+
+/**
+ * FormData에서 업로드할 미디어를 추출하고 검증
+ */
+export async function parseMediaUpload(
+  formData: FormData
+): Promise<{ upload: MediaUpload } | { error: string }> {
+  // 여러 장은 "images"로, 기존 클라이언트 호환을 위해 단일 "image"도 허용
+  const imageFiles = formData
+    .getAll("images")
+    .filter((entry): entry is File => entry instanceof File);
+  const legacyImageFile = formData.get("image");
+  if (imageFiles.length === 0 && legacyImageFile instanceof File) {
+    imageFiles.push(legacyImageFile);
+  }
+  // 동영상 게시물: "video" (포스터는 서버에서 추출)
+  const videoEntry = formData.get("video");
+  const videoFile = videoEntry instanceof File ? videoEntry : null;
+
+  const altTexts = parseAltTexts(formData.get("alt_texts"));
+  if ("error" in altTexts) {
+    return { error: altTexts.error };
+  }
+
+  if (videoFile) {
+    if (imageFiles.length > 0) {
+      return { error: "동영상 게시물에는 이미지를 함께 올릴 수 없습니다." };
+    }
+  } else {
+    if (imageFiles.length === 0) {
+      return { error: "이미지 파일이 필요합니다." };
+    }
+
+    if (imageFiles.length > MAX_POST_IMAGES) {
+      return { error: `이미지는 최대 ${MAX_POST_IMAGES}장까지 업로드할 수 있습니다.` };
+    }
+  }
+
+  for (const imageFile of imageFiles) {
+    // 파일 타입 검증
+    if (!imageFile.type.startsWith("image/")) {
+      return { error: "이미지 파일만 업로드할 수 있습니다." };
+    }
+
+    // 파일 크기 검증
+    if (imageFile.size > MAX_IMAGE_FILE_SIZE) {
+      return { error: "파일 크기는 5MB를 초과할 수 없습니다." };
+    }
+  }
+
+  // 리사이즈 이미지 생성 (이미지로 읽을 수 없는 파일은 거부, 메모리 사용을 줄이기 위해 순차 처리)
+  const processedImages: ProcessedImage[] = [];
+  for (const imageFile of imageFiles) {
+    const processed = await processImage(await imageFile.arrayBuffer());
+    if (!processed) {
+      return { error: "이미지 파일을 읽을 수 없습니다." };
+    }
+    processedImages.push(processed);
+  }
+
+  if (!videoFile) {
+    return { upload: { imageFiles, processedImages, altTexts, video: null } };
+  }
+
+  // 동영상 검증 (컨테이너 시그니처와 헤더의 재생 시간을 서버에서 직접 확인)
+  if (videoFile.size > MAX_VIDEO_FILE_SIZE) {
+    return { error: "동영상 크기는 50MB를 초과할 수 없습니다." };
+  }
+
+  const videoBuffer = await videoFile.arrayBuffer();
+  const videoValidation = validateVideoFile(videoBuffer, videoFile.type);
+  if ("error" in videoValidation) {
+    return { error: videoValidation.error };
+  }
+
+  // 촬영 위치/기기 정보가 담긴 메타데이터 박스 제거 (버퍼를 직접 수정)
+  if (videoValidation.container === "mp4") {
+    stripMp4Metadata(new Uint8Array(videoBuffer));
+  }
+
+  // 포스터 프레임 추출 후 이미지와 같은 방식으로 리사이즈 이미지/해시 생성
+  const posterFrame = await extractVideoPosterFrame(
+    videoBuffer,
+    videoValidation.container,
+    videoValidation.durationSeconds
+  );
+  const processedPoster = posterFrame ? await processImage(posterFrame) : null;
+  if (!processedPoster) {
+    return { error: "동영상에서 포스터 이미지를 만들 수 없습니다. 다른 파일로 다시 시도해주세요." };
+  }
+
+  return {
+    upload: {
+      imageFiles: [],
+      processedImages: [processedPoster],
+      altTexts,
+      video: {
+        file: videoFile,
+        buffer: videoBuffer,
+        container: videoValidation.container,
+        durationSeconds: Math.round(videoValidation.durationSeconds * 100) / 100,
+      },
+    },
+  };
+}
+
+/**
+ * 저장할 파일에 GPS/위치 정보가 남아 있는지 검사
+ */
+async function hasLocationMetadata(body: ArrayBuffer | Buffer, contentType: string): Promise<boolean> {
+  if (contentType.startsWith("image/")) {
+    return hasGpsMetadata(Buffer.isBuffer(body) ? body : Buffer.from(body));
+  }
+  if (contentType === "video/mp4") {
+    return hasMp4LocationMetadata(new Uint8Array(body));
+  }
+  return false;
+}
+
+/**
+ * Storage에 파일 업로드 후 공개 URL 반환 (실패 시 null)
+ * GPS/위치 정보가 남아 있는 파일은 업로드하지 않음
+ */
+async function uploadToStorage(
+  supabase: SupabaseClient,
+  path: string,
+  body: ArrayBuffer | Buffer,
+  contentType: string
+): Promise<string | null> {
+  if (await hasLocationMetadata(body, contentType)) {
+    console.error("Refusing to upload file with location metadata:", path);
+    return null;
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, body, {
+      contentType,
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error("Error uploading file:", uploadError);
+    return null;
+  }
+
+  const { data: urlData } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path);
+  return urlData?.publicUrl || null;
+}
+
+/**
+ * 리사이즈 이미지를 Storage에 업로드
+ * 파일명: {원본 경로(확장자 제외)}-w{너비}.{webp|jpg}
+ * 업로드한 경로는 uploadedPaths에 추가 (실패 시 호출하는 쪽에서 정리)
+ */
+async function uploadImageVariants(
+  supabase: SupabaseClient,
+  basePath: string,
+  processed: ProcessedImage,
+  uploadedPaths: string[]
+): Promise<ImageVariant[] | null> {
+  const variants: ImageVariant[] = [];
+
+  for (const variant of processed.variants) {
+    const webpPath = `${basePath}-w${variant.width}.webp`;
+    const webpUrl = await uploadToStorage(supabase, webpPath, variant.webp, "image/webp");
+    if (!webpUrl) {
+      return null;
+    }
+    uploadedPaths.push(webpPath);
+
+    const jpegPath = `${basePath}-w${variant.width}.jpg`;
+    const jpegUrl = await uploadToStorage(supabase, jpegPath, variant.jpeg, "image/jpeg");
+    if (!jpegUrl) {
+      return null;
+    }
+    uploadedPaths.push(jpegPath);
+
+    variants.push({ width: variant.width, webp_url: webpUrl, jpeg_url: jpegUrl });
+  }
+
+  return variants;
+}
+
+/**
+ * 검증된 미디어를 Storage에 순서대로 업로드
+ * 파일명: {clerk_user_id}/{timestamp}-{random}-{index}.{ext}
+ * 하나라도 실패하면 이미 올린 파일을 정리하고 null 반환
+ */
+export async function uploadMedia(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  upload: MediaUpload
+): Promise<StoredMedia[] | null> {
+  const timestamp = Date.now();
+  const storedMedia: StoredMedia[] = [];
+  const uploadedPaths: string[] = [];
+
+  const failUpload = async () => {
+    // 이미 업로드된 파일 정리 (실패해도 계속 진행)
+    if (uploadedPaths.length > 0) {
+      await supabase.storage.from(STORAGE_BUCKET).remove(uploadedPaths);
+    }
+    return null;
+  };
+
+  if (upload.video) {
+    // 동영상: {clerk_user_id}/{timestamp}-{random}.{mp4|webm} + 포스터 -poster.{ext}
+    const { file, buffer, container, durationSeconds } = upload.video;
+    const baseName = `${clerkUserId}/${timestamp}-${Math.random().toString(36).substring(7)}`;
+    const videoPath = `${baseName}.${container}`;
+    const videoUrl = await uploadToStorage(supabase, videoPath, buffer, file.type);
+    if (!videoUrl) {
+      return failUpload();
+    }
+    uploadedPaths.push(videoPath);
+
+    const poster = upload.processedImages[0];
+    const posterPath = `${baseName}-poster.${poster.original.extension}`;
+    const posterUrl = await uploadToStorage(
+      supabase,
+      posterPath,
+      poster.original.buffer,
+      poster.original.contentType
+    );
+    if (!posterUrl) {
+      return failUpload();
+    }
+    uploadedPaths.push(posterPath);
+
+    const posterVariants = await uploadImageVariants(supabase, `${baseName}-poster`, poster, uploadedPaths);
+    if (!posterVariants) {
+      return failUpload();
+    }
+
+    storedMedia.push({
+      url: videoUrl,
+      storage_path: videoPath,
+      position: 0,
+      media_type: "video",
+      poster_url: posterUrl,
+      poster_storage_path: posterPath,
+      duration_seconds: durationSeconds,
+      alt_text: upload.altTexts[0] || null,
+      width: poster.width,
+      height: poster.height,
+      placeholder: poster.placeholder,
+      variants: posterVariants,
+      perceptual_hash: poster.perceptualHash,
+    });
+    return storedMedia;
+  }
+
+  for (const index of upload.imageFiles.keys()) {
+    // 원본은 메타데이터를 제거한 파일로 저장 (확장자/형식도 정리된 결과 기준)
+    const processed = upload.processedImages[index];
+    const baseName = `${clerkUserId}/${timestamp}-${Math.random().toString(36).substring(7)}-${index}`;
+    const fileName = `${baseName}.${processed.original.extension}`;
+
+    const publicUrl = await uploadToStorage(
+      supabase,
+      fileName,
+      processed.original.buffer,
+      processed.original.contentType
+    );
+    if (!publicUrl) {
+      return failUpload();
+    }
+    uploadedPaths.push(fileName);
+
+    const variants = await uploadImageVariants(supabase, baseName, processed, uploadedPaths);
+    if (!variants) {
+      return failUpload();
+    }
+
+    storedMedia.push({
+      url: publicUrl,
+      storage_path: fileName,
+      position: index,
+      media_type: "image",
+      alt_text: upload.altTexts[index] || null,
+      width: processed.width,
+      height: processed.height,
+      placeholder: processed.placeholder,
+      variants,
+      perceptual_hash: processed.perceptualHash,
+    });
+  }
+
+  return storedMedia;
+}
+
+/**
+ * 저장된 미디어 파일(동영상 포스터, 리사이즈 이미지 포함) 삭제
+ */
+export async function removeStoredMedia(
+  supabase: SupabaseClient,
+  media: Array<Pick<StoredMedia, "storage_path" | "poster_storage_path" | "variants">>
+): Promise<void> {
+  const paths = media
+    .flatMap((item) => [
+      item.storage_path,
+      item.poster_storage_path,
+      ...getVariantStoragePaths(item.variants),
+    ])
+    .filter((path): path is string => !!path);
+
+  if (paths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove(paths);
+  if (error) {
+    console.warn("Failed to delete media from storage:", error);
+  }
+}
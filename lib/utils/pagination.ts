@@ -0,0 +1,185 @@
+/**
+ * @file pagination.ts
+ * @description 목록 API 커서 페이지네이션 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 불투명 커서 인코딩/파싱 (마지막 항목의 created_at + id, base64url JSON)
+ * - PostgREST or 필터용 keyset 조건 생성 (created_at 역순, 같으면 id 역순)
+ * - limit + 1개 조회 결과로 다음 페이지 여부와 nextCursor 계산
+ * - 추천 피드 커서 (순위 계산 기준 시각 as_of + 마지막 점수 + id)
+ *   - 순위 범위를 다 본 뒤에는 phase: "older" 커서로 범위 이전 게시물을 시간 역순으로 이어서 조회
+ *
+ * offset 방식과 달리 스크롤 중 새 게시물이 올라와도 항목이 중복되거나 빠지지 않습니다.
+ */
+
+export interface ListCursor {
+  created_at: string;
+  id: string;
+}
+
+// 추천 피드: 같은 as_of로 순위를 다시 계산해 마지막 항목 다음부터 조회
+export interface RankedCursor {
+  as_of: string;
+  score: number;
+  id: string;
+}
+
+// 추천 피드 순위 범위(as_of 기준 최근 N시간)를 다 본 뒤: 범위 이전 게시물을 시간 역순으로 조회
+// after: 마지막으로 보여준 이전 게시물 (없으면 범위 이전 게시물의 처음부터)
+export interface OlderFeedCursor {
+  phase: "older";
+  as_of: string;
+  after: ListCursor | null;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// DB 값을 그대로 사용 (Date로 변환하면 마이크로초가 잘려 keyset 비교가 어긋남)
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === "string" && TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+export function encodeCursor(cursor: ListCursor | RankedCursor | OlderFeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Record<string, unknown> | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    return decoded && typeof decoded === "object" ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+function toListCursor(decoded: Record<string, unknown>): ListCursor | null {
+  const { created_at, id } = decoded;
+  if (!isTimestamp(created_at) || typeof id !== "string" || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+  return { created_at, id };
+}
+
+function toRankedCursor(decoded: Record<string, unknown>): RankedCursor | null {
+  const { as_of, score, id } = decoded;
+  if (
+    !isTimestamp(as_of) ||
+    typeof score !== "number" ||
+    !Number.isFinite(score) ||
+    typeof id !== "string" ||
+    !UUID_PATTERN.test(id)
+  ) {
+    return null;
+  }
+  return { as_of, score, id };
+}
+
+/**
+ * cursor 쿼리 파싱 (없으면 첫 페이지)
+ */
+export function parseCursorParam(raw: string | null): { cursor: ListCursor | null } | { error: string } {
+  if (!raw) {
+    return { cursor: null };
+  }
+
+  const decoded = decodeCursor(raw);
+  const cursor = decoded ? toListCursor(decoded) : null;
+  if (!cursor) {
+    return { error: "잘못된 커서입니다." };
+  }
+
+  return { cursor };
+}
+
+/**
+ * 순위 목록(탐색 탭 인기 게시물) cursor 쿼리 파싱 (없으면 첫 페이지)
+ */
+export function parseRankedCursorParam(raw: string | null): { cursor: RankedCursor | null } | { error: string } {
+  if (!raw) {
+    return { cursor: null };
+  }
+
+  const decoded = decodeCursor(raw);
+  const cursor = decoded ? toRankedCursor(decoded) : null;
+  if (!cursor) {
+    return { error: "잘못된 커서입니다." };
+  }
+
+  return { cursor };
+}
+
+/**
+ * 추천 피드 cursor 쿼리 파싱 (없으면 첫 페이지)
+ * 순위 범위 안이면 RankedCursor, 범위 이전 게시물로 넘어갔으면 OlderFeedCursor
+ */
+export function parseFeedCursorParam(
+  raw: string | null
+): { cursor: RankedCursor | OlderFeedCursor | null } | { error: string } {
+  if (!raw) {
+    return { cursor: null };
+  }
+
+  const decoded = decodeCursor(raw);
+  if (!decoded) {
+    return { error: "잘못된 커서입니다." };
+  }
+
+  if (decoded.phase !== "older") {
+    const cursor = toRankedCursor(decoded);
+    return cursor ? { cursor } : { error: "잘못된 커서입니다." };
+  }
+
+  const { as_of, after } = decoded;
+  if (!isTimestamp(as_of)) {
+    return { error: "잘못된 커서입니다." };
+  }
+  if (after === null) {
+    return { cursor: { phase: "older", as_of, after: null } };
+  }
+
+  const afterCursor = after && typeof after === "object" ? toListCursor(after as Record<string, unknown>) : null;
+  if (!afterCursor) {
+    return { error: "잘못된 커서입니다." };
+  }
+
+  return { cursor: { phase: "older", as_of, after: afterCursor } };
+}
+
+/**
+ * 커서 다음 항목을 고르는 PostgREST or 필터
+ * - 정렬: created_at 역순 → id 역순
+ * - idColumn: post_stats 뷰는 post_id, 테이블은 id
+ */
+export function buildCursorFilter(
+  cursor: ListCursor,
+  { idColumn = "id" }: { idColumn?: string } = {}
+): string {
+  const createdAt = `"${cursor.created_at}"`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},${idColumn}.lt.${cursor.id})`;
+}
+
+/**
+ * limit + 1개로 조회한 결과를 한 페이지로 자르고 다음 커서 계산
+ */
+export function toCursorPage<T>(
+  rows: T[],
+  limit: number,
+  getCursor: (row: T) => ListCursor | RankedCursor | OlderFeedCursor
+): CursorPage<T> {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(getCursor(last)) : null,
+  };
+}
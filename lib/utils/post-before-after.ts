@@ -0,0 +1,180 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-before-after.ts
+ * @description 전/후 비교(before/after) 게시물 유틸리티
+ *
+ * 주요 기능:
+ * - 요청으로 받은 전/후 라벨 파싱 및 검증 (날짜, 체중)
+ * - 전/후 비교 게시물은 이미지 2장만 허용 (첫 번째 = 전, 두 번째 = 후)
+ * - post_before_after 저장
+ * - 여러 게시물의 전/후 라벨을 한 번에 조회하여 post_id별 Map으로 반환
+ */
+
+export const BEFORE_AFTER_IMAGE_COUNT = 2;
+export const MIN_BEFORE_AFTER_WEIGHT_KG = 20;
+export const MAX_BEFORE_AFTER_WEIGHT_KG = 300;
+
+export interface BeforeAfterLabel {
+  date: string | null; // YYYY-MM-DD
+  weight_kg: number | null;
+}
+
+export interface PostBeforeAfter {
+  before: BeforeAfterLabel;
+  after: BeforeAfterLabel;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseLabel(raw: any, name: string): { label: BeforeAfterLabel } | { error: string } {
+  if (raw === null || raw === undefined) {
+    return { label: { date: null, weight_kg: null } };
+  }
+
+  if (typeof raw !== "object") {
+    return { error: "전/후 비교 형식이 올바르지 않습니다." };
+  }
+
+  let date: string | null = null;
+  if (raw.date !== null && raw.date !== undefined && raw.date !== "") {
+    const parsedDate = typeof raw.date === "string" && DATE_PATTERN.test(raw.date)
+      ? new Date(`${raw.date}T00:00:00Z`)
+      : null;
+    if (!parsedDate || Number.isNaN(parsedDate.getTime()) || parsedDate.toISOString().slice(0, 10) !== raw.date) {
+      return { error: `${name} 날짜가 올바르지 않습니다.` };
+    }
+    // 시간대 차이를 고려해 하루 여유를 두고 미래 날짜 거부
+    if (parsedDate.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      return { error: `${name} 날짜는 미래일 수 없습니다.` };
+    }
+    date = raw.date;
+  }
+
+  let weightKg: number | null = null;
+  if (raw.weight_kg !== null && raw.weight_kg !== undefined && raw.weight_kg !== "") {
+    const weight = Number(raw.weight_kg);
+    if (
+      !Number.isFinite(weight) ||
+      weight < MIN_BEFORE_AFTER_WEIGHT_KG ||
+      weight > MAX_BEFORE_AFTER_WEIGHT_KG
+    ) {
+      return {
+        error: `${name} 체중은 ${MIN_BEFORE_AFTER_WEIGHT_KG}~${MAX_BEFORE_AFTER_WEIGHT_KG}kg 사이로 입력해주세요.`,
+      };
+    }
+    weightKg = Math.round(weight * 10) / 10;
+  }
+
+  return { label: { date, weight_kg: weightKg } };
+}
+
+/**
+ * 전/후 라벨 파싱 (JSON 문자열 또는 객체)
+ * 값이 없으면 일반 게시물(beforeAfter: null)
+ * imageCount를 넘기면 이미지가 정확히 2장인지 함께 확인 (임시저장은 게시할 때 확인)
+ */
+export function parseBeforeAfterPayload(
+  raw: unknown,
+  imageCount?: number
+): { beforeAfter: PostBeforeAfter | null } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { beforeAfter: null };
+  }
+
+  let parsed: any = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "전/후 비교 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return { error: "전/후 비교 형식이 올바르지 않습니다." };
+  }
+
+  if (imageCount !== undefined && imageCount !== BEFORE_AFTER_IMAGE_COUNT) {
+    return { error: `전/후 비교 게시물은 이미지 ${BEFORE_AFTER_IMAGE_COUNT}장이 필요합니다.` };
+  }
+
+  const before = parseLabel(parsed.before, "전");
+  if ("error" in before) {
+    return before;
+  }
+
+  const after = parseLabel(parsed.after, "후");
+  if ("error" in after) {
+    return after;
+  }
+
+  if (before.label.date && after.label.date && before.label.date > after.label.date) {
+    return { error: "전 날짜는 후 날짜보다 늦을 수 없습니다." };
+  }
+
+  return { beforeAfter: { before: before.label, after: after.label } };
+}
+
+/**
+ * 전/후 라벨 저장
+ */
+export async function insertPostBeforeAfter(
+  supabase: SupabaseClient,
+  postId: string,
+  beforeAfter: PostBeforeAfter
+): Promise<boolean> {
+  const { error } = await supabase.from("post_before_after").insert({
+    post_id: postId,
+    before_date: beforeAfter.before.date,
+    before_weight_kg: beforeAfter.before.weight_kg,
+    after_date: beforeAfter.after.date,
+    after_weight_kg: beforeAfter.after.weight_kg,
+  });
+
+  if (error) {
+    console.error("[insertPostBeforeAfter] Error:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 여러 게시물의 전/후 라벨을 한 번에 조회하여 post_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (일반 게시물처럼 표시)
+ */
+export async function fetchPostBeforeAfterMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PostBeforeAfter>> {
+  const beforeAfterMap = new Map<string, PostBeforeAfter>();
+  if (postIds.length === 0) {
+    return beforeAfterMap;
+  }
+
+  const { data, error } = await supabase
+    .from("post_before_after")
+    .select("post_id, before_date, before_weight_kg, after_date, after_weight_kg")
+    .in("post_id", postIds);
+
+  if (error) {
+    console.warn("[fetchPostBeforeAfterMap] Error:", error);
+    return beforeAfterMap;
+  }
+
+  (data || []).forEach((row: any) => {
+    beforeAfterMap.set(row.post_id, {
+      before: {
+        date: row.before_date || null,
+        weight_kg: row.before_weight_kg !== null ? Number(row.before_weight_kg) : null,
+      },
+      after: {
+        date: row.after_date || null,
+        weight_kg: row.after_weight_kg !== null ? Number(row.after_weight_kg) : null,
+      },
+    });
+  });
+
+  return beforeAfterMap;
+}
@@ -0,0 +1,266 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-caption.ts
+ * @description 게시물 캡션의 해시태그/멘션 처리 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 캡션에서 해시태그 추출
+ * - 해시태그 저장 및 post_hashtags 연결 (작성 시)
+ * - 캡션 변경 시 post_hashtags / mentions 재계산 (수정 시)
+ * - 멘션 요청 데이터 파싱 및 캡션 기준 검증
+ */
+
+export const MAX_CAPTION_LENGTH = 2200;
+
+const HASHTAG_REGEX = /#([\p{L}\p{N}_]+)/gu;
+
+export interface MentionPayloadItem {
+  mentioned_user_id: string;
+  display_text: string;
+}
+
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+  const tags = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_REGEX)) {
+    const tag = match[1]?.toLowerCase();
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * 요청으로 받은 멘션 데이터 파싱 (JSON 문자열 또는 배열)
+ */
+export function parseMentionPayload(raw: unknown): MentionPayloadItem[] {
+  let parsed = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.warn("Failed to parse mentions payload:", error);
+      return [];
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed.filter(
+    (item: any) =>
+      item && typeof item.mentioned_user_id === "string" && typeof item.display_text === "string"
+  );
+}
+
+/**
+ * 캡션에 실제로 포함된 멘션만 남기고 중복 제거
+ */
+export function filterCaptionMentions(
+  caption: string | null | undefined,
+  mentions: MentionPayloadItem[]
+): MentionPayloadItem[] {
+  const normalizedCaption = (caption || "").toLowerCase();
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    const key = `@${mention.display_text.toLowerCase()}`;
+    const uniqueKey = `${mention.mentioned_user_id}-${key}`;
+    if (!normalizedCaption.includes(key) || seen.has(uniqueKey)) {
+      return false;
+    }
+    seen.add(uniqueKey);
+    return true;
+  });
+}
+
+/**
+ * 해시태그를 저장하고 게시물에 연결
+ */
+export async function linkPostHashtags(
+  supabase: SupabaseClient,
+  postId: string,
+  hashtags: string[]
+): Promise<void> {
+  if (hashtags.length === 0) {
+    return;
+  }
+
+  try {
+    const { data: upsertedTags } = await supabase
+      .from("hashtags")
+      .upsert(
+        hashtags.map((tag) => ({ tag })),
+        { onConflict: "tag" }
+      )
+      .select("id, tag");
+
+    let tagRecords = upsertedTags || [];
+
+    if (tagRecords.length < hashtags.length) {
+      const { data: fetchedTags } = await supabase
+        .from("hashtags")
+        .select("id, tag")
+        .in("tag", hashtags);
+      tagRecords = fetchedTags || tagRecords;
+    }
+
+    if (tagRecords.length > 0) {
+      const postHashtagRows = tagRecords.map((tag) => ({
+        post_id: postId,
+        hashtag_id: tag.id,
+      }));
+
+      const { error: linkError } = await supabase
+        .from("post_hashtags")
+        .upsert(postHashtagRows, { onConflict: "post_id,hashtag_id" });
+
+      if (linkError) {
+        console.error("Error linking post hashtags:", linkError);
+      }
+    }
+  } catch (err) {
+    console.error("Error processing hashtags:", err);
+  }
+}
+
+/**
+ * 수정된 캡션 기준으로 post_hashtags 재계산
+ * - 캡션에서 사라진 해시태그 연결 해제
+ * - 새로 추가된 해시태그 연결
+ */
+export async function syncPostHashtags(
+  supabase: SupabaseClient,
+  postId: string,
+  caption: string | null
+): Promise<void> {
+  const nextTags = extractHashtags(caption);
+
+  const { data: currentLinks, error } = await supabase
+    .from("post_hashtags")
+    .select("hashtag_id, hashtag:hashtag_id (tag)")
+    .eq("post_id", postId);
+
+  if (error) {
+    console.error("Error fetching post hashtags:", error);
+    return;
+  }
+
+  const currentTags = new Map<string, string>();
+  (currentLinks || []).forEach((link: any) => {
+    if (link.hashtag?.tag) {
+      currentTags.set(link.hashtag.tag, link.hashtag_id);
+    }
+  });
+
+  const removedHashtagIds = Array.from(currentTags.entries())
+    .filter(([tag]) => !nextTags.includes(tag))
+    .map(([, hashtagId]) => hashtagId);
+
+  if (removedHashtagIds.length > 0) {
+    const { error: unlinkError } = await supabase
+      .from("post_hashtags")
+      .delete()
+      .eq("post_id", postId)
+      .in("hashtag_id", removedHashtagIds);
+
+    if (unlinkError) {
+      console.error("Error unlinking post hashtags:", unlinkError);
+    }
+  }
+
+  await linkPostHashtags(
+    supabase,
+    postId,
+    nextTags.filter((tag) => !currentTags.has(tag))
+  );
+}
+
+/**
+ * 게시물 캡션 멘션 저장
+ */
+export async function insertPostMentions(
+  supabase: SupabaseClient,
+  postId: string,
+  mentionerUserId: string,
+  mentions: MentionPayloadItem[]
+): Promise<void> {
+  if (mentions.length === 0) {
+    return;
+  }
+
+  try {
+    await supabase.from("mentions").insert(
+      mentions.map((mention) => ({
+        post_id: postId,
+        comment_id: null,
+        mentioned_user_id: mention.mentioned_user_id,
+        mentioner_user_id: mentionerUserId,
+        display_text: mention.display_text,
+      }))
+    );
+  } catch (err) {
+    console.error("Error inserting mentions:", err);
+  }
+}
+
+/**
+ * 수정된 캡션 기준으로 게시물 멘션 재계산
+ * - 기존 멘션 중 캡션에 남아있는 것은 유지
+ * - 캡션에서 사라진 멘션 삭제
+ * - 요청으로 받은 새 멘션 추가
+ */
+export async function syncPostMentions(
+  supabase: SupabaseClient,
+  postId: string,
+  mentionerUserId: string,
+  caption: string | null,
+  requestedMentions: MentionPayloadItem[]
+): Promise<void> {
+  const { data: currentMentions, error } = await supabase
+    .from("mentions")
+    .select("id, mentioned_user_id, display_text")
+    .eq("post_id", postId)
+    .is("comment_id", null);
+
+  if (error) {
+    console.error("Error fetching post mentions:", error);
+    return;
+  }
+
+  const mentionKey = (mention: MentionPayloadItem) =>
+    `${mention.mentioned_user_id}-@${mention.display_text.toLowerCase()}`;
+
+  const nextMentions = filterCaptionMentions(caption, [
+    ...(currentMentions || []),
+    ...requestedMentions,
+  ]);
+  const nextKeys = new Set(nextMentions.map(mentionKey));
+  const currentKeys = new Set((currentMentions || []).map(mentionKey));
+
+  const removedIds = (currentMentions || [])
+    .filter((mention) => !nextKeys.has(mentionKey(mention)))
+    .map((mention) => mention.id);
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("mentions")
+      .delete()
+      .in("id", removedIds);
+
+    if (deleteError) {
+      console.error("Error deleting stale mentions:", deleteError);
+    }
+  }
+
+  await insertPostMentions(
+    supabase,
+    postId,
+    mentionerUserId,
+    nextMentions.filter((mention) => !currentKeys.has(mentionKey(mention)))
+  );
+}
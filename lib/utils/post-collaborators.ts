@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-collaborators.ts
+ * @description 공동 작성 게시물(공동 작성자) 유틸리티
+ *
+ * 주요 기능:
+ * - 요청으로 받은 공동 작성자 초대 목록 파싱 및 검증
+ * - 게시물 생성 시 초대(pending) 저장
+ * - 여러 게시물의 수락한 공동 작성자를 한 번에 조회하여 post_id별 Map으로 반환
+ *
+ * 공동 작성자는 초대를 수락해야 게시물에 이름이 표시되고 프로필/게시물 수에 포함됩니다.
+ */
+
+export const MAX_POST_COLLABORATORS = 3;
+
+export type CollaboratorStatus = "pending" | "accepted" | "declined";
+
+/** 요청/임시저장 형식 (clerk_id, name은 임시저장 복원용) */
+export interface CollaboratorPayloadItem {
+  user_id: string;
+  clerk_id?: string;
+  name?: string;
+}
+
+/** 응답 형식 */
+export interface PostCollaborator {
+  id: string;
+  clerk_id: string;
+  name: string;
+}
+
+/**
+ * 공동 작성자 초대 목록 파싱 (JSON 문자열 또는 배열)
+ * authorId: 게시물 작성자 users.id (자기 자신 초대 방지)
+ */
+export function parseCollaboratorsPayload(
+  raw: unknown,
+  authorId: string
+): { collaborators: CollaboratorPayloadItem[] } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { collaborators: [] };
+  }
+
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "공동 작성자 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!Array.isArray(parsed) || parsed.some((item) => typeof item?.user_id !== "string" || !item.user_id)) {
+    return { error: "공동 작성자 형식이 올바르지 않습니다." };
+  }
+
+  const collaboratorMap = new Map<string, CollaboratorPayloadItem>();
+  parsed.forEach((item) => {
+    collaboratorMap.set(item.user_id, {
+      user_id: item.user_id,
+      clerk_id: typeof item.clerk_id === "string" ? item.clerk_id : undefined,
+      name: typeof item.name === "string" ? item.name : undefined,
+    });
+  });
+
+  if (collaboratorMap.has(authorId)) {
+    return { error: "자기 자신은 공동 작성자로 초대할 수 없습니다." };
+  }
+  if (collaboratorMap.size > MAX_POST_COLLABORATORS) {
+    return { error: `공동 작성자는 최대 ${MAX_POST_COLLABORATORS}명까지 초대할 수 있습니다.` };
+  }
+
+  return { collaborators: [...collaboratorMap.values()] };
+}
+
+/**
+ * 공동 작성자 초대 저장 (존재하지 않는 사용자가 있으면 실패)
+ */
+export async function insertPostCollaborators(
+  supabase: SupabaseClient,
+  postId: string,
+  collaborators: CollaboratorPayloadItem[]
+): Promise<boolean> {
+  if (collaborators.length === 0) {
+    return true;
+  }
+
+  const { error } = await supabase.from("post_collaborators").insert(
+    collaborators.map((collaborator) => ({
+      post_id: postId,
+      user_id: collaborator.user_id,
+    }))
+  );
+
+  if (error) {
+    console.error("[insertPostCollaborators] Error saving collaborators:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 여러 게시물의 수락한 공동 작성자를 한 번에 조회하여 post_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (작성자만 표시)
+ */
+export async function fetchPostCollaboratorsMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PostCollaborator[]>> {
+  const collaboratorsMap = new Map<string, PostCollaborator[]>();
+  if (postIds.length === 0) {
+    return collaboratorsMap;
+  }
+
+  const { data, error } = await supabase
+    .from("post_collaborators")
+    .select("post_id, user:user_id (id, clerk_id, name)")
+    .in("post_id", postIds)
+    .eq("status", "accepted")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("[fetchPostCollaboratorsMap] Error fetching collaborators:", error);
+    return collaboratorsMap;
+  }
+
+  (data || []).forEach((row: any) => {
+    if (!row.user) {
+      return;
+    }
+    if (!collaboratorsMap.has(row.post_id)) {
+      collaboratorsMap.set(row.post_id, []);
+    }
+    collaboratorsMap.get(row.post_id)!.push({
+      id: row.user.id,
+      clerk_id: row.user.clerk_id,
+      name: row.user.name,
+    });
+  });
+
+  return collaboratorsMap;
+}
+
+/**
+ * 임시저장 공동 작성자를 응답 형식으로 변환
+ */
+export function formatDraftCollaborators(
+  collaborators: CollaboratorPayloadItem[] | null | undefined
+): PostCollaborator[] {
+  return (collaborators || []).map((collaborator) => ({
+    id: collaborator.user_id,
+    clerk_id: collaborator.clerk_id || "",
+    name: collaborator.name || "",
+  }));
+}
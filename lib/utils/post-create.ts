@@ -0,0 +1,197 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StoredMedia } from "@/lib/utils/media-upload";
+import { DEFAULT_POST_ASPECT_RATIO, type PostAspectRatio } from "@/lib/utils/post-media";
+import { insertPostWorkout, type PostWorkout } from "@/lib/utils/post-workout";
+import { insertPostTags, type PhotoTagPayloadItem } from "@/lib/utils/post-tags";
+import { insertPostPoll, type PollPayload } from "@/lib/utils/post-poll";
+import { insertPostBeforeAfter, type PostBeforeAfter } from "@/lib/utils/post-before-after";
+import {
+  insertPostCollaborators,
+  type CollaboratorPayloadItem,
+} from "@/lib/utils/post-collaborators";
+import {
+  extractHashtags,
+  filterCaptionMentions,
+  insertPostMentions,
+  linkPostHashtags,
+  type MentionPayloadItem,
+} from "@/lib/utils/post-caption";
+import { recordPostPublishEvent } from "@/lib/utils/post-publish-events";
+
+/**
+ * @file post-create.ts
+ * @description 게시물 생성 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - posts 행 생성 (image_url은 첫 번째 이미지 또는 동영상 포스터)
+ * - post_media 행 생성 (실패 시 posts 행 롤백)
+ * - 운동 기록 저장 (실패 시 posts 행 롤백)
+ * - 사진 속 사람 태그 저장 (실패 시 posts 행 롤백)
+ * - 공동 작성자 초대 저장 (실패 시 posts 행 롤백)
+ * - 투표 저장 (마감 시각은 게시 시각 기준, 실패 시 posts 행 롤백)
+ * - 전/후 비교 라벨 저장 (실패 시 posts 행 롤백)
+ * - 장소 태그 저장 (place_id)
+ * - 좋아요 수 숨기기 / 댓글 기능 해제 설정 저장
+ * - 캡션 해시태그 연결 및 멘션 저장
+ * - 새 게시물 알림 기록 (모든 저장이 끝난 뒤, 바로 게시한 경우만)
+ * - 예약 게시: status를 'scheduled'로 저장하고 해시태그/멘션은 게시 시점으로 미룸
+ *
+ * 이미 Storage에 올라간 미디어를 받으므로 새 업로드와 임시저장 게시 모두 사용합니다.
+ * Storage 파일 정리는 호출하는 쪽에서 결정합니다.
+ */
+
+interface CreatePostInput {
+  userId: string; // Supabase users.id
+  caption: string | null;
+  media: StoredMedia[];
+  mentions: MentionPayloadItem[];
+  publishAt?: string | null; // 예약 게시 시각 (없으면 즉시 게시)
+  workout?: PostWorkout | null;
+  aspectRatio?: PostAspectRatio;
+  placeId?: string | null;
+  tags?: PhotoTagPayloadItem[];
+  collaborators?: CollaboratorPayloadItem[];
+  poll?: PollPayload | null;
+  beforeAfter?: PostBeforeAfter | null; // 전/후 비교 게시물 (이미지 2장)
+  hideLikeCount?: boolean;
+  commentsDisabled?: boolean;
+}
+
+export async function createPostWithMedia(
+  supabase: SupabaseClient,
+  {
+    userId,
+    caption,
+    media,
+    mentions,
+    publishAt = null,
+    workout = null,
+    aspectRatio = DEFAULT_POST_ASPECT_RATIO,
+    placeId = null,
+    tags = [],
+    collaborators = [],
+    poll = null,
+    beforeAfter = null,
+    hideLikeCount = false,
+    commentsDisabled = false,
+  }: CreatePostInput
+): Promise<{ post: any } | { error: string }> {
+  if (media.length === 0) {
+    return { error: "이미지 파일이 필요합니다." };
+  }
+
+  const captionMentions = filterCaptionMentions(caption, mentions);
+
+  // 대표 이미지: 첫 번째 이미지 또는 동영상 포스터 (그리드/post_stats에서 사용)
+  const coverImageUrl = media[0].poster_url || media[0].url;
+
+  // posts 테이블에 데이터 저장
+  const { data: postData, error: postError } = await supabase
+    .from("posts")
+    .insert({
+      user_id: userId,
+      image_url: coverImageUrl,
+      caption: caption || null,
+      aspect_ratio: aspectRatio,
+      place_id: placeId,
+      hide_like_count: hideLikeCount,
+      comments_disabled: commentsDisabled,
+      ...(publishAt
+        ? {
+            status: "scheduled",
+            publish_at: publishAt,
+            pending_mentions: captionMentions,
+          }
+        : {}),
+    })
+    .select("id, user_id, image_url, caption, created_at, status, publish_at, aspect_ratio, place_id, hide_like_count, comments_disabled")
+    .single();
+
+  if (postError || !postData) {
+    console.error("Error creating post:", postError);
+    return { error: "게시물 저장에 실패했습니다." };
+  }
+
+  // post_media 테이블에 미디어 순서 저장
+  const { data: mediaData, error: mediaError } = await supabase
+    .from("post_media")
+    .insert(
+      media.map((item) => ({
+        post_id: postData.id,
+        url: item.url,
+        storage_path: item.storage_path,
+        position: item.position,
+        media_type: item.media_type,
+        poster_url: item.poster_url || null,
+        poster_storage_path: item.poster_storage_path || null,
+        duration_seconds: item.duration_seconds ?? null,
+        alt_text: item.alt_text || null,
+        width: item.width ?? null,
+        height: item.height ?? null,
+        placeholder: item.placeholder || null,
+        variants: item.variants || [],
+        perceptual_hash: item.perceptual_hash || null,
+      }))
+    )
+    .select(
+      "id, url, position, media_type, poster_url, duration_seconds, alt_text, width, height, placeholder, variants"
+    );
+
+  if (mediaError) {
+    console.error("Error saving post media:", mediaError);
+    // 게시물 롤백
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "게시물 저장에 실패했습니다." };
+  }
+
+  // 운동 기록 저장
+  if (workout && !(await insertPostWorkout(supabase, postData.id, workout))) {
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "운동 기록 저장에 실패했습니다." };
+  }
+
+  // 사진 속 사람 태그 저장
+  if (!(await insertPostTags(supabase, postData.id, tags))) {
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "사람 태그 저장에 실패했습니다." };
+  }
+
+  // 공동 작성자 초대 (수락 전까지는 게시물에 표시되지 않음)
+  if (!(await insertPostCollaborators(supabase, postData.id, collaborators))) {
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "공동 작성자 초대에 실패했습니다." };
+  }
+
+  // 투표 저장 (예약 게시물은 예약 시각부터 진행)
+  if (poll && !(await insertPostPoll(supabase, postData.id, poll, new Date(publishAt || Date.now())))) {
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "투표 저장에 실패했습니다." };
+  }
+
+  // 전/후 비교 라벨 저장
+  if (beforeAfter && !(await insertPostBeforeAfter(supabase, postData.id, beforeAfter))) {
+    await supabase.from("posts").delete().eq("id", postData.id);
+    return { error: "전/후 비교 저장에 실패했습니다." };
+  }
+
+  // 예약 게시물은 게시 워커가 게시 시점에 해시태그/멘션을 연결
+  if (!publishAt) {
+    // 해시태그 저장
+    await linkPostHashtags(supabase, postData.id, extractHashtags(caption));
+
+    // 캡션에 포함된 멘션만 저장
+    await insertPostMentions(supabase, postData.id, userId, captionMentions);
+
+    // 새 게시물 알림 (롤백될 수 있는 단계가 모두 끝난 뒤 기록)
+    await recordPostPublishEvent(supabase, postData.id);
+  }
+
+  return {
+    post: {
+      ...postData,
+      media: (mediaData || []).sort((a, b) => a.position - b.position),
+      workout,
+      before_after: beforeAfter,
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-media.ts
+ * @description 게시물 미디어(캐러셀 이미지, 동영상) 유틸리티
+ *
+ * 주요 기능:
+ * - post_media 테이블 조회 후 게시물별 미디어 목록 구성
+ * - 동영상 미디어는 포스터 프레임 URL과 재생 시간 포함
+ * - 미디어별 대체 텍스트(alt_text) 포함
+ * - 서버에서 생성한 너비별 WebP/JPEG 이미지와 저화질 미리보기(placeholder) 포함
+ * - 게시물 화면 비율(1:1, 4:5, 1.91:1) 정의 및 검증
+ * - Storage 공개 URL에서 파일 경로 추출 (삭제용)
+ * - 미디어가 없는 기존 게시물은 posts.image_url을 단일 미디어로 취급
+ */
+
+export const MAX_POST_IMAGES = 10;
+export const MAX_ALT_TEXT_LENGTH = 500;
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+export type PostMediaType = "image" | "video";
+
+/** 서버에서 생성한 리사이즈 이미지 (같은 너비의 WebP/JPEG) */
+export interface ImageVariant {
+  width: number;
+  webp_url: string;
+  jpeg_url: string;
+}
+
+export interface PostMediaItem {
+  id: string;
+  url: string;
+  position: number;
+  /** 없으면 이미지로 취급 */
+  media_type?: PostMediaType;
+  poster_url?: string | null;
+  duration_seconds?: number | null;
+  /** 작성자가 입력한 대체 텍스트 (없으면 화면별 기본 문구 사용) */
+  alt_text?: string | null;
+  /** 이미지(동영상은 포스터) 원본 크기 */
+  width?: number | null;
+  height?: number | null;
+  /** 로딩 중 표시할 저화질 미리보기 data URL */
+  placeholder?: string | null;
+  /** 너비 오름차순 리사이즈 이미지 (이미지 파이프라인 이전 게시물은 빈 배열) */
+  variants?: ImageVariant[];
+}
+
+/**
+ * 미디어 목록에 동영상이 포함되어 있는지 확인
+ */
+export function hasVideoMedia(media: PostMediaItem[] | null | undefined): boolean {
+  return !!media && media.some((item) => item.media_type === "video");
+}
+
+export const POST_ASPECT_RATIOS = ["1:1", "4:5", "1.91:1"] as const;
+export type PostAspectRatio = (typeof POST_ASPECT_RATIOS)[number];
+export const DEFAULT_POST_ASPECT_RATIO: PostAspectRatio = "1:1";
+
+/**
+ * 게시물 화면 비율 파싱 (값이 없으면 1:1, 지원하지 않는 값이면 null)
+ */
+export function parseAspectRatio(raw: unknown): PostAspectRatio | null {
+  if (raw === null || raw === undefined || raw === "") {
+    return DEFAULT_POST_ASPECT_RATIO;
+  }
+  return POST_ASPECT_RATIOS.find((ratio) => ratio === raw) || null;
+}
+
+/**
+ * 화면 비율을 가로/세로 숫자로 변환 (크롭 영역, CSS aspect-ratio에 사용)
+ */
+export function getAspectRatioValue(ratio: string | null | undefined): number {
+  switch (ratio) {
+    case "4:5":
+      return 4 / 5;
+    case "1.91:1":
+      return 1.91;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * 미디어 대체 텍스트 반환 (작성자가 입력하지 않았으면 기본 문구)
+ */
+export function getMediaAltText(
+  media: Pick<PostMediaItem, "alt_text"> | null | undefined,
+  fallback: string
+): string {
+  const altText = media?.alt_text?.trim();
+  return altText || fallback;
+}
+
+/**
+ * 요청 너비 이상인 가장 작은 리사이즈 이미지 (없으면 가장 큰 이미지)
+ */
+export function pickImageVariant(
+  variants: ImageVariant[] | null | undefined,
+  width: number
+): ImageVariant | null {
+  if (!variants || variants.length === 0) {
+    return null;
+  }
+  const sorted = [...variants].sort((a, b) => a.width - b.width);
+  return sorted.find((variant) => variant.width >= width) || sorted[sorted.length - 1];
+}
+
+/**
+ * Storage 공개 URL에서 버킷 내부 파일 경로 추출
+ * 예: https://xxx.supabase.co/storage/v1/object/public/uploads/user_id/filename.jpg
+ *     → user_id/filename.jpg
+ */
+export function getStoragePathFromUrl(url: string | null | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  const urlParts = url.split("/");
+  const bucketIndex = urlParts.findIndex((part) => part === STORAGE_BUCKET);
+  if (bucketIndex === -1 || bucketIndex >= urlParts.length - 1) {
+    return null;
+  }
+  return urlParts.slice(bucketIndex + 1).join("/");
+}
+
+/**
+ * 리사이즈 이미지의 Storage 경로 목록 (삭제용)
+ */
+export function getVariantStoragePaths(variants: ImageVariant[] | null | undefined): string[] {
+  return (variants || [])
+    .flatMap((variant) => [getStoragePathFromUrl(variant.webp_url), getStoragePathFromUrl(variant.jpeg_url)])
+    .filter((path): path is string => !!path);
+}
+
+/**
+ * 여러 게시물의 미디어를 한 번에 조회하여 post_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (이미지는 posts.image_url로 대체 가능)
+ */
+export async function fetchPostMediaMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PostMediaItem[]>> {
+  const mediaMap = new Map<string, PostMediaItem[]>();
+  if (postIds.length === 0) {
+    return mediaMap;
+  }
+
+  const { data, error } = await supabase
+    .from("post_media")
+    .select(
+      "id, post_id, url, position, media_type, poster_url, duration_seconds, alt_text, width, height, placeholder, variants"
+    )
+    .in("post_id", postIds)
+    .order("position", { ascending: true });
+
+  if (error) {
+    console.warn("[fetchPostMediaMap] Error fetching post media:", error);
+    return mediaMap;
+  }
+
+  (data || []).forEach((row: any) => {
+    if (!mediaMap.has(row.post_id)) {
+      mediaMap.set(row.post_id, []);
+    }
+    mediaMap.get(row.post_id)!.push({
+      id: row.id,
+      url: row.url,
+      position: row.position,
+      media_type: row.media_type || "image",
+      poster_url: row.poster_url || null,
+      duration_seconds: row.duration_seconds !== null && row.duration_seconds !== undefined
+        ? Number(row.duration_seconds)
+        : null,
+      alt_text: row.alt_text || null,
+      width: row.width ?? null,
+      height: row.height ?? null,
+      placeholder: row.placeholder || null,
+      variants: row.variants || [],
+    });
+  });
+
+  return mediaMap;
+}
+
+/**
+ * 게시물의 미디어 목록 반환 (post_media가 없으면 image_url 하나로 구성)
+ */
+export function resolvePostMedia(
+  mediaMap: Map<string, PostMediaItem[]>,
+  postId: string,
+  fallbackImageUrl: string | null | undefined
+): PostMediaItem[] {
+  const media = mediaMap.get(postId);
+  if (media && media.length > 0) {
+    return media;
+  }
+  return fallbackImageUrl
+    ? [{ id: `${postId}-cover`, url: fallbackImageUrl, position: 0 }]
+    : [];
+}
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-place.ts
+ * @description 게시물 장소 태그(places) 유틸리티
+ *
+ * 주요 기능:
+ * - 새 장소 입력(이름, 주소, 좌표) 파싱 및 검증
+ * - 게시물/임시저장에 태그할 장소 ID 확인 (존재하는 장소만 허용)
+ * - 여러 장소를 한 번에 조회하여 place_id별 Map으로 반환
+ * - 지도 링크 생성 (OpenStreetMap)
+ */
+
+export const MAX_PLACE_NAME_LENGTH = 100;
+export const MAX_PLACE_ADDRESS_LENGTH = 200;
+
+export const PLACE_SELECT = "id, name, address, latitude, longitude";
+
+export interface PostPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+export interface PlaceInput {
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * DB 행을 응답 형태로 변환 (NUMERIC 좌표는 문자열로 올 수 있음)
+ */
+export function formatPlace(row: any): PostPlace {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address || null,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+  };
+}
+
+/**
+ * 좌표 파싱 (범위를 벗어나거나 숫자가 아니면 null, 소수점 6자리로 반올림)
+ */
+function parseCoordinate(value: unknown, limit: number): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number) || Math.abs(number) > limit) {
+    return null;
+  }
+  return Math.round(number * 1e6) / 1e6;
+}
+
+/**
+ * 새 장소 입력 파싱 및 검증
+ */
+export function parsePlaceInput(body: any): { place: PlaceInput } | { error: string } {
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return { error: "장소 이름을 입력해주세요." };
+  }
+  if (name.length > MAX_PLACE_NAME_LENGTH) {
+    return { error: `장소 이름은 최대 ${MAX_PLACE_NAME_LENGTH}자까지 입력할 수 있습니다.` };
+  }
+
+  const address = typeof body?.address === "string" ? body.address.trim() : "";
+  if (address.length > MAX_PLACE_ADDRESS_LENGTH) {
+    return { error: `주소는 최대 ${MAX_PLACE_ADDRESS_LENGTH}자까지 입력할 수 있습니다.` };
+  }
+
+  const latitude = parseCoordinate(body?.latitude, 90);
+  const longitude = parseCoordinate(body?.longitude, 180);
+  if (latitude === null || longitude === null) {
+    return { error: "장소 위치(좌표)가 올바르지 않습니다." };
+  }
+
+  return { place: { name, address: address || null, latitude, longitude } };
+}
+
+/**
+ * 태그할 장소 ID 확인
+ * 값이 없으면 장소 없음(placeId: null), 존재하지 않는 장소면 에러
+ */
+export async function resolvePlaceId(
+  supabase: SupabaseClient,
+  raw: unknown
+): Promise<{ placeId: string | null } | { error: string }> {
+  if (raw === null || raw === undefined || raw === "") {
+    return { placeId: null };
+  }
+  if (typeof raw !== "string") {
+    return { error: "장소를 찾을 수 없습니다." };
+  }
+
+  const { data, error } = await supabase
+    .from("places")
+    .select("id")
+    .eq("id", raw)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) {
+      console.warn("[resolvePlaceId] Error fetching place:", error);
+    }
+    return { error: "장소를 찾을 수 없습니다." };
+  }
+
+  return { placeId: data.id };
+}
+
+/**
+ * 여러 장소를 한 번에 조회하여 place_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (장소 없이 게시물 표시)
+ */
+export async function fetchPlaceMap(
+  supabase: SupabaseClient,
+  placeIds: Array<string | null | undefined>
+): Promise<Map<string, PostPlace>> {
+  const placeMap = new Map<string, PostPlace>();
+  const uniqueIds = [...new Set(placeIds.filter((id): id is string => !!id))];
+  if (uniqueIds.length === 0) {
+    return placeMap;
+  }
+
+  const { data, error } = await supabase
+    .from("places")
+    .select(PLACE_SELECT)
+    .in("id", uniqueIds);
+
+  if (error) {
+    console.warn("[fetchPlaceMap] Error fetching places:", error);
+    return placeMap;
+  }
+
+  (data || []).forEach((row) => {
+    placeMap.set(row.id, formatPlace(row));
+  });
+
+  return placeMap;
+}
+
+/**
+ * 장소 지도 링크 (OpenStreetMap)
+ */
+export function getPlaceMapUrl(place: Pick<PostPlace, "latitude" | "longitude">): string {
+  return `https://www.openstreetmap.org/?mlat=${place.latitude}&mlon=${place.longitude}#map=17/${place.latitude}/${place.longitude}`;
+}
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-poll.ts
+ * @description 게시물 투표(선택지 2~4개, 마감 시각) 유틸리티
+ *
+ * 주요 기능:
+ * - 요청으로 받은 투표 파싱 및 검증 (선택지, 진행 시간)
+ * - polls / poll_options 저장 (마감 시각 = 게시 시각 + 진행 시간)
+ * - 여러 게시물의 투표를 한 번에 조회하여 post_id별 Map으로 반환 (득표 수, 내 투표 포함)
+ *   - 득표 수는 투표한 사용자 또는 마감된 투표에만 포함 (투표 전에는 결과를 보고 고를 수 없도록)
+ */
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_OPTION_LENGTH = 50;
+export const MAX_POLL_DURATION_HOURS = 168; // 7일
+export const POLL_DURATION_PRESETS = [1, 6, 24, 72, 168]; // 작성 화면 선택지 (시간)
+
+export interface PollPayload {
+  options: string[];
+  duration_hours: number;
+}
+
+export interface PostPollOption {
+  id: string;
+  text: string;
+  votes_count: number | null; // 투표 전 진행 중이면 null
+}
+
+export interface PostPoll {
+  id: string;
+  ends_at: string;
+  is_closed: boolean;
+  total_votes: number | null; // 투표 전 진행 중이면 null
+  voted_option_id: string | null; // 현재 사용자가 투표한 선택지 (없으면 null)
+  options: PostPollOption[];
+}
+
+/**
+ * 투표 파싱 (JSON 문자열 또는 객체)
+ * 값이 없으면 투표 없음(poll: null)
+ */
+export function parsePollPayload(raw: unknown): { poll: PollPayload | null } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { poll: null };
+  }
+
+  let parsed: any = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "투표 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.options)) {
+    return { error: "투표 형식이 올바르지 않습니다." };
+  }
+
+  const options = parsed.options.map((option: unknown) =>
+    typeof option === "string" ? option.trim() : ""
+  );
+
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return { error: `투표 선택지는 ${MIN_POLL_OPTIONS}~${MAX_POLL_OPTIONS}개로 입력해주세요.` };
+  }
+
+  if (options.some((option: string) => !option)) {
+    return { error: "투표 선택지를 모두 입력해주세요." };
+  }
+
+  if (options.some((option: string) => option.length > MAX_POLL_OPTION_LENGTH)) {
+    return { error: `투표 선택지는 최대 ${MAX_POLL_OPTION_LENGTH}자까지 입력할 수 있습니다.` };
+  }
+
+  if (new Set(options.map((option: string) => option.toLowerCase())).size !== options.length) {
+    return { error: "같은 투표 선택지를 중복해서 입력할 수 없습니다." };
+  }
+
+  const durationHours = Number(parsed.duration_hours);
+  if (!Number.isInteger(durationHours) || durationHours < 1 || durationHours > MAX_POLL_DURATION_HOURS) {
+    return { error: `투표 기간은 1~${MAX_POLL_DURATION_HOURS}시간 사이로 선택해주세요.` };
+  }
+
+  return { poll: { options, duration_hours: durationHours } };
+}
+
+/**
+ * 게시물 투표 저장
+ * startsAt: 게시 시각 (예약 게시물은 예약 시각부터 진행)
+ * 실패 시 일부만 저장되지 않도록 polls 행을 삭제 (선택지는 CASCADE)
+ */
+export async function insertPostPoll(
+  supabase: SupabaseClient,
+  postId: string,
+  poll: PollPayload,
+  startsAt: Date
+): Promise<boolean> {
+  const endsAt = new Date(startsAt.getTime() + poll.duration_hours * 60 * 60 * 1000);
+
+  const { data: pollData, error: pollError } = await supabase
+    .from("polls")
+    .insert({
+      post_id: postId,
+      ends_at: endsAt.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (pollError || !pollData) {
+    console.error("[insertPostPoll] Error creating poll:", pollError);
+    return false;
+  }
+
+  const { error: optionsError } = await supabase.from("poll_options").insert(
+    poll.options.map((text, position) => ({
+      poll_id: pollData.id,
+      position,
+      text,
+    }))
+  );
+
+  if (optionsError) {
+    console.error("[insertPostPoll] Error creating poll options:", optionsError);
+    await supabase.from("polls").delete().eq("id", pollData.id);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 여러 게시물의 투표를 한 번에 조회하여 post_id별 Map으로 반환
+ * viewerUserId: 현재 사용자 (내 투표 표시용, 비로그인은 null)
+ * 조회 실패 시 빈 Map을 반환 (투표 없이 게시물 표시)
+ */
+export async function fetchPostPollMap(
+  supabase: SupabaseClient,
+  postIds: string[],
+  viewerUserId: string | null
+): Promise<Map<string, PostPoll>> {
+  const pollMap = new Map<string, PostPoll>();
+  if (postIds.length === 0) {
+    return pollMap;
+  }
+
+  const { data: pollsData, error: pollsError } = await supabase
+    .from("polls")
+    .select("id, post_id, ends_at, poll_options (id, position, text)")
+    .in("post_id", postIds);
+
+  if (pollsError) {
+    console.warn("[fetchPostPollMap] Error fetching polls:", pollsError);
+    return pollMap;
+  }
+
+  if (!pollsData || pollsData.length === 0) {
+    return pollMap;
+  }
+
+  const { data: votesData, error: votesError } = await supabase
+    .from("poll_votes")
+    .select("poll_id, option_id, user_id")
+    .in("poll_id", pollsData.map((poll: any) => poll.id));
+
+  if (votesError) {
+    console.warn("[fetchPostPollMap] Error fetching poll votes:", votesError);
+  }
+
+  const votesCountMap = new Map<string, number>();
+  const viewerVoteMap = new Map<string, string>();
+  (votesData || []).forEach((vote: any) => {
+    votesCountMap.set(vote.option_id, (votesCountMap.get(vote.option_id) || 0) + 1);
+    if (viewerUserId && vote.user_id === viewerUserId) {
+      viewerVoteMap.set(vote.poll_id, vote.option_id);
+    }
+  });
+
+  const now = Date.now();
+  pollsData.forEach((poll: any) => {
+    const isClosed = new Date(poll.ends_at).getTime() <= now;
+    const votedOptionId = viewerVoteMap.get(poll.id) || null;
+    const showResults = isClosed || !!votedOptionId;
+
+    const sortedOptions = [...(poll.poll_options || [])].sort((a: any, b: any) => a.position - b.position);
+    const totalVotes = sortedOptions.reduce(
+      (sum: number, option: any) => sum + (votesCountMap.get(option.id) || 0),
+      0
+    );
+
+    pollMap.set(poll.post_id, {
+      id: poll.id,
+      ends_at: poll.ends_at,
+      is_closed: isClosed,
+      total_votes: showResults ? totalVotes : null,
+      voted_option_id: votedOptionId,
+      options: sortedOptions.map((option: any) => ({
+        id: option.id,
+        text: option.text,
+        votes_count: showResults ? votesCountMap.get(option.id) || 0 : null,
+      })),
+    });
+  });
+
+  return pollMap;
+}
@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-publish-events.ts
+ * @description 새 게시물 알림 기록 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 게시가 끝난 게시물 ID를 post_publish_events에 기록 (홈 피드 Realtime 구독자에게 전달)
+ *
+ * 미디어/태그/투표 등 저장이 모두 끝난 뒤에 호출해야 합니다.
+ * (중간에 실패해 롤백되는 게시물이 알림으로 나가지 않도록)
+ */
+
+/**
+ * 게시 이벤트 기록 (이미 기록된 게시물은 무시)
+ * 알림 기록에 실패해도 게시는 유지되므로 오류는 로그만 남김
+ */
+export async function recordPostPublishEvent(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<void> {
+  const { error } = await supabase.rpc("record_post_publish_event", {
+    p_post_id: postId,
+  });
+
+  if (error) {
+    console.error("[recordPostPublishEvent] Error:", { error, postId });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @file post-settings.ts
+ * @description 게시물별 공개 설정 유틸리티 (좋아요 수 숨기기, 댓글 기능 해제)
+ *
+ * 주요 기능:
+ * - 설정값 파싱 (FormData 문자열 "true" / JSON boolean)
+ * - 좋아요 수 노출 여부 판단 (숨긴 게시물은 작성자에게만 좋아요 수 제공)
+ */
+
+export interface PostSettings {
+  hide_like_count: boolean;
+  comments_disabled: boolean;
+}
+
+export const DEFAULT_POST_SETTINGS: PostSettings = {
+  hide_like_count: false,
+  comments_disabled: false,
+};
+
+/**
+ * 설정 플래그 파싱 (FormData는 "true", JSON은 true만 켜짐으로 처리)
+ */
+export function parsePostSettingFlag(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * 응답에 담을 좋아요 수
+ * - 좋아요 수를 숨긴 게시물은 작성자가 아니면 null (클라이언트는 좋아요 수 영역을 표시하지 않음)
+ */
+export function getVisibleLikesCount(
+  post: { user_id: string; likes_count?: number | null; hide_like_count?: boolean | null },
+  viewerUserId: string | null
+): number | null {
+  if (post.hide_like_count && post.user_id !== viewerUserId) {
+    return null;
+  }
+  return post.likes_count || 0;
+}
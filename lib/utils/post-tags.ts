@@ -0,0 +1,216 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-tags.ts
+ * @description 사진 속 사람 태그 유틸리티
+ *
+ * 주요 기능:
+ * - 요청으로 받은 태그(미디어 순서, x/y 위치, 사용자) 파싱 및 검증
+ * - post_tags 저장
+ * - 여러 게시물의 태그를 한 번에 조회하여 post_id별 Map으로 반환
+ * - 임시저장 미디어 순서 변경/삭제 시 태그의 미디어 순서 재계산
+ *
+ * x, y는 이미지 왼쪽 위 기준 0~1 비율입니다. (게시물 화면 비율로 크롭된 이미지 기준)
+ */
+
+export const MAX_TAGS_PER_MEDIA = 20;
+
+/** 요청/임시저장 형식 (clerk_id, name은 임시저장 복원용) */
+export interface PhotoTagPayloadItem {
+  media_position: number;
+  x: number;
+  y: number;
+  tagged_user_id: string;
+  clerk_id?: string;
+  name?: string;
+}
+
+/** 응답 형식 */
+export interface PhotoTag {
+  media_position: number;
+  x: number;
+  y: number;
+  user: {
+    id: string;
+    clerk_id: string;
+    name: string;
+  };
+}
+
+/** 이미지 한 장 안의 태그 (작성 화면/오버레이용, 미디어 순서 제외) */
+export type PhotoTagPoint = Omit<PhotoTag, "media_position">;
+
+const roundPosition = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * 사람 태그 파싱 (JSON 문자열 또는 배열)
+ * mediaCount: 태그할 수 있는 이미지 수 (동영상 게시물은 0)
+ * 같은 이미지에 같은 사용자를 여러 번 태그하면 마지막 위치만 유지
+ */
+export function parsePhotoTagsPayload(
+  raw: unknown,
+  mediaCount: number
+): { tags: PhotoTagPayloadItem[] } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { tags: [] };
+  }
+
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "사람 태그 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { error: "사람 태그 형식이 올바르지 않습니다." };
+  }
+
+  const tagMap = new Map<string, PhotoTagPayloadItem>();
+  for (const item of parsed) {
+    const position = Number(item?.media_position);
+    const x = Number(item?.x);
+    const y = Number(item?.y);
+    if (
+      !Number.isInteger(position) ||
+      !Number.isFinite(x) ||
+      !Number.isFinite(y) ||
+      typeof item?.tagged_user_id !== "string" ||
+      !item.tagged_user_id
+    ) {
+      return { error: "사람 태그 형식이 올바르지 않습니다." };
+    }
+    if (position < 0 || position >= mediaCount) {
+      return { error: "사람 태그는 이미지에만 추가할 수 있습니다." };
+    }
+    if (x < 0 || x > 1 || y < 0 || y > 1) {
+      return { error: "사람 태그 위치가 올바르지 않습니다." };
+    }
+
+    tagMap.set(`${position}-${item.tagged_user_id}`, {
+      media_position: position,
+      x: roundPosition(x),
+      y: roundPosition(y),
+      tagged_user_id: item.tagged_user_id,
+      clerk_id: typeof item.clerk_id === "string" ? item.clerk_id : undefined,
+      name: typeof item.name === "string" ? item.name : undefined,
+    });
+  }
+
+  const tags = [...tagMap.values()];
+  for (let position = 0; position < mediaCount; position++) {
+    if (tags.filter((tag) => tag.media_position === position).length > MAX_TAGS_PER_MEDIA) {
+      return { error: `이미지 한 장에 최대 ${MAX_TAGS_PER_MEDIA}명까지 태그할 수 있습니다.` };
+    }
+  }
+
+  return { tags };
+}
+
+/**
+ * 게시물 사람 태그 저장 (존재하지 않는 사용자가 있으면 실패)
+ */
+export async function insertPostTags(
+  supabase: SupabaseClient,
+  postId: string,
+  tags: PhotoTagPayloadItem[]
+): Promise<boolean> {
+  if (tags.length === 0) {
+    return true;
+  }
+
+  const { error } = await supabase.from("post_tags").insert(
+    tags.map((tag) => ({
+      post_id: postId,
+      media_position: tag.media_position,
+      tagged_user_id: tag.tagged_user_id,
+      x: tag.x,
+      y: tag.y,
+    }))
+  );
+
+  if (error) {
+    console.error("[insertPostTags] Error saving post tags:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 여러 게시물의 사람 태그를 한 번에 조회하여 post_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (태그 없이 게시물 표시)
+ */
+export async function fetchPostTagsMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PhotoTag[]>> {
+  const tagsMap = new Map<string, PhotoTag[]>();
+  if (postIds.length === 0) {
+    return tagsMap;
+  }
+
+  const { data, error } = await supabase
+    .from("post_tags")
+    .select("post_id, media_position, x, y, tagged_user:tagged_user_id (id, clerk_id, name)")
+    .in("post_id", postIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("[fetchPostTagsMap] Error fetching post tags:", error);
+    return tagsMap;
+  }
+
+  (data || []).forEach((row: any) => {
+    if (!row.tagged_user) {
+      return;
+    }
+    if (!tagsMap.has(row.post_id)) {
+      tagsMap.set(row.post_id, []);
+    }
+    tagsMap.get(row.post_id)!.push({
+      media_position: row.media_position,
+      x: Number(row.x),
+      y: Number(row.y),
+      user: {
+        id: row.tagged_user.id,
+        clerk_id: row.tagged_user.clerk_id,
+        name: row.tagged_user.name,
+      },
+    });
+  });
+
+  return tagsMap;
+}
+
+/**
+ * 임시저장 태그를 응답 형식으로 변환
+ */
+export function formatDraftTags(tags: PhotoTagPayloadItem[] | null | undefined): PhotoTag[] {
+  return (tags || []).map((tag) => ({
+    media_position: tag.media_position,
+    x: tag.x,
+    y: tag.y,
+    user: {
+      id: tag.tagged_user_id,
+      clerk_id: tag.clerk_id || "",
+      name: tag.name || "",
+    },
+  }));
+}
+
+/**
+ * 임시저장 미디어 순서 변경/삭제에 맞춰 태그의 미디어 순서 재계산
+ * 삭제된 미디어의 태그는 제거
+ */
+export function remapTagPositions(
+  tags: PhotoTagPayloadItem[] | null | undefined,
+  previousMediaIds: string[],
+  nextMediaIds: string[]
+): PhotoTagPayloadItem[] {
+  return (tags || []).flatMap((tag) => {
+    const nextPosition = nextMediaIds.indexOf(previousMediaIds[tag.media_position]);
+    return nextPosition === -1 ? [] : [{ ...tag, media_position: nextPosition }];
+  });
+}
@@ -0,0 +1,268 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * @file post-workout.ts
+ * @description 게시물 운동 기록(종목/세트/반복/중량/시간) 유틸리티
+ *
+ * 주요 기능:
+ * - 요청으로 받은 운동 기록 파싱 및 검증
+ * - workouts / workout_exercises / workout_sets 저장
+ * - 여러 게시물의 운동 기록을 한 번에 조회하여 post_id별 Map으로 반환
+ * - 화면 표시용 요약 (종목 수, 세트 수, 총 볼륨)
+ */
+
+export const MAX_WORKOUT_EXERCISES = 20;
+export const MAX_WORKOUT_SETS = 20; // 종목당
+export const MAX_EXERCISE_NAME_LENGTH = 50;
+
+export interface WorkoutSet {
+  reps: number | null;
+  weight_kg: number | null;
+  duration_seconds: number | null;
+}
+
+export interface WorkoutExercise {
+  name: string;
+  sets: WorkoutSet[];
+}
+
+export interface PostWorkout {
+  duration_minutes: number | null; // 총 운동 시간
+  exercises: WorkoutExercise[];
+}
+
+/**
+ * 양수(또는 0 허용) 숫자 필드 파싱
+ * 빈 값은 null, 범위를 벗어나거나 숫자가 아니면 undefined (잘못된 값)
+ */
+function parseNumberField(
+  value: unknown,
+  { max, allowZero = false, integer = true }: { max: number; allowZero?: boolean; integer?: boolean }
+): number | null | undefined {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+    return undefined;
+  }
+  if (number > max || (allowZero ? number < 0 : number <= 0)) {
+    return undefined;
+  }
+
+  return integer ? number : Math.round(number * 100) / 100;
+}
+
+/**
+ * 운동 기록 파싱 (JSON 문자열 또는 객체)
+ * 값이 없으면 운동 기록 없음(workout: null)
+ */
+export function parseWorkoutPayload(
+  raw: unknown
+): { workout: PostWorkout | null } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { workout: null };
+  }
+
+  let parsed: any = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "운동 기록 형식이 올바르지 않습니다." };
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.exercises)) {
+    return { error: "운동 기록 형식이 올바르지 않습니다." };
+  }
+
+  const durationMinutes = parseNumberField(parsed.duration_minutes, { max: 1440 });
+  if (durationMinutes === undefined) {
+    return { error: "총 운동 시간은 1~1440분 사이로 입력해주세요." };
+  }
+
+  if (parsed.exercises.length === 0) {
+    return { error: "운동 종목을 하나 이상 입력해주세요." };
+  }
+
+  if (parsed.exercises.length > MAX_WORKOUT_EXERCISES) {
+    return { error: `운동 종목은 최대 ${MAX_WORKOUT_EXERCISES}개까지 입력할 수 있습니다.` };
+  }
+
+  const exercises: WorkoutExercise[] = [];
+  for (const exercise of parsed.exercises) {
+    const name = typeof exercise?.name === "string" ? exercise.name.trim() : "";
+    if (!name) {
+      return { error: "운동 종목 이름을 입력해주세요." };
+    }
+    if (name.length > MAX_EXERCISE_NAME_LENGTH) {
+      return { error: `운동 종목 이름은 최대 ${MAX_EXERCISE_NAME_LENGTH}자까지 입력할 수 있습니다.` };
+    }
+
+    const rawSets = Array.isArray(exercise.sets) ? exercise.sets : [];
+    if (rawSets.length === 0) {
+      return { error: `${name}: 세트를 하나 이상 입력해주세요.` };
+    }
+    if (rawSets.length > MAX_WORKOUT_SETS) {
+      return { error: `${name}: 세트는 최대 ${MAX_WORKOUT_SETS}개까지 입력할 수 있습니다.` };
+    }
+
+    const sets: WorkoutSet[] = [];
+    for (const set of rawSets) {
+      const reps = parseNumberField(set?.reps, { max: 1000 });
+      const weightKg = parseNumberField(set?.weight_kg, { max: 1000, allowZero: true, integer: false });
+      const durationSeconds = parseNumberField(set?.duration_seconds, { max: 86400 });
+
+      if (reps === undefined || weightKg === undefined || durationSeconds === undefined) {
+        return { error: `${name}: 세트 값이 올바르지 않습니다.` };
+      }
+      if (reps === null && durationSeconds === null) {
+        return { error: `${name}: 세트마다 횟수 또는 시간을 입력해주세요.` };
+      }
+
+      sets.push({ reps, weight_kg: weightKg, duration_seconds: durationSeconds });
+    }
+
+    exercises.push({ name, sets });
+  }
+
+  return { workout: { duration_minutes: durationMinutes, exercises } };
+}
+
+/**
+ * 게시물 운동 기록 저장
+ * 실패 시 일부만 저장되지 않도록 workouts 행을 삭제 (종목/세트는 CASCADE)
+ */
+export async function insertPostWorkout(
+  supabase: SupabaseClient,
+  postId: string,
+  workout: PostWorkout
+): Promise<boolean> {
+  const { data: workoutData, error: workoutError } = await supabase
+    .from("workouts")
+    .insert({
+      post_id: postId,
+      duration_minutes: workout.duration_minutes,
+    })
+    .select("id")
+    .single();
+
+  if (workoutError || !workoutData) {
+    console.error("[insertPostWorkout] Error creating workout:", workoutError);
+    return false;
+  }
+
+  const { data: exerciseData, error: exerciseError } = await supabase
+    .from("workout_exercises")
+    .insert(
+      workout.exercises.map((exercise, position) => ({
+        workout_id: workoutData.id,
+        position,
+        name: exercise.name,
+      }))
+    )
+    .select("id, position");
+
+  if (exerciseError || !exerciseData) {
+    console.error("[insertPostWorkout] Error creating exercises:", exerciseError);
+    await supabase.from("workouts").delete().eq("id", workoutData.id);
+    return false;
+  }
+
+  const exerciseIdByPosition = new Map<number, string>(
+    exerciseData.map((row) => [row.position, row.id])
+  );
+
+  const { error: setsError } = await supabase.from("workout_sets").insert(
+    workout.exercises.flatMap((exercise, exercisePosition) =>
+      exercise.sets.map((set, position) => ({
+        exercise_id: exerciseIdByPosition.get(exercisePosition),
+        position,
+        reps: set.reps,
+        weight_kg: set.weight_kg,
+        duration_seconds: set.duration_seconds,
+      }))
+    )
+  );
+
+  if (setsError) {
+    console.error("[insertPostWorkout] Error creating sets:", setsError);
+    await supabase.from("workouts").delete().eq("id", workoutData.id);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 여러 게시물의 운동 기록을 한 번에 조회하여 post_id별 Map으로 반환
+ * 조회 실패 시 빈 Map을 반환 (운동 기록 없이 게시물 표시)
+ */
+export async function fetchPostWorkoutMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PostWorkout>> {
+  const workoutMap = new Map<string, PostWorkout>();
+  if (postIds.length === 0) {
+    return workoutMap;
+  }
+
+  const { data, error } = await supabase
+    .from("workouts")
+    .select(
+      "post_id, duration_minutes, workout_exercises (position, name, workout_sets (position, reps, weight_kg, duration_seconds))"
+    )
+    .in("post_id", postIds);
+
+  if (error) {
+    console.warn("[fetchPostWorkoutMap] Error fetching workouts:", error);
+    return workoutMap;
+  }
+
+  (data || []).forEach((row: any) => {
+    const exercises = [...(row.workout_exercises || [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((exercise: any) => ({
+        name: exercise.name,
+        sets: [...(exercise.workout_sets || [])]
+          .sort((a: any, b: any) => a.position - b.position)
+          .map((set: any) => ({
+            reps: set.reps ?? null,
+            weight_kg: set.weight_kg !== null && set.weight_kg !== undefined ? Number(set.weight_kg) : null,
+            duration_seconds: set.duration_seconds ?? null,
+          })),
+      }));
+
+    workoutMap.set(row.post_id, {
+      duration_minutes: row.duration_minutes ?? null,
+      exercises,
+    });
+  });
+
+  return workoutMap;
+}
+
+/**
+ * 운동 기록 요약 (종목 수, 세트 수, 총 볼륨 = 중량 × 횟수 합계)
+ */
+export function summarizeWorkout(workout: PostWorkout) {
+  let setCount = 0;
+  let volumeKg = 0;
+
+  workout.exercises.forEach((exercise) => {
+    exercise.sets.forEach((set) => {
+      setCount += 1;
+      if (set.weight_kg && set.reps) {
+        volumeKg += set.weight_kg * set.reps;
+      }
+    });
+  });
+
+  return {
+    exerciseCount: workout.exercises.length,
+    setCount,
+    volumeKg: Math.round(volumeKg * 10) / 10,
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * @file schedule-limits.ts
+ * @description 게시물 예약 시각 제한 상수 (서버/클라이언트 공용)
+ *
+ * 서버 검증(lib/utils/scheduled-posts.ts)과 작성 화면의 예약 시각 입력 범위가 같은 값을 사용합니다.
+ */
+
+/** 최소 예약 간격 (지금부터 5분 뒤 이후) */
+export const MIN_SCHEDULE_LEAD_MINUTES = 5;
+
+/** 최대 예약 기간 */
+export const MAX_SCHEDULE_DAYS = 30;
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  extractHashtags,
+  insertPostMentions,
+  linkPostHashtags,
+  parseMentionPayload,
+} from "@/lib/utils/post-caption";
+import { recordPostPublishEvent } from "@/lib/utils/post-publish-events";
+import { MAX_SCHEDULE_DAYS, MIN_SCHEDULE_LEAD_MINUTES } from "@/lib/utils/schedule-limits";
+
+/**
+ * @file scheduled-posts.ts
+ * @description 게시물 예약 게시 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 요청으로 받은 예약 시각(publish_at) 검증
+ * - 게시 시각이 지난 예약 게시물을 게시 상태로 전환
+ *   - created_at을 실제 게시 시각(지금)으로 맞춰 피드에서 새 게시물로 보이게 함
+ *     (예약 시각은 워커 실행 간격만큼 지났을 수 있어, 그 값을 쓰면 이미 지나간 커서 뒤로 정렬되어 목록에서 빠짐)
+ *   - 해시태그 연결 및 멘션 저장은 게시 시점에 처리 (예약 중에는 해시태그 페이지/알림에 노출되지 않음)
+ *   - 처리가 끝난 뒤 새 게시물 알림 기록 (상태 전환 트리거가 먼저 기록했으면 무시됨)
+ * - 서버 프로세스 안에서 주기적으로 실행되는 게시 워커 (instrumentation.ts에서 시작)
+ */
+
+/** 워커 1회 실행당 게시할 최대 게시물 수 */
+const PUBLISH_BATCH_SIZE = 50;
+
+/** 게시 워커 실행 간격 */
+const PUBLISHER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 예약 시각 파싱 및 검증
+ * 값이 없으면 즉시 게시(publishAt: null)
+ */
+export function parsePublishAt(
+  raw: unknown
+): { publishAt: string | null } | { error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { publishAt: null };
+  }
+
+  if (typeof raw !== "string") {
+    return { error: "예약 시각 형식이 올바르지 않습니다." };
+  }
+
+  const publishAt = new Date(raw);
+  if (Number.isNaN(publishAt.getTime())) {
+    return { error: "예약 시각 형식이 올바르지 않습니다." };
+  }
+
+  const now = Date.now();
+  if (publishAt.getTime() < now + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000) {
+    return { error: `예약 시각은 지금부터 ${MIN_SCHEDULE_LEAD_MINUTES}분 이후로 설정해주세요.` };
+  }
+
+  if (publishAt.getTime() > now + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `최대 ${MAX_SCHEDULE_DAYS}일 이후까지만 예약할 수 있습니다.` };
+  }
+
+  return { publishAt: publishAt.toISOString() };
+}
+
+/**
+ * 게시 시각이 지난 예약 게시물 게시
+ * @returns 게시한 게시물 수
+ */
+export async function publishDuePosts(supabase: SupabaseClient): Promise<number> {
+  const { data: duePosts, error } = await supabase
+    .from("posts")
+    .select("id, user_id, caption, pending_mentions")
+    .eq("status", "scheduled")
+    .lte("publish_at", new Date().toISOString())
+    .order("publish_at", { ascending: true })
+    .limit(PUBLISH_BATCH_SIZE);
+
+  if (error) {
+    console.error("[publishDuePosts] Error fetching scheduled posts:", error);
+    return 0;
+  }
+
+  let publishedCount = 0;
+
+  for (const post of duePosts || []) {
+    // status 조건으로 한 번만 전환 (워커가 겹쳐 실행되거나 사용자가 취소한 경우 건너뜀)
+    const { data: claimed, error: updateError } = await supabase
+      .from("posts")
+      .update({
+        status: "published",
+        created_at: new Date().toISOString(),
+        pending_mentions: null,
+      })
+      .eq("id", post.id)
+      .eq("status", "scheduled")
+      .select("id");
+
+    if (updateError) {
+      console.error("[publishDuePosts] Error publishing post:", {
+        error: updateError,
+        postId: post.id,
+      });
+      continue;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    await linkPostHashtags(supabase, post.id, extractHashtags(post.caption));
+    await insertPostMentions(
+      supabase,
+      post.id,
+      post.user_id,
+      parseMentionPayload(post.pending_mentions)
+    );
+    await recordPostPublishEvent(supabase, post.id);
+
+    publishedCount += 1;
+  }
+
+  return publishedCount;
+}
+
+/**
+ * 게시 워커 시작 (서버 프로세스당 한 번만 실행)
+ * 개발 서버의 모듈 재로딩에도 타이머가 중복되지 않도록 globalThis에 보관
+ */
+export function startScheduledPostPublisher(): void {
+  const globalState = globalThis as typeof globalThis & {
+    __scheduledPostPublisher?: ReturnType<typeof setInterval>;
+  };
+
+  if (globalState.__scheduledPostPublisher) {
+    return;
+  }
+
+  let isRunning = false;
+  const run = async () => {
+    // 이전 실행이 끝나지 않았으면 건너뜀
+    if (isRunning) {
+      return;
+    }
+    isRunning = true;
+    try {
+      const publishedCount = await publishDuePosts(getServiceRoleClient());
+      if (publishedCount > 0) {
+        console.log(`[scheduled-post-publisher] Published ${publishedCount} post(s)`);
+      }
+    } catch (error) {
+      console.error("[scheduled-post-publisher] Error:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  globalState.__scheduledPostPublisher = setInterval(run, PUBLISHER_INTERVAL_MS);
+  void run();
+}
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toCursorPage, type RankedCursor } from "@/lib/utils/pagination";
+
+/**
+ * @file trending.ts
+ * @description 탐색 탭 인기 게시물 / 인기 해시태그 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 최근 TRENDING_WINDOW_HOURS 동안의 좋아요, 댓글, 해시태그 사용으로 인기 점수 계산
+ *   (계산식은 supabase/migrations/20251109190000_create_trending_functions.sql 참고)
+ * - 인기 게시물 한 페이지 조회 (내 게시물과 팔로우한 계정 제외, 커서에 계산 기준 시각 포함)
+ * - 인기 해시태그 목록 조회
+ */
+
+export const TRENDING_WINDOW_HOURS = 48;
+
+export interface TrendingPostsPage {
+  postIds: string[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface TrendingHashtag {
+  id: string;
+  tag: string;
+  posts_count: number;
+}
+
+/**
+ * 인기 게시물 한 페이지 조회 (점수 역순)
+ * 첫 페이지는 지금 시각을 as_of로 고정하고, 이후 페이지는 커서의 as_of로 같은 윈도우를 다시 계산
+ * 조회에 실패하면 null
+ */
+export async function fetchTrendingPostsPage(
+  supabase: SupabaseClient,
+  {
+    viewerId,
+    cursor,
+    limit,
+  }: {
+    viewerId: string | null;
+    cursor: RankedCursor | null;
+    limit: number;
+  }
+): Promise<TrendingPostsPage | null> {
+  const asOf = cursor?.as_of || new Date().toISOString();
+
+  const { data, error } = await supabase.rpc("trending_posts", {
+    p_viewer_id: viewerId,
+    p_as_of: asOf,
+    p_window_hours: TRENDING_WINDOW_HOURS,
+    p_after_score: cursor?.score ?? null,
+    p_after_post_id: cursor?.id ?? null,
+    p_limit: limit + 1,
+  });
+
+  if (error) {
+    console.error("[fetchTrendingPostsPage] Error:", error);
+    return null;
+  }
+
+  const { items, hasMore, nextCursor } = toCursorPage(
+    (data || []) as Array<{ post_id: string; score: number | string }>,
+    limit,
+    (row) => ({ as_of: asOf, score: Number(row.score), id: row.post_id })
+  );
+
+  return {
+    postIds: items.map((row) => row.post_id),
+    hasMore,
+    nextCursor,
+  };
+}
+
+/**
+ * 인기 해시태그 목록 (점수 역순)
+ * 조회에 실패하면 null
+ */
+export async function fetchTrendingHashtags(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<TrendingHashtag[] | null> {
+  const since = new Date(Date.now() - TRENDING_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase.rpc("trending_hashtags", {
+    p_since: since,
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error("[fetchTrendingHashtags] Error:", error);
+    return null;
+  }
+
+  return ((data || []) as Array<{ hashtag_id: string; tag: string; posts_count: number | string }>).map(
+    (row) => ({
+      id: row.hashtag_id,
+      tag: row.tag,
+      posts_count: Number(row.posts_count),
+    })
+  );
+}
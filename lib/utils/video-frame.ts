@@ -0,0 +1,92 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import type { VideoContainer } from "@/lib/utils/video-validation";
+
+/**
+ * @file video-frame.ts
+ * @description 동영상 포스터 프레임 추출 유틸리티 (서버 전용)
+ *
+ * 주요 기능:
+ * - 업로드된 동영상에서 ffmpeg로 포스터 프레임을 추출하여 JPEG 생성
+ * - 브라우저의 captureVideoPoster와 같은 시점(1초, 짧은 동영상은 절반 지점)의 프레임 사용
+ *
+ * 포스터는 클라이언트가 보낸 이미지를 쓰지 않고 항상 서버에서 동영상으로부터 만듭니다.
+ * (포스터 기준 중복 이미지 감지를 다른 이미지로 우회할 수 없도록)
+ *
+ * @dependencies
+ * - @ffmpeg-installer/ffmpeg: 플랫폼별 ffmpeg 실행 파일
+ */
+
+const POSTER_MAX_WIDTH = 1080;
+const POSTER_SEEK_SECONDS = 1;
+const FFMPEG_TIMEOUT_MS = 30_000;
+const FFMPEG_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+function runFfmpeg(args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      ffmpegInstaller.path,
+      args,
+      { encoding: "buffer", timeout: FFMPEG_TIMEOUT_MS, maxBuffer: FFMPEG_MAX_OUTPUT_BYTES },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * 동영상에서 포스터 프레임을 추출하여 JPEG 데이터 반환 (실패 시 null)
+ * MP4는 moov 박스가 파일 끝에 있을 수 있어 파이프 대신 임시 파일로 읽음
+ */
+export async function extractVideoPosterFrame(
+  buffer: ArrayBuffer,
+  container: VideoContainer,
+  durationSeconds: number
+): Promise<ArrayBuffer | null> {
+  const seekSeconds = Math.min(POSTER_SEEK_SECONDS, durationSeconds / 2);
+  let tempDir: string | null = null;
+
+  try {
+    tempDir = await mkdtemp(path.join(tmpdir(), "video-poster-"));
+    const inputPath = path.join(tempDir, `input.${container}`);
+    await writeFile(inputPath, Buffer.from(buffer));
+
+    const frame = await runFfmpeg([
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-ss",
+      seekSeconds.toFixed(3),
+      "-i",
+      inputPath,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale='min(${POSTER_MAX_WIDTH},iw)':-2`,
+      "-f",
+      "image2pipe",
+      "-vcodec",
+      "mjpeg",
+      "-q:v",
+      "3",
+      "pipe:1",
+    ]);
+
+    return frame.length > 0 ? new Uint8Array(frame).buffer : null;
+  } catch (error) {
+    console.error("Failed to extract video poster frame:", error);
+    return null;
+  } finally {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @file video-poster.ts
+ * @description 동영상 포스터 프레임 추출 유틸리티 (브라우저 전용)
+ *
+ * 주요 기능:
+ * - video 요소로 메타데이터(재생 시간, 크기) 읽기
+ * - 지정한 시점으로 이동 후 Canvas로 프레임을 캡처하여 JPEG Blob 생성
+ *
+ * 재생 시간과 포스터는 업로드 전 안내/미리보기용이며, 실제 제한 검증과 저장할 포스터 추출은 서버에서 합니다.
+ */
+
+const POSTER_MAX_WIDTH = 1080;
+const POSTER_SEEK_SECONDS = 1;
+
+export interface VideoPosterResult {
+  poster: Blob;
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+function waitForEvent(target: HTMLVideoElement, eventName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error("동영상을 읽을 수 없습니다."));
+    };
+    const cleanup = () => {
+      target.removeEventListener(eventName, handleEvent);
+      target.removeEventListener("error", handleError);
+    };
+    target.addEventListener(eventName, handleEvent);
+    target.addEventListener("error", handleError);
+  });
+}
+
+/**
+ * 동영상 파일에서 포스터 프레임과 재생 시간 추출
+ */
+export async function captureVideoPoster(file: File): Promise<VideoPosterResult> {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.preload = "auto";
+  video.muted = true;
+  video.playsInline = true;
+  video.src = objectUrl;
+
+  try {
+    await waitForEvent(video, "loadeddata");
+
+    const durationSeconds = video.duration;
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+      throw new Error("동영상 길이를 확인할 수 없습니다.");
+    }
+
+    // 첫 프레임이 검은 화면인 경우가 많아 약간 뒤의 프레임 사용
+    const seekTo = Math.min(POSTER_SEEK_SECONDS, durationSeconds / 2);
+    if (seekTo > 0) {
+      const seeked = waitForEvent(video, "seeked");
+      video.currentTime = seekTo;
+      await seeked;
+    }
+
+    const scale = Math.min(1, POSTER_MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Canvas context를 가져올 수 없습니다.");
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const poster = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => {
+          if (!blob) {
+            reject(new Error("포스터 이미지 생성에 실패했습니다."));
+            return;
+          }
+          resolve(blob);
+        },
+        "image/jpeg",
+        0.9
+      );
+    });
+
+    return {
+      poster,
+      durationSeconds,
+      width: video.videoWidth,
+      height: video.videoHeight,
+    };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
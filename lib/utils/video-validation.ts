@@ -0,0 +1,345 @@
+/**
+ * @file video-validation.ts
+ * @description 동영상 업로드 서버 검증 유틸리티
+ *
+ * 주요 기능:
+ * - 파일 시그니처로 컨테이너 판별 (MP4 / WebM)
+ * - 컨테이너 헤더에서 재생 시간 추출
+ *   - MP4: moov > mvhd 박스의 timescale / duration
+ *   - WebM: Segment > Info 의 TimecodeScale / Duration
+ * - 허용 형식, 용량, 재생 시간 제한 검증
+ * - MP4 메타데이터(moov > udta / meta) 제거 및 위치 정보 잔존 여부 검사
+ *
+ * 브라우저가 보낸 MIME 타입은 신뢰하지 않고 실제 바이트를 기준으로 판별합니다.
+ */
+
+export type VideoContainer = "mp4" | "webm";
+
+export const ALLOWED_VIDEO_TYPES = ["video/mp4", "video/webm"];
+export const MAX_VIDEO_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_VIDEO_DURATION_SECONDS = 60;
+
+type VideoValidationResult =
+  | { ok: true; container: VideoContainer; durationSeconds: number }
+  | { ok: false; error: string };
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const EBML_DOCTYPE_ID = 0x4282;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  );
+}
+
+function readUint64(bytes: Uint8Array, offset: number): number {
+  return readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * 파일 시그니처로 컨테이너 판별
+ */
+export function detectVideoContainer(bytes: Uint8Array): VideoContainer | null {
+  if (bytes.length < 12) {
+    return null;
+  }
+
+  // MP4: 첫 박스가 ftyp
+  if (readAscii(bytes, 4, 4) === "ftyp") {
+    return "mp4";
+  }
+
+  // WebM: EBML 헤더 + DocType "webm"
+  if (readUint32(bytes, 0) === EBML_HEADER_ID) {
+    const header = readEbmlElement(bytes, 0, bytes.length);
+    if (!header) {
+      return null;
+    }
+    const docType = findEbmlChild(bytes, header.dataStart, header.dataEnd, EBML_DOCTYPE_ID);
+    if (docType && readAscii(bytes, docType.dataStart, docType.dataEnd - docType.dataStart) === "webm") {
+      return "webm";
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// MP4 (ISO BMFF)
+// ============================================
+
+function findMp4Box(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  type: string
+): { headerStart: number; dataStart: number; dataEnd: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32(bytes, offset);
+    const boxType = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      // 64비트 크기
+      if (offset + 16 > end) return null;
+      size = readUint64(bytes, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      // 파일 끝까지
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) {
+      return null;
+    }
+
+    if (boxType === type) {
+      return { headerStart: offset, dataStart: offset + headerSize, dataEnd: offset + size };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function getMp4DurationSeconds(bytes: Uint8Array): number | null {
+  const moov = findMp4Box(bytes, 0, bytes.length, "moov");
+  if (!moov) return null;
+
+  const mvhd = findMp4Box(bytes, moov.dataStart, moov.dataEnd, "mvhd");
+  if (!mvhd) return null;
+
+  const version = bytes[mvhd.dataStart];
+  let timescale: number;
+  let duration: number;
+
+  if (version === 1) {
+    // version(1) + flags(3) + creation(8) + modification(8)
+    timescale = readUint32(bytes, mvhd.dataStart + 20);
+    duration = readUint64(bytes, mvhd.dataStart + 24);
+  } else {
+    // version(1) + flags(3) + creation(4) + modification(4)
+    timescale = readUint32(bytes, mvhd.dataStart + 12);
+    duration = readUint32(bytes, mvhd.dataStart + 16);
+  }
+
+  if (!timescale) return null;
+  return duration / timescale;
+}
+
+// 촬영 위치(©xyz, ISO 6709)와 기기 정보가 담기는 moov 하위 메타데이터 박스
+const MP4_METADATA_BOX_TYPES = ["udta", "meta"];
+const MP4_LOCATION_MARKERS = [
+  [0xa9, 0x78, 0x79, 0x7a], // "©xyz"
+  [0x49, 0x53, 0x4f, 0x36, 0x37, 0x30, 0x39], // "ISO6709" (com.apple.quicktime.location.ISO6709)
+];
+
+/**
+ * MP4 메타데이터 박스를 내용을 0으로 채운 free 박스로 바꿔 제거 (bytes를 직접 수정)
+ * 박스 크기와 오프셋은 그대로 두므로 재생에는 영향 없음
+ */
+export function stripMp4Metadata(bytes: Uint8Array): void {
+  const moov = findMp4Box(bytes, 0, bytes.length, "moov");
+  if (!moov) return;
+
+  for (const type of MP4_METADATA_BOX_TYPES) {
+    let box = findMp4Box(bytes, moov.dataStart, moov.dataEnd, type);
+    while (box) {
+      // 박스 타입은 크기(4바이트) 바로 뒤 (64비트 크기여도 위치 동일)
+      bytes.set([0x66, 0x72, 0x65, 0x65], box.headerStart + 4); // "free"
+      bytes.fill(0, box.dataStart, box.dataEnd);
+      box = findMp4Box(bytes, moov.dataStart, moov.dataEnd, type);
+    }
+  }
+}
+
+/**
+ * MP4 moov 박스에 위치 정보가 남아 있는지 검사
+ */
+export function hasMp4LocationMetadata(bytes: Uint8Array): boolean {
+  const moov = findMp4Box(bytes, 0, bytes.length, "moov");
+  if (!moov) return false;
+
+  return MP4_LOCATION_MARKERS.some((marker) => {
+    for (let offset = moov.dataStart; offset + marker.length <= moov.dataEnd; offset++) {
+      if (marker.every((byte, i) => bytes[offset + i] === byte)) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+// ============================================
+// WebM (EBML)
+// ============================================
+
+interface EbmlVint {
+  value: number;
+  length: number;
+  unknown: boolean;
+}
+
+function readEbmlVint(bytes: Uint8Array, offset: number, keepMarker: boolean): EbmlVint | null {
+  const first = bytes[offset];
+  if (first === undefined) return null;
+
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8 || offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) {
+      allOnes = false;
+    }
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readEbmlElement(
+  bytes: Uint8Array,
+  offset: number,
+  end: number
+): { id: number; dataStart: number; dataEnd: number } | null {
+  const id = readEbmlVint(bytes, offset, true);
+  if (!id) return null;
+  const size = readEbmlVint(bytes, offset + id.length, false);
+  if (!size) return null;
+
+  const dataStart = offset + id.length + size.length;
+  // 크기를 알 수 없는 요소(스트리밍 녹화)는 부모 끝까지로 간주
+  const dataEnd = size.unknown ? end : Math.min(end, dataStart + size.value);
+  return { id: id.value, dataStart, dataEnd };
+}
+
+function findEbmlChild(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  targetId: number
+): { dataStart: number; dataEnd: number } | null {
+  let offset = start;
+  while (offset < end) {
+    const element = readEbmlElement(bytes, offset, end);
+    if (!element || element.dataEnd <= offset) return null;
+    if (element.id === targetId) {
+      return element;
+    }
+    offset = element.dataEnd;
+  }
+  return null;
+}
+
+function readEbmlUint(bytes: Uint8Array, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) {
+    value = value * 256 + bytes[i];
+  }
+  return value;
+}
+
+function getWebmDurationSeconds(bytes: Uint8Array): number | null {
+  const header = readEbmlElement(bytes, 0, bytes.length);
+  if (!header) return null;
+
+  const segment = findEbmlChild(bytes, header.dataEnd, bytes.length, SEGMENT_ID);
+  if (!segment) return null;
+
+  const info = findEbmlChild(bytes, segment.dataStart, segment.dataEnd, INFO_ID);
+  if (!info) return null;
+
+  const durationElement = findEbmlChild(bytes, info.dataStart, info.dataEnd, DURATION_ID);
+  if (!durationElement) return null;
+
+  const timecodeScaleElement = findEbmlChild(bytes, info.dataStart, info.dataEnd, TIMECODE_SCALE_ID);
+  const timecodeScale = timecodeScaleElement
+    ? readEbmlUint(bytes, timecodeScaleElement.dataStart, timecodeScaleElement.dataEnd)
+    : 1000000; // 기본값: 1ms
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const durationSize = durationElement.dataEnd - durationElement.dataStart;
+  let duration: number;
+  if (durationSize === 4) {
+    duration = view.getFloat32(durationElement.dataStart);
+  } else if (durationSize === 8) {
+    duration = view.getFloat64(durationElement.dataStart);
+  } else {
+    return null;
+  }
+
+  return (duration * timecodeScale) / 1e9;
+}
+
+/**
+ * 컨테이너 헤더에서 재생 시간(초) 추출
+ */
+export function getVideoDurationSeconds(
+  bytes: Uint8Array,
+  container: VideoContainer
+): number | null {
+  try {
+    const duration =
+      container === "mp4" ? getMp4DurationSeconds(bytes) : getWebmDurationSeconds(bytes);
+    return duration !== null && Number.isFinite(duration) && duration > 0 ? duration : null;
+  } catch (err) {
+    console.warn("[getVideoDurationSeconds] Failed to parse container:", err);
+    return null;
+  }
+}
+
+/**
+ * 업로드된 동영상 파일 검증 (형식, 용량, 재생 시간)
+ */
+export function validateVideoFile(
+  buffer: ArrayBuffer,
+  mimeType: string
+): VideoValidationResult {
+  if (!ALLOWED_VIDEO_TYPES.includes(mimeType)) {
+    return { ok: false, error: "MP4 또는 WebM 동영상만 업로드할 수 있습니다." };
+  }
+
+  if (buffer.byteLength > MAX_VIDEO_FILE_SIZE) {
+    return { ok: false, error: "동영상 크기는 50MB를 초과할 수 없습니다." };
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const container = detectVideoContainer(bytes);
+  if (!container) {
+    return { ok: false, error: "지원하지 않는 동영상 형식입니다. MP4 또는 WebM 파일을 확인해주세요." };
+  }
+
+  if (`video/${container}` !== mimeType) {
+    return { ok: false, error: "동영상 형식이 파일 확장자와 일치하지 않습니다." };
+  }
+
+  const durationSeconds = getVideoDurationSeconds(bytes, container);
+  if (durationSeconds === null) {
+    return { ok: false, error: "동영상 길이를 확인할 수 없습니다. 다른 파일로 다시 시도해주세요." };
+  }
+
+  if (durationSeconds > MAX_VIDEO_DURATION_SECONDS) {
+    return {
+      ok: false,
+      error: `동영상은 최대 ${MAX_VIDEO_DURATION_SECONDS}초까지 업로드할 수 있습니다.`,
+    };
+  }
+
+  return { ok: true, container, durationSeconds };
+}
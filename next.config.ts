@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // 플랫폼별 ffmpeg 실행 파일 경로를 런타임에 찾으므로 번들에서 제외 (동영상 포스터 추출)
+  serverExternalPackages: ["@ffmpeg-installer/ffmpeg"],
   images: {
     remotePatterns: [
       { hostname: "img.clerk.com" },
@@ -0,0 +1,29 @@
+-- 게시물 미디어 테이블 (캐러셀 이미지, 게시물당 최대 10장)
+-- posts.image_url은 첫 번째 이미지(커버)로 계속 유지하여 post_stats 뷰와 그리드가 그대로 동작하도록 함
+CREATE TABLE IF NOT EXISTS public.post_media (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts (id) ON DELETE CASCADE,
+  url TEXT NOT NULL,  -- Supabase Storage 공개 URL
+  storage_path TEXT,  -- Storage 내부 경로 (삭제용, 외부 URL이면 NULL)
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 10),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (post_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_media_post_id ON public.post_media (post_id);
+
+-- 기존 게시물의 단일 이미지를 첫 번째 미디어로 옮겨둠
+INSERT INTO public.post_media (post_id, url, position)
+SELECT p.id, p.image_url, 0
+FROM public.posts p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.post_media m WHERE m.post_id = p.id
+);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_media DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_media TO anon;
+GRANT ALL ON TABLE public.post_media TO authenticated;
+GRANT ALL ON TABLE public.post_media TO service_role;
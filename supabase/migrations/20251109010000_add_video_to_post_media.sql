@@ -0,0 +1,13 @@
+-- 동영상 게시물 지원 (MP4/WebM, 게시물당 동영상 1개)
+-- 동영상 게시물은 posts.image_url에 포스터 프레임 URL을 저장하여 그리드와 post_stats 뷰가 그대로 동작하도록 함
+ALTER TABLE public.post_media
+  ADD COLUMN IF NOT EXISTS media_type TEXT NOT NULL DEFAULT 'image'
+    CHECK (media_type IN ('image', 'video')),
+  ADD COLUMN IF NOT EXISTS poster_url TEXT,  -- 동영상 포스터 프레임 공개 URL
+  ADD COLUMN IF NOT EXISTS poster_storage_path TEXT,  -- 포스터 Storage 내부 경로 (삭제용)
+  ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC(6, 2);  -- 서버에서 컨테이너 헤더로 확인한 재생 시간
+
+-- 동영상 업로드를 위해 버킷 파일 크기 제한 상향 (50MB)
+UPDATE storage.buckets
+SET file_size_limit = 52428800
+WHERE id = 'uploads';
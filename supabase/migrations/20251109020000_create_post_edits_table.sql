@@ -0,0 +1,43 @@
+-- 게시물 캡션 수정 기능
+-- posts.edited_at: 마지막 캡션 수정 시각 ("수정됨" 표시용, updated_at과 달리 캡션 수정 시에만 갱신)
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- 수정 이력 테이블 (수정 직전의 캡션을 한 건씩 보관)
+CREATE TABLE IF NOT EXISTS public.post_edits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts (id) ON DELETE CASCADE,
+  editor_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  caption TEXT,  -- 수정 전 캡션
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL  -- 수정 시각
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_edits_post_id ON public.post_edits (post_id, created_at DESC);
+
+-- post_stats 뷰에 edited_at 추가 (기존 컬럼 뒤에 추가)
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_edits DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_edits TO anon;
+GRANT ALL ON TABLE public.post_edits TO authenticated;
+GRANT ALL ON TABLE public.post_edits TO service_role;
@@ -0,0 +1,47 @@
+-- 게시물 임시저장 (서버 보관)
+-- 업로드된 미디어와 캡션/멘션 상태를 보관하고, 게시 시 미디어를 다시 업로드하지 않고 게시물로 전환
+CREATE TABLE IF NOT EXISTS public.drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  caption TEXT,  -- 해시태그는 캡션에서 다시 추출
+  mentions JSONB DEFAULT '[]'::jsonb NOT NULL,  -- [{ mentioned_user_id, display_text, clerk_id, name }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 임시저장 미디어 (post_media와 동일한 구조)
+CREATE TABLE IF NOT EXISTS public.draft_media (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  draft_id UUID NOT NULL REFERENCES public.drafts (id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  storage_path TEXT,
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 10),
+  media_type TEXT NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video')),
+  poster_url TEXT,
+  poster_storage_path TEXT,
+  duration_seconds NUMERIC(6, 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_drafts_user_id ON public.drafts (user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_draft_media_draft_id ON public.draft_media (draft_id);
+
+-- updated_at 자동 업데이트
+DROP TRIGGER IF EXISTS set_updated_at_drafts ON public.drafts;
+CREATE TRIGGER set_updated_at_drafts
+  BEFORE UPDATE ON public.drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.drafts DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.draft_media DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.drafts TO anon;
+GRANT ALL ON TABLE public.drafts TO authenticated;
+GRANT ALL ON TABLE public.drafts TO service_role;
+
+GRANT ALL ON TABLE public.draft_media TO anon;
+GRANT ALL ON TABLE public.draft_media TO authenticated;
+GRANT ALL ON TABLE public.draft_media TO service_role;
@@ -0,0 +1,54 @@
+-- 게시물 예약 게시
+-- status: 'scheduled'(예약됨, 피드/프로필/통계에서 제외) → 'published'(게시됨)
+-- publish_at: 예약 게시 시각 (즉시 게시한 게시물은 NULL)
+-- pending_mentions: 게시 시점에 저장할 멘션 ([{ mentioned_user_id, display_text }])
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('scheduled', 'published')),
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS pending_mentions JSONB;
+
+-- 게시 워커가 게시 시각이 지난 예약 게시물을 찾을 때 사용
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_publish_at
+  ON public.posts (publish_at)
+  WHERE status = 'scheduled';
+
+-- post_stats 뷰: 게시된 게시물만 포함
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+WHERE p.status = 'published'
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at;
+
+-- user_stats 뷰: 게시물 수에서 예약 게시물 제외
+CREATE OR REPLACE VIEW public.user_stats AS
+SELECT
+  u.id AS user_id,
+  u.clerk_id,
+  u.name,
+  COUNT(DISTINCT p.id) AS posts_count,
+  COUNT(DISTINCT f1.id) AS followers_count,
+  COUNT(DISTINCT f2.id) AS following_count
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id AND p.status = 'published'
+LEFT JOIN public.follows f1 ON u.id = f1.following_id
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id
+GROUP BY u.id, u.clerk_id, u.name;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
@@ -0,0 +1,55 @@
+-- 게시물 운동 기록 (구조화된 루틴)
+-- workouts: 게시물당 하나 (총 운동 시간)
+-- workout_exercises: 운동 종목 (순서 유지)
+-- workout_sets: 종목별 세트 (반복 횟수, 중량, 시간)
+CREATE TABLE IF NOT EXISTS public.workouts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts (id) ON DELETE CASCADE,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR (duration_minutes > 0 AND duration_minutes <= 1440)),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.workout_exercises (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workout_id UUID NOT NULL REFERENCES public.workouts (id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position >= 0),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (workout_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.workout_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  exercise_id UUID NOT NULL REFERENCES public.workout_exercises (id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position >= 0),
+  reps INTEGER CHECK (reps IS NULL OR reps > 0),
+  weight_kg NUMERIC(6, 2) CHECK (weight_kg IS NULL OR weight_kg >= 0),
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (exercise_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_exercises_workout_id ON public.workout_exercises (workout_id);
+CREATE INDEX IF NOT EXISTS idx_workout_sets_exercise_id ON public.workout_sets (exercise_id);
+
+-- 임시저장에도 운동 기록 보관 (게시 시 테이블로 저장)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS workout JSONB;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.workouts DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workout_exercises DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workout_sets DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.workouts TO anon;
+GRANT ALL ON TABLE public.workouts TO authenticated;
+GRANT ALL ON TABLE public.workouts TO service_role;
+
+GRANT ALL ON TABLE public.workout_exercises TO anon;
+GRANT ALL ON TABLE public.workout_exercises TO authenticated;
+GRANT ALL ON TABLE public.workout_exercises TO service_role;
+
+GRANT ALL ON TABLE public.workout_sets TO anon;
+GRANT ALL ON TABLE public.workout_sets TO authenticated;
+GRANT ALL ON TABLE public.workout_sets TO service_role;
@@ -0,0 +1,6 @@
+-- 게시물 미디어 대체 텍스트 (스크린 리더용 이미지 설명)
+ALTER TABLE public.post_media
+  ADD COLUMN IF NOT EXISTS alt_text TEXT CHECK (alt_text IS NULL OR char_length(alt_text) <= 500);
+
+ALTER TABLE public.draft_media
+  ADD COLUMN IF NOT EXISTS alt_text TEXT CHECK (alt_text IS NULL OR char_length(alt_text) <= 500);
@@ -0,0 +1,31 @@
+-- 게시물 화면 비율 (캐러셀 전체에 같은 비율 적용)
+-- '1:1'(정사각형), '4:5'(세로), '1.91:1'(가로)
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NOT NULL DEFAULT '1:1'
+    CHECK (aspect_ratio IN ('1:1', '4:5', '1.91:1'));
+
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NOT NULL DEFAULT '1:1'
+    CHECK (aspect_ratio IN ('1:1', '4:5', '1.91:1'));
+
+-- post_stats 뷰에 aspect_ratio 추가 (기존 컬럼 순서 유지, 마지막에 추가)
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at,
+  p.aspect_ratio
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+WHERE p.status = 'published'
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at, p.aspect_ratio;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
@@ -0,0 +1,15 @@
+-- 게시물 미디어 리사이즈 이미지 및 저화질 미리보기
+-- width / height: 이미지(동영상은 포스터) 원본 크기
+-- placeholder: 로딩 중 표시할 저화질 미리보기 (data:image/webp;base64,...)
+-- variants: 너비별 리사이즈 이미지 ([{ width, webp_url, jpeg_url }], 너비 오름차순)
+ALTER TABLE public.post_media
+  ADD COLUMN IF NOT EXISTS width INTEGER,
+  ADD COLUMN IF NOT EXISTS height INTEGER,
+  ADD COLUMN IF NOT EXISTS placeholder TEXT,
+  ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.draft_media
+  ADD COLUMN IF NOT EXISTS width INTEGER,
+  ADD COLUMN IF NOT EXISTS height INTEGER,
+  ADD COLUMN IF NOT EXISTS placeholder TEXT,
+  ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'::jsonb;
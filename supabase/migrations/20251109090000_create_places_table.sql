@@ -0,0 +1,53 @@
+-- 장소 디렉터리 (헬스장, 러닝 코스 등)
+-- 게시물 작성 시 장소 검색 후 태그, 없으면 사용자가 추가
+CREATE TABLE IF NOT EXISTS public.places (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  address TEXT CHECK (address IS NULL OR char_length(address) <= 200),
+  latitude NUMERIC(9, 6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude NUMERIC(9, 6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_places_name ON public.places (name);
+
+-- 게시물/임시저장 장소 태그 (장소가 삭제되면 태그만 해제)
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES public.places (id) ON DELETE SET NULL;
+
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES public.places (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_place_id ON public.posts (place_id, created_at DESC);
+
+-- post_stats 뷰에 place_id 추가 (기존 컬럼 순서 유지, 마지막에 추가)
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at,
+  p.aspect_ratio,
+  p.place_id
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+WHERE p.status = 'published'
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at, p.aspect_ratio, p.place_id;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.places DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.places TO anon;
+GRANT ALL ON TABLE public.places TO authenticated;
+GRANT ALL ON TABLE public.places TO service_role;
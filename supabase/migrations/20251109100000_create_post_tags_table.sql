@@ -0,0 +1,27 @@
+-- 사진 속 사람 태그
+-- 미디어 순서(media_position)와 이미지 내 위치(x, y: 0~1 비율)로 저장
+CREATE TABLE IF NOT EXISTS public.post_tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts (id) ON DELETE CASCADE,
+  media_position SMALLINT NOT NULL CHECK (media_position >= 0),
+  tagged_user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  x NUMERIC(5, 4) NOT NULL CHECK (x BETWEEN 0 AND 1),
+  y NUMERIC(5, 4) NOT NULL CHECK (y BETWEEN 0 AND 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (post_id, media_position, tagged_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_tags_post_id ON public.post_tags (post_id);
+CREATE INDEX IF NOT EXISTS idx_post_tags_tagged_user_id ON public.post_tags (tagged_user_id, created_at DESC);
+
+-- 임시저장에도 사람 태그 보관 (게시 시 테이블로 저장)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_tags DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_tags TO anon;
+GRANT ALL ON TABLE public.post_tags TO authenticated;
+GRANT ALL ON TABLE public.post_tags TO service_role;
@@ -0,0 +1,60 @@
+-- 공동 작성 게시물 (공동 작성자 초대)
+-- status: 'pending'(초대됨) → 'accepted'(수락, 두 사용자 프로필에 표시) 또는 'declined'(거절)
+CREATE TABLE IF NOT EXISTS public.post_collaborators (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (post_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_collaborators_post_id ON public.post_collaborators (post_id);
+CREATE INDEX IF NOT EXISTS idx_post_collaborators_user_status
+  ON public.post_collaborators (user_id, status, created_at DESC);
+
+-- 임시저장에도 초대할 공동 작성자 보관 (게시 시 초대)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS collaborators JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- user_stats 뷰: 수락한 공동 작성 게시물도 게시물 수에 포함
+CREATE OR REPLACE VIEW public.user_stats AS
+SELECT
+  u.id AS user_id,
+  u.clerk_id,
+  u.name,
+  (
+    SELECT COUNT(*)
+    FROM public.posts p
+    WHERE p.status = 'published'
+      AND (
+        p.user_id = u.id
+        OR EXISTS (
+          SELECT 1
+          FROM public.post_collaborators pc
+          WHERE pc.post_id = p.id
+            AND pc.user_id = u.id
+            AND pc.status = 'accepted'
+        )
+      )
+  ) AS posts_count,
+  COUNT(DISTINCT f1.id) AS followers_count,
+  COUNT(DISTINCT f2.id) AS following_count
+FROM public.users u
+LEFT JOIN public.follows f1 ON u.id = f1.following_id
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id
+GROUP BY u.id, u.clerk_id, u.name;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_collaborators DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_collaborators TO anon;
+GRANT ALL ON TABLE public.post_collaborators TO authenticated;
+GRANT ALL ON TABLE public.post_collaborators TO service_role;
+
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
@@ -0,0 +1,17 @@
+-- 게시물 보관 (삭제 대신 숨김)
+-- status: 'archived'(보관됨, 피드/해시태그/프로필/통계에서 제외, 좋아요와 댓글은 유지)
+-- archived_at: 보관한 시각 (복원하면 NULL)
+ALTER TABLE public.posts
+  DROP CONSTRAINT IF EXISTS posts_status_check;
+
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_status_check
+    CHECK (status IN ('scheduled', 'published', 'archived'));
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- 보관함 목록 조회 (최근 보관순)
+CREATE INDEX IF NOT EXISTS idx_posts_archived
+  ON public.posts (user_id, archived_at DESC)
+  WHERE status = 'archived';
@@ -0,0 +1,36 @@
+-- 게시물별 공개 설정
+-- hide_like_count: 좋아요 수 숨기기 (작성자만 좋아요 수 확인 가능)
+-- comments_disabled: 댓글 기능 해제 (새 댓글 작성 불가, 기존 댓글은 유지)
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS hide_like_count BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS comments_disabled BOOLEAN DEFAULT false NOT NULL;
+
+-- 임시저장에도 설정 보관 (게시할 때 그대로 적용)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS hide_like_count BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS comments_disabled BOOLEAN DEFAULT false NOT NULL;
+
+-- post_stats 뷰에 설정 컬럼 추가 (기존 컬럼 순서 유지, 마지막에 추가)
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at,
+  p.aspect_ratio,
+  p.place_id,
+  p.hide_like_count,
+  p.comments_disabled
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+WHERE p.status = 'published'
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at, p.aspect_ratio, p.place_id, p.hide_like_count, p.comments_disabled;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
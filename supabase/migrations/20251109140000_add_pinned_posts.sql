@@ -0,0 +1,34 @@
+-- 프로필 상단 고정 게시물 (사용자당 최대 3개, API에서 제한)
+-- pinned_at: 고정한 시각 (고정 해제하거나 보관하면 NULL), 최근 고정순으로 프로필 맨 앞에 표시
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_posts_pinned
+  ON public.posts (user_id, pinned_at DESC)
+  WHERE pinned_at IS NOT NULL;
+
+-- post_stats 뷰에 pinned_at 추가 (기존 컬럼 순서 유지, 마지막에 추가)
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+  p.id AS post_id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  COUNT(DISTINCT l.id) AS likes_count,
+  COUNT(DISTINCT c.id) AS comments_count,
+  p.edited_at,
+  p.aspect_ratio,
+  p.place_id,
+  p.hide_like_count,
+  p.comments_disabled,
+  p.pinned_at
+FROM public.posts p
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+WHERE p.status = 'published'
+GROUP BY p.id, p.user_id, p.image_url, p.caption, p.created_at, p.edited_at, p.aspect_ratio, p.place_id, p.hide_like_count, p.comments_disabled, p.pinned_at;
+
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
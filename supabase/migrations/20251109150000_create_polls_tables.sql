@@ -0,0 +1,53 @@
+-- 게시물 투표
+-- polls: 게시물당 하나 (마감 시각, 마감 후에는 결과만 표시)
+-- poll_options: 선택지 2~4개 (순서 유지)
+-- poll_votes: 사용자당 투표 하나 (변경 불가)
+CREATE TABLE IF NOT EXISTS public.polls (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts (id) ON DELETE CASCADE,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES public.polls (id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 4),
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES public.polls (id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES public.poll_options (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll_id ON public.poll_options (poll_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_id ON public.poll_votes (poll_id);
+
+-- 임시저장에도 투표 보관 (게시 시 테이블로 저장, 마감 시각은 게시 시각 기준)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS poll JSONB;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.polls DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.polls TO anon;
+GRANT ALL ON TABLE public.polls TO authenticated;
+GRANT ALL ON TABLE public.polls TO service_role;
+
+GRANT ALL ON TABLE public.poll_options TO anon;
+GRANT ALL ON TABLE public.poll_options TO authenticated;
+GRANT ALL ON TABLE public.poll_options TO service_role;
+
+GRANT ALL ON TABLE public.poll_votes TO anon;
+GRANT ALL ON TABLE public.poll_votes TO authenticated;
+GRANT ALL ON TABLE public.poll_votes TO service_role;
@@ -0,0 +1,25 @@
+-- 전/후 비교(before/after) 게시물
+-- 이미지 2장(첫 번째 = 전, 두 번째 = 후)에 각각 날짜와 체중 라벨(선택)을 붙임
+-- 이 테이블에 행이 있는 게시물이 전/후 비교 게시물 (게시물당 하나)
+CREATE TABLE IF NOT EXISTS public.post_before_after (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts (id) ON DELETE CASCADE,
+  before_date DATE,
+  before_weight_kg NUMERIC(4, 1) CHECK (before_weight_kg IS NULL OR before_weight_kg BETWEEN 20 AND 300),
+  after_date DATE,
+  after_weight_kg NUMERIC(4, 1) CHECK (after_weight_kg IS NULL OR after_weight_kg BETWEEN 20 AND 300),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (before_date IS NULL OR after_date IS NULL OR before_date <= after_date)
+);
+
+-- 임시저장에도 전/후 라벨 보관 (게시 시 테이블로 저장)
+ALTER TABLE public.drafts
+  ADD COLUMN IF NOT EXISTS before_after JSONB;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_before_after DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_before_after TO anon;
+GRANT ALL ON TABLE public.post_before_after TO authenticated;
+GRANT ALL ON TABLE public.post_before_after TO service_role;
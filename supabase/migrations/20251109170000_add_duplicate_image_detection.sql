@@ -0,0 +1,70 @@
+-- 중복/재업로드 이미지 감지
+-- 이미지(동영상 포스터 포함)마다 64비트 perceptual hash(dHash)를 16자리 16진수로 저장
+-- 다른 사용자의 게시물 이미지와 해밍 거리가 가까우면 업로드 차단 또는 표시(flag)
+ALTER TABLE public.post_media
+  ADD COLUMN IF NOT EXISTS perceptual_hash TEXT CHECK (perceptual_hash IS NULL OR perceptual_hash ~ '^[0-9a-f]{16}$');
+
+-- 임시저장 미디어에도 보관 (게시할 때 post_media로 옮기고 중복 검사)
+ALTER TABLE public.draft_media
+  ADD COLUMN IF NOT EXISTS perceptual_hash TEXT CHECK (perceptual_hash IS NULL OR perceptual_hash ~ '^[0-9a-f]{16}$');
+
+-- 중복 감지 기록 (관리자 확인용)
+-- action: 'blocked' (업로드 차단, post_id 없음) / 'flagged' (게시는 허용하고 기록만)
+CREATE TABLE IF NOT EXISTS public.duplicate_image_matches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  uploader_user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  post_id UUID REFERENCES public.posts (id) ON DELETE SET NULL,
+  media_position SMALLINT NOT NULL,
+  matched_post_id UUID NOT NULL REFERENCES public.posts (id) ON DELETE CASCADE,
+  matched_media_id UUID REFERENCES public.post_media (id) ON DELETE SET NULL,
+  distance SMALLINT NOT NULL CHECK (distance >= 0 AND distance <= 64),
+  action TEXT NOT NULL CHECK (action IN ('blocked', 'flagged')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_image_matches_created_at
+  ON public.duplicate_image_matches (created_at DESC);
+
+-- 다른 사용자의 게시된 게시물에서 비슷한 이미지 검색
+-- p_hashes 순서(0부터)를 media_position으로 반환, 해밍 거리가 가까운 순
+CREATE OR REPLACE FUNCTION public.find_similar_post_media(
+  p_hashes TEXT[],
+  p_exclude_user_id UUID,
+  p_max_distance INTEGER
+)
+RETURNS TABLE (
+  media_position INTEGER,
+  post_id UUID,
+  media_id UUID,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT matches.media_position, matches.post_id, matches.media_id, matches.distance
+  FROM (
+    SELECT
+      (h.ordinality - 1)::INTEGER AS media_position,
+      m.post_id,
+      m.id AS media_id,
+      bit_count(('x' || m.perceptual_hash)::BIT(64) # ('x' || h.hash)::BIT(64))::INTEGER AS distance
+    FROM unnest(p_hashes) WITH ORDINALITY AS h (hash, ordinality)
+    JOIN public.post_media m ON m.perceptual_hash IS NOT NULL
+    JOIN public.posts p ON p.id = m.post_id
+    WHERE h.hash IS NOT NULL
+      AND p.user_id <> p_exclude_user_id
+      AND p.status = 'published'
+  ) AS matches
+  WHERE matches.distance <= p_max_distance
+  ORDER BY matches.distance, matches.media_position;
+$$;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.duplicate_image_matches DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.duplicate_image_matches TO anon;
+GRANT ALL ON TABLE public.duplicate_image_matches TO authenticated;
+GRANT ALL ON TABLE public.duplicate_image_matches TO service_role;
+
+GRANT EXECUTE ON FUNCTION public.find_similar_post_media(TEXT[], UUID, INTEGER) TO service_role;
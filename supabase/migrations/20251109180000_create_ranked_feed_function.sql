@@ -0,0 +1,108 @@
+-- 추천(For you) 피드 순위 계산
+-- 후보: p_as_of 기준 p_window_hours 이내에 올라온 게시된 게시물
+-- 점수 = 가중치(서버 환경 변수) × 아래 항목의 합
+--   - 최신성: 0.5 ^ (경과 시간 / p_recency_half_life_hours)
+--   - 참여 속도: ln(1 + (좋아요 + 댓글) / 경과 시간(최소 1시간))
+--   - 팔로우: 내가 팔로우한 작성자의 게시물이면 1
+--   - 관심 해시태그: 내가 좋아요/댓글을 남긴 게시물의 해시태그와 겹치는 개수 n → ln(1 + n)
+-- 좋아요/댓글/팔로우는 p_as_of 이전 것만 반영하므로 같은 p_as_of로 다음 페이지를 요청하면 순서가 유지됨
+-- p_viewer_id가 NULL(비로그인)이면 팔로우, 관심 해시태그 점수는 0
+-- p_after_score / p_after_post_id: 이전 페이지 마지막 게시물 (점수 역순, 같으면 id 역순)
+CREATE OR REPLACE FUNCTION public.rank_feed_posts(
+  p_viewer_id UUID,
+  p_as_of TIMESTAMP WITH TIME ZONE,
+  p_window_hours INTEGER,
+  p_recency_half_life_hours DOUBLE PRECISION,
+  p_weight_recency DOUBLE PRECISION,
+  p_weight_engagement DOUBLE PRECISION,
+  p_weight_following DOUBLE PRECISION,
+  p_weight_hashtag DOUBLE PRECISION,
+  p_after_score NUMERIC,
+  p_after_post_id UUID,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  post_id UUID,
+  score NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      p.id,
+      p.user_id,
+      GREATEST(EXTRACT(EPOCH FROM (p_as_of - p.created_at)) / 3600.0, 0)::DOUBLE PRECISION AS age_hours
+    FROM public.posts p
+    WHERE p.status = 'published'
+      AND p.created_at <= p_as_of
+      AND p.created_at > p_as_of - make_interval(hours => p_window_hours)
+  ),
+  interactions AS (
+    SELECT
+      c.id,
+      (SELECT COUNT(*) FROM public.likes l WHERE l.post_id = c.id AND l.created_at <= p_as_of)
+        + (SELECT COUNT(*) FROM public.comments cm WHERE cm.post_id = c.id AND cm.created_at <= p_as_of)
+        AS total
+    FROM candidates c
+  ),
+  followed AS (
+    SELECT f.following_id
+    FROM public.follows f
+    WHERE f.follower_id = p_viewer_id
+      AND f.created_at <= p_as_of
+  ),
+  interest_hashtags AS (
+    SELECT DISTINCT ph.hashtag_id
+    FROM public.post_hashtags ph
+    WHERE ph.post_id IN (
+      SELECT l.post_id FROM public.likes l
+      WHERE l.user_id = p_viewer_id AND l.created_at <= p_as_of
+      UNION
+      SELECT cm.post_id FROM public.comments cm
+      WHERE cm.user_id = p_viewer_id AND cm.created_at <= p_as_of
+    )
+  ),
+  hashtag_matches AS (
+    SELECT ph.post_id, COUNT(*) AS total
+    FROM public.post_hashtags ph
+    JOIN interest_hashtags ih ON ih.hashtag_id = ph.hashtag_id
+    WHERE ph.post_id IN (SELECT id FROM candidates)
+    GROUP BY ph.post_id
+  ),
+  scored AS (
+    SELECT
+      c.id AS post_id,
+      -- 다음 페이지 비교가 흔들리지 않도록 소수점 6자리로 고정
+      ROUND((
+        p_weight_recency * POWER(0.5, c.age_hours / p_recency_half_life_hours)
+        + p_weight_engagement * LN(1 + i.total / GREATEST(c.age_hours, 1))
+        + p_weight_following * (CASE WHEN c.user_id IN (SELECT following_id FROM followed) THEN 1 ELSE 0 END)
+        + p_weight_hashtag * LN(1 + COALESCE(hm.total, 0)::DOUBLE PRECISION)
+      )::NUMERIC, 6) AS score
+    FROM candidates c
+    JOIN interactions i ON i.id = c.id
+    LEFT JOIN hashtag_matches hm ON hm.post_id = c.id
+  )
+  SELECT s.post_id, s.score
+  FROM scored s
+  WHERE p_after_post_id IS NULL
+    OR s.score < p_after_score
+    OR (s.score = p_after_score AND s.post_id < p_after_post_id)
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT p_limit;
+$$;
+
+-- 권한 부여 (게시물 목록은 공개 클라이언트로 조회)
+GRANT EXECUTE ON FUNCTION public.rank_feed_posts(
+  UUID, TIMESTAMP WITH TIME ZONE, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, UUID, INTEGER
+) TO anon;
+GRANT EXECUTE ON FUNCTION public.rank_feed_posts(
+  UUID, TIMESTAMP WITH TIME ZONE, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, UUID, INTEGER
+) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rank_feed_posts(
+  UUID, TIMESTAMP WITH TIME ZONE, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, UUID, INTEGER
+) TO service_role;
@@ -0,0 +1,103 @@
+-- 탐색 탭 인기 게시물 / 인기 해시태그
+-- 최근 p_window_hours 동안(p_as_of 기준 슬라이딩 윈도우)의 반응으로 계산
+--   - 좋아요 1점, 댓글 2점, (해시태그만) 새 게시물 3점
+
+-- 인기 게시물: 내 게시물과 내가 팔로우한 계정의 게시물은 제외 (p_viewer_id가 NULL이면 제외 없음)
+-- p_after_score / p_after_post_id: 이전 페이지 마지막 게시물 (점수 역순, 같으면 id 역순)
+CREATE OR REPLACE FUNCTION public.trending_posts(
+  p_viewer_id UUID,
+  p_as_of TIMESTAMP WITH TIME ZONE,
+  p_window_hours INTEGER,
+  p_after_score NUMERIC,
+  p_after_post_id UUID,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  post_id UUID,
+  score NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH activity AS (
+    SELECT l.post_id, 1 AS points
+    FROM public.likes l
+    WHERE l.created_at > p_as_of - make_interval(hours => p_window_hours)
+      AND l.created_at <= p_as_of
+    UNION ALL
+    SELECT cm.post_id, 2 AS points
+    FROM public.comments cm
+    WHERE cm.created_at > p_as_of - make_interval(hours => p_window_hours)
+      AND cm.created_at <= p_as_of
+  ),
+  scored AS (
+    SELECT a.post_id, SUM(a.points)::NUMERIC AS score
+    FROM activity a
+    JOIN public.posts p ON p.id = a.post_id
+    WHERE p.status = 'published'
+      AND (
+        p_viewer_id IS NULL
+        OR (
+          p.user_id <> p_viewer_id
+          AND p.user_id NOT IN (
+            SELECT f.following_id FROM public.follows f WHERE f.follower_id = p_viewer_id
+          )
+        )
+      )
+    GROUP BY a.post_id
+  )
+  SELECT s.post_id, s.score
+  FROM scored s
+  WHERE p_after_post_id IS NULL
+    OR s.score < p_after_score
+    OR (s.score = p_after_score AND s.post_id < p_after_post_id)
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT p_limit;
+$$;
+
+-- 인기 해시태그: 윈도우 안에서 반응이 있었던 게시물의 해시태그별 점수 합
+-- posts_count: 윈도우 안에서 반응이 있었던 해당 해시태그 게시물 수
+CREATE OR REPLACE FUNCTION public.trending_hashtags(
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  hashtag_id UUID,
+  tag TEXT,
+  posts_count BIGINT,
+  score BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH activity AS (
+    SELECT l.post_id, 1 AS points
+    FROM public.likes l
+    WHERE l.created_at > p_since
+    UNION ALL
+    SELECT cm.post_id, 2 AS points
+    FROM public.comments cm
+    WHERE cm.created_at > p_since
+    UNION ALL
+    SELECT p.id AS post_id, 3 AS points
+    FROM public.posts p
+    WHERE p.created_at > p_since
+  )
+  SELECT h.id AS hashtag_id, h.tag, COUNT(DISTINCT a.post_id) AS posts_count, SUM(a.points) AS score
+  FROM activity a
+  JOIN public.posts p ON p.id = a.post_id AND p.status = 'published'
+  JOIN public.post_hashtags ph ON ph.post_id = a.post_id
+  JOIN public.hashtags h ON h.id = ph.hashtag_id
+  GROUP BY h.id, h.tag
+  ORDER BY score DESC, posts_count DESC, h.tag
+  LIMIT p_limit;
+$$;
+
+-- 권한 부여 (탐색 탭은 공개 클라이언트로 조회)
+GRANT EXECUTE ON FUNCTION public.trending_posts(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, NUMERIC, UUID, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.trending_posts(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, NUMERIC, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.trending_posts(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, NUMERIC, UUID, INTEGER) TO service_role;
+
+GRANT EXECUTE ON FUNCTION public.trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
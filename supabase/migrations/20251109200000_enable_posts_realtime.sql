@@ -0,0 +1,15 @@
+-- 홈 피드 새 게시물 알림 (Supabase Realtime)
+-- posts 테이블의 INSERT를 클라이언트에 전달하도록 supabase_realtime 발행 대상에 추가
+-- 이미 추가되어 있으면 건너뜀
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'posts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.posts;
+  END IF;
+END $$;
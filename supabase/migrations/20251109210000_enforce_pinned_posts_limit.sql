@@ -0,0 +1,38 @@
+-- 고정 게시물 최대 개수(사용자당 3개)를 DB에서 보장
+-- API에서 개수를 센 뒤 고정하면 동시 요청이 모두 통과할 수 있으므로 트리거에서 검사
+--   - 같은 사용자의 고정을 users 행 잠금으로 순서대로 처리한 뒤 개수 확인
+--   - 초과하면 check_violation(23514) 오류 (API에서 400으로 변환)
+CREATE OR REPLACE FUNCTION public.enforce_pinned_posts_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.pinned_at IS NULL OR NEW.status <> 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.pinned_at IS NOT NULL AND OLD.status = 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.users WHERE id = NEW.user_id FOR UPDATE;
+
+  IF (
+    SELECT COUNT(*)
+    FROM public.posts
+    WHERE user_id = NEW.user_id
+      AND id <> NEW.id
+      AND status = 'published'
+      AND pinned_at IS NOT NULL
+  ) >= 3 THEN
+    RAISE EXCEPTION 'pinned posts limit reached'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_pinned_posts_limit ON public.posts;
+CREATE TRIGGER enforce_pinned_posts_limit
+  BEFORE INSERT OR UPDATE OF pinned_at, status ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pinned_posts_limit();
@@ -0,0 +1,11 @@
+-- 원본 게시물이 삭제되어도 중복 감지 기록 유지 (관리자 확인용)
+-- matched_post_id: 원본 게시물이 삭제되면 NULL (기존에는 기록까지 함께 삭제)
+ALTER TABLE public.duplicate_image_matches
+  ALTER COLUMN matched_post_id DROP NOT NULL;
+
+ALTER TABLE public.duplicate_image_matches
+  DROP CONSTRAINT IF EXISTS duplicate_image_matches_matched_post_id_fkey;
+
+ALTER TABLE public.duplicate_image_matches
+  ADD CONSTRAINT duplicate_image_matches_matched_post_id_fkey
+  FOREIGN KEY (matched_post_id) REFERENCES public.posts (id) ON DELETE SET NULL;
@@ -0,0 +1,74 @@
+-- 홈 피드 새 게시물 알림을 게시물 ID만 전달하도록 변경 (Supabase Realtime)
+-- 기존: posts 테이블 전체를 발행해 예약 게시물의 캡션/이미지/멘션까지 구독자에게 전달되고,
+--       예약 게시물이 게시되는 UPDATE는 알림이 가지 않음
+-- 변경: 게시 시점에 post_publish_events에 게시물 ID만 기록하고 이 테이블만 발행
+--   - 바로 게시(INSERT, status = 'published')와 예약 게시물 게시(UPDATE, scheduled → published) 모두 기록
+--   - 보관 후 복원(archived → published)은 새 게시물이 아니므로 제외
+CREATE TABLE IF NOT EXISTS public.post_publish_events (
+  post_id UUID PRIMARY KEY REFERENCES public.posts (id) ON DELETE CASCADE,
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_publish_events_published_at
+  ON public.post_publish_events (published_at);
+
+-- 게시 이벤트 기록 (알림 전달용이므로 하루 지난 기록은 함께 정리)
+CREATE OR REPLACE FUNCTION public.record_post_publish_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.post_publish_events
+  WHERE published_at < now() - INTERVAL '1 day';
+
+  INSERT INTO public.post_publish_events (post_id)
+  VALUES (NEW.id)
+  ON CONFLICT (post_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_post_publish_event ON public.posts;
+CREATE TRIGGER record_post_publish_event
+  AFTER INSERT OR UPDATE OF status ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_post_publish_event();
+
+-- 발행 대상 교체: posts 제외, post_publish_events 추가
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'posts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE public.posts;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'post_publish_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.post_publish_events;
+  END IF;
+END $$;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_publish_events DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (클라이언트는 구독만, 기록은 트리거에서)
+GRANT SELECT ON TABLE public.post_publish_events TO anon;
+GRANT SELECT ON TABLE public.post_publish_events TO authenticated;
+GRANT ALL ON TABLE public.post_publish_events TO service_role;
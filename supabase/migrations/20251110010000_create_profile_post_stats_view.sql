@@ -0,0 +1,22 @@
+-- 프로필 그리드용 게시물 뷰 (본인 게시물 + 수락한 공동 작성 게시물)
+-- profile_user_id: 게시물이 표시될 프로필의 사용자 (작성자, 수락한 공동 작성자)
+-- 공동 작성 게시물 ID 목록을 요청 URL에 넣지 않고 profile_user_id 하나로 서버에서 필터링
+-- 컬럼은 post_stats와 같음 (post_stats 뷰를 바꾸면 이 뷰도 다시 만들어야 함)
+CREATE OR REPLACE VIEW public.profile_post_stats AS
+SELECT
+  s.user_id AS profile_user_id,
+  s.*
+FROM public.post_stats s
+UNION ALL
+SELECT
+  pc.user_id AS profile_user_id,
+  s.*
+FROM public.post_stats s
+JOIN public.post_collaborators pc
+  ON pc.post_id = s.post_id
+  AND pc.status = 'accepted'
+  AND pc.user_id <> s.user_id;
+
+GRANT SELECT ON public.profile_post_stats TO anon;
+GRANT SELECT ON public.profile_post_stats TO authenticated;
+GRANT SELECT ON public.profile_post_stats TO service_role;
@@ -0,0 +1,107 @@
+-- 중복 이미지 검색을 인덱스로 후보를 좁힌 뒤 해밍 거리 계산 (multi-index hashing)
+-- 기존: 업로드마다 해시가 있는 모든 post_media 행과 해밍 거리를 계산 (전체 스캔)
+-- 변경: 64비트 해시를 16비트 구간 4개로 나누어 구간별 btree 인덱스로 후보 검색
+--   - 해밍 거리가 d 이하이면 적어도 한 구간은 d / 4(내림) 비트 이하로 다름 (비둘기집 원리)
+--   - 업로드 해시의 각 구간에서 그만큼 비트를 바꾼 값들만 인덱스로 조회 → 후보만 거리 계산
+--   - 결과는 기존 함수와 같음 (후보를 빠짐없이 찾음)
+ALTER TABLE public.post_media
+  ADD COLUMN IF NOT EXISTS perceptual_hash_band_0 INTEGER
+    GENERATED ALWAYS AS (('x' || substr(perceptual_hash, 1, 4))::BIT(16)::INTEGER) STORED,
+  ADD COLUMN IF NOT EXISTS perceptual_hash_band_1 INTEGER
+    GENERATED ALWAYS AS (('x' || substr(perceptual_hash, 5, 4))::BIT(16)::INTEGER) STORED,
+  ADD COLUMN IF NOT EXISTS perceptual_hash_band_2 INTEGER
+    GENERATED ALWAYS AS (('x' || substr(perceptual_hash, 9, 4))::BIT(16)::INTEGER) STORED,
+  ADD COLUMN IF NOT EXISTS perceptual_hash_band_3 INTEGER
+    GENERATED ALWAYS AS (('x' || substr(perceptual_hash, 13, 4))::BIT(16)::INTEGER) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_post_media_perceptual_hash_band_0
+  ON public.post_media (perceptual_hash_band_0) WHERE perceptual_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_post_media_perceptual_hash_band_1
+  ON public.post_media (perceptual_hash_band_1) WHERE perceptual_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_post_media_perceptual_hash_band_2
+  ON public.post_media (perceptual_hash_band_2) WHERE perceptual_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_post_media_perceptual_hash_band_3
+  ON public.post_media (perceptual_hash_band_3) WHERE perceptual_hash IS NOT NULL;
+
+-- 다른 사용자의 게시된 게시물에서 비슷한 이미지 검색 (반환 형식은 기존과 같음)
+-- p_hashes 순서(0부터)를 media_position으로 반환, 해밍 거리가 가까운 순
+CREATE OR REPLACE FUNCTION public.find_similar_post_media(
+  p_hashes TEXT[],
+  p_exclude_user_id UUID,
+  p_max_distance INTEGER
+)
+RETURNS TABLE (
+  media_position INTEGER,
+  post_id UUID,
+  media_id UUID,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH hashes AS (
+    SELECT
+      (h.ordinality - 1)::INTEGER AS media_position,
+      h.hash,
+      ('x' || substr(h.hash, 1, 4))::BIT(16)::INTEGER AS band_0,
+      ('x' || substr(h.hash, 5, 4))::BIT(16)::INTEGER AS band_1,
+      ('x' || substr(h.hash, 9, 4))::BIT(16)::INTEGER AS band_2,
+      ('x' || substr(h.hash, 13, 4))::BIT(16)::INTEGER AS band_3
+    FROM unnest(p_hashes) WITH ORDINALITY AS h (hash, ordinality)
+    WHERE h.hash ~ '^[0-9a-f]{16}$'
+  ),
+  -- 한 구간에서 허용하는 비트 차이 (p_max_distance / 4 이하)
+  masks AS (
+    SELECT mask
+    FROM generate_series(0, 65535) AS mask
+    WHERE bit_count(mask::BIT(16)) <= GREATEST(p_max_distance, 0) / 4
+  ),
+  candidates AS (
+    SELECT h.media_position, h.hash, m.id AS media_id
+    FROM hashes h
+    CROSS JOIN masks k
+    JOIN public.post_media m
+      ON m.perceptual_hash_band_0 = (h.band_0 # k.mask) AND m.perceptual_hash IS NOT NULL
+    UNION
+    SELECT h.media_position, h.hash, m.id
+    FROM hashes h
+    CROSS JOIN masks k
+    JOIN public.post_media m
+      ON m.perceptual_hash_band_1 = (h.band_1 # k.mask) AND m.perceptual_hash IS NOT NULL
+    UNION
+    SELECT h.media_position, h.hash, m.id
+    FROM hashes h
+    CROSS JOIN masks k
+    JOIN public.post_media m
+      ON m.perceptual_hash_band_2 = (h.band_2 # k.mask) AND m.perceptual_hash IS NOT NULL
+    UNION
+    SELECT h.media_position, h.hash, m.id
+    FROM hashes h
+    CROSS JOIN masks k
+    JOIN public.post_media m
+      ON m.perceptual_hash_band_3 = (h.band_3 # k.mask) AND m.perceptual_hash IS NOT NULL
+  )
+  SELECT matches.media_position, matches.post_id, matches.media_id, matches.distance
+  FROM (
+    SELECT
+      c.media_position,
+      m.post_id,
+      m.id AS media_id,
+      bit_count(('x' || m.perceptual_hash)::BIT(64) # ('x' || c.hash)::BIT(64))::INTEGER AS distance
+    FROM candidates c
+    JOIN public.post_media m ON m.id = c.media_id
+    JOIN public.posts p ON p.id = m.post_id
+    WHERE p.user_id <> p_exclude_user_id
+      AND p.status = 'published'
+  ) AS matches
+  WHERE matches.distance <= p_max_distance
+  ORDER BY matches.distance, matches.media_position;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_similar_post_media(TEXT[], UUID, INTEGER) TO service_role;
+
+-- 감지 기록은 관리자 전용 (서버의 service_role로만 조회/기록)
+-- 공개 키(anon)나 로그인 사용자 권한으로 읽거나 고치지 못하도록 권한 회수
+REVOKE ALL ON TABLE public.duplicate_image_matches FROM anon;
+REVOKE ALL ON TABLE public.duplicate_image_matches FROM authenticated;
+GRANT ALL ON TABLE public.duplicate_image_matches TO service_role;
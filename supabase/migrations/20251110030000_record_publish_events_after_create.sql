@@ -0,0 +1,40 @@
+-- 새 게시물 알림(post_publish_events)을 게시물 생성이 끝난 뒤에 기록
+-- 기존: posts INSERT 트리거가 빈 posts 행이 생기자마자 기록
+--   → post_media/태그/투표 등을 저장하기 전이거나, 이후 단계 실패로 롤백될 게시물도 구독자에게 알림
+-- 변경:
+--   - 바로 게시: 생성이 모두 끝난 뒤 서버(createPostWithMedia)에서 record_post_publish_event 호출
+--   - 예약 게시물 게시(UPDATE, scheduled → published): 트리거에서 기록 (게시 워커도 처리 후 한 번 더 호출, 중복은 무시)
+
+-- 게시 이벤트 기록 (알림 전달용이므로 하루 지난 기록은 함께 정리)
+CREATE OR REPLACE FUNCTION public.record_post_publish_event(p_post_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  DELETE FROM public.post_publish_events
+  WHERE published_at < now() - INTERVAL '1 day';
+
+  INSERT INTO public.post_publish_events (post_id)
+  VALUES (p_post_id)
+  ON CONFLICT (post_id) DO NOTHING;
+$$;
+
+-- 예약 게시물이 게시될 때만 기록 (INSERT는 서버에서 생성이 끝난 뒤 기록)
+CREATE OR REPLACE FUNCTION public.record_post_publish_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'published' AND OLD.status = 'scheduled' THEN
+    PERFORM public.record_post_publish_event(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_post_publish_event ON public.posts;
+CREATE TRIGGER record_post_publish_event
+  AFTER UPDATE OF status ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_post_publish_event();
+
+-- 권한 부여 (기록은 서버의 service_role로만)
+GRANT EXECUTE ON FUNCTION public.record_post_publish_event(UUID) TO service_role;